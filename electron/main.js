@@ -59,6 +59,8 @@ async function startProductionServer() {
   process.env.PORT = String(NEXT_PORT);
   process.env.HOSTNAME = '127.0.0.1';
   process.env.NODE_ENV = 'production';
+  // The embedded server serves a single local user, so API routes skip account sign-in.
+  process.env.NEXT_DESKTOP = '1';
   process.chdir(standaloneDir);
 
   try {
@@ -1,4 +1,7 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireApiKey } from '@/lib/server/key-vault';
+import { isApiKeyProvider } from '@/lib/api-keys';
 
 /**
  * AI Generation Route
@@ -8,8 +11,11 @@ import { NextResponse } from 'next/server';
  * 3. OpenAI DALL-E 3 (Fallback Remote Provider)
  */
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const { prompt, width, height, serverUrl, provider, apiKey, specificProvider } = await request.json();
+    const { prompt, width, height, serverUrl, provider, specificProvider } = await request.json();
 
     if (provider === 'comfy') {
         const comfyHost = serverUrl || 'http://127.0.0.1:8188';
@@ -99,11 +105,14 @@ export async function POST(request: Request) {
         return NextResponse.json({ success: true, promptId: queueData.prompt_id, provider: 'comfy' });
 
     } else {
-        if (!apiKey) {
-             return NextResponse.json({ success: false, message: 'API Key is required for remote generation.' });
-        }
-        
         const mode = specificProvider || 'stability'; // Default to stability if legacy
+        if (!isApiKeyProvider(mode)) {
+             return NextResponse.json({ success: false, message: `Unknown provider: ${mode}` }, { status: 400 });
+        }
+
+        // Keys come from the user's vault; the client never sends them
+        const apiKey = await requireApiKey(user, mode);
+        if (apiKey instanceof NextResponse) return apiKey;
 
         // --- OPENAI HANDLER ---
         if (mode === 'openai') {
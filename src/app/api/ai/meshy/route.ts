@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireApiKey } from '@/lib/server/key-vault';
 
 const BASE_URL_V1 = 'https://api.meshy.ai/openapi/v1';
 const BASE_URL_V2 = 'https://api.meshy.ai/openapi/v2';
 
 async function handleRequest(req: NextRequest, method: string) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(req.url);
     const endpoint = searchParams.get('endpoint');
@@ -18,10 +23,8 @@ async function handleRequest(req: NextRequest, method: string) {
         baseUrl = BASE_URL_V1;
     }
 
-    const authHeader = req.headers.get('authorization');
-    if (!authHeader) {
-      return NextResponse.json({ message: 'Missing Authorization header' }, { status: 401 });
-    }
+    const apiKey = await requireApiKey(user, 'meshy');
+    if (apiKey instanceof NextResponse) return apiKey;
 
     const apiUrl = `${baseUrl}/${endpoint}`;
 
@@ -29,7 +32,7 @@ async function handleRequest(req: NextRequest, method: string) {
         method,
         headers: {
             'Content-Type': 'application/json',
-            'Authorization': authHeader,
+            'Authorization': `Bearer ${apiKey}`,
         }
     };
 
@@ -1,13 +1,15 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireApiKey } from '@/lib/server/key-vault';
 
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const formData = await request.formData();
-    const apiKey = request.headers.get('Authorization')?.replace('Bearer ', '');
-
-    if (!apiKey) {
-      return NextResponse.json({ success: false, message: 'Missing API Key' }, { status: 401 });
-    }
+    const apiKey = await requireApiKey(user, 'stability');
+    if (apiKey instanceof NextResponse) return apiKey;
 
     // v2beta/stable-image/edit/remove-background
     const response = await fetch('https://api.stability.ai/v2beta/stable-image/edit/remove-background', {
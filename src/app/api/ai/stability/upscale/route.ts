@@ -1,9 +1,15 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireApiKey } from '@/lib/server/key-vault';
 
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const formData = await request.formData();
-    const apiKey = request.headers.get('Authorization')?.replace('Bearer ', '');
+    const apiKey = await requireApiKey(user, 'stability');
+    if (apiKey instanceof NextResponse) return apiKey;
     
     // Upscale type: conservative or creative (comes in formData usually, or we default)
     // Actually URL endpoint differs: 
@@ -16,10 +22,6 @@ export async function POST(request: Request) {
     const url = new URL(request.url);
     const type = url.searchParams.get('type') || 'conservative'; // 'conservative' | 'creative'
 
-    if (!apiKey) {
-      return NextResponse.json({ success: false, message: 'Missing API Key' }, { status: 401 });
-    }
-
     const endpoint = `https://api.stability.ai/v2beta/stable-image/upscale/${type}`;
 
     const response = await fetch(endpoint, {
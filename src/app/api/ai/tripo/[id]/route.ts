@@ -1,22 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireApiKey } from '@/lib/server/key-vault';
 
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { id } = await params;
     console.log(`[Tripo Proxy] Polling ID: ${id}`);
 
-    const authHeader = req.headers.get('authorization');
-
-    if (!authHeader) {
-      return NextResponse.json({ message: 'Missing Authorization header' }, { status: 401 });
-    }
+    const apiKey = await requireApiKey(user, 'tripo');
+    if (apiKey instanceof NextResponse) return apiKey;
 
     const res = await fetch(`https://api.tripo3d.ai/v2/openapi/task/${id}`, {
       headers: {
-        'Authorization': authHeader,
+        'Authorization': `Bearer ${apiKey}`,
       },
     });
 
@@ -1,22 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireApiKey } from '@/lib/server/key-vault';
 
 export async function POST(req: NextRequest) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
   try {
     const body = await req.json();
-    const authHeader = req.headers.get('authorization');
-
-    if (!authHeader) {
-      return NextResponse.json({ message: 'Missing Authorization header' }, { status: 401 });
-    }
-
-    // Log the start of the header to verify transmission
-    console.log("[Tripo Proxy] Auth Header received. Prefix:", authHeader.substring(0, 15) + "...");
+    const apiKey = await requireApiKey(user, 'tripo');
+    if (apiKey instanceof NextResponse) return apiKey;
 
     const res = await fetch('https://api.tripo3d.ai/v2/openapi/task', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': authHeader,
+        'Authorization': `Bearer ${apiKey}`,
       },
       body: JSON.stringify(body),
     });
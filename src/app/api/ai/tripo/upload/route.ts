@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireApiKey } from '@/lib/server/key-vault';
 
 export async function POST(req: NextRequest) {
-  try {
-    const authHeader = req.headers.get('authorization');
-    if (!authHeader) {
-      console.error("Missing Authorization Header");
-      return NextResponse.json({ message: 'Missing Authorization header' }, { status: 401 });
-    }
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
 
-    console.log("[Tripo Upload Proxy] Auth Header received. Prefix:", authHeader.substring(0, 15) + "...");
+  try {
+    const apiKey = await requireApiKey(user, 'tripo');
+    if (apiKey instanceof NextResponse) return apiKey;
 
     // Capture the incoming form data
     const formData = await req.formData();
@@ -32,7 +32,7 @@ export async function POST(req: NextRequest) {
     const res = await fetch('https://api.tripo3d.ai/v2/openapi/upload', {
       method: 'POST',
       headers: {
-        'Authorization': authHeader,
+        'Authorization': `Bearer ${apiKey}`,
         // Let fetch set Content-Type for multipart/form-data boundary
       },
       body: forwardData,
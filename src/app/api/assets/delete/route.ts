@@ -1,8 +1,12 @@
 import { NextResponse } from 'next/server';
-import { unlink } from 'fs/promises';
-import path from 'path';
+import { requireUser } from '@/lib/server/session';
+import { resolveFileUrl } from '@/lib/server/workspaces';
+import { moveToTrash } from '@/lib/server/trash';
 
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { filePath } = await request.json();
 
@@ -10,32 +14,31 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, message: 'File path is required' }, { status: 400 });
     }
 
-    // Security check: ensure path is within public assets folder
-    // The received filePath will likely be something like "/assets/uploads/images/filename.png"
-    // We want to map this to the real file system path.
-    
-    // Normalize path to prevent directory traversal
-    const safePath = path.normalize(filePath).replace(/^(\.\.(\/|\\|$))+/, '');
-    
-    // Construct absolute path
-    const fullPath = path.join(process.cwd(), 'public', safePath);
-    
-    // Double check it starts with the correct root prefix to be extra safe
-    const expectedRootUploads = path.join(process.cwd(), 'public', 'assets', 'uploads');
-    const expectedRootGenerated = path.join(process.cwd(), 'public', 'assets', 'generated');
-    
-    if (!fullPath.startsWith(expectedRootUploads) && !fullPath.startsWith(expectedRootGenerated)) {
+    // The received filePath is the asset URL, e.g. "/api/files/users/<id>/uploads/images/filename.png".
+    // Only files in the user's own space or the team space resolve.
+    const resolved = resolveFileUrl(user, filePath);
+    const folder = resolved?.segments[0];
+
+    if (!resolved || (folder !== 'uploads' && folder !== 'generated')) {
          return NextResponse.json({ success: false, message: 'Invalid file path restriction' }, { status: 403 });
     }
 
-    // Delete file
-    await unlink(fullPath);
+    // Move to the trash, where it can be restored until it is purged
+    const relativePath = resolved.segments.join('/');
+    const trashed = await moveToTrash(resolved.workspace, user, {
+      kind: 'asset',
+      name: resolved.segments[resolved.segments.length - 1],
+      originalPath: relativePath,
+      files: [relativePath],
+      preview: resolved.segments[1] === 'images' ? relativePath : undefined,
+    });
+    if (!trashed) {
+      return NextResponse.json({ success: false, message: 'File not found' }, { status: 404 });
+    }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, trashed });
   } catch (error) {
     console.error('Delete error:', error);
-    // If file doesn't exist, technically it's already "deleted", so maybe success?
-    // But for now let's return error to debug.
     return NextResponse.json({ success: false, message: 'Delete failed' }, { status: 500 });
   }
 }
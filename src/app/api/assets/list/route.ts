@@ -1,15 +1,20 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { getAvailableSpaces, requireWorkspaces, workspaceUrl } from '@/lib/server/workspaces';
 import { readdir } from 'fs/promises';
 import path from 'path';
 import fs from 'fs';
 
-const VALID_TYPES = ['images', 'models', 'videos', 'audio'] as const;
+const VALID_TYPES = ['images', 'models', 'videos', 'audio', 'fonts'] as const;
 const VALID_CATEGORIES = ['uploads', 'generated'] as const;
 
 type AssetType = (typeof VALID_TYPES)[number];
 type AssetCategory = (typeof VALID_CATEGORIES)[number];
 
 export async function GET(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(request.url);
   const rawType = searchParams.get('type') || 'images'; 
@@ -22,26 +27,33 @@ export async function GET(request: Request) {
     return NextResponse.json({ success: false, message: 'Invalid type or category' }, { status: 400 });
   }
 
-    const dirPath = path.join(process.cwd(), 'public', 'assets', category, type);
+    // Without `space` the list covers the user's own assets plus the team's
+    const workspaces = await requireWorkspaces(user, searchParams.get('space'));
+    if (workspaces instanceof NextResponse) return workspaces;
 
-    // Check if dir exists
-    if (!fs.existsSync(dirPath)) {
-        return NextResponse.json({ success: true, files: [] });
-    }
+    const assetFiles = (await Promise.all(workspaces.map(async workspace => {
+      const dirPath = path.join(workspace.root, category, type);
 
-    const files = await readdir(dirPath);
-    
-    // Filter files (remove .DS_Store etc) and create full paths
-    const assetFiles = files
-        .filter(file => !file.startsWith('.'))
-        .map(file => ({
-          name: file,
-          path: `/assets/${category}/${type}/${file}`,
-          type,
-          category
-        }));
-
-    return NextResponse.json({ success: true, files: assetFiles });
+      // Check if dir exists
+      if (!fs.existsSync(dirPath)) {
+          return [];
+      }
+
+      const files = await readdir(dirPath);
+
+      // Filter files (remove .DS_Store etc) and create full paths
+      return files
+          .filter(file => !file.startsWith('.'))
+          .map(file => ({
+            name: file,
+            path: workspaceUrl(workspace, category, type, file),
+            type,
+            category,
+            space: workspace.space
+          }));
+    }))).flat();
+
+    return NextResponse.json({ success: true, files: assetFiles, spaces: getAvailableSpaces() });
   } catch (error) {
     console.error('List assets error:', error);
     return NextResponse.json({ success: false, message: 'Failed to list assets' }, { status: 500 });
@@ -1,16 +1,21 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, resolveWorkspaceFile, workspaceUrl } from '@/lib/server/workspaces';
 import path from 'path';
 import fs from 'fs';
 
-const VALID_TYPES = ['images', 'models', 'videos', 'audio'] as const;
+const VALID_TYPES = ['images', 'models', 'videos', 'audio', 'fonts'] as const;
 const VALID_CATEGORIES = ['uploads', 'generated'] as const;
 
 type AssetType = (typeof VALID_TYPES)[number];
 type AssetCategory = (typeof VALID_CATEGORIES)[number];
 
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const { type, oldName, newName, category } = await request.json();
+    const { type, oldName, newName, category, space } = await request.json();
 
     if (!type || !oldName || !newName) {
         return NextResponse.json({ success: false, message: 'Missing parameters' }, { status: 400 });
@@ -23,13 +28,18 @@ export async function POST(request: Request) {
     const folderCategory = (category && VALID_CATEGORIES.includes(category as AssetCategory) ? category : 'uploads') as AssetCategory;
     const folderType = (VALID_TYPES.includes(type as AssetType) ? type : 'images') as AssetType;
 
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
     // Sanitize new name slightly (basic check)
     if (newName.includes('..') || newName.includes('/') || newName.includes('\\')) {
         return NextResponse.json({ success: false, message: 'Invalid filename' }, { status: 400 });
     }
 
-    const dirPath = path.join(process.cwd(), 'public', 'assets', folderCategory, folderType);
-    const oldPath = path.join(dirPath, oldName);
+    const oldPath = resolveWorkspaceFile(workspace, folderCategory, folderType, oldName);
+    if (!oldPath) {
+        return NextResponse.json({ success: false, message: 'Invalid filename' }, { status: 400 });
+    }
     
     // Check if new name requires preserving extension
     const oldExt = path.extname(oldName);
@@ -46,7 +56,10 @@ export async function POST(request: Request) {
         finalNewName += oldExt;
     }
 
-    const newFilePath = path.join(dirPath, finalNewName);
+    const newFilePath = resolveWorkspaceFile(workspace, folderCategory, folderType, finalNewName);
+    if (!newFilePath) {
+        return NextResponse.json({ success: false, message: 'Invalid filename' }, { status: 400 });
+    }
 
     if (!fs.existsSync(oldPath)) {
         return NextResponse.json({ success: false, message: 'Asset not found' }, { status: 404 });
@@ -61,7 +74,7 @@ export async function POST(request: Request) {
     return NextResponse.json({ 
         success: true, 
         newName: finalNewName,
-        newPath: `/assets/${folderCategory}/${folderType}/${finalNewName}`
+        newPath: workspaceUrl(workspace, folderCategory, folderType, finalNewName)
     });
 
   } catch (error) {
@@ -1,21 +1,29 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, workspaceUrl } from '@/lib/server/workspaces';
 import { writeFile, mkdir } from 'fs/promises';
 import path from 'path';
 
-const VALID_TYPES = ['images', 'models', 'videos', 'audio'] as const;
+const VALID_TYPES = ['images', 'models', 'videos', 'audio', 'fonts'] as const;
 const VALID_CATEGORIES = ['uploads', 'generated'] as const;
 
 type AssetType = (typeof VALID_TYPES)[number];
 type AssetCategory = (typeof VALID_CATEGORIES)[number];
 
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const { url, filename, type, category } = await request.json();
+    const { url, filename, type, category, space } = await request.json();
 
     if (!url || !filename) {
       return NextResponse.json({ success: false, message: 'Missing url or filename' }, { status: 400 });
     }
 
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
     const folderType = (type && VALID_TYPES.includes(type as AssetType) ? type : 'models') as AssetType;
     const folderCategory = (category && VALID_CATEGORIES.includes(category as AssetCategory) ? category : 'uploads') as AssetCategory;
     
@@ -29,7 +37,7 @@ export async function POST(request: Request) {
     const buffer = Buffer.from(arrayBuffer);
 
     // Save to disk
-    const uploadDir = path.join(process.cwd(), 'public', 'assets', folderCategory, folderType);
+    const uploadDir = path.join(workspace.root, folderCategory, folderType);
     
     await mkdir(uploadDir, { recursive: true });
 
@@ -40,9 +48,9 @@ export async function POST(request: Request) {
 
     await writeFile(filepath, buffer);
 
-    const publicPath = `/assets/${folderCategory}/${folderType}/${uniqueName}`;
+    const fileUrl = workspaceUrl(workspace, folderCategory, folderType, uniqueName);
 
-    return NextResponse.json({ success: true, path: publicPath, type: folderType, category: folderCategory });
+    return NextResponse.json({ success: true, path: fileUrl, type: folderType, category: folderCategory, space: workspace.space });
   } catch (error) {
     console.error('Save external error:', error);
     return NextResponse.json({ success: false, message: 'Failed to save external file' }, { status: 500 });
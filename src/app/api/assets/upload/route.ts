@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, workspaceUrl } from '@/lib/server/workspaces';
 import { writeFile, mkdir } from 'fs/promises';
 import path from 'path';
 
-const VALID_TYPES = ['images', 'models', 'videos', 'audio'] as const;
+const VALID_TYPES = ['images', 'models', 'videos', 'audio', 'fonts'] as const;
 const VALID_CATEGORIES = ['uploads', 'generated'] as const;
 
 type AssetType = (typeof VALID_TYPES)[number];
@@ -12,6 +14,7 @@ const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.sv
 const VIDEO_EXTENSIONS = new Set(['.mp4', '.webm', '.mov', '.mkv', '.avi', '.m4v', '.ogv']);
 const AUDIO_EXTENSIONS = new Set(['.mp3', '.wav', '.ogg', '.m4a', '.aac', '.flac', '.oga']);
 const MODEL_EXTENSIONS = new Set(['.glb', '.gltf', '.obj', '.fbx', '.stl', '.ply']);
+const FONT_EXTENSIONS = new Set(['.ttf', '.otf', '.woff', '.woff2']);
 
 const detectAssetType = (filename: string, mimeType?: string): AssetType => {
   const ext = path.extname(filename || '').toLowerCase();
@@ -21,17 +24,22 @@ const detectAssetType = (filename: string, mimeType?: string): AssetType => {
     if (mimeType.startsWith('audio/')) return 'audio';
     if (mimeType === 'model/gltf-binary' || mimeType === 'model/gltf+json') return 'models';
     if (mimeType.startsWith('image/')) return 'images';
+    if (mimeType.startsWith('font/')) return 'fonts';
   }
 
   if (VIDEO_EXTENSIONS.has(ext)) return 'videos';
   if (AUDIO_EXTENSIONS.has(ext)) return 'audio';
   if (MODEL_EXTENSIONS.has(ext)) return 'models';
   if (IMAGE_EXTENSIONS.has(ext)) return 'images';
+  if (FONT_EXTENSIONS.has(ext)) return 'fonts';
 
   return 'images';
 };
 
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const data = await request.formData();
     const file: File | null = data.get('file') as unknown as File;
@@ -41,19 +49,27 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, message: 'No file uploaded' }, { status: 400 });
     }
 
+    const workspace = await requireWorkspace(user, data.get('space') || undefined);
+    if (workspace instanceof NextResponse) return workspace;
+
     const type = detectAssetType(file.name, (file as unknown as { type?: string }).type) as AssetType;
     const category = (VALID_CATEGORIES.includes(rawCategory as AssetCategory) ? rawCategory : 'uploads') as AssetCategory;
 
+    // Browsers register fonts by their format, so only the ones FontFace reads are kept
+    if (type === 'fonts' && !FONT_EXTENSIONS.has(path.extname(file.name).toLowerCase())) {
+      return NextResponse.json({ success: false, message: 'Fonts must be TTF, OTF, WOFF or WOFF2 files' }, { status: 400 });
+    }
+
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
     // Create unique filename
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
     const ext = path.extname(file.name);
-    const filename = `${path.basename(file.name, ext)}-${uniqueSuffix}${ext}`;
+    const filename = `${path.basename(file.name, ext).replace(/^\.+/, '')}-${uniqueSuffix}${ext}`;
     
     // Determine directory
-    const uploadDir = path.join(process.cwd(), 'public', 'assets', category, type);
+    const uploadDir = path.join(workspace.root, category, type);
 
     // Ensure directory exists
     try {
@@ -66,9 +82,9 @@ export async function POST(request: Request) {
 
     await writeFile(filepath, buffer);
 
-    const publicPath = `/assets/${category}/${type}/${filename}`;
+    const fileUrl = workspaceUrl(workspace, category, type, filename);
 
-    return NextResponse.json({ success: true, path: publicPath, filename, type, category });
+    return NextResponse.json({ success: true, path: fileUrl, filename, type, category, space: workspace.space });
   } catch (error) {
     console.error('Upload error:', error);
     return NextResponse.json({ success: false, message: 'Upload failed' }, { status: 500 });
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { createInvite } from '@/lib/server/users';
+import { requireAdmin } from '@/lib/server/session';
+
+export async function POST(request: Request) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const role = body?.role === 'admin' ? 'admin' : 'member';
+    const invite = await createInvite(admin, role);
+    return NextResponse.json({ success: true, invite: { code: invite.code, role: invite.role, expiresAt: invite.expiresAt } });
+  } catch (error) {
+    console.error('Create invite error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to create invite' }, { status: 500 });
+  }
+}
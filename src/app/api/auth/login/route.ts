@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { authenticateUser } from '@/lib/server/users';
+import { createSession, setSessionCookie } from '@/lib/server/session';
+import { recordLoginAttempt } from '@/lib/server/login-log';
+
+export async function POST(request: Request) {
+  try {
+    const { username, password } = await request.json();
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return NextResponse.json({ success: false, message: 'Username and password are required' }, { status: 400 });
+    }
+
+    const user = await authenticateUser(username, password);
+    if (!user) {
+      await recordLoginAttempt(request, { username, success: false, reason: 'invalid credentials' });
+      return NextResponse.json({ success: false, message: 'Invalid credentials.' }, { status: 401 });
+    }
+
+    const token = await createSession(user.id);
+    await recordLoginAttempt(request, { username: user.username, success: true });
+    return setSessionCookie(NextResponse.json({ success: true, user }), request, token);
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to sign in' }, { status: 500 });
+  }
+}
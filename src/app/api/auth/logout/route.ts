@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie, destroySession, getSessionUser } from '@/lib/server/session';
+import { recordLoginAttempt } from '@/lib/server/login-log';
+
+export async function POST(request: Request) {
+  try {
+    const user = await getSessionUser(request);
+    await destroySession(request);
+    if (user) await recordLoginAttempt(request, { username: user.username, event: 'logout', success: true });
+    return clearSessionCookie(NextResponse.json({ success: true }), request);
+  } catch (error) {
+    console.error('Logout error:', error);
+    return clearSessionCookie(NextResponse.json({ success: false, message: 'Failed to sign out' }, { status: 500 }), request);
+  }
+}
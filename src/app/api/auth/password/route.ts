@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { AuthError, changePassword } from '@/lib/server/users';
+import { destroyOtherSessions, requireUser } from '@/lib/server/session';
+import { recordLoginAttempt } from '@/lib/server/login-log';
+
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { currentPassword, newPassword } = await request.json();
+    if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+      return NextResponse.json({ success: false, message: 'Current and new password are required' }, { status: 400 });
+    }
+
+    await changePassword(user.id, currentPassword, newPassword);
+    // Sign out every other device that still knows the old password
+    await destroyOtherSessions(user.id, request);
+    await recordLoginAttempt(request, { username: user.username, event: 'password-change', success: true });
+    return NextResponse.json({ success: true, message: 'Password updated' });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      await recordLoginAttempt(request, { username: user.username, event: 'password-change', success: false, reason: error.message });
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status });
+    }
+    console.error('Password change error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to change password' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser, isDesktopServer } from '@/lib/server/session';
+import { hasAnyUsers } from '@/lib/server/users';
+
+// Public: tells the client who is signed in, and whether the first (admin) account still needs creating
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request);
+    const needsSetup = !user && !isDesktopServer() && !(await hasAnyUsers());
+    return NextResponse.json(
+      { success: true, user, needsSetup },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Session lookup error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to read session' }, { status: 500 });
+  }
+}
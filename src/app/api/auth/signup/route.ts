@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { AuthError, registerUser } from '@/lib/server/users';
+import { createSession, setSessionCookie } from '@/lib/server/session';
+import { recordLoginAttempt } from '@/lib/server/login-log';
+
+export async function POST(request: Request) {
+  let username = '';
+  try {
+    const body = await request.json();
+    username = typeof body.username === 'string' ? body.username : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+    const inviteCode = typeof body.inviteCode === 'string' && body.inviteCode.trim() ? body.inviteCode : undefined;
+
+    const user = await registerUser(username, password, inviteCode);
+    const token = await createSession(user.id);
+    await recordLoginAttempt(request, { username: user.username, event: 'signup', success: true });
+    return setSessionCookie(NextResponse.json({ success: true, user }), request, token);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      await recordLoginAttempt(request, { username, event: 'signup', success: false, reason: error.message });
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status });
+    }
+    console.error('Signup error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to create account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, resolveFileUrl } from '@/lib/server/workspaces';
+import { canEditBrandKit, getBrandKit, getBrandSpace, normalizeBrandKit, saveBrandKit } from '@/lib/server/brand-kit';
+
+// The kit of the team space when it is enabled, otherwise the user's own
+export async function GET(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const workspace = await requireWorkspace(user, getBrandSpace());
+    if (workspace instanceof NextResponse) return workspace;
+
+    return NextResponse.json({
+      success: true,
+      kit: await getBrandKit(workspace),
+      space: workspace.space,
+      editable: canEditBrandKit(user, workspace),
+    });
+  } catch (error) {
+    console.error('Get brand kit error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to load brand kit' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const workspace = await requireWorkspace(user, getBrandSpace());
+    if (workspace instanceof NextResponse) return workspace;
+    if (!canEditBrandKit(user, workspace)) {
+      return NextResponse.json({ success: false, message: 'Only admins can change the team brand kit' }, { status: 403 });
+    }
+
+    const { kit } = await request.json();
+    const normalized = normalizeBrandKit(kit, (src) => resolveFileUrl(user, src)?.workspace.space === workspace.space);
+    return NextResponse.json({ success: true, kit: await saveBrandKit(workspace, normalized), space: workspace.space, editable: true });
+  } catch (error) {
+    console.error('Save brand kit error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to save brand kit' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, resolveWorkspaceFile } from '@/lib/server/workspaces';
+import { readJsonFile } from '@/lib/server/json-store';
+import { moveToTrash } from '@/lib/server/trash';
+import type { ComponentRecord } from '@/lib/server/components';
+
+/** Move a component to the trash. Instances already placed in designs keep their layers. */
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space } = await request.json();
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json({ success: false, message: 'Component ID is required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const jsonPath = resolveWorkspaceFile(workspace, 'components', `${id}.json`);
+    if (!jsonPath) {
+      return NextResponse.json({ success: false, message: 'Invalid ID' }, { status: 400 });
+    }
+    const record = await readJsonFile<ComponentRecord | null>(jsonPath, null);
+
+    const trashed = await moveToTrash(workspace, user, {
+      kind: 'component',
+      name: record?.name || id,
+      originalPath: `components/${id}.json`,
+      files: [`components/${id}.json`, `components/${id}.png`],
+      preview: `components/${id}.png`,
+    });
+    if (!trashed) {
+      return NextResponse.json({ success: false, message: 'Component not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, trashed });
+  } catch (error) {
+    console.error('Delete component error:', error);
+    return NextResponse.json({ success: false, message: 'Delete failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { getAvailableSpaces, requireWorkspaces } from '@/lib/server/workspaces';
+import { listComponents, toComponentSummary } from '@/lib/server/components';
+
+export async function GET(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    // Without `space` the list covers the user's own components plus the team's
+    const workspaces = await requireWorkspaces(user, searchParams.get('space'));
+    if (workspaces instanceof NextResponse) return workspaces;
+
+    const components = (await Promise.all(workspaces.map(async (workspace) => {
+      const records = await listComponents(workspace);
+      return Promise.all(records.map((record) => toComponentSummary(workspace, record, user)));
+    }))).flat().sort((a, b) => b.updatedAt - a.updatedAt);
+
+    return NextResponse.json({ success: true, components, spaces: getAvailableSpaces() });
+  } catch (error) {
+    console.error('List components error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to list components' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { ComponentError, normalizeComponentName, publishComponent, toComponentSummary } from '@/lib/server/components';
+
+/** Add a component to a space's library, or publish a new version of its master when `id` is given. */
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, name: rawName, object, thumbnailDataUrl, space, masterDesignId } = await request.json();
+    const name = normalizeComponentName(rawName);
+
+    if (!name || !object || typeof object !== 'object' || !thumbnailDataUrl) {
+      return NextResponse.json({ success: false, message: 'Missing data' }, { status: 400 });
+    }
+    if ((id !== undefined && typeof id !== 'string') || (masterDesignId !== undefined && masterDesignId !== null && typeof masterDesignId !== 'string')) {
+      return NextResponse.json({ success: false, message: 'Invalid ID' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const matches = thumbnailDataUrl.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
+    if (!matches || matches.length !== 3) {
+      return NextResponse.json({ success: false, message: 'Invalid thumbnail data' }, { status: 400 });
+    }
+
+    const record = await publishComponent(workspace, id, {
+      author: user,
+      name,
+      object,
+      thumbnail: Buffer.from(matches[2], 'base64'),
+      masterDesignId: masterDesignId ?? undefined,
+    });
+
+    return NextResponse.json({ success: true, component: await toComponentSummary(workspace, record, user) });
+  } catch (error) {
+    if (error instanceof ComponentError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status });
+    }
+    console.error('Save component error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to save component' }, { status: 500 });
+  }
+}
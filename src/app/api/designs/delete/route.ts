@@ -1,34 +1,43 @@
 import { NextResponse } from 'next/server';
-import { unlink, access } from 'fs/promises';
-import { constants } from 'fs';
-import path from 'path';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, resolveWorkspaceFile } from '@/lib/server/workspaces';
+import { getDesignMeta, removeDesignMeta } from '@/lib/server/design-meta';
+import { moveToTrash } from '@/lib/server/trash';
 
+// Deleted designs go to the trash with their thumbnail, version history and metadata
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const { id } = await request.json();
+    const { id, space } = await request.json();
 
     if (!id) {
       return NextResponse.json({ success: false, message: 'ID is required' }, { status: 400 });
     }
 
-    const designsDir = path.join(process.cwd(), 'public', 'assets', 'designs');
-    
-    // Deleting .json and .png
-    // The design IDs in my list implementation are filenames without extension (which includes timestamps for unique ones)
-    
-    const filesToDelete = [`${id}.json`, `${id}.png`];
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    if (typeof id !== 'string' || !resolveWorkspaceFile(workspace, 'designs', `${id}.json`)) {
+      return NextResponse.json({ success: false, message: 'Invalid ID' }, { status: 400 });
+    }
 
-    for (const file of filesToDelete) {
-        const fullPath = path.join(designsDir, file);
-        try {
-            await access(fullPath, constants.F_OK);
-            await unlink(fullPath);
-        } catch (e) {
-            // File doesn't exist or ignore
-        }
+    const meta = await getDesignMeta(workspace, id, user);
+    const trashed = await moveToTrash(workspace, user, {
+      kind: 'design',
+      name: meta?.name ?? id,
+      originalPath: `designs/${id}.json`,
+      files: [`designs/${id}.json`, `designs/${id}.png`, `designs/versions/${id}`],
+      preview: `designs/${id}.png`,
+      designMeta: meta ?? undefined,
+    });
+    if (!trashed) {
+      return NextResponse.json({ success: false, message: 'Design not found' }, { status: 404 });
     }
+    await removeDesignMeta(workspace, id);
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, trashed });
   } catch (error) {
     console.error('Delete design error:', error);
     return NextResponse.json({ success: false, message: 'Failed to delete design' }, { status: 500 });
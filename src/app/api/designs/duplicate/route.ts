@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { copyReferencedFiles, requireWorkspace, resolveWorkspaceFile } from '@/lib/server/workspaces';
+import { recordDesignVersion } from '@/lib/server/design-versions';
+import { createDesignId, getDesignMeta, normalizeDesignName, recordDesignWrite, toDesignSummary } from '@/lib/server/design-meta';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Copy the current state of a design into a new one, optionally in another space
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space, name: rawName, targetSpace } = await request.json();
+
+    if (typeof id !== 'string' || !id) {
+      return NextResponse.json({ success: false, message: 'ID is required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+    const target = await requireWorkspace(user, targetSpace ?? space);
+    if (target instanceof NextResponse) return target;
+
+    const source = await getDesignMeta(workspace, id, user);
+    const jsonPath = resolveWorkspaceFile(workspace, 'designs', `${id}.json`);
+    if (!source || !jsonPath) {
+      return NextResponse.json({ success: false, message: 'Design not found' }, { status: 404 });
+    }
+
+    const name = normalizeDesignName(rawName) ?? `${source.name} copy`;
+    // Assets from the source space are copied along so the copy opens for everyone in the target space
+    const canvasJson = await copyReferencedFiles(workspace, target, await readFile(jsonPath, 'utf8'));
+    const thumbnail = await readFile(jsonPath.replace(/\.json$/, '.png')).catch(() => null);
+
+    const designId = createDesignId(name);
+    const designsDir = path.join(target.root, 'designs');
+    await mkdir(designsDir, { recursive: true });
+    await writeFile(path.join(designsDir, `${designId}.json`), canvasJson);
+    if (thumbnail) await writeFile(path.join(designsDir, `${designId}.png`), thumbnail);
+
+    const meta = await recordDesignWrite(target, designId, {
+      author: user,
+      name,
+      canvasJson,
+      // Folders belong to a space, so a copy into another space starts at the top level
+      inherit: { description: source.description, tags: source.tags, folder: target.space === workspace.space ? source.folder : '' },
+    });
+    const first = await recordDesignVersion(target, designId, user, {
+      canvasJson,
+      thumbnail,
+      label: `Duplicated from ${source.name}`
+    });
+
+    return NextResponse.json({ success: true, design: { ...toDesignSummary(target, meta, user.id), version: first.version } });
+  } catch (error) {
+    console.error('Duplicate design error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to duplicate design' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { createDesignFolder, deleteDesignFolder, listDesignFolders, listDesignMeta, normalizeFolder, renameDesignFolder } from '@/lib/server/design-meta';
+
+/**
+ * Folder changes in one space:
+ *
+ *     { action: 'create', folder }
+ *     { action: 'rename', folder, to }   also moves a folder under another one
+ *     { action: 'delete', folder }       subfolders go too; designs inside move to the parent folder
+ *
+ * Answers with the space's folders afterwards.
+ */
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { space, action, folder: rawFolder, to: rawTo } = await request.json();
+    const folder = normalizeFolder(rawFolder);
+    const to = action === 'rename' ? normalizeFolder(rawTo) : null;
+
+    if (!folder || (action === 'rename' && !to)) {
+      return NextResponse.json({ success: false, message: 'A folder name is required' }, { status: 400 });
+    }
+    if (to && (to === folder || to.startsWith(`${folder}/`))) {
+      return NextResponse.json({ success: false, message: 'A folder cannot be moved into itself' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    if (action === 'create') {
+      await createDesignFolder(workspace, folder);
+    } else if (action === 'rename' && to) {
+      await renameDesignFolder(workspace, folder, to);
+    } else if (action === 'delete') {
+      await deleteDesignFolder(workspace, folder);
+    } else {
+      return NextResponse.json({ success: false, message: 'Unknown action' }, { status: 400 });
+    }
+
+    const folders = await listDesignFolders(workspace, await listDesignMeta(workspace, user));
+    return NextResponse.json({ success: true, folders });
+  } catch (error) {
+    console.error('Design folder error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to update folders' }, { status: 500 });
+  }
+}
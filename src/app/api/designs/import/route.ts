@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server';
+import JSZip from 'jszip';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, workspaceUrl } from '@/lib/server/workspaces';
+import { recordDesignVersion } from '@/lib/server/design-versions';
+import { createDesignId, normalizeDesignName, normalizeFolder, recordDesignWrite, toDesignSummary } from '@/lib/server/design-meta';
+import { findAssetReferences, type AssetKind, type DesignJson } from '@/lib/design-assets';
+import { readPackageManifest } from '@/lib/design-package';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+const MAX_PACKAGE_BYTES = 500 * 1024 * 1024;
+// A small zip can inflate to far more; unpacking stops at either limit
+const MAX_UNPACKED_BYTES = 1024 * 1024 * 1024;
+const MAX_PACKAGE_ENTRIES = 10_000;
+
+class PackageTooLargeError extends Error {}
+
+/** Inflates entries one chunk at a time, counting the bytes of every entry read through it. */
+const createUnpacker = () => {
+  let unpackedBytes = 0;
+  return (entry: JSZip.JSZipObject) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      unpackedBytes += chunk.length;
+      if (unpackedBytes > MAX_UNPACKED_BYTES) {
+        stream.pause();
+        reject(new PackageTooLargeError());
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+};
+
+const packageTooLarge = () => NextResponse.json({ success: false, message: 'The package is too large' }, { status: 413 });
+
+// Packed assets go back into the library next to the user's own uploads
+const ASSET_FOLDERS: Record<AssetKind, string> = { image: 'images', model: 'models', video: 'videos', audio: 'audio', font: 'fonts' };
+
+/**
+ * Import a design package (see src/lib/design-package.ts) as a new design.
+ * Form fields: `file`, optional `space` and `folder`.
+ */
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+  // Removed again if the package turns out to be too large halfway through
+  const writtenAssets: string[] = [];
+
+  try {
+    const data = await request.formData();
+    const file = data.get('file') as File | null;
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ success: false, message: 'No file uploaded' }, { status: 400 });
+    }
+    if (file.size > MAX_PACKAGE_BYTES) return packageTooLarge();
+
+    const workspace = await requireWorkspace(user, data.get('space') || undefined);
+    if (workspace instanceof NextResponse) return workspace;
+    const folder = normalizeFolder(data.get('folder') ?? '') ?? '';
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch {
+      return NextResponse.json({ success: false, message: 'The file is not a zip archive' }, { status: 400 });
+    }
+    if (Object.keys(zip.files).length > MAX_PACKAGE_ENTRIES) return packageTooLarge();
+    const unpack = createUnpacker();
+    const unpackText = async (name: string) => {
+      const entry = zip.file(name);
+      return entry ? (await unpack(entry)).toString('utf8') : undefined;
+    };
+
+    const manifestText = await unpackText('manifest.json');
+    const designText = await unpackText('design.json');
+    let manifest = null;
+    let design: DesignJson | null = null;
+    try {
+      manifest = manifestText ? readPackageManifest(JSON.parse(manifestText)) : null;
+      design = designText ? JSON.parse(designText) as DesignJson : null;
+    } catch {
+      // Reported below
+    }
+    if (!manifest || !design || typeof design !== 'object') {
+      return NextResponse.json({ success: false, message: 'Not a design package this version can open' }, { status: 400 });
+    }
+
+    // Unpack every asset under a fresh name and remember where it went
+    const unpacked = new Map<string, string>();
+    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
+    for (const asset of manifest.assets) {
+      const entry = zip.file(asset.path);
+      if (!entry || unpacked.has(asset.path)) continue;
+      const type = ASSET_FOLDERS[asset.kind];
+      const baseName = path.basename(asset.path);
+      const ext = path.extname(baseName);
+      const filename = `${path.basename(baseName, ext).replace(/^\.+/, '') || 'asset'}-${uniqueSuffix}${ext}`;
+      const dir = path.join(workspace.root, 'uploads', type);
+      await mkdir(dir, { recursive: true });
+      const filePath = path.join(dir, filename);
+      await writeFile(filePath, await unpack(entry));
+      writtenAssets.push(filePath);
+      unpacked.set(asset.path, workspaceUrl(workspace, 'uploads', type, filename));
+    }
+
+    findAssetReferences(design).forEach(reference => {
+      const url = unpacked.get(reference.url);
+      if (url) reference.set(url);
+    });
+
+    const name = normalizeDesignName(manifest.name) ?? 'Imported design';
+    const canvasJson = JSON.stringify(design);
+    const thumbnailEntry = zip.file('thumbnail.png');
+    const thumbnail = thumbnailEntry ? await unpack(thumbnailEntry) : null;
+
+    const designId = createDesignId(name);
+    const designsDir = path.join(workspace.root, 'designs');
+    await mkdir(designsDir, { recursive: true });
+    await writeFile(path.join(designsDir, `${designId}.json`), canvasJson);
+    if (thumbnail) await writeFile(path.join(designsDir, `${designId}.png`), thumbnail);
+
+    const meta = await recordDesignWrite(workspace, designId, { author: user, name, canvasJson, inherit: { folder } });
+    const first = await recordDesignVersion(workspace, designId, user, { canvasJson, thumbnail, label: 'Imported from package' });
+
+    return NextResponse.json({
+      success: true,
+      design: { ...toDesignSummary(workspace, meta, user.id), version: first.version },
+      assets: unpacked.size,
+    });
+  } catch (error) {
+    if (error instanceof PackageTooLargeError) {
+      await Promise.all(writtenAssets.map((filePath) => rm(filePath, { force: true })));
+      return packageTooLarge();
+    }
+    console.error('Import design package error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to import design package' }, { status: 500 });
+  }
+}
@@ -1,45 +1,38 @@
 import { NextResponse } from 'next/server';
-import { readdir, stat } from 'fs/promises';
-import path from 'path';
-import fs from 'fs';
+import { requireUser } from '@/lib/server/session';
+import { getAvailableSpaces, requireWorkspaces, type Workspace } from '@/lib/server/workspaces';
+import { listDesignFolders, listDesignMeta, toDesignSummary, type IndexedDesign } from '@/lib/server/design-meta';
+import { parseDesignQuery, runDesignQuery } from '@/lib/server/design-query';
 
+// Query parameters are described in src/lib/server/design-query.ts
 export async function GET(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const designsDir = path.join(process.cwd(), 'public', 'assets', 'designs');
+    const { searchParams } = new URL(request.url);
+    // Without `space` the list covers the user's own designs plus the team's
+    const workspaces = await requireWorkspaces(user, searchParams.get('space'));
+    if (workspaces instanceof NextResponse) return workspaces;
 
-    // Check if dir exists
-    if (!fs.existsSync(designsDir)) {
-        return NextResponse.json({ success: true, designs: [] });
+    const workspaceOf = new Map<IndexedDesign, Workspace>();
+    for (const workspace of workspaces) {
+      const metas = await listDesignMeta(workspace, user);
+      metas.forEach(meta => workspaceOf.set(meta, workspace));
     }
+    const metas = [...workspaceOf.keys()];
 
-    const files = await readdir(designsDir);
-    
-    // Filter for JSON files
-    const designFiles = files.filter(file => file.endsWith('.json'));
-
-    const designs = await Promise.all(designFiles.map(async file => {
-        const id = file.replace('.json', '');
-        // Try to derive a readable name from the filename structure "name-timestamp"
-        const parts = id.split('-');
-        const timestamp = parts.pop();
-        const readableName = parts.join(' ') || id;
-        
-        const filePath = path.join(designsDir, file);
-        const stats = await stat(filePath);
-
-        return {
-            id: id,
-            name: readableName, // Simplified name extraction
-            data: `/assets/designs/${file}`, // The JSON data URL
-            image: `/assets/designs/${id}.png`, // The thumbnail URL
-            lastModified: stats.mtimeMs
-        };
-    }));
+    const designs = runDesignQuery(metas, parseDesignQuery(searchParams), user.id)
+        .map(meta => toDesignSummary(workspaceOf.get(meta) as Workspace, meta, user.id));
 
-    // Sort by lastModified desc
-    designs.sort((a, b) => b.lastModified - a.lastModified);
+    // Choices for the dashboard's folder tree and filters cover everything, not just the results
+    const authors = [...new Map(metas.map(meta => [meta.owner.id, meta.owner])).values()]
+        .sort((a, b) => a.username.localeCompare(b.username));
+    const tags = [...new Set(metas.flatMap(meta => meta.tags))].sort((a, b) => a.localeCompare(b));
+    // Folders belong to one space, so they are only listed when a space is asked for
+    const folders = workspaces.length === 1 ? await listDesignFolders(workspaces[0], metas) : [];
 
-    return NextResponse.json({ success: true, designs });
+    return NextResponse.json({ success: true, designs, folders, authors, tags, spaces: getAvailableSpaces() });
   } catch (error) {
     console.error('List designs error:', error);
     return NextResponse.json({ success: false, message: 'Failed to list designs' }, { status: 500 });
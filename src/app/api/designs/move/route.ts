@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { copyReferencedFiles, requireWorkspace, resolveWorkspaceFile } from '@/lib/server/workspaces';
+import { moveDesignVersions } from '@/lib/server/design-versions';
+import { getDesignMeta, normalizeFolder, putDesignMeta, removeDesignMeta, toDesignSummary, updateDesignMeta } from '@/lib/server/design-meta';
+import { access, mkdir, readFile, rename, writeFile } from 'fs/promises';
+
+// Move a design to another folder and/or to the other space. The id, history and metadata move with it.
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space, targetSpace, folder: rawFolder } = await request.json();
+    const folder = rawFolder === undefined ? undefined : normalizeFolder(rawFolder);
+
+    if (typeof id !== 'string' || !id || folder === null) {
+      return NextResponse.json({ success: false, message: 'ID and a valid folder are required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+    const target = await requireWorkspace(user, targetSpace ?? space);
+    if (target instanceof NextResponse) return target;
+
+    const meta = await getDesignMeta(workspace, id, user);
+    if (!meta) {
+      return NextResponse.json({ success: false, message: 'Design not found' }, { status: 404 });
+    }
+
+    if (target.space === workspace.space) {
+      const updated = await updateDesignMeta(workspace, id, user, { folder: folder ?? meta.folder });
+      return NextResponse.json({ success: true, design: updated && toDesignSummary(workspace, updated, user.id) });
+    }
+
+    const targetDir = resolveWorkspaceFile(target, 'designs');
+    const moves = ['json', 'png'].map(ext => [
+      resolveWorkspaceFile(workspace, 'designs', `${id}.${ext}`),
+      resolveWorkspaceFile(target, 'designs', `${id}.${ext}`),
+    ]);
+    if (!targetDir || moves.some(([from, to]) => !from || !to)) {
+      return NextResponse.json({ success: false, message: 'Invalid ID' }, { status: 400 });
+    }
+    const taken = await access(moves[0][1] as string).then(() => true, () => false);
+    if (taken) {
+      return NextResponse.json({ success: false, message: 'A design with this ID already exists there' }, { status: 409 });
+    }
+
+    await mkdir(targetDir, { recursive: true });
+    for (const [from, to] of moves as string[][]) {
+      await rename(from, to).catch((error: NodeJS.ErrnoException) => {
+        // Designs without a thumbnail have no png to move
+        if (error.code !== 'ENOENT') throw error;
+      });
+    }
+    // Personal file URLs only resolve for their owner, so the assets move into the target space too
+    const movedJson = moves[0][1] as string;
+    await writeFile(movedJson, await copyReferencedFiles(workspace, target, await readFile(movedJson, 'utf8')));
+    await moveDesignVersions(workspace, target, id);
+    const moved = await putDesignMeta(target, { ...meta, folder: folder ?? '' });
+    await removeDesignMeta(workspace, id);
+
+    return NextResponse.json({ success: true, design: toDesignSummary(target, moved, user.id) });
+  } catch (error) {
+    console.error('Move design error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to move design' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { setDesignPinned, toDesignSummary } from '@/lib/server/design-meta';
+
+// Favourites are per user, including on team designs
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space, pinned } = await request.json();
+
+    if (typeof id !== 'string' || !id || typeof pinned !== 'boolean') {
+      return NextResponse.json({ success: false, message: 'ID and pinned are required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const meta = await setDesignPinned(workspace, id, user, pinned);
+    if (!meta) {
+      return NextResponse.json({ success: false, message: 'Design not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, design: toDesignSummary(workspace, meta, user.id) });
+  } catch (error) {
+    console.error('Pin design error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to update favourites' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { MAX_DESCRIPTION_LENGTH, normalizeDesignName, toDesignSummary, updateDesignMeta } from '@/lib/server/design-meta';
+
+// Change a design's display name and, optionally, its description. The id and files stay the same.
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space, name: rawName, description } = await request.json();
+    const name = normalizeDesignName(rawName);
+
+    if (typeof id !== 'string' || !id || !name) {
+      return NextResponse.json({ success: false, message: 'ID and name are required' }, { status: 400 });
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      return NextResponse.json({ success: false, message: 'Invalid description' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const meta = await updateDesignMeta(workspace, id, user, {
+      name,
+      description: description === undefined ? undefined : description.trim().slice(0, MAX_DESCRIPTION_LENGTH),
+    });
+    if (!meta) {
+      return NextResponse.json({ success: false, message: 'Design not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, design: toDesignSummary(workspace, meta, user.id) });
+  } catch (error) {
+    console.error('Rename design error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to rename design' }, { status: 500 });
+  }
+}
@@ -1,64 +1,109 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, resolveWorkspaceFile, workspaceUrl } from '@/lib/server/workspaces';
+import { ensureBaselineVersion, recordDesignVersion } from '@/lib/server/design-versions';
+import { clearRecoverySlot, isValidRecoverySlot } from '@/lib/server/recovery';
+import { createDesignId, getDesignMeta, normalizeDesignName, recordDesignWrite, toDesignSummary, type IndexedDesign } from '@/lib/server/design-meta';
 import { writeFile, mkdir } from 'fs/promises';
 import path from 'path';
 
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const { id: existingId, name, canvasData, thumbnailDataUrl } = await request.json();
+    const { id: existingId, name: rawName, canvasData, thumbnailDataUrl, space, versionLabel, recoverySlot, resizedFrom } = await request.json();
+    const name = normalizeDesignName(rawName);
 
     if (!name || !canvasData) {
       return NextResponse.json({ success: false, message: 'Missing data' }, { status: 400 });
     }
 
-    const designsDir = path.join(process.cwd(), 'public', 'assets', 'designs');
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const designsDir = path.join(workspace.root, 'designs');
     
     // Ensure directory exists
     await mkdir(designsDir, { recursive: true });
 
+    // A "Resize to…" copy links back to its source and starts in the same folder with the same tags
+    let source: IndexedDesign | null = null;
+    if (resizedFrom !== undefined && !existingId) {
+        source = typeof resizedFrom === 'string' ? await getDesignMeta(workspace, resizedFrom, user) : null;
+        if (!source) {
+            return NextResponse.json({ success: false, message: 'Source design not found' }, { status: 404 });
+        }
+    }
+
     let baseFilename;
     let designId;
-    const timestamp = Date.now();
 
     if (existingId) {
         // Updating existing design
         baseFilename = existingId;
         designId = existingId;
-        // Verify we aren't path traversing? existingId should be simple filename
-        if (baseFilename.includes('/') || baseFilename.includes('\\')) {
+        // existingId must be a plain filename inside this workspace
+        if (typeof baseFilename !== 'string' || !resolveWorkspaceFile(workspace, 'designs', `${baseFilename}.json`)) {
              return NextResponse.json({ success: false, message: 'Invalid ID' }, { status: 400 });
         }
+        // Designs saved before versioning keep their last state as version 1
+        await ensureBaselineVersion(workspace, baseFilename);
     } else {
         // Create new
-        const cleanName = name.replace(/[^a-z0-9]/gi, '-').toLowerCase();
-        baseFilename = `${cleanName}-${timestamp}`;
+        baseFilename = createDesignId(name);
         designId = baseFilename;
     }
 
     // Save JSON
     const jsonPath = path.join(designsDir, `${baseFilename}.json`);
-    await writeFile(jsonPath, JSON.stringify(canvasData, null, 2));
+    const canvasJson = JSON.stringify(canvasData, null, 2);
+    await writeFile(jsonPath, canvasJson);
 
     let imagePathRel = null;
+    let thumbnail: Buffer | null = null;
 
     // Save Thumbnail if provided
     if (thumbnailDataUrl) {
         const matches = thumbnailDataUrl.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
         if (matches && matches.length === 3) {
-            const buffer = Buffer.from(matches[2], 'base64');
+            thumbnail = Buffer.from(matches[2], 'base64');
             const imagePath = path.join(designsDir, `${baseFilename}.png`);
-            await writeFile(imagePath, buffer);
-            imagePathRel = `/assets/designs/${baseFilename}.png`;
+            await writeFile(imagePath, thumbnail);
+            imagePathRel = workspaceUrl(workspace, 'designs', `${baseFilename}.png`);
+        }
+    }
+
+    const meta = await recordDesignWrite(workspace, designId, {
+        author: user,
+        name,
+        canvasJson,
+        inherit: source
+            ? { description: source.description, tags: source.tags, folder: source.folder, resizedFrom: { id: source.id, name: source.name } }
+            : undefined,
+    });
+
+    // Every save is kept as a numbered version
+    const version = await recordDesignVersion(workspace, designId, user, {
+        canvasJson,
+        thumbnail,
+        label: typeof versionLabel === 'string' ? versionLabel : source ? `Resized from ${source.name}` : undefined,
+    });
+
+    // The autosaved copy is no longer needed once the design itself is saved
+    if (isValidRecoverySlot(recoverySlot)) {
+        const personal = await requireWorkspace(user, 'personal');
+        if (!(personal instanceof NextResponse)) {
+            await clearRecoverySlot(personal, recoverySlot).catch((error) => console.error('Failed to clear recovery slot:', error));
         }
     }
 
     return NextResponse.json({ 
         success: true, 
         design: {
-            id: designId,
-            name: name,
-            image: imagePathRel || `/assets/designs/${baseFilename}.png`, // Fallback to expected path
-            data: `/assets/designs/${baseFilename}.json`,
-            lastModified: timestamp
+            ...toDesignSummary(workspace, meta, user.id),
+            image: imagePathRel || workspaceUrl(workspace, 'designs', `${baseFilename}.png`), // Fallback to expected path
+            version: version.version
         }
     });
 
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { normalizeTags, toDesignSummary, updateDesignMeta } from '@/lib/server/design-meta';
+
+// Replace a design's tags
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space, tags: rawTags } = await request.json();
+    const tags = normalizeTags(rawTags);
+
+    if (typeof id !== 'string' || !id || !tags) {
+      return NextResponse.json({ success: false, message: 'ID and a list of tags are required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const meta = await updateDesignMeta(workspace, id, user, { tags });
+    if (!meta) {
+      return NextResponse.json({ success: false, message: 'Design not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, design: toDesignSummary(workspace, meta, user.id) });
+  } catch (error) {
+    console.error('Tag design error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to update tags' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { getDesignVersionFiles, recordDesignVersion } from '@/lib/server/design-versions';
+import { createDesignId, normalizeDesignName, recordDesignWrite, toDesignSummary } from '@/lib/server/design-meta';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Start a new design from any version; the source design is left untouched
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space, version, name: rawName, targetSpace } = await request.json();
+    const name = normalizeDesignName(rawName);
+
+    if (typeof id !== 'string' || !id || typeof version !== 'number' || !name) {
+      return NextResponse.json({ success: false, message: 'ID, version and name are required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+    const target = await requireWorkspace(user, targetSpace ?? space);
+    if (target instanceof NextResponse) return target;
+
+    const source = await getDesignVersionFiles(workspace, id, version);
+    if (!source) {
+      return NextResponse.json({ success: false, message: 'Version not found' }, { status: 404 });
+    }
+
+    const canvasJson = await readFile(source.jsonPath, 'utf8');
+    const thumbnail = source.imagePath ? await readFile(source.imagePath) : null;
+
+    const designId = createDesignId(name);
+    const designsDir = path.join(target.root, 'designs');
+    await mkdir(designsDir, { recursive: true });
+
+    await writeFile(path.join(designsDir, `${designId}.json`), canvasJson);
+    if (thumbnail) await writeFile(path.join(designsDir, `${designId}.png`), thumbnail);
+
+    const meta = await recordDesignWrite(target, designId, { author: user, name, canvasJson });
+    const first = await recordDesignVersion(target, designId, user, {
+      canvasJson,
+      thumbnail,
+      label: `Forked from ${id} v${version}`
+    });
+
+    return NextResponse.json({
+      success: true,
+      design: {
+        ...toDesignSummary(target, meta, user.id),
+        version: first.version
+      }
+    });
+  } catch (error) {
+    console.error('Fork design version error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to fork version' }, { status: 500 });
+  }
+}
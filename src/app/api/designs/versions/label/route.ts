@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { labelDesignVersion } from '@/lib/server/design-versions';
+
+const MAX_LABEL_LENGTH = 80;
+
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space, version, label } = await request.json();
+
+    if (typeof id !== 'string' || !id || typeof version !== 'number' || typeof label !== 'string') {
+      return NextResponse.json({ success: false, message: 'ID, version and label are required' }, { status: 400 });
+    }
+    if (label.length > MAX_LABEL_LENGTH) {
+      return NextResponse.json({ success: false, message: `Labels are limited to ${MAX_LABEL_LENGTH} characters` }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const updated = await labelDesignVersion(workspace, id, version, label);
+    if (!updated) {
+      return NextResponse.json({ success: false, message: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, version: updated });
+  } catch (error) {
+    console.error('Label design version error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to label version' }, { status: 500 });
+  }
+}
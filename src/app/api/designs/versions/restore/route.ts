@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, resolveWorkspaceFile } from '@/lib/server/workspaces';
+import { ensureBaselineVersion, getDesignVersionFiles, recordDesignVersion } from '@/lib/server/design-versions';
+import { recordDesignWrite, toDesignSummary } from '@/lib/server/design-meta';
+import { readFile, rm, writeFile } from 'fs/promises';
+
+// Make an older version current again. The restore itself is recorded as a new version, so nothing is lost.
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space, version } = await request.json();
+
+    if (typeof id !== 'string' || !id || typeof version !== 'number') {
+      return NextResponse.json({ success: false, message: 'ID and version are required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const jsonPath = resolveWorkspaceFile(workspace, 'designs', `${id}.json`);
+    const imagePath = resolveWorkspaceFile(workspace, 'designs', `${id}.png`);
+    if (!jsonPath || !imagePath) {
+      return NextResponse.json({ success: false, message: 'Invalid ID' }, { status: 400 });
+    }
+
+    await ensureBaselineVersion(workspace, id);
+    const source = await getDesignVersionFiles(workspace, id, version);
+    if (!source) {
+      return NextResponse.json({ success: false, message: 'Version not found' }, { status: 404 });
+    }
+
+    const canvasJson = await readFile(source.jsonPath, 'utf8');
+    const thumbnail = source.imagePath ? await readFile(source.imagePath) : null;
+
+    await writeFile(jsonPath, canvasJson);
+    if (thumbnail) await writeFile(imagePath, thumbnail);
+    else await rm(imagePath, { force: true });
+
+    const restored = await recordDesignVersion(workspace, id, user, { canvasJson, thumbnail, restoredFrom: version });
+    const meta = await recordDesignWrite(workspace, id, { author: user, canvasJson });
+
+    return NextResponse.json({
+      success: true,
+      design: {
+        ...toDesignSummary(workspace, meta, user.id),
+        version: restored.version
+      }
+    });
+  } catch (error) {
+    console.error('Restore design version error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to restore version' }, { status: 500 });
+  }
+}
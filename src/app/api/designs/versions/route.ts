@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { listDesignVersions } from '@/lib/server/design-versions';
+
+export async function GET(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ success: false, message: 'ID is required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, searchParams.get('space') ?? undefined);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const versions = await listDesignVersions(workspace, id);
+    if (!versions) {
+      return NextResponse.json({ success: false, message: 'Invalid ID' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, versions });
+  } catch (error) {
+    console.error('List design versions error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to list versions' }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
 
 const PASS_THROUGH_HEADERS = new Set([
     'content-type',
@@ -12,6 +13,9 @@ const PASS_THROUGH_HEADERS = new Set([
 ]);
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+
     const urlParam = request.nextUrl.searchParams.get('url');
 
     if (!urlParam) {
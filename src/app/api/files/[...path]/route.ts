@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { requireUser } from '@/lib/server/session';
+import { resolveFileSegments } from '@/lib/server/workspaces';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.heic': 'image/heic',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.m4v': 'video/x-m4v',
+  '.ogv': 'video/ogg',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.flac': 'audio/flac',
+  '.glb': 'model/gltf-binary',
+  '.gltf': 'model/gltf+json',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.json': 'application/json',
+};
+
+// Serves workspace files to their owner (or to the team) instead of exposing them under public/
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { path: segments } = await params;
+    const resolved = resolveFileSegments(user, segments);
+    if (!resolved) {
+      return NextResponse.json({ success: false, message: 'File not found' }, { status: 404 });
+    }
+
+    let size: number;
+    try {
+      const stats = await stat(resolved.filePath);
+      if (!stats.isFile()) throw new Error('Not a file');
+      size = stats.size;
+    } catch {
+      return NextResponse.json({ success: false, message: 'File not found' }, { status: 404 });
+    }
+
+    const headers = new Headers({
+      'Content-Type': CONTENT_TYPES[path.extname(resolved.filePath).toLowerCase()] || 'application/octet-stream',
+      'Cache-Control': 'private, no-cache',
+      'Accept-Ranges': 'bytes',
+      // Uploaded SVGs and the like must not run script in the app's origin
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+      'X-Content-Type-Options': 'nosniff',
+    });
+
+    const buffer = await readFile(resolved.filePath);
+
+    // Single byte ranges keep video and audio seekable
+    const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+    if (range && (range[1] || range[2])) {
+      const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]));
+      const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+      if (start >= size || start > end) {
+        headers.set('Content-Range', `bytes */${size}`);
+        return new NextResponse(null, { status: 416, headers });
+      }
+      headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+      headers.set('Content-Length', String(end - start + 1));
+      return new NextResponse(buffer.subarray(start, end + 1), { status: 206, headers });
+    }
+
+    headers.set('Content-Length', String(size));
+    return new NextResponse(buffer, { status: 200, headers });
+  } catch (error) {
+    console.error('Serve file error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to read file' }, { status: 500 });
+  }
+}
@@ -1,55 +1,18 @@
 import { NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
-import path from 'path';
+import { LOGIN_LOG_FILE } from '@/lib/server/login-log';
+import { requireAdmin } from '@/lib/server/session';
 
-const LOG_DIR = path.join(process.cwd(), 'logs');
-const LOG_FILE = path.join(LOG_DIR, 'login.log');
+// Entries are written by the /api/auth routes for every successful and failed attempt;
+// clients can no longer append to the log themselves.
+export async function GET(request: Request) {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) return admin;
 
-async function ensureLogDir() {
     try {
-        await fs.mkdir(LOG_DIR, { recursive: true });
-    } catch (error) {
-        // Directory creation errors will be surfaced when writing; swallow here for idempotency.
-    }
-}
-
-function getClientIp(request: Request) {
-    const forwarded = request.headers.get('x-forwarded-for');
-    if (forwarded) {
-        return forwarded.split(',')[0].trim();
-    }
-    const realIp = request.headers.get('x-real-ip');
-    if (realIp) {
-        return realIp;
-    }
-    return 'unknown';
-}
-
-export async function POST(request: Request) {
-    try {
-        const body = await request.json();
-        const username = (body?.username ?? '').toString().trim() || 'unknown';
-        const timestamp = new Date().toISOString();
-        const ip = getClientIp(request);
-        const userAgent = request.headers.get('user-agent') || 'unknown';
-        const line = `[${timestamp}] user="${username}" ip="${ip}" ua="${userAgent.replace(/"/g, '')}"\n`;
-
-        await ensureLogDir();
-        await fs.appendFile(LOG_FILE, line, { encoding: 'utf8' });
-
-        return NextResponse.json({ success: true });
-    } catch (error) {
-        console.error('Failed to write login log', error);
-        return NextResponse.json({ success: false, message: 'Failed to write log' }, { status: 500 });
-    }
-}
-
-export async function GET() {
-    try {
-        await ensureLogDir();
         let content = '';
         try {
-            content = await fs.readFile(LOG_FILE, 'utf8');
+            content = await fs.readFile(LOGIN_LOG_FILE, 'utf8');
         } catch (error: unknown) {
             const nodeError = error as NodeJS.ErrnoException | null;
             if (!nodeError || nodeError.code !== 'ENOENT') {
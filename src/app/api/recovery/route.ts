@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { clearRecoverySlot, isValidRecoverySlot, listRecoverySlots, writeRecoverySlot } from '@/lib/server/recovery';
+
+// Recovery slots always live in the caller's personal space
+export async function GET(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const workspace = await requireWorkspace(user, 'personal');
+    if (workspace instanceof NextResponse) return workspace;
+
+    return NextResponse.json({ success: true, slots: await listRecoverySlots(workspace) });
+  } catch (error) {
+    console.error('List recovery slots error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to load recovery data' }, { status: 500 });
+  }
+}
+
+// Background autosave from the editor
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { slot, designId, space, name, canvasData, thumbnailDataUrl } = await request.json();
+
+    if (!isValidRecoverySlot(slot) || !canvasData) {
+      return NextResponse.json({ success: false, message: 'Missing data' }, { status: 400 });
+    }
+
+    // Checks the design's own space is one the user may write to
+    const designWorkspace = await requireWorkspace(user, space);
+    if (designWorkspace instanceof NextResponse) return designWorkspace;
+    const workspace = await requireWorkspace(user, 'personal');
+    if (workspace instanceof NextResponse) return workspace;
+
+    let thumbnail: Buffer | null = null;
+    if (typeof thumbnailDataUrl === 'string') {
+      const matches = thumbnailDataUrl.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
+      if (matches && matches.length === 3) thumbnail = Buffer.from(matches[2], 'base64');
+    }
+
+    const recovery = await writeRecoverySlot(workspace, {
+      slot,
+      designId: typeof designId === 'string' && designId ? designId : null,
+      space: designWorkspace.space,
+      name: typeof name === 'string' && name.trim() ? name.trim() : 'Untitled Design',
+      canvasJson: JSON.stringify(canvasData),
+      thumbnail,
+    });
+
+    return NextResponse.json({ success: true, slot: recovery });
+  } catch (error) {
+    console.error('Autosave error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to autosave' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const slot = new URL(request.url).searchParams.get('slot');
+    if (!isValidRecoverySlot(slot)) {
+      return NextResponse.json({ success: false, message: 'Invalid slot' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, 'personal');
+    if (workspace instanceof NextResponse) return workspace;
+
+    await clearRecoverySlot(workspace, slot);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Discard recovery slot error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to discard recovery data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { readFile } from 'fs/promises';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, resolveWorkspaceFile } from '@/lib/server/workspaces';
+import { getDesignMeta } from '@/lib/server/design-meta';
+import { isRenderFormat, MAX_RENDER_SCALE, MIN_RENDER_SCALE, renderDesign, RenderError } from '@/lib/server/render';
+import { DesignFormatError } from '@/lib/design-schema';
+import { slugify } from '@/lib/design-package';
+
+const isOverrideMap = (value: unknown): value is Record<string, string> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value) &&
+  Object.values(value as Record<string, unknown>).every((entry) => typeof entry === 'string');
+
+// Header values must be ASCII; JSON with \u escapes keeps the messages readable by scripts
+const toHeaderJson = (value: unknown) =>
+  JSON.stringify(value).replace(/[\u007f-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+/**
+ * Render a design on the server. JSON body:
+ * `designId` (+ optional `space`) or `design` (canvas JSON), `format` png|jpg|pdf,
+ * `scale`, `artboard` (page id, name or number), `quality` (JPG) and `overrides`
+ * ({ [object id or layer name]: text or image URL }).
+ * Responds with the file; problems that did not stop the render are listed as JSON in
+ * the `X-Render-Warnings` header.
+ */
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ success: false, message: 'Invalid request body' }, { status: 400 });
+    }
+    const { designId, space, design, format = 'png', scale = 1, artboard, quality, overrides } = body;
+
+    if (!isRenderFormat(format)) {
+      return NextResponse.json({ success: false, message: 'format must be png, jpg or pdf' }, { status: 400 });
+    }
+    if (typeof scale !== 'number' || !(scale >= MIN_RENDER_SCALE && scale <= MAX_RENDER_SCALE)) {
+      return NextResponse.json({ success: false, message: `scale must be between ${MIN_RENDER_SCALE} and ${MAX_RENDER_SCALE}` }, { status: 400 });
+    }
+    if (quality !== undefined && (typeof quality !== 'number' || !(quality > 0 && quality <= 1))) {
+      return NextResponse.json({ success: false, message: 'quality must be between 0 and 1' }, { status: 400 });
+    }
+    if (artboard !== undefined && typeof artboard !== 'string' && typeof artboard !== 'number') {
+      return NextResponse.json({ success: false, message: 'artboard must be a page id, name or number' }, { status: 400 });
+    }
+    if (overrides !== undefined && !isOverrideMap(overrides)) {
+      return NextResponse.json({ success: false, message: 'overrides must map object ids or names to strings' }, { status: 400 });
+    }
+
+    let source: unknown = design;
+    let name = 'design';
+    if (designId !== undefined) {
+      const workspace = await requireWorkspace(user, space);
+      if (workspace instanceof NextResponse) return workspace;
+      const jsonPath = typeof designId === 'string' ? resolveWorkspaceFile(workspace, 'designs', `${designId}.json`) : null;
+      if (!jsonPath) {
+        return NextResponse.json({ success: false, message: 'Invalid ID' }, { status: 400 });
+      }
+      try {
+        source = JSON.parse(await readFile(jsonPath, 'utf8'));
+      } catch {
+        return NextResponse.json({ success: false, message: 'Design not found' }, { status: 404 });
+      }
+      const meta = await getDesignMeta(workspace, designId, user);
+      name = meta?.name ?? designId;
+    } else if (!design) {
+      return NextResponse.json({ success: false, message: 'Send a designId or the design JSON' }, { status: 400 });
+    }
+
+    const result = await renderDesign(user, source, { format, scale, artboard, quality, overrides });
+
+    return new NextResponse(new Uint8Array(result.data), {
+      headers: {
+        'Content-Type': result.contentType,
+        'Content-Disposition': `attachment; filename="${slugify(name)}.${result.extension}"`,
+        'X-Render-Pages': String(result.pages),
+        'X-Render-Warnings': toHeaderJson(result.warnings),
+      }
+    });
+  } catch (error) {
+    if (error instanceof RenderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status });
+    }
+    if (error instanceof DesignFormatError) {
+      return NextResponse.json({ success: false, message: 'Not a design this version can render' }, { status: 400 });
+    }
+    console.error('Render error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to render design' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, requireUser } from '@/lib/server/session';
+import { getTrashRetentionDays, setTrashRetentionDays } from '@/lib/server/settings';
+
+// Everyone can see how long the trash is kept; only admins change it
+export async function GET(request: NextRequest) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    return NextResponse.json({ success: true, retentionDays: await getTrashRetentionDays(), editable: user.role === 'admin' });
+  } catch (error) {
+    console.error('Get trash retention error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to load settings' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { retentionDays } = await request.json();
+    return NextResponse.json({ success: true, retentionDays: await setTrashRetentionDays(retentionDays), editable: true });
+  } catch (error) {
+    console.error('Save trash retention error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to save settings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, requireUser } from '@/lib/server/session';
+import { getVersionRetention, setVersionRetention } from '@/lib/server/settings';
+
+// Everyone can see the retention policy; only admins change it
+export async function GET(request: NextRequest) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    return NextResponse.json({ success: true, retention: await getVersionRetention(), editable: user.role === 'admin' });
+  } catch (error) {
+    console.error('Get version retention error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to load settings' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { maxVersions, maxAgeDays } = await request.json();
+    const retention = await setVersionRetention({ maxVersions, maxAgeDays });
+    return NextResponse.json({ success: true, retention, editable: true });
+  } catch (error) {
+    console.error('Save version retention error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to save settings' }, { status: 500 });
+  }
+}
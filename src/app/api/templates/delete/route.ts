@@ -1,8 +1,12 @@
 import { NextResponse } from 'next/server';
-import { unlink } from 'fs/promises';
-import path from 'path';
+import { requireUser } from '@/lib/server/session';
+import { resolveFileUrl } from '@/lib/server/workspaces';
+import { moveToTrash } from '@/lib/server/trash';
 
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { filePath } = await request.json();
 
@@ -10,26 +14,30 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, message: 'File path is required' }, { status: 400 });
     }
 
-    // Security check: ensure path is within public assets/templates folder
-    // The received filePath will likely be something like "/assets/templates/filename.json"
-    
-    // Normalize path to prevent directory traversal
-    const safePath = path.normalize(filePath).replace(/^(\.\.(\/|\\|$))+/, '');
-    
-    // Construct absolute path
-    const fullPath = path.join(process.cwd(), 'public', safePath);
-    
-    // Double check it starts with the correct root prefix to be extra safe
-    const expectedRoot = path.join(process.cwd(), 'public', 'assets', 'templates');
-    
-    if (!fullPath.startsWith(expectedRoot)) {
+    // The received filePath is the template's JSON URL, e.g. "/api/files/users/<id>/templates/name.json".
+    // Only templates in the user's own space or the team space resolve.
+    const resolved = resolveFileUrl(user, filePath);
+
+    if (!resolved || resolved.segments[0] !== 'templates' || resolved.segments.length !== 2 || !resolved.filePath.endsWith('.json')) {
          return NextResponse.json({ success: false, message: 'Invalid file path restriction' }, { status: 403 });
     }
 
-    // Delete file
-    await unlink(fullPath);
+    // Move the template and its thumbnail to the trash; the name is read like the list route does
+    const id = resolved.segments[1].replace(/\.json$/, '');
+    const parts = id.split('-');
+    parts.pop();
+    const trashed = await moveToTrash(resolved.workspace, user, {
+      kind: 'template',
+      name: parts.join(' ') || id,
+      originalPath: `templates/${id}.json`,
+      files: [`templates/${id}.json`, `templates/${id}.png`],
+      preview: `templates/${id}.png`,
+    });
+    if (!trashed) {
+      return NextResponse.json({ success: false, message: 'Template not found' }, { status: 404 });
+    }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, trashed });
   } catch (error) {
     console.error('Delete error:', error);
     return NextResponse.json({ success: false, message: 'Delete failed' }, { status: 500 });
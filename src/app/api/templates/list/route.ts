@@ -1,39 +1,52 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { getAvailableSpaces, requireWorkspaces, workspaceUrl } from '@/lib/server/workspaces';
 import { readdir } from 'fs/promises';
 import path from 'path';
 import fs from 'fs';
 
 export async function GET(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const templatesDir = path.join(process.cwd(), 'public', 'assets', 'templates');
-
-    // Check if dir exists
-    if (!fs.existsSync(templatesDir)) {
-        return NextResponse.json({ success: true, templates: [] });
-    }
-
-    const files = await readdir(templatesDir);
-    
-    // Filter for JSON files
-    const templateFiles = files.filter(file => file.endsWith('.json'));
-
-    const templates = templateFiles.map(file => {
-        const id = file.replace('.json', '');
-        // Try to derive a readable name from the filename structure "name-timestamp"
-        // We split by hyphens, pop the last element (timestamp), and join the rest
-        const parts = id.split('-');
-        parts.pop(); // remove timestamp
-        const readableName = parts.join(' ') || id;
-
-        return {
-            id: id,
-            name: readableName,
-            path: `/assets/templates/${file}`, // The JSON data
-            image: `/assets/templates/${id}.png` // The thumbnail
-        };
-    }).sort((a, b) => b.id.localeCompare(a.id)); // Sort by newest (timestamp in ID)
-
-    return NextResponse.json({ success: true, templates });
+    const { searchParams } = new URL(request.url);
+    // Without `space` the list covers the user's own templates plus the team's
+    const workspaces = await requireWorkspaces(user, searchParams.get('space'));
+    if (workspaces instanceof NextResponse) return workspaces;
+
+    const templates = (await Promise.all(workspaces.map(async workspace => {
+        const templatesDir = path.join(workspace.root, 'templates');
+
+        // Check if dir exists
+        if (!fs.existsSync(templatesDir)) {
+            return [];
+        }
+
+        const files = await readdir(templatesDir);
+
+        // Filter for JSON files
+        const templateFiles = files.filter(file => file.endsWith('.json'));
+
+        return templateFiles.map(file => {
+            const id = file.replace('.json', '');
+            // Try to derive a readable name from the filename structure "name-timestamp"
+            // We split by hyphens, pop the last element (timestamp), and join the rest
+            const parts = id.split('-');
+            parts.pop(); // remove timestamp
+            const readableName = parts.join(' ') || id;
+
+            return {
+                id: id,
+                name: readableName,
+                space: workspace.space,
+                path: workspaceUrl(workspace, 'templates', file), // The JSON data
+                image: workspaceUrl(workspace, 'templates', `${id}.png`) // The thumbnail
+            };
+        });
+    }))).flat().sort((a, b) => b.id.localeCompare(a.id)); // Sort by newest (timestamp in ID)
+
+    return NextResponse.json({ success: true, templates, spaces: getAvailableSpaces() });
   } catch (error) {
     console.error('List templates error:', error);
     return NextResponse.json({ success: false, message: 'Failed to list templates' }, { status: 500 });
@@ -1,17 +1,24 @@
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace, workspaceUrl } from '@/lib/server/workspaces';
 import { writeFile, mkdir } from 'fs/promises';
 import path from 'path';
-import fs from 'fs';
 
 export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const { name, canvasData, thumbnailDataUrl } = await request.json();
+    const { name, canvasData, thumbnailDataUrl, space } = await request.json();
 
     if (!name || !canvasData || !thumbnailDataUrl) {
       return NextResponse.json({ success: false, message: 'Missing data' }, { status: 400 });
     }
 
-    const templatesDir = path.join(process.cwd(), 'public', 'assets', 'templates');
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const templatesDir = path.join(workspace.root, 'templates');
     
     // Ensure directory exists
     await mkdir(templatesDir, { recursive: true });
@@ -39,8 +46,9 @@ export async function POST(request: Request) {
         template: {
             id: baseFilename,
             name: name,
-            image: `/assets/templates/${baseFilename}.png`,
-            data: `/assets/templates/${baseFilename}.json`
+            space: workspace.space,
+            image: workspaceUrl(workspace, 'templates', `${baseFilename}.png`),
+            data: workspaceUrl(workspace, 'templates', `${baseFilename}.json`)
         }
     });
 
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { emptyTrash, purgeTrashItem } from '@/lib/server/trash';
+
+// Delete one item for good with `{ id, space }`, or the whole space's trash with `{ space, all: true }`
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space, all } = await request.json();
+
+    if (all !== true && (typeof id !== 'string' || !id)) {
+      return NextResponse.json({ success: false, message: 'ID is required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    if (all === true) {
+      return NextResponse.json({ success: true, purged: await emptyTrash(workspace) });
+    }
+
+    const purged = await purgeTrashItem(workspace, id);
+    if (!purged) {
+      return NextResponse.json({ success: false, message: 'Item not found in the trash' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, purged: 1 });
+  } catch (error) {
+    console.error('Purge trash error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to delete item' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { requireWorkspace } from '@/lib/server/workspaces';
+import { restoreFromTrash } from '@/lib/server/trash';
+
+export async function POST(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id, space } = await request.json();
+
+    if (typeof id !== 'string' || !id) {
+      return NextResponse.json({ success: false, message: 'ID is required' }, { status: 400 });
+    }
+
+    const workspace = await requireWorkspace(user, space);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const result = await restoreFromTrash(workspace, id);
+    if (result.status === 'not-found') {
+      return NextResponse.json({ success: false, message: 'Item not found in the trash' }, { status: 404 });
+    }
+    if (result.status === 'conflict') {
+      return NextResponse.json({ success: false, message: `Something else now exists at ${result.path}` }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, item: result.item });
+  } catch (error) {
+    console.error('Restore from trash error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to restore item' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/server/session';
+import { getAvailableSpaces, requireWorkspaces } from '@/lib/server/workspaces';
+import { getTrashRetentionDays } from '@/lib/server/settings';
+import { listTrash } from '@/lib/server/trash';
+
+export async function GET(request: Request) {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    // Without `space` the list covers the user's own trash plus the team's
+    const workspaces = await requireWorkspaces(user, searchParams.get('space'));
+    if (workspaces instanceof NextResponse) return workspaces;
+
+    const items = (await Promise.all(workspaces.map(workspace => listTrash(workspace))))
+      .flat()
+      .sort((a, b) => b.deletedAt - a.deletedAt);
+
+    return NextResponse.json({ success: true, items, retentionDays: await getTrashRetentionDays(), spaces: getAvailableSpaces() });
+  } catch (error) {
+    console.error('List trash error:', error);
+    return NextResponse.json({ success: false, message: 'Failed to load the trash' }, { status: 500 });
+  }
+}
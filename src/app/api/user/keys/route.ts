@@ -1,57 +1,62 @@
-
 import { NextRequest, NextResponse } from 'next/server';
-// In a real app, use a database (Postgres/Mongo).
-// For this demo, we'll store in a simple in-memory object or file if needed, 
-// but since Vercel serverless functions are ephemeral, we can't persist in-memory reliably across calls.
-// However, the prompt implies a "server" storage.
-// We will mock this with a JSON file or just a simple in-memory store that resets on cold boot, 
-// which is acceptable for a "remake" demo unless a DB is explicitly requested.
-// Let's use a simple global object for demonstration purposes.
+import type { ApiKeyProvider } from '@/types';
+import { isApiKeyProvider } from '@/lib/api-keys';
+import { requireUser } from '@/lib/server/session';
+import { listApiKeys, removeApiKey, setApiKeys } from '@/lib/server/key-vault';
 
 type UserApiKeysPayload = {
-    username?: string;
-    userId?: string;
-    keys?: Record<string, string>;
+    keys?: Record<string, unknown>;
 };
 
-const USER_API_KEYS: Record<string, Record<string, string>> = {};
+// Keys always belong to the signed-in account and are only ever returned masked
+export async function GET(req: NextRequest) {
+    const user = await requireUser(req);
+    if (user instanceof NextResponse) return user;
+
+    try {
+        return NextResponse.json({ success: true, keys: await listApiKeys(user.id) });
+    } catch (error) {
+        console.error('List API keys error:', error);
+        return NextResponse.json({ success: false, message: 'Error retrieving keys' }, { status: 500 });
+    }
+}
 
 export async function POST(req: NextRequest) {
+    const user = await requireUser(req);
+    if (user instanceof NextResponse) return user;
+
     try {
         const body = (await req.json()) as UserApiKeysPayload;
-        // Support both username and userId
-        const username = body.username || body.userId;
-        const keys = body.keys || {};
-        
-        if (!username) {
-            return NextResponse.json({ message: 'Username required' }, { status: 400 });
+        const keys: Partial<Record<ApiKeyProvider, string>> = {};
+        for (const [provider, value] of Object.entries(body.keys || {})) {
+            if (!isApiKeyProvider(provider) || typeof value !== 'string') {
+                return NextResponse.json({ success: false, message: `Unknown provider: ${provider}` }, { status: 400 });
+            }
+            keys[provider] = value;
         }
 
-        // Merge existing keys with new ones
-        USER_API_KEYS[username] = {
-            ...(USER_API_KEYS[username] || {}),
-            ...keys
-        };
-
-        return NextResponse.json({ message: 'Keys saved successfully' });
-    } catch {
-        return NextResponse.json({ message: 'Error saving keys' }, { status: 500 });
+        const statuses = await setApiKeys(user.id, keys);
+        return NextResponse.json({ success: true, message: 'Keys saved successfully', keys: statuses });
+    } catch (error) {
+        console.error('Save API keys error:', error);
+        return NextResponse.json({ success: false, message: 'Error saving keys' }, { status: 500 });
     }
 }
 
-export async function GET(req: NextRequest) {
-    try {
-        const { searchParams } = new URL(req.url);
-        // Support both username and userId
-        const username = searchParams.get('username') || searchParams.get('userId');
+export async function DELETE(req: NextRequest) {
+    const user = await requireUser(req);
+    if (user instanceof NextResponse) return user;
 
-        if (!username) {
-             return NextResponse.json({ message: 'Username required' }, { status: 400 });
-        }
+    const provider = req.nextUrl.searchParams.get('provider');
+    if (!isApiKeyProvider(provider)) {
+        return NextResponse.json({ success: false, message: 'Unknown provider' }, { status: 400 });
+    }
 
-        const keys = USER_API_KEYS[username] || {};
-        return NextResponse.json({ keys });
-    } catch {
-         return NextResponse.json({ message: 'Error retrieving keys' }, { status: 500 });
+    try {
+        const statuses = await removeApiKey(user.id, provider);
+        return NextResponse.json({ success: true, message: 'Key removed', keys: statuses });
+    } catch (error) {
+        console.error('Remove API key error:', error);
+        return NextResponse.json({ success: false, message: 'Error removing key' }, { status: 500 });
     }
 }
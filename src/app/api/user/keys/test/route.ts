@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isApiKeyProvider } from '@/lib/api-keys';
+import { requireUser } from '@/lib/server/session';
+import { getApiKey, recordValidation } from '@/lib/server/key-vault';
+import { testApiKey } from '@/lib/server/api-key-tests';
+
+type TestKeyPayload = {
+    provider?: unknown;
+    /** Test a key before saving it; the stored key is tested when omitted */
+    key?: unknown;
+};
+
+export async function POST(req: NextRequest) {
+    const user = await requireUser(req);
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const body = (await req.json()) as TestKeyPayload;
+        if (!isApiKeyProvider(body.provider)) {
+            return NextResponse.json({ success: false, message: 'Unknown provider' }, { status: 400 });
+        }
+        const provider = body.provider;
+
+        const candidate = typeof body.key === 'string' ? body.key.trim() : '';
+        const key = candidate || (await getApiKey(user.id, provider));
+        if (!key) {
+            return NextResponse.json({ success: false, message: 'No key to test' }, { status: 400 });
+        }
+
+        const result = await testApiKey(provider, key);
+        // Only a definite answer about the stored key is remembered
+        if (!candidate && result.valid !== null) await recordValidation(user.id, provider, result.valid);
+
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Test API key error:', error);
+        return NextResponse.json({ success: false, message: 'Error testing key' }, { status: 500 });
+    }
+}
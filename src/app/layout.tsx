@@ -22,6 +22,8 @@ export const metadata: Metadata = {
 
 import { DialogProvider } from "@/providers/DialogProvider";
 import { ToastProvider } from "@/providers/ToastProvider";
+import { BrandKitProvider } from "@/providers/BrandKitProvider";
+import { FontProvider } from "@/providers/FontProvider";
 import RangeResetListener from "@/components/ui/RangeResetListener";
 
 export default function RootLayout({
@@ -37,8 +39,12 @@ export default function RootLayout({
       >
         <DialogProvider>
           <ToastProvider>
-            <RangeResetListener />
-            {children}
+            <BrandKitProvider>
+              <FontProvider>
+                <RangeResetListener />
+                {children}
+              </FontProvider>
+            </BrandKitProvider>
           </ToastProvider>
         </DialogProvider>
       </body>
@@ -4,11 +4,13 @@ import { useState, useEffect, useCallback } from 'react';
 import LoginModal from '@/components/LoginModal';
 import UserProfileModal from '@/components/UserProfileModal';
 import Dashboard from '@/components/Dashboard';
-import EditorView from '@/components/Editor/EditorView';
+import EditorView, { DesignToOpen } from '@/components/Editor/EditorView';
 import DocumentationModal from '@/components/DocumentationModal';
 import SettingsModal from '@/components/SettingsModal';
 import { User, Settings, Box, Cloud } from 'lucide-react';
 import { useToast } from '@/providers/ToastProvider';
+import { ApiKeyProvider, AuthUser, WorkspaceSpace } from '@/types';
+import { fetchApiKeyStatuses, getConfiguredProviders, migrateLegacyApiKeys } from '@/lib/api-keys';
 
 export default function Home() {
   const { toast } = useToast();
@@ -16,6 +18,7 @@ export default function Home() {
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [showProfileModal, setShowProfileModal] = useState(false);
   const [username, setUsername] = useState('Guest');
+  const [needsSetup, setNeedsSetup] = useState(false);
   const [isDesktopApp, setIsDesktopApp] = useState(false);
   
   // View State
@@ -24,9 +27,10 @@ export default function Home() {
   // Design Context State
   const [currentDesignId, setCurrentDesignId] = useState<string | null>(null);
   const [currentDesignName, setCurrentDesignName] = useState<string>('Untitled Design');
+  const [currentDesignSpace, setCurrentDesignSpace] = useState<WorkspaceSpace>('personal');
   
   // Pending Load State (from Dashboard selection)
-  const [pendingDesignToLoad, setPendingDesignToLoad] = useState<{ data?: unknown } | null>(null);
+  const [pendingDesignToLoad, setPendingDesignToLoad] = useState<DesignToOpen | null>(null);
   const [pendingTemplateJsonUrl, setPendingTemplateJsonUrl] = useState<string | null>(null);
   const [pendingDesignSize, setPendingDesignSize] = useState<{width: number, height: number} | null>(null);
   const [showDocumentation, setShowDocumentation] = useState(false);
@@ -41,7 +45,7 @@ export default function Home() {
 
     let cancelled = false;
 
-    const timer = window.setTimeout(() => {
+    const timer = window.setTimeout(async () => {
       if (cancelled) {
         return;
       }
@@ -50,14 +54,28 @@ export default function Home() {
       const desktopDetected = Boolean(desktopBridge?.isDesktop);
       setIsDesktopApp(desktopDetected);
 
-      const storedUser = localStorage.getItem('image-express-user');
       if (desktopDetected) {
+        const storedUser = localStorage.getItem('image-express-user');
         setUsername(storedUser || 'Local Desktop');
         setShowLoginModal(false);
-      } else if (storedUser) {
-        setUsername(storedUser);
-      } else {
-        setShowLoginModal(true);
+        return;
+      }
+
+      // The session lives in an HTTP-only cookie, so ask the server who we are
+      try {
+        const res = await fetch('/api/auth/session', { cache: 'no-store' });
+        const data = await res.json();
+        if (cancelled) return;
+        if (data.user) {
+          setUsername(data.user.username);
+          setShowLoginModal(false);
+        } else {
+          setNeedsSetup(Boolean(data.needsSetup));
+          setShowLoginModal(true);
+        }
+      } catch (error) {
+        console.error('Failed to check session', error);
+        if (!cancelled) setShowLoginModal(true);
       }
     }, 0);
 
@@ -67,30 +85,30 @@ export default function Home() {
     };
   }, []);
 
-  const handleLogin = (user: string) => {
-    localStorage.setItem('image-express-user', user);
-    setUsername(user);
+  // The server has already set the session cookie and logged the attempt.
+  const handleLogin = (user: AuthUser) => {
+    setUsername(user.username);
+    setNeedsSetup(false);
     setShowLoginModal(false);
-
-    // Fire and forget logging of the authentication event.
-    if (!isDesktopApp) {
-      fetch('/api/logs/login', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username: user })
-      }).catch(() => {
-        // Swallow errors to avoid blocking UX if logging fails.
-      });
+    if (window.location.search.includes('invite=')) {
+      window.history.replaceState(null, '', window.location.pathname);
     }
   };
 
   const handleLogout = useCallback(() => {
-    localStorage.removeItem('image-express-user');
+    if (isDesktopApp) {
+      localStorage.removeItem('image-express-user');
+    } else {
+      fetch('/api/auth/logout', { method: 'POST' }).catch(() => {
+        // The cookie expires on its own; never block sign-out on the network.
+      });
+    }
     setUsername(isDesktopApp ? 'Local Desktop' : 'Guest');
     setShowProfileModal(false);
     setShowLoginModal(!isDesktopApp);
     setCurrentView('dashboard');
     setCurrentDesignId(null);
+    setCurrentDesignSpace('personal');
     setCurrentDesignName('Untitled Design');
     setPendingDesignToLoad(null);
     setPendingTemplateJsonUrl(null);
@@ -145,24 +163,28 @@ export default function Home() {
     };
   }, [isDesktopApp, username, showLoginModal, handleLogout, toast]);
 
+  // Refresh the connection badges from the key vault whenever Settings closes or the view changes
   useEffect(() => {
-    if (typeof window === 'undefined') {
+    if (showSettings || showLoginModal || (username === 'Guest' && !isDesktopApp)) {
       return;
     }
-    const has3D = Boolean(localStorage.getItem('meshy_api_key') || localStorage.getItem('tripo_api_key'));
-    const has2D = Boolean(
-      localStorage.getItem('stability_api_key') ||
-      localStorage.getItem('openai_api_key') ||
-      localStorage.getItem('google_api_key') ||
-      localStorage.getItem('banana_api_key')
-    );
-    
-    // Only update if changed to avoid unnecessary re-renders
-    if (has2D !== connectionStatus.has2D || has3D !== connectionStatus.has3D) {
-       // eslint-disable-next-line
-       setConnectionStatus({ has2D, has3D });
-    }
-  }, [showSettings, currentView, connectionStatus.has2D, connectionStatus.has3D]);
+    let cancelled = false;
+    migrateLegacyApiKeys()
+      .catch((error) => console.error('Failed to migrate stored API keys', error))
+      .then(() => fetchApiKeyStatuses())
+      .then((statuses) => {
+        if (cancelled) return;
+        const configured = getConfiguredProviders(statuses);
+        setConnectionStatus({
+          has2D: ['stability', 'openai', 'google', 'banana'].some((provider) => configured.has(provider as ApiKeyProvider)),
+          has3D: configured.has('meshy') || configured.has('tripo'),
+        });
+      })
+      .catch((error) => console.error('Failed to load API key status', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [showSettings, showLoginModal, currentView, username, isDesktopApp]);
 
   // Render
     if (currentView === 'editor') {
@@ -176,6 +198,7 @@ export default function Home() {
           onBack={() => {
             setCurrentView('dashboard');
             setCurrentDesignId(null);
+            setCurrentDesignSpace('personal');
             setCurrentDesignName('Untitled Design');
             setPendingDesignToLoad(null);
             setPendingTemplateJsonUrl(null);
@@ -183,8 +206,10 @@ export default function Home() {
           onLogout={handleLogout}
           currentDesignId={currentDesignId}
           currentDesignName={currentDesignName}
-          onUpdateDesignInfo={(id, name) => {
+          currentDesignSpace={currentDesignSpace}
+          onUpdateDesignInfo={(id, name, space) => {
             setCurrentDesignId(id);
+            if (space) setCurrentDesignSpace(space);
             setCurrentDesignName(name);
           }}
           onOpenDocumentation={() => setShowDocumentation(true)}
@@ -192,7 +217,7 @@ export default function Home() {
           settingsOpen={showSettings}
           />
           <DocumentationModal isOpen={showDocumentation} onClose={() => setShowDocumentation(false)} />
-          <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} userId={username} />
+          <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} />
         </>
       );
   }
@@ -263,8 +288,10 @@ export default function Home() {
       
       {!isDesktopApp && (
         <LoginModal 
+          key={needsSetup ? 'setup' : 'login'}
           isOpen={showLoginModal} 
           onLogin={handleLogin} 
+          needsSetup={needsSetup}
         />
       )}
       
@@ -274,13 +301,14 @@ export default function Home() {
         username={username}
         onLogout={handleLogout}
       />
-      <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} userId={username} />
+      <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} />
 
         <div className="flex flex-1 overflow-hidden">
            <Dashboard 
               user={username}
               onNewDesign={() => {
                   setCurrentDesignId(null);
+                  setCurrentDesignSpace('personal');
                   setCurrentDesignName('Untitled Design');
                   setPendingDesignToLoad(null);
                   setPendingTemplateJsonUrl(null);
@@ -306,9 +334,18 @@ export default function Home() {
                   setPendingDesignToLoad(d);
                   setPendingTemplateJsonUrl(null);
                   setCurrentDesignId(d.id);
+                  setCurrentDesignSpace(d.space ?? 'personal');
                   setCurrentDesignName(d.name);
                   setCurrentView('editor');
               }}
+              onRecoverDesign={(slot) => {
+                  setPendingDesignToLoad({ data: slot.data, recoverySlot: slot.slot });
+                  setPendingTemplateJsonUrl(null);
+                  setCurrentDesignId(slot.designId);
+                  setCurrentDesignSpace(slot.space);
+                  setCurrentDesignName(slot.name);
+                  setCurrentView('editor');
+              }}
            />
       </div>
 
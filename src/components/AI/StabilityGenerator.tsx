@@ -20,8 +20,8 @@ interface StabilityGeneratorProps {
     onClose: () => void;
     /** Reference to the main Fabric.js canvas for context */
     canvas: fabric.Canvas | null;
-    /** Stability AI API Key */
-    apiKey: string | undefined;
+    /** Whether a Stability AI key is saved in the user's vault */
+    hasApiKey: boolean;
     /** Callback when a long-running job (like video/upscale) is started */
     onJobCreated?: (job: BackgroundJob) => void;
     /** Whether this is running inside another modal (simplified view) */
@@ -44,7 +44,7 @@ type CanvasWithArtboard = fabric.Canvas & {
  * - Upscaling (Conservative/Creative)
  * - Background Removal
  */
-export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, onJobCreated, embedded, onAssetSave }: StabilityGeneratorProps) {
+export default function StabilityGenerator({ isOpen, onClose, canvas, hasApiKey, onJobCreated, embedded, onAssetSave }: StabilityGeneratorProps) {
     const { toast } = useToast();
     // --- UI State ---
     const [activeTab, setActiveTab] = useState('generate');
@@ -139,7 +139,7 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
      * Uses Stability Core API.
      */
     const handleGenerate = async () => {
-        if (!apiKey) {
+        if (!hasApiKey) {
             toast({ title: 'Missing API key', description: 'Please set Stability API Key in settings.', variant: 'warning' });
             return;
         }
@@ -154,7 +154,6 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
             
             const res = await fetch('/api/ai/stability/generate', {
                 method: 'POST',
-                headers: { 'Authorization': `Bearer ${apiKey}` },
                 body: formData
             });
             
@@ -177,7 +176,7 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
      * Removes the background from the selected canvas image.
      */
     const handleRemoveBg = async () => {
-        if (!apiKey) {
+        if (!hasApiKey) {
             toast({ title: 'Missing API key', description: 'Please set Stability API Key.', variant: 'warning' });
             return;
         }
@@ -197,7 +196,6 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
 
             const res = await fetch('/api/ai/stability/remove-bg', {
                 method: 'POST',
-                headers: { 'Authorization': `Bearer ${apiKey}` },
                 body: formData
             });
 
@@ -220,7 +218,7 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
      * @param type 'conservative' (details) or 'creative' (hallucinate details)
      */
     const handleUpscale = async (type: 'conservative' | 'creative') => {
-        if (!apiKey) {
+        if (!hasApiKey) {
             toast({ title: 'Missing API key', description: 'Please set Stability API Key.', variant: 'warning' });
             return;
         }
@@ -239,7 +237,6 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
 
             const res = await fetch(`/api/ai/stability/upscale?type=${type}`, {
                 method: 'POST',
-                headers: { 'Authorization': `Bearer ${apiKey}` },
                 body: formData
             });
 
@@ -252,7 +249,6 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
                         type: 'stability-upscale',
                         status: 'IN_PROGRESS',
                         createdAt: Date.now(),
-                        apiKey: apiKey,
                         provider: 'stability'
                     });
                     toast({ title: 'Upscale started', description: 'Creative upscale running in background.', variant: 'success' });
@@ -275,7 +271,7 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
      * Performs Image-to-Image generation based on canvas selection + prompt.
      */
     const handleImg2Img = async () => {
-         if (!apiKey) {
+         if (!hasApiKey) {
              toast({ title: 'Missing API key', description: 'Please set Stability API Key.', variant: 'warning' });
              return;
          }
@@ -296,7 +292,6 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
 
             const res = await fetch('/api/ai/stability/img2img', {
                 method: 'POST',
-                headers: { 'Authorization': `Bearer ${apiKey}` },
                 body: formData
             });
             
@@ -318,7 +313,7 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
      * Performs Inpainting (replacing masked area) based on canvas selection + mask.
      */
     const handleInpaint = async () => {
-        if (!apiKey) {
+        if (!hasApiKey) {
             toast({ title: 'Missing API key', description: 'Please set Stability API Key.', variant: 'warning' });
             return;
         }
@@ -345,7 +340,6 @@ export default function StabilityGenerator({ isOpen, onClose, canvas, apiKey, on
 
            const res = await fetch('/api/ai/stability/inpaint', {
                method: 'POST',
-               headers: { 'Authorization': `Bearer ${apiKey}` },
                body: formData
            });
            
@@ -1,15 +1,18 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Upload, Image as ImageIcon, Box, Trash2, CheckCircle, Loader2, RotateCw, Pen, X, Video, Music } from 'lucide-react';
+import { Upload, Image as ImageIcon, Box, Trash2, CheckCircle, Loader2, RotateCw, Pen, X, Video, Music, Users, Type } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import Asset3DPreview from './Asset3DPreview';
-import { AssetDescriptor, AssetType, AssetCategory } from '@/types';
+import { AssetDescriptor, AssetType, AssetCategory, WorkspaceSpace } from '@/types';
 import { useDialog } from '@/providers/DialogProvider';
 import { useToast } from '@/providers/ToastProvider';
+import { useUploadedFonts } from '@/providers/FontProvider';
+import { FONT_EXTENSIONS, getFontFamilyName } from '@/lib/fonts';
 import DraggableResizablePanel from '@/components/ui/DraggableResizablePanel';
+import TrashModal from '@/components/TrashModal';
 
-const ACCEPTED_FILE_TYPES = 'image/*,video/*,audio/*,.glb,.gltf,.obj,.fbx,.stl,.ply';
+const ACCEPTED_FILE_TYPES = `image/*,video/*,audio/*,.glb,.gltf,.obj,.fbx,.stl,.ply,${FONT_EXTENSIONS.join(',')}`;
 
 /**
  * Media tab configuration describing available asset categories and upload behavior.
@@ -47,6 +50,14 @@ const LIBRARY_TABS = [
         category: 'uploads' as AssetCategory,
         accept: '.glb,.gltf'
     },
+    {
+        key: 'fonts',
+        label: 'Fonts',
+        icon: Type,
+        type: 'fonts' as AssetType,
+        category: 'uploads' as AssetCategory,
+        accept: FONT_EXTENSIONS.join(',')
+    },
     {
         key: 'generated',
         label: 'Generated',
@@ -71,13 +82,15 @@ const typeToTabKey: Record<AssetType, LibraryTab> = {
     images: 'images',
     videos: 'videos',
     audio: 'audio',
-    models: 'models'
+    models: 'models',
+    fonts: 'fonts'
 };
 
 const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.bmp', '.tif', '.tiff', '.heic']);
 const VIDEO_EXTENSIONS = new Set(['.mp4', '.webm', '.mov', '.mkv', '.avi', '.m4v', '.ogv']);
 const AUDIO_EXTENSIONS = new Set(['.mp3', '.wav', '.ogg', '.m4a', '.aac', '.flac', '.oga']);
 const MODEL_EXTENSIONS = new Set(['.glb', '.gltf', '.obj', '.fbx', '.stl', '.ply']);
+const FONT_EXTENSION_SET = new Set(FONT_EXTENSIONS);
 
 const inferAssetType = (filename: string, mimeType?: string): AssetType => {
     const lowerName = filename.toLowerCase();
@@ -89,12 +102,14 @@ const inferAssetType = (filename: string, mimeType?: string): AssetType => {
         if (mimeType.startsWith('audio/')) return 'audio';
         if (mimeType === 'model/gltf-binary' || mimeType === 'model/gltf+json') return 'models';
         if (mimeType.startsWith('image/')) return 'images';
+        if (mimeType.startsWith('font/')) return 'fonts';
     }
 
     if (VIDEO_EXTENSIONS.has(extension)) return 'videos';
     if (AUDIO_EXTENSIONS.has(extension)) return 'audio';
     if (MODEL_EXTENSIONS.has(extension)) return 'models';
     if (IMAGE_EXTENSIONS.has(extension)) return 'images';
+    if (FONT_EXTENSION_SET.has(extension)) return 'fonts';
 
     return 'images';
 };
@@ -113,15 +128,22 @@ interface AssetLibraryProps {
  * Allows users to Upload, Delete, Rename, and Select assets.
  * 
  * Assets are organized into dedicated tabs driven by configuration:
- * - Uploads: User uploaded imagery (public/assets/uploads/images)
- * - Videos: User uploaded video clips (public/assets/uploads/videos)
- * - Audio: User uploaded audio clips (public/assets/uploads/audio)
- * - 3D: User uploaded 3D models (public/assets/uploads/models)
- * - Generated: AI generated images (public/assets/generated/images)
+ * - Uploads: User uploaded imagery (uploads/images)
+ * - Videos: User uploaded video clips (uploads/videos)
+ * - Audio: User uploaded audio clips (uploads/audio)
+ * - 3D: User uploaded 3D models (uploads/models)
+ * - Fonts: User uploaded TTF/OTF/WOFF/WOFF2 fonts (uploads/fonts), previewed in their own face
+ * - Generated: AI generated images (generated/images)
+ *
+ * Each tab shows either the user's own files or the shared team space.
  */
 export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
     // Current active view tab
     const [activeTab, setActiveTab] = useState<LibraryTab>('images');
+
+    // Personal or team workspace being browsed (uploads go to the same place)
+    const [space, setSpace] = useState<WorkspaceSpace>('personal');
+    const [availableSpaces, setAvailableSpaces] = useState<WorkspaceSpace[]>(['personal']);
     
     // List of assets currently displayed
     const [assets, setAssets] = useState<AssetDescriptor[]>([]);
@@ -129,6 +151,7 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
     // UI Loading States
     const [isLoading, setIsLoading] = useState(false);
     const [isUploading, setIsUploading] = useState(false);
+    const [isTrashOpen, setIsTrashOpen] = useState(false);
     
     // Toggle for saving uploads to server persistent storage
     const [saveToServer, setSaveToServer] = useState(true);
@@ -142,6 +165,8 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
 
     const dialog = useDialog();
     const { toast } = useToast();
+    // Font menus list the library's fonts; they are listed again whenever the Fonts tab changes
+    const { load: loadFonts } = useUploadedFonts();
 
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -152,15 +177,17 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
         setIsLoading(true);
         try {
             const config = TAB_CONFIG[activeTab];
-            const res = await fetch(`/api/assets/list?type=${config.type}&category=${config.category}`);
+            const res = await fetch(`/api/assets/list?type=${config.type}&category=${config.category}&space=${space}`);
             const data = await res.json();
             if (data.success) {
+                if (Array.isArray(data.spaces)) setAvailableSpaces(data.spaces as WorkspaceSpace[]);
                 const normalized: AssetDescriptor[] = (data.files || []).map((file: AssetDescriptor) => ({
                     ...file,
                     category: file.category || config.category,
                     type: file.type || config.type
                 }));
                 setAssets(normalized);
+                if (config.type === 'fonts') void loadFonts(true);
             }
         } catch (error) {
             console.error("Failed to load assets", error);
@@ -169,10 +196,10 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
         }
     };
 
-    // Re-fetch when tab changes
+    // Re-fetch when tab or space changes
     useEffect(() => {
         fetchAssets();
-    }, [activeTab]);
+    }, [activeTab, space]);
 
     /**
      * Handles file selection from system dialog.
@@ -210,6 +237,7 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
         if (config.category) {
             formData.append('category', config.category);
         }
+        formData.append('space', space);
 
         try {
             const res = await fetch('/api/assets/upload', {
@@ -266,6 +294,7 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
                 body: JSON.stringify({
                     type: config.type,
                     category: config.category,
+                    space,
                     oldName: oldName,
                     newName: editName.trim()
                 })
@@ -296,7 +325,7 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
      */
     const deleteAsset = async (path: string, e: React.MouseEvent) => {
         e.stopPropagation(); // Prevent selection when clicking delete
-        const confirmed = await dialog.confirm('Are you sure you want to delete this asset?', { title: 'Delete Asset', variant: 'destructive' });
+        const confirmed = await dialog.confirm('Move this asset to the trash? It can be restored from there.', { title: 'Delete Asset', variant: 'destructive' });
         if (!confirmed) return;
 
         try {
@@ -323,6 +352,7 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
     };
 
     return (
+        <>
         <DraggableResizablePanel
             className="bg-card border border-border rounded-lg shadow-2xl overflow-hidden animate-in fade-in slide-in-from-left-4 duration-200"
             initialPosition={{ x: 80, y: 140 }}
@@ -341,6 +371,13 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
                      >
                         <RotateCw size={14} className={isLoading ? "animate-spin" : ""} />
                     </button>
+                    <button
+                        onClick={() => setIsTrashOpen(true)}
+                        className="p-1.5 hover:bg-secondary rounded-full text-muted-foreground hover:text-foreground transition-colors"
+                        title="Trash"
+                    >
+                        <Trash2 size={14} />
+                    </button>
                     <button onClick={onClose} className="p-1.5 hover:bg-secondary rounded-full text-muted-foreground hover:text-foreground">✕</button>
                 </div>
             </div>
@@ -377,6 +414,24 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
                     <label htmlFor="saveToServer" className="text-xs text-muted-foreground cursor-pointer select-none">
                         Save to Workspace Assets
                     </label>
+                    {availableSpaces.includes('team') && (
+                        <div className="ml-auto flex bg-secondary/50 rounded-md p-0.5 text-[10px] font-medium">
+                            {(['personal', 'team'] as WorkspaceSpace[]).map((item) => (
+                                <button
+                                    key={item}
+                                    onClick={() => setSpace(item)}
+                                    className={cn(
+                                        "px-2 py-0.5 rounded flex items-center gap-1 transition-colors",
+                                        space === item ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+                                    )}
+                                    title={item === 'team' ? 'Shared with your team' : 'Only visible to you'}
+                                >
+                                    {item === 'team' && <Users size={10} />}
+                                    {item === 'team' ? 'Team' : 'Mine'}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
                 
                 <input 
@@ -502,6 +557,12 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
                                                     <span className="text-[10px] text-center px-1 truncate w-full text-foreground/80">{asset.name}</span>
                                                 </div>
                                             )}
+                                            {asset.type === 'fonts' && (
+                                                <div className="w-full h-full flex flex-col items-center justify-center gap-1 text-foreground">
+                                                    <span className="text-2xl leading-none" style={{ fontFamily: `"${getFontFamilyName(asset.name)}", sans-serif` }}>Aa</span>
+                                                    <span className="text-[10px] text-center px-1 truncate w-full text-foreground/80">{getFontFamilyName(asset.name)}</span>
+                                                </div>
+                                            )}
                                             {asset.type === 'models' && (
                                                 <div className="relative w-full h-full flex items-center justify-center">
                                                     {hoveredAsset === asset.path ? (
@@ -553,5 +614,12 @@ export default function AssetLibrary({ onSelect, onClose }: AssetLibraryProps) {
                 </div>
             )}
         </DraggableResizablePanel>
+        <TrashModal
+            isOpen={isTrashOpen}
+            onClose={() => setIsTrashOpen(false)}
+            initialKind="asset"
+            onRestored={(item) => { if (item.kind === 'asset') fetchAssets(); }}
+        />
+        </>
     );
 }
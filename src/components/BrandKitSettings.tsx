@@ -0,0 +1,362 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { ImagePlus, Loader2, Plus, Trash2, X } from 'lucide-react';
+import Image from 'next/image';
+import { BrandKit, BrandPalette, BrandTextStyle, WorkspaceSpace } from '@/types';
+import { createBrandItemId } from '@/lib/brand-kit';
+import { SYSTEM_FONTS } from '@/lib/fonts';
+import { cn } from '@/lib/utils';
+import { useUploadedFonts } from '@/providers/FontProvider';
+
+interface BrandKitSettingsProps {
+    kit: BrandKit;
+    space: WorkspaceSpace;
+    editable: boolean;
+    onChange: (kit: BrandKit) => void;
+}
+
+const inputClass = 'h-8 px-2 rounded-md bg-background border border-border focus:border-primary focus:ring-1 focus:ring-primary outline-none text-xs disabled:opacity-60';
+const WEIGHTS = ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'];
+
+const newTextStyle = (kit: BrandKit): BrandTextStyle => {
+    const isFirst = kit.textStyles.length === 0;
+    return {
+        id: createBrandItemId(),
+        name: isFirst ? 'Heading' : kit.textStyles.length === 1 ? 'Body' : `Text style ${kit.textStyles.length + 1}`,
+        fontFamily: kit.fonts[0] ?? 'Arial',
+        fontWeight: isFirst ? 'bold' : 'normal',
+        fontSize: isFirst ? 48 : 16,
+    };
+};
+
+/**
+ * Editor for the brand kit in Settings. Changes stay a draft until the settings are saved;
+ * logos are uploaded to the kit's space straight away.
+ */
+export default function BrandKitSettings({ kit, space, editable, onChange }: BrandKitSettingsProps) {
+    const [selectedColor, setSelectedColor] = useState<{ paletteId: string; index: number } | null>(null);
+    const [fontDraft, setFontDraft] = useState('');
+    const [isUploading, setIsUploading] = useState(false);
+    const [uploadError, setUploadError] = useState<string | null>(null);
+    const logoInputRef = useRef<HTMLInputElement>(null);
+    const { fonts: uploadedFonts } = useUploadedFonts();
+    const fontSuggestions = [...uploadedFonts.map((font) => font.family), ...SYSTEM_FONTS].filter((font) => !kit.fonts.includes(font));
+
+    const updatePalette = (id: string, patch: Partial<BrandPalette>) =>
+        onChange({ ...kit, palettes: kit.palettes.map((palette) => (palette.id === id ? { ...palette, ...patch } : palette)) });
+
+    const updateTextStyle = (id: string, patch: Partial<BrandTextStyle>) =>
+        onChange({ ...kit, textStyles: kit.textStyles.map((style) => (style.id === id ? { ...style, ...patch } : style)) });
+
+    const addFont = () => {
+        const font = fontDraft.trim();
+        if (font && !kit.fonts.includes(font)) onChange({ ...kit, fonts: [...kit.fonts, font] });
+        setFontDraft('');
+    };
+
+    const uploadLogo = async (file: File) => {
+        setIsUploading(true);
+        setUploadError(null);
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('space', space);
+        try {
+            const res = await fetch('/api/assets/upload', { method: 'POST', body: formData });
+            const data = await res.json();
+            if (!data.success) throw new Error(data.message || 'Upload failed');
+            const name = file.name.replace(/\.[^.]+$/, '') || 'Logo';
+            onChange({ ...kit, logos: [...kit.logos, { id: createBrandItemId(), name, src: data.path }] });
+        } catch (error) {
+            console.error('Failed to upload logo:', error);
+            setUploadError(error instanceof Error ? error.message : 'Upload failed');
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const selected = selectedColor
+        ? kit.palettes.find((palette) => palette.id === selectedColor.paletteId)?.colors[selectedColor.index]
+        : undefined;
+
+    return (
+        <div className="space-y-4">
+            {/* Palettes */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-semibold">Colour palettes</label>
+                    {editable && (
+                        <button
+                            onClick={() => onChange({
+                                ...kit,
+                                palettes: [...kit.palettes, { id: createBrandItemId(), name: `Palette ${kit.palettes.length + 1}`, colors: [] }],
+                            })}
+                            className="text-[11px] text-primary hover:underline flex items-center gap-1"
+                        >
+                            <Plus size={12} /> Add palette
+                        </button>
+                    )}
+                </div>
+                {kit.palettes.length === 0 && <p className="text-[11px] text-muted-foreground">No palettes yet.</p>}
+                {kit.palettes.map((palette) => (
+                    <div key={palette.id} className="bg-secondary/20 p-2 rounded-lg border border-border/50 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <input
+                                value={palette.name}
+                                disabled={!editable}
+                                onChange={(e) => updatePalette(palette.id, { name: e.target.value })}
+                                className={cn(inputClass, 'flex-1 min-w-0')}
+                            />
+                            {editable && (
+                                <button
+                                    onClick={() => onChange({ ...kit, palettes: kit.palettes.filter((item) => item.id !== palette.id) })}
+                                    className="p-1.5 text-muted-foreground hover:text-destructive"
+                                    title="Remove palette"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex flex-wrap gap-1.5 items-center">
+                            {palette.colors.map((color, index) => (
+                                <button
+                                    key={`${color.value}-${index}`}
+                                    onClick={() => setSelectedColor(
+                                        selectedColor?.paletteId === palette.id && selectedColor.index === index ? null : { paletteId: palette.id, index }
+                                    )}
+                                    className={cn(
+                                        'w-6 h-6 rounded border',
+                                        selectedColor?.paletteId === palette.id && selectedColor.index === index ? 'border-primary ring-1 ring-primary' : 'border-border'
+                                    )}
+                                    style={{ backgroundColor: color.value }}
+                                    title={`${color.name} (${color.value.toUpperCase()})`}
+                                />
+                            ))}
+                            {editable && (
+                                <label className="relative w-6 h-6 rounded border border-dashed border-border flex items-center justify-center text-muted-foreground hover:text-foreground cursor-pointer" title="Add colour">
+                                    <Plus size={12} />
+                                    <input
+                                        type="color"
+                                        defaultValue="#000000"
+                                        onChange={(e) => {
+                                            const value = e.target.value.toLowerCase();
+                                            updatePalette(palette.id, { colors: [...palette.colors, { name: value.toUpperCase(), value }] });
+                                            setSelectedColor({ paletteId: palette.id, index: palette.colors.length });
+                                        }}
+                                        className="absolute inset-0 opacity-0 cursor-pointer"
+                                    />
+                                </label>
+                            )}
+                        </div>
+                        {selected && selectedColor?.paletteId === palette.id && (
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="color"
+                                    value={selected.value}
+                                    disabled={!editable}
+                                    onChange={(e) => updatePalette(palette.id, {
+                                        colors: palette.colors.map((color, index) => (index === selectedColor.index ? { ...color, value: e.target.value.toLowerCase() } : color)),
+                                    })}
+                                    className="h-8 w-8 rounded overflow-hidden border border-border cursor-pointer p-0 bg-transparent shrink-0"
+                                />
+                                <input
+                                    value={selected.name}
+                                    disabled={!editable}
+                                    onChange={(e) => updatePalette(palette.id, {
+                                        colors: palette.colors.map((color, index) => (index === selectedColor.index ? { ...color, name: e.target.value } : color)),
+                                    })}
+                                    placeholder="Colour name"
+                                    className={cn(inputClass, 'flex-1 min-w-0')}
+                                />
+                                {editable && (
+                                    <button
+                                        onClick={() => {
+                                            updatePalette(palette.id, { colors: palette.colors.filter((_, index) => index !== selectedColor.index) });
+                                            setSelectedColor(null);
+                                        }}
+                                        className="p-1.5 text-muted-foreground hover:text-destructive"
+                                        title="Remove colour"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {/* Fonts */}
+            <div className="space-y-2">
+                <label className="text-xs font-semibold block">Approved fonts</label>
+                <div className="flex flex-wrap gap-1.5">
+                    {kit.fonts.length === 0 && <p className="text-[11px] text-muted-foreground">Any font may be used.</p>}
+                    {kit.fonts.map((font) => (
+                        <span key={font} className="flex items-center gap-1 px-2 py-1 rounded-md bg-secondary/40 text-xs" style={{ fontFamily: font }}>
+                            {font}
+                            {editable && (
+                                <button
+                                    onClick={() => onChange({ ...kit, fonts: kit.fonts.filter((item) => item !== font) })}
+                                    className="text-muted-foreground hover:text-destructive"
+                                    title="Remove font"
+                                >
+                                    <X size={10} />
+                                </button>
+                            )}
+                        </span>
+                    ))}
+                </div>
+                {editable && (
+                    <div className="flex gap-2">
+                        <input
+                            value={fontDraft}
+                            onChange={(e) => setFontDraft(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') addFont(); }}
+                            placeholder="Font family, e.g. Georgia"
+                            list="brand-kit-font-suggestions"
+                            className={cn(inputClass, 'flex-1 min-w-0')}
+                        />
+                        <datalist id="brand-kit-font-suggestions">
+                            {fontSuggestions.map((font) => <option key={font} value={font} />)}
+                        </datalist>
+                        <button onClick={addFont} disabled={!fontDraft.trim()} className="px-2.5 h-8 text-[11px] font-semibold border border-border rounded-md hover:bg-secondary disabled:opacity-50">
+                            Add
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {/* Logos */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-semibold">Logos</label>
+                    {editable && (
+                        <button
+                            onClick={() => logoInputRef.current?.click()}
+                            disabled={isUploading}
+                            className="text-[11px] text-primary hover:underline flex items-center gap-1 disabled:opacity-50"
+                        >
+                            {isUploading ? <Loader2 size={12} className="animate-spin" /> : <ImagePlus size={12} />} Upload logo
+                        </button>
+                    )}
+                    <input
+                        ref={logoInputRef}
+                        type="file"
+                        accept="image/*"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) uploadLogo(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+                {uploadError && <p className="text-[11px] text-destructive">{uploadError}</p>}
+                {kit.logos.length === 0 && <p className="text-[11px] text-muted-foreground">No logos yet.</p>}
+                <div className="grid grid-cols-3 gap-2">
+                    {kit.logos.map((logo) => (
+                        <div key={logo.id} className="group relative rounded-lg border border-border/50 p-1.5 space-y-1">
+                            <div className="relative aspect-square bg-white/5 rounded overflow-hidden">
+                                <Image src={logo.src} alt={logo.name} fill className="object-contain p-1" unoptimized />
+                            </div>
+                            <input
+                                value={logo.name}
+                                disabled={!editable}
+                                onChange={(e) => onChange({ ...kit, logos: kit.logos.map((item) => (item.id === logo.id ? { ...item, name: e.target.value } : item)) })}
+                                className="w-full bg-transparent text-[10px] outline-none truncate"
+                            />
+                            {editable && (
+                                <button
+                                    onClick={() => onChange({ ...kit, logos: kit.logos.filter((item) => item.id !== logo.id) })}
+                                    className="absolute top-1 right-1 p-1 bg-black/50 hover:bg-destructive text-white rounded opacity-0 group-hover:opacity-100 transition-all"
+                                    title="Remove logo"
+                                >
+                                    <Trash2 size={10} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* Text styles */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-semibold">Text styles</label>
+                    {editable && (
+                        <button
+                            onClick={() => onChange({ ...kit, textStyles: [...kit.textStyles, newTextStyle(kit)] })}
+                            className="text-[11px] text-primary hover:underline flex items-center gap-1"
+                        >
+                            <Plus size={12} /> Add style
+                        </button>
+                    )}
+                </div>
+                {kit.textStyles.length === 0 && <p className="text-[11px] text-muted-foreground">No text styles yet.</p>}
+                <datalist id="brand-kit-fonts">
+                    {kit.fonts.map((font) => <option key={font} value={font} />)}
+                </datalist>
+                {kit.textStyles.map((style) => (
+                    <div key={style.id} className="bg-secondary/20 p-2 rounded-lg border border-border/50 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <input
+                                value={style.name}
+                                disabled={!editable}
+                                onChange={(e) => updateTextStyle(style.id, { name: e.target.value })}
+                                className={cn(inputClass, 'flex-1 min-w-0 font-semibold')}
+                            />
+                            {editable && (
+                                <button
+                                    onClick={() => onChange({ ...kit, textStyles: kit.textStyles.filter((item) => item.id !== style.id) })}
+                                    className="p-1.5 text-muted-foreground hover:text-destructive"
+                                    title="Remove style"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+                            <input
+                                value={style.fontFamily}
+                                list="brand-kit-fonts"
+                                disabled={!editable}
+                                onChange={(e) => updateTextStyle(style.id, { fontFamily: e.target.value })}
+                                className={cn(inputClass, 'min-w-0')}
+                                title="Font family"
+                            />
+                            <select
+                                value={style.fontWeight}
+                                disabled={!editable}
+                                onChange={(e) => updateTextStyle(style.id, { fontWeight: e.target.value })}
+                                className={cn(inputClass, 'w-20')}
+                                title="Weight"
+                            >
+                                {WEIGHTS.map((weight) => <option key={weight} value={weight}>{weight}</option>)}
+                            </select>
+                            <input
+                                type="number"
+                                min={1}
+                                value={style.fontSize}
+                                disabled={!editable}
+                                onChange={(e) => updateTextStyle(style.id, { fontSize: Math.max(1, Number(e.target.value) || 1) })}
+                                className={cn(inputClass, 'w-16')}
+                                title="Size (px)"
+                            />
+                            <input
+                                type="color"
+                                value={style.fill ?? '#000000'}
+                                disabled={!editable}
+                                onChange={(e) => updateTextStyle(style.id, { fill: e.target.value.toLowerCase() })}
+                                className="h-8 w-8 rounded overflow-hidden border border-border cursor-pointer p-0 bg-transparent"
+                                title="Colour"
+                            />
+                        </div>
+                        <p className="text-sm truncate" style={{ fontFamily: style.fontFamily, fontWeight: style.fontWeight, color: style.fill }}>
+                            The quick brown fox
+                        </p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import * as fabric from 'fabric';
+import { CheckCircle2, Loader2, Palette, ShieldCheck, Type } from 'lucide-react';
+import Image from 'next/image';
+import DraggableResizablePanel from '@/components/ui/DraggableResizablePanel';
+import { useBrandKit } from '@/providers/BrandKitProvider';
+import { applyTextStyle, checkBrandCompliance, type BrandIssue } from '@/lib/brand-kit';
+import { getActiveArtboard } from '@/lib/artboards';
+import { revealObject } from '@/lib/components';
+import { ExtendedFabricObject, BrandTextStyle } from '@/types';
+
+interface BrandPanelProps {
+    canvas: fabric.Canvas | null;
+    onClose: () => void;
+    onInsertLogo: (src: string, name: string) => void;
+}
+
+// Layers inside a plain group cannot be selected on their own; show the group instead
+const selectableTarget = (obj: fabric.Object) => {
+    let target = obj;
+    while (target.parent && !target.parent.interactive) target = target.parent;
+    return target;
+};
+
+/**
+ * BrandPanel
+ *
+ * Logos and text styles of the brand kit ready to place, and the check of the open design
+ * against the kit. The kit itself is edited in Settings.
+ */
+export default function BrandPanel({ canvas, onClose, onInsertLogo }: BrandPanelProps) {
+    const { kit, isLoaded } = useBrandKit();
+    const [issues, setIssues] = useState<BrandIssue[] | null>(null);
+
+    const handleAddText = (style: BrandTextStyle) => {
+        if (!canvas) return;
+        const page = getActiveArtboard(canvas);
+        const text = new fabric.IText(style.name, { left: 0, top: 0 });
+        applyTextStyle(text, style);
+        const center = page
+            ? new fabric.Point(page.left + page.width / 2, page.top + page.height / 2)
+            : canvas.getVpCenter();
+        text.setPositionByOrigin(center, 'center', 'center');
+        text.setCoords();
+        canvas.add(text);
+        canvas.setActiveObject(text);
+        canvas.requestRenderAll();
+    };
+
+    const handleCheck = () => {
+        if (!canvas) return;
+        setIssues(checkBrandCompliance(canvas, kit));
+    };
+
+    const hasRules = kit.palettes.some((palette) => palette.colors.length > 0) || kit.fonts.length > 0;
+    const isEmpty = !hasRules && kit.logos.length === 0 && kit.textStyles.length === 0;
+
+    return (
+        <DraggableResizablePanel
+            className="bg-card border border-border rounded-lg shadow-xl overflow-hidden animate-in fade-in slide-in-from-left-4 duration-200"
+            initialPosition={{ x: 80, y: 320 }}
+            initialSize={{ width: 320, height: 520 }}
+            minWidth={300}
+            minHeight={360}
+        >
+            <div className="p-3 border-b border-border flex items-center gap-2 bg-secondary/10 rounded-t-lg draggable-handle cursor-move">
+                <Palette size={16} />
+                <h3 className="font-semibold text-sm">Brand Kit</h3>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-3 space-y-4">
+                {!isLoaded ? (
+                    <div className="flex flex-col items-center justify-center h-full text-muted-foreground gap-2">
+                        <Loader2 className="animate-spin" />
+                        <span className="text-xs">Loading brand kit...</span>
+                    </div>
+                ) : isEmpty ? (
+                    <div className="flex flex-col items-center justify-center h-full text-muted-foreground text-center p-4">
+                        <Palette size={32} className="mb-2 opacity-50" />
+                        <p className="text-sm">The brand kit is empty</p>
+                        <p className="text-xs mt-1">Add palettes, fonts, logos and text styles in Settings</p>
+                    </div>
+                ) : (
+                    <>
+                        {kit.logos.length > 0 && (
+                            <div className="space-y-2">
+                                <h4 className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">Logos</h4>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {kit.logos.map((logo) => (
+                                        <button
+                                            key={logo.id}
+                                            onClick={() => onInsertLogo(logo.src, logo.name)}
+                                            className="group flex flex-col gap-1 p-1.5 rounded-lg border border-border/50 hover:bg-secondary/50 hover:border-primary/50 transition-all"
+                                            title={`Place ${logo.name}`}
+                                        >
+                                            <div className="relative w-full aspect-square bg-white/5 rounded overflow-hidden">
+                                                <Image src={logo.src} alt={logo.name} fill className="object-contain p-1 transition-transform group-hover:scale-105" unoptimized />
+                                            </div>
+                                            <span className="text-[10px] truncate w-full">{logo.name}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {kit.textStyles.length > 0 && (
+                            <div className="space-y-2">
+                                <h4 className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">Text Styles</h4>
+                                <div className="space-y-1">
+                                    {kit.textStyles.map((style) => (
+                                        <button
+                                            key={style.id}
+                                            onClick={() => handleAddText(style)}
+                                            className="w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded-md border border-border/50 hover:bg-secondary/50 text-left"
+                                            title="Add text in this style"
+                                        >
+                                            <span className="truncate text-sm" style={{ fontFamily: style.fontFamily, fontWeight: style.fontWeight }}>{style.name}</span>
+                                            <span className="text-[10px] text-muted-foreground shrink-0">{style.fontSize}px</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {hasRules && (
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <h4 className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">Brand Check</h4>
+                                    <button onClick={handleCheck} className="text-[11px] text-primary hover:underline flex items-center gap-1">
+                                        <ShieldCheck size={12} /> {issues ? 'Check again' : 'Check design'}
+                                    </button>
+                                </div>
+                                {issues === null ? (
+                                    <p className="text-[11px] text-muted-foreground">
+                                        Lists colours outside the palettes and fonts that are not approved.
+                                    </p>
+                                ) : issues.length === 0 ? (
+                                    <p className="text-xs text-green-500 flex items-center gap-1.5">
+                                        <CheckCircle2 size={14} /> Everything matches the brand kit.
+                                    </p>
+                                ) : (
+                                    <div className="space-y-1">
+                                        <p className="text-[11px] text-muted-foreground">
+                                            {issues.length} {issues.length === 1 ? 'problem' : 'problems'} found. Click one to select the layer.
+                                        </p>
+                                        {issues.map((issue, index) => (
+                                            <button
+                                                key={index}
+                                                onClick={() => canvas && issue.object && revealObject(canvas, selectableTarget(issue.object))}
+                                                disabled={!issue.object}
+                                                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md border border-border/50 hover:bg-secondary/50 text-left disabled:hover:bg-transparent"
+                                            >
+                                                {issue.kind === 'color' ? (
+                                                    <span className="w-4 h-4 rounded-sm border border-border shrink-0" style={{ backgroundColor: issue.value }} />
+                                                ) : (
+                                                    <Type size={14} className="text-muted-foreground shrink-0" />
+                                                )}
+                                                <span className="flex-1 min-w-0">
+                                                    <span className="block text-xs truncate">
+                                                        {issue.kind === 'color' ? issue.value.toUpperCase() : issue.value}
+                                                        <span className="text-muted-foreground"> · {issue.property}</span>
+                                                    </span>
+                                                    <span className="block text-[10px] text-muted-foreground truncate">
+                                                        {issue.object
+                                                            ? (issue.object as ExtendedFabricObject).name || issue.object.type
+                                                            : issue.pageName}
+                                                    </span>
+                                                </span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+
+            <div className="p-3 border-t border-border bg-secondary/5 flex justify-end">
+                <button
+                    onClick={onClose}
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                    Close
+                </button>
+            </div>
+        </DraggableResizablePanel>
+    );
+}
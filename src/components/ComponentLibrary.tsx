@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import * as fabric from 'fabric';
+import { Component, Loader2, Trash2, Users } from 'lucide-react';
+import Image from 'next/image';
+import { useDialog } from '@/providers/DialogProvider';
+import { useToast } from '@/providers/ToastProvider';
+import DraggableResizablePanel from '@/components/ui/DraggableResizablePanel';
+import TrashModal from '@/components/TrashModal';
+import { cn } from '@/lib/utils';
+import { getActiveArtboard } from '@/lib/artboards';
+import { createInstance, fetchComponents, fetchMasterData, findMaster, serializeMaster } from '@/lib/components';
+import { ComponentSummary, WorkspaceSpace } from '@/types';
+
+interface ComponentLibraryProps {
+    canvas: fabric.Canvas | null;
+    onClose: () => void;
+    /** Personal or team components */
+    space: WorkspaceSpace;
+    onSpaceChange: (space: WorkspaceSpace) => void;
+}
+
+/**
+ * ComponentLibrary
+ *
+ * The components of a space. Clicking one places an instance on the active page; components
+ * are made from a selection in the Properties panel.
+ */
+export default function ComponentLibrary({ canvas, onClose, space, onSpaceChange }: ComponentLibraryProps) {
+    const [components, setComponents] = useState<ComponentSummary[]>([]);
+    const [availableSpaces, setAvailableSpaces] = useState<WorkspaceSpace[]>(['personal']);
+    const [isLoading, setIsLoading] = useState(false);
+    const [insertingId, setInsertingId] = useState<string | null>(null);
+    const [isTrashOpen, setIsTrashOpen] = useState(false);
+    const dialog = useDialog();
+    const { toast } = useToast();
+
+    const loadComponents = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const result = await fetchComponents(space);
+            setComponents(result.components);
+            if (Array.isArray(result.spaces)) setAvailableSpaces(result.spaces);
+        } catch (error) {
+            console.error('Failed to load components', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [space]);
+
+    useEffect(() => {
+        loadComponents();
+    }, [loadComponents]);
+
+    const handleInsert = async (component: ComponentSummary) => {
+        if (!canvas || insertingId) return;
+        setInsertingId(component.id);
+        try {
+            // A master on this canvas may have changes that are not published yet
+            const master = findMaster(canvas, component.id);
+            const data = master ? serializeMaster(master) : await fetchMasterData(component);
+            const instance = await createInstance(data, {
+                version: master?.componentVersion ?? component.version,
+                keep: { name: component.name },
+            });
+            const page = getActiveArtboard(canvas);
+            const center = page
+                ? new fabric.Point(page.left + page.width / 2, page.top + page.height / 2)
+                : canvas.getVpCenter();
+            instance.setPositionByOrigin(center, 'center', 'center');
+            instance.setCoords();
+            canvas.add(instance);
+            canvas.setActiveObject(instance);
+            canvas.requestRenderAll();
+        } catch (error) {
+            console.error('Failed to insert component', error);
+            toast({ title: 'Insert failed', description: 'The component could not be loaded.', variant: 'destructive' });
+        } finally {
+            setInsertingId(null);
+        }
+    };
+
+    const handleDelete = async (e: React.MouseEvent, component: ComponentSummary) => {
+        e.stopPropagation();
+        const confirmed = await dialog.confirm(
+            `Move "${component.name}" to the trash? Instances already placed keep their layers but stop receiving updates.`,
+            { title: 'Delete Component', variant: 'destructive' },
+        );
+        if (!confirmed) return;
+
+        try {
+            const res = await fetch('/api/components/delete', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: component.id, space: component.space }),
+            });
+            if (res.ok) {
+                loadComponents();
+            } else {
+                toast({ title: 'Delete failed', description: 'Failed to delete component.', variant: 'destructive' });
+            }
+        } catch (error) {
+            console.error(error);
+            toast({ title: 'Delete failed', description: 'Something went wrong while deleting.', variant: 'destructive' });
+        }
+    };
+
+    return (
+        <>
+        <DraggableResizablePanel
+            className="bg-card border border-border rounded-lg shadow-xl overflow-hidden animate-in fade-in slide-in-from-left-4 duration-200"
+            initialPosition={{ x: 80, y: 320 }}
+            initialSize={{ width: 320, height: 500 }}
+            minWidth={300}
+            minHeight={360}
+        >
+            <div className="p-3 border-b border-border flex items-center gap-2 bg-secondary/10 rounded-t-lg draggable-handle cursor-move">
+                <Component size={16} />
+                <h3 className="font-semibold text-sm">Components</h3>
+            </div>
+
+            {availableSpaces.includes('team') && (
+                <div className="flex p-2 gap-1 border-b border-border/50">
+                    {(['personal', 'team'] as WorkspaceSpace[]).map((item) => (
+                        <button
+                            key={item}
+                            onClick={() => onSpaceChange(item)}
+                            className={cn(
+                                "flex-1 flex items-center justify-center gap-1 py-1.5 text-xs font-medium rounded-md transition-colors",
+                                space === item ? "bg-primary/10 text-primary" : "hover:bg-secondary text-muted-foreground"
+                            )}
+                        >
+                            {item === 'team' && <Users size={12} />}
+                            {item === 'team' ? 'Team' : 'My Components'}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-3">
+                {isLoading ? (
+                    <div className="flex flex-col items-center justify-center h-full text-muted-foreground gap-2">
+                        <Loader2 className="animate-spin" />
+                        <span className="text-xs">Loading components...</span>
+                    </div>
+                ) : components.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center h-full text-muted-foreground text-center p-4">
+                        <Component size={32} className="mb-2 opacity-50" />
+                        <p className="text-sm">No components yet</p>
+                        <p className="text-xs mt-1">Select layers and choose “Create component” in the Properties panel</p>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-2 gap-3">
+                        {components.map((component) => (
+                            <div
+                                key={component.id}
+                                onClick={() => handleInsert(component)}
+                                className="group relative flex flex-col items-start gap-2 p-2 rounded-lg border border-border/50 hover:bg-secondary/50 hover:border-primary/50 transition-all text-left cursor-pointer"
+                                title="Insert an instance"
+                            >
+                                <div className="w-full aspect-square relative bg-white/5 rounded overflow-hidden border border-border/30">
+                                    <Image
+                                        src={`${component.image}?v=${component.version}`}
+                                        alt={component.name}
+                                        fill
+                                        className="object-contain p-2 transition-transform group-hover:scale-105"
+                                        unoptimized
+                                    />
+                                    {insertingId === component.id && (
+                                        <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+                                            <Loader2 size={16} className="animate-spin text-white" />
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="w-full min-w-0">
+                                    <div className="text-xs font-medium truncate">{component.name}</div>
+                                    <div className="text-[10px] text-muted-foreground">v{component.version}</div>
+                                </div>
+                                <button
+                                    onClick={(e) => handleDelete(e, component)}
+                                    className="absolute top-2 right-2 p-1.5 bg-black/50 hover:bg-destructive text-white rounded opacity-0 group-hover:opacity-100 transition-all"
+                                    title="Delete"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="p-3 border-t border-border bg-secondary/5 flex justify-between">
+                <button
+                    onClick={() => setIsTrashOpen(true)}
+                    className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+                >
+                    <Trash2 size={12} /> Trash
+                </button>
+                <button
+                    onClick={onClose}
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                    Close
+                </button>
+            </div>
+        </DraggableResizablePanel>
+        <TrashModal
+            isOpen={isTrashOpen}
+            onClose={() => setIsTrashOpen(false)}
+            initialKind="component"
+            onRestored={(item) => { if (item.kind === 'component') loadComponents(); }}
+        />
+        </>
+    );
+}
@@ -1,7 +1,13 @@
-import React, { useEffect, useState } from 'react';
-import { Plus, File, Image as ImageIcon, MoreVertical, Clock, Layout, Trash2, ChevronDown, ChevronUp, Search, Instagram, Youtube, Book, Monitor, Heart, Upload, Sparkles, Box, Wand2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, File, Image as ImageIcon, MoreVertical, Clock, Layout, Trash2, ChevronDown, ChevronUp, Search, Instagram, Youtube, Book, Monitor, Heart, Upload, Sparkles, Box, Wand2, Users, History, LifeBuoy, Pencil, Copy, FolderInput, Tag, ArrowUpDown, Folder, FolderPlus, ChevronRight, Star, Package, Loader2, Link2 } from 'lucide-react';
 import { useDialog } from '@/providers/DialogProvider';
 import { useToast } from '@/providers/ToastProvider';
+import { DesignSummary, RecoverySlot, WorkspaceSpace } from '@/types';
+import VersionHistoryModal, { VersionedDesign } from '@/components/VersionHistoryModal';
+import TrashModal from '@/components/TrashModal';
+import { discardRecoverySlot, fetchRecoverySlots } from '@/lib/autosave';
+import { DATE_FILTERS, DESIGN_SORTS, DesignSort, SIZE_FILTERS } from '@/lib/design-filters';
+import { PACKAGE_EXTENSION } from '@/lib/design-package';
 
 type IconType = React.ComponentType<{ size?: number; className?: string }>;
 
@@ -16,18 +22,22 @@ type TemplateDescriptor = {
     jsonUrl?: string | null;
 };
 
-type DesignSummary = {
-    id: string;
-    name: string;
-    thumbnail?: string;
-    data?: string;
-    lastModified: string;
+// Folder paths use "/" between levels, '' is the top level
+const parentFolder = (folder: string) => folder.split('/').slice(0, -1).join('/');
+const folderName = (folder: string) => folder.split('/').pop() ?? folder;
+const joinFolder = (parent: string, name: string) => (parent ? `${parent}/${name}` : name);
+
+const describeDesignSize = (design: DesignSummary) => {
+    if (!design.width || !design.height) return null;
+    const pages = design.pageCount && design.pageCount > 1 ? ` · ${design.pageCount} pages` : '';
+    return `${design.width} × ${design.height}${pages}`;
 };
 
 interface DashboardProps {
   onNewDesign: () => void;
     onSelectTemplate: (template: TemplateDescriptor) => void;
     onOpenDesign: (design: DesignSummary) => void;
+    onRecoverDesign: (slot: RecoverySlot) => void;
   user: string;
 }
 
@@ -112,48 +122,121 @@ const MORE_TEMPLATES: TemplateDescriptor[] = [
     ...POPULAR_TEMPLATES.map(t => ({...t, id: t.id + '_3', name: t.name + ' III'})),
 ];
 
-export default function Dashboard({ onNewDesign, onSelectTemplate, onOpenDesign, user }: DashboardProps) {
+export default function Dashboard({ onNewDesign, onSelectTemplate, onOpenDesign, onRecoverDesign }: DashboardProps) {
     const dialog = useDialog();
     const { toast } = useToast();
     const [recentDesigns, setRecentDesigns] = useState<DesignSummary[]>([]);
   const [showAllTemplates, setShowAllTemplates] = useState(false);
   const [showAllDesigns, setShowAllDesigns] = useState(false);
   const [activeCategory, setActiveCategory] = useState('All');
+  const [projectSpace, setProjectSpace] = useState<WorkspaceSpace>('personal');
+  const [availableSpaces, setAvailableSpaces] = useState<WorkspaceSpace[]>(['personal']);
+  const [historyDesign, setHistoryDesign] = useState<DesignSummary | null>(null);
+  const [designSort, setDesignSort] = useState<DesignSort>('modified');
+  const [designQuery, setDesignQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [sizeFilter, setSizeFilter] = useState('');
+  const [dateFilter, setDateFilter] = useState('');
+  const [authorFilter, setAuthorFilter] = useState('');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [currentFolder, setCurrentFolder] = useState('');
+  // Folder tree, tags and authors of the whole space, for navigation and the filter menus
+  const [spaceFolders, setSpaceFolders] = useState<string[]>([]);
+  const [spaceTags, setSpaceTags] = useState<string[]>([]);
+  const [spaceAuthors, setSpaceAuthors] = useState<{ id: string; username: string }[]>([]);
+  const [listVersion, setListVersion] = useState(0);
+  const [draggedDesign, setDraggedDesign] = useState<DesignSummary | null>(null);
+  const [dropFolder, setDropFolder] = useState<string | null>(null);
+  const [menuDesign, setMenuDesign] = useState<DesignSummary | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const packageInputRef = useRef<HTMLInputElement>(null);
+  // Autosaved editor sessions that were never saved (crash, closed window, quit)
+  const [recoverySlots, setRecoverySlots] = useState<RecoverySlot[]>([]);
+
+  const isFiltering = Boolean(designQuery.trim() || tagFilter || sizeFilter || dateFilter || authorFilter || pinnedOnly);
+
+  useEffect(() => {
+      fetchRecoverySlots()
+          .then(setRecoverySlots)
+          .catch((e) => console.error("Failed to load recovery data", e));
+  }, []);
 
   useEffect(() => {
-      // Load designs from server
-      const loadDesigns = async () => {
+      // Searching and filtering look through the open folder and everything below it
+      const params = new URLSearchParams({ space: projectSpace, folder: currentFolder, sort: designSort });
+      if (isFiltering) params.set('recursive', '1');
+      if (designQuery.trim()) params.set('q', designQuery.trim());
+      if (tagFilter) params.set('tag', tagFilter);
+      if (sizeFilter) params.set('size', sizeFilter);
+      if (dateFilter) params.set('date', dateFilter);
+      if (authorFilter) params.set('author', authorFilter);
+      if (pinnedOnly) params.set('pinned', '1');
+
+      let cancelled = false;
+      // Wait for a pause in typing before searching
+      const timer = setTimeout(async () => {
           try {
-              const res = await fetch('/api/designs/list');
+              const res = await fetch(`/api/designs/list?${params}`);
               const data = await res.json();
-              if (data.success) {
-                  // Sort by newest first
-                  const designs = Array.isArray(data.designs) ? (data.designs as DesignSummary[]) : [];
-                  const sorted = designs.sort((a, b) => 
-                      new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()
-                  );
-                  setRecentDesigns(sorted);
-              }
+              if (cancelled || !data.success) return;
+              if (Array.isArray(data.spaces)) setAvailableSpaces(data.spaces as WorkspaceSpace[]);
+              setRecentDesigns(Array.isArray(data.designs) ? (data.designs as DesignSummary[]) : []);
+              setSpaceFolders(Array.isArray(data.folders) ? data.folders : []);
+              setSpaceTags(Array.isArray(data.tags) ? data.tags : []);
+              setSpaceAuthors(Array.isArray(data.authors) ? data.authors : []);
           } catch (e) {
               console.error("Failed to load designs", e);
           }
+      }, designQuery.trim() ? 250 : 0);
+      return () => {
+          cancelled = true;
+          clearTimeout(timer);
       };
-      loadDesigns();
-  }, []);
+  }, [projectSpace, currentFolder, designSort, designQuery, tagFilter, sizeFilter, dateFilter, authorFilter, pinnedOnly, isFiltering, listVersion]);
+
+  const reloadDesigns = () => setListVersion(version => version + 1);
+
+  const clearFilters = () => {
+      setDesignQuery('');
+      setTagFilter('');
+      setSizeFilter('');
+      setDateFilter('');
+      setAuthorFilter('');
+      setPinnedOnly(false);
+  };
+
+  const switchSpace = (space: WorkspaceSpace) => {
+      setProjectSpace(space);
+      setCurrentFolder('');
+      setAuthorFilter('');
+  };
+
+  const handleDiscardRecovery = async (slot: RecoverySlot) => {
+      const confirmed = await dialog.confirm(`Discard the unsaved changes to "${slot.name}"? This cannot be undone.`, { title: 'Discard changes', variant: 'destructive', confirmText: 'Discard' });
+      if (!confirmed) return;
+      try {
+          await discardRecoverySlot(slot.slot);
+          setRecoverySlots(prev => prev.filter(item => item.slot !== slot.slot));
+      } catch (err) {
+          console.error("Discard failed", err);
+          toast({ title: 'Discard failed', description: 'Could not remove the recovered changes.', variant: 'destructive' });
+      }
+  };
   
-  const handleDelete = async (id: string, e: React.MouseEvent) => {
+  const handleDelete = async (design: DesignSummary, e: React.MouseEvent) => {
       e.stopPropagation();
-      const confirmed = await dialog.confirm('Delete this design?', { title: 'Delete design', variant: 'destructive' });
+      const confirmed = await dialog.confirm('Move this design to the trash? It can be restored from there.', { title: 'Delete design', variant: 'destructive' });
       if(confirmed) {
           try {
               const res = await fetch('/api/designs/delete', {
                   method: 'POST',
                   headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ id })
+                  body: JSON.stringify({ id: design.id, space: design.space })
               });
               const result = await res.json();
               if (result.success) {
-                  const updated = recentDesigns.filter(d => d.id !== id);
+                  const updated = recentDesigns.filter(d => d !== design);
                   setRecentDesigns(updated);
               } else {
                   toast({ title: 'Delete failed', description: 'Failed to delete design.', variant: 'destructive' });
@@ -165,6 +248,199 @@ export default function Dashboard({ onNewDesign, onSelectTemplate, onOpenDesign,
       }
   };
 
+  const handleShowHistory = (design: DesignSummary, e: React.MouseEvent) => {
+      e.stopPropagation();
+      setHistoryDesign(design);
+  };
+
+  const handleVersionRestored = (design: VersionedDesign) => {
+      // Bust the cached thumbnail, the file name stays the same
+      const updated = { ...design, image: `${design.image}?v=${design.version}` };
+      setRecentDesigns(prev => prev.map(d => (d.id === design.id && d.space === design.space ? updated : d)));
+  };
+
+  const handleVersionForked = () => {
+      reloadDesigns();
+  };
+
+  // Rename, tag, duplicate and move all answer with the design as it is now listed
+  const runDesignAction = async (route: string, body: Record<string, unknown>, failure: string): Promise<DesignSummary | null> => {
+      try {
+          const res = await fetch(`/api/designs/${route}`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(body)
+          });
+          const result = await res.json();
+          if (!result.success) throw new Error(result.message || failure);
+          return result.design as DesignSummary;
+      } catch (err) {
+          console.error(`${failure}:`, err);
+          toast({ title: failure, description: err instanceof Error ? err.message : 'Unknown error', variant: 'destructive' });
+          return null;
+      }
+  };
+
+  const replaceDesign = (previous: DesignSummary, updated: DesignSummary) => {
+      setRecentDesigns(prev => prev.map(d => (d === previous ? updated : d)));
+  };
+
+  const handleRename = async (design: DesignSummary) => {
+      const name = await dialog.prompt('New name for this design:', { title: 'Rename design', defaultValue: design.name, confirmText: 'Rename' });
+      if (!name?.trim() || name.trim() === design.name) return;
+      const updated = await runDesignAction('rename', { id: design.id, space: design.space, name }, 'Rename failed');
+      if (updated) replaceDesign(design, updated);
+  };
+
+  const handleEditTags = async (design: DesignSummary) => {
+      const input = await dialog.prompt('Tags, separated by commas:', {
+          title: 'Edit tags',
+          defaultValue: design.tags.join(', '),
+          placeholder: 'campaign, social, draft'
+      });
+      if (input === null) return;
+      const tags = input.split(',').map(tag => tag.trim()).filter(Boolean);
+      const updated = await runDesignAction('tag', { id: design.id, space: design.space, tags }, 'Tagging failed');
+      if (updated) replaceDesign(design, updated);
+  };
+
+  const handleDuplicate = async (design: DesignSummary) => {
+      const copy = await runDesignAction('duplicate', { id: design.id, space: design.space }, 'Duplicate failed');
+      if (!copy) return;
+      reloadDesigns();
+      toast({ title: 'Design duplicated', description: `"${copy.name}" was created.`, variant: 'success' });
+  };
+
+  const handleMoveToOtherSpace = async (design: DesignSummary) => {
+      const targetSpace: WorkspaceSpace = design.space === 'team' ? 'personal' : 'team';
+      const label = targetSpace === 'team' ? 'the team space' : 'your own space';
+      const confirmed = await dialog.confirm(`Move "${design.name}" to ${label}? Its version history moves with it.`, { title: 'Move design', confirmText: 'Move' });
+      if (!confirmed) return;
+      const moved = await runDesignAction('move', { id: design.id, space: design.space, targetSpace }, 'Move failed');
+      if (!moved) return;
+      setRecentDesigns(prev => prev.filter(d => d !== design));
+      toast({ title: 'Design moved', description: `"${moved.name}" is now in ${label}.`, variant: 'success' });
+  };
+
+  const handleTogglePinned = async (design: DesignSummary, e: React.MouseEvent) => {
+      e.stopPropagation();
+      const updated = await runDesignAction('pin', { id: design.id, space: design.space, pinned: !design.pinned }, 'Updating favourites failed');
+      // Favourites are listed first, so the order changes
+      if (updated) reloadDesigns();
+  };
+
+  const moveToFolder = async (design: DesignSummary, folder: string) => {
+      if (design.folder === folder) return;
+      const moved = await runDesignAction('move', { id: design.id, space: design.space, folder }, 'Move failed');
+      if (moved) reloadDesigns();
+  };
+
+  const handleMoveToFolder = async (design: DesignSummary) => {
+      const input = await dialog.prompt('Folder to move this design to, with "/" between levels. Leave empty for the top level.', {
+          title: 'Move to folder',
+          defaultValue: design.folder,
+          placeholder: 'Clients/Acme',
+          confirmText: 'Move'
+      });
+      if (input === null) return;
+      await moveToFolder(design, input.split('/').map(part => part.trim()).filter(Boolean).join('/'));
+  };
+
+  // Folder changes answer with the space's folder list
+  const runFolderAction = async (body: Record<string, unknown>, failure: string) => {
+      try {
+          const res = await fetch('/api/designs/folders', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ space: projectSpace, ...body })
+          });
+          const result = await res.json();
+          if (!result.success) throw new Error(result.message || failure);
+          setSpaceFolders(result.folders as string[]);
+          return true;
+      } catch (err) {
+          console.error(`${failure}:`, err);
+          toast({ title: failure, description: err instanceof Error ? err.message : 'Unknown error', variant: 'destructive' });
+          return false;
+      }
+  };
+
+  const handleNewFolder = async () => {
+      const name = await dialog.prompt('Name of the new folder:', { title: 'New folder', placeholder: 'Campaigns', confirmText: 'Create' });
+      if (!name?.trim()) return;
+      await runFolderAction({ action: 'create', folder: joinFolder(currentFolder, name.trim()) }, 'Creating folder failed');
+  };
+
+  const handleRenameFolder = async (folder: string, e: React.MouseEvent) => {
+      e.stopPropagation();
+      const name = await dialog.prompt('New name for this folder:', { title: 'Rename folder', defaultValue: folderName(folder), confirmText: 'Rename' });
+      if (!name?.trim() || name.trim() === folderName(folder)) return;
+      const renamed = await runFolderAction({ action: 'rename', folder, to: joinFolder(parentFolder(folder), name.trim()) }, 'Renaming folder failed');
+      if (renamed) reloadDesigns();
+  };
+
+  const handleDeleteFolder = async (folder: string, e: React.MouseEvent) => {
+      e.stopPropagation();
+      const confirmed = await dialog.confirm(`Delete the folder "${folderName(folder)}"? Its subfolders are removed too, and every design inside moves to the folder above.`, { title: 'Delete folder', variant: 'destructive', confirmText: 'Delete' });
+      if (!confirmed) return;
+      const deleted = await runFolderAction({ action: 'delete', folder }, 'Deleting folder failed');
+      if (deleted) reloadDesigns();
+  };
+
+  // Folder tiles and breadcrumb entries accept dragged design cards
+  const folderDropProps = (folder: string) => ({
+      onDragOver: (e: React.DragEvent) => {
+          if (!draggedDesign || draggedDesign.folder === folder) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'move';
+          if (dropFolder !== folder) setDropFolder(folder);
+      },
+      onDragLeave: () => setDropFolder(current => (current === folder ? null : current)),
+      onDrop: (e: React.DragEvent) => {
+          e.preventDefault();
+          const design = draggedDesign;
+          setDraggedDesign(null);
+          setDropFolder(null);
+          if (design) moveToFolder(design, folder);
+      },
+  });
+
+  const handleImportPackage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setIsImporting(true);
+      try {
+          const formData = new FormData();
+          formData.append('file', file);
+          formData.append('space', projectSpace);
+          formData.append('folder', currentFolder);
+          const res = await fetch('/api/designs/import', { method: 'POST', body: formData });
+          const result = await res.json();
+          if (!result.success) throw new Error(result.message || 'Import failed');
+          reloadDesigns();
+          toast({
+              title: 'Design imported',
+              description: `"${result.design.name}" was added with ${result.assets} ${result.assets === 1 ? 'asset' : 'assets'} in your library.`,
+              variant: 'success'
+          });
+      } catch (err) {
+          console.error('Import failed:', err);
+          toast({ title: 'Import failed', description: err instanceof Error ? err.message : 'Unknown error', variant: 'destructive' });
+      } finally {
+          setIsImporting(false);
+      }
+  };
+
+  const runMenuAction = (action: (design: DesignSummary) => void) => (e: React.MouseEvent) => {
+      e.stopPropagation();
+      const design = menuDesign;
+      setMenuDesign(null);
+      if (design) action(design);
+  };
+
+  const subfolders = isFiltering ? [] : spaceFolders.filter(folder => folder !== '' && parentFolder(folder) === currentFolder);
+  const breadcrumb = currentFolder ? currentFolder.split('/').map((_, i, parts) => parts.slice(0, i + 1).join('/')) : [];
   const visibleDesigns = showAllDesigns ? recentDesigns : recentDesigns.slice(0, 4);
 
   return (
@@ -201,6 +477,53 @@ export default function Dashboard({ onNewDesign, onSelectTemplate, onOpenDesign,
             </div>
         </div>
 
+        {/* Unsaved work from an editor session that ended without saving */}
+        {recoverySlots.length > 0 && (
+            <section className="space-y-3 rounded-2xl border border-amber-500/30 bg-amber-500/5 p-5">
+                <div className="flex items-center gap-2">
+                    <LifeBuoy size={20} className="text-amber-500" />
+                    <h2 className="text-lg font-bold text-foreground">Recover unsaved changes</h2>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                    These changes were autosaved but never saved. Recover them to keep working, then save.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {recoverySlots.map(slot => (
+                        <div key={slot.slot} className="flex items-center gap-3 rounded-xl border border-border bg-card p-3">
+                            <div className="w-24 h-16 shrink-0 rounded-lg overflow-hidden bg-checkerboard border border-border/50 flex items-center justify-center">
+                                {slot.image ? (
+                                    <img src={`${slot.image}?t=${slot.savedAt}`} className="w-full h-full object-cover" alt={slot.name} />
+                                ) : (
+                                    <ImageIcon className="text-muted-foreground/30 w-6 h-6" />
+                                )}
+                            </div>
+                            <div className="min-w-0 flex-1">
+                                <h3 className="font-semibold text-sm truncate" title={slot.name}>{slot.name}</h3>
+                                <p className="text-xs text-muted-foreground">
+                                    autosaved {new Date(slot.savedAt).toLocaleString()}
+                                    {!slot.designId && ' · never saved'}
+                                </p>
+                                <div className="flex gap-2 mt-2">
+                                    <button
+                                        onClick={() => onRecoverDesign(slot)}
+                                        className="px-3 py-1 rounded-full bg-primary text-primary-foreground text-xs font-medium hover:bg-primary/90 transition-colors"
+                                    >
+                                        Recover
+                                    </button>
+                                    <button
+                                        onClick={() => handleDiscardRecovery(slot)}
+                                        className="px-3 py-1 rounded-full border border-border text-xs font-medium text-muted-foreground hover:text-destructive hover:border-destructive/40 transition-colors"
+                                    >
+                                        Discard
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </section>
+        )}
+
         {/* Start Creating Section (Adobe Style) */}
         <section>
              <div className="flex items-center justify-between mb-4 px-1">
@@ -327,12 +650,182 @@ export default function Dashboard({ onNewDesign, onSelectTemplate, onOpenDesign,
            <div className="flex items-center justify-between px-2">
                 <h2 className="text-xl font-bold flex items-center gap-2">
                     <Clock size={20} className="text-purple-500" />
-                    Your Projects
+                    {projectSpace === 'team' ? 'Team Projects' : 'Your Projects'}
                 </h2>
-                <div className="text-sm text-muted-foreground">{recentDesigns.length} saved</div>
+                <div className="flex items-center gap-3">
+                    {availableSpaces.includes('team') && (
+                        <div className="flex bg-secondary/50 rounded-full p-0.5 text-xs font-medium">
+                            {(['personal', 'team'] as WorkspaceSpace[]).map(space => (
+                                <button
+                                    key={space}
+                                    onClick={() => switchSpace(space)}
+                                    className={`px-3 py-1 rounded-full flex items-center gap-1 transition-colors ${
+                                        projectSpace === space ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                                    }`}
+                                >
+                                    {space === 'team' && <Users size={12} />}
+                                    {space === 'team' ? 'Team' : 'Mine'}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <button
+                        onClick={() => setIsTrashOpen(true)}
+                        className="p-1.5 rounded-full text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+                        title="Trash"
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                    <div className="text-sm text-muted-foreground">
+                        {isFiltering ? `${recentDesigns.length} found` : `${recentDesigns.length} ${recentDesigns.length === 1 ? 'design' : 'designs'}`}
+                    </div>
+                </div>
            </div>
-           
-           {recentDesigns.length === 0 ? (
+
+           <div className="flex flex-wrap items-center gap-2 px-2">
+               <div className="relative flex-1 min-w-[200px] max-w-sm">
+                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                   <input
+                       type="text"
+                       value={designQuery}
+                       onChange={(e) => setDesignQuery(e.target.value)}
+                       placeholder="Search names, tags and text in designs"
+                       className="w-full h-9 pl-9 pr-3 rounded-full border border-border bg-card text-sm focus:ring-2 focus:ring-primary focus:border-transparent outline-none"
+                   />
+               </div>
+               <button
+                   onClick={() => setPinnedOnly(!pinnedOnly)}
+                   className={`h-9 px-3 rounded-full border text-sm flex items-center gap-1.5 transition-colors ${
+                       pinnedOnly ? 'border-amber-500/50 bg-amber-500/10 text-amber-600' : 'border-border bg-card text-muted-foreground hover:text-foreground'
+                   }`}
+                   title="Show favourites only"
+               >
+                   <Star size={14} fill={pinnedOnly ? 'currentColor' : 'none'} /> Favourites
+               </button>
+               <select
+                   value={sizeFilter}
+                   onChange={(e) => setSizeFilter(e.target.value)}
+                   className="h-9 px-3 rounded-full border border-border bg-card text-sm outline-none"
+                   title="Filter by size"
+               >
+                   <option value="">Any size</option>
+                   {SIZE_FILTERS.map(filter => <option key={filter.id} value={filter.id}>{filter.label}</option>)}
+               </select>
+               <select
+                   value={dateFilter}
+                   onChange={(e) => setDateFilter(e.target.value)}
+                   className="h-9 px-3 rounded-full border border-border bg-card text-sm outline-none"
+                   title="Filter by last edit"
+               >
+                   <option value="">Any time</option>
+                   {DATE_FILTERS.map(filter => <option key={filter.id} value={filter.id}>{filter.label}</option>)}
+               </select>
+               {spaceAuthors.length > 1 && (
+                   <select
+                       value={authorFilter}
+                       onChange={(e) => setAuthorFilter(e.target.value)}
+                       className="h-9 px-3 rounded-full border border-border bg-card text-sm outline-none"
+                       title="Filter by author"
+                   >
+                       <option value="">Anyone</option>
+                       {spaceAuthors.map(author => <option key={author.id} value={author.id}>{author.username}</option>)}
+                   </select>
+               )}
+               {spaceTags.length > 0 && (
+                   <select
+                       value={tagFilter}
+                       onChange={(e) => setTagFilter(e.target.value)}
+                       className="h-9 px-3 rounded-full border border-border bg-card text-sm outline-none"
+                       title="Filter by tag"
+                   >
+                       <option value="">All tags</option>
+                       {spaceTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                   </select>
+               )}
+               <label className="flex items-center gap-1.5 text-sm text-muted-foreground ml-auto">
+                   <ArrowUpDown size={14} />
+                   <select
+                       value={designSort}
+                       onChange={(e) => setDesignSort(e.target.value as DesignSort)}
+                       className="h-9 px-3 rounded-full border border-border bg-card text-sm text-foreground outline-none"
+                   >
+                       {DESIGN_SORTS.map(sort => <option key={sort.id} value={sort.id}>{sort.label}</option>)}
+                   </select>
+               </label>
+           </div>
+
+           {/* Folder path; every entry is also a drop target */}
+           <div className="flex flex-wrap items-center gap-1 px-2 text-sm">
+               {['', ...breadcrumb].map((folder, i) => (
+                   <React.Fragment key={folder || 'top'}>
+                       {i > 0 && <ChevronRight size={14} className="text-muted-foreground" />}
+                       <button
+                           onClick={() => setCurrentFolder(folder)}
+                           {...folderDropProps(folder)}
+                           className={`px-2 py-1 rounded-md transition-colors ${
+                               dropFolder === folder ? 'bg-primary/10 ring-2 ring-primary/40' : 'hover:bg-secondary'
+                           } ${folder === currentFolder ? 'font-semibold text-foreground' : 'text-muted-foreground'}`}
+                       >
+                           {folder ? folderName(folder) : 'All projects'}
+                       </button>
+                   </React.Fragment>
+               ))}
+               {isFiltering && <span className="text-muted-foreground ml-1">· including subfolders</span>}
+               <button
+                   onClick={handleNewFolder}
+                   className="ml-auto px-3 py-1 rounded-full border border-border text-xs font-medium text-muted-foreground hover:text-foreground hover:border-primary/50 transition-colors flex items-center gap-1.5"
+               >
+                   <FolderPlus size={14} /> New folder
+               </button>
+               <button
+                   onClick={() => packageInputRef.current?.click()}
+                   disabled={isImporting}
+                   className="px-3 py-1 rounded-full border border-border text-xs font-medium text-muted-foreground hover:text-foreground hover:border-primary/50 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+                   title={`Import a design package (${PACKAGE_EXTENSION}) with its assets`}
+               >
+                   {isImporting ? <Loader2 size={14} className="animate-spin" /> : <Package size={14} />} Import package
+               </button>
+               <input ref={packageInputRef} type="file" accept={`${PACKAGE_EXTENSION},.zip`} className="hidden" onChange={handleImportPackage} />
+           </div>
+
+           {subfolders.length > 0 && (
+               <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 px-2">
+                   {subfolders.map(folder => (
+                       <div
+                           key={folder}
+                           onClick={() => setCurrentFolder(folder)}
+                           {...folderDropProps(folder)}
+                           className={`group flex items-center gap-2 rounded-xl border bg-card px-3 py-2.5 cursor-pointer transition-colors ${
+                               dropFolder === folder ? 'border-primary ring-2 ring-primary/40' : 'border-border hover:border-primary/50'
+                           }`}
+                       >
+                           <Folder size={18} className="text-indigo-500 shrink-0" />
+                           <span className="text-sm font-medium truncate flex-1" title={folder}>{folderName(folder)}</span>
+                           <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                               <button onClick={(e) => handleRenameFolder(folder, e)} className="p-1 rounded text-muted-foreground hover:text-foreground" title="Rename folder">
+                                   <Pencil size={12} />
+                               </button>
+                               <button onClick={(e) => handleDeleteFolder(folder, e)} className="p-1 rounded text-muted-foreground hover:text-destructive" title="Delete folder">
+                                   <Trash2 size={12} />
+                               </button>
+                           </div>
+                       </div>
+                   ))}
+               </div>
+           )}
+
+           {isFiltering && recentDesigns.length === 0 ? (
+               <div className="text-center py-12 text-sm text-muted-foreground">
+                   No designs match this filter.{' '}
+                   <button onClick={clearFilters} className="text-primary hover:underline">Clear filter</button>
+               </div>
+           ) : recentDesigns.length === 0 && (currentFolder || subfolders.length > 0) ? (
+               subfolders.length === 0 && (
+                   <div className="text-center py-12 text-sm text-muted-foreground rounded-2xl border border-dashed border-border">
+                       This folder is empty. Drag designs onto a folder to file them.
+                   </div>
+               )
+           ) : recentDesigns.length === 0 ? (
                <div className="text-center py-20 bg-secondary/20 rounded-2xl border border-dashed border-border text-muted-foreground flex flex-col items-center gap-4">
                    <div className="p-4 bg-background rounded-full shadow-sm">
                         <Plus size={32} className="text-primary/50" />
@@ -349,16 +842,33 @@ export default function Dashboard({ onNewDesign, onSelectTemplate, onOpenDesign,
                   
                   {visibleDesigns.map(design => (
                      <div 
-                        key={design.id} 
+                        key={`${design.space}-${design.id}`} 
                         onClick={() => onOpenDesign(design)}
+                        draggable
+                        onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            e.dataTransfer.setData('text/plain', design.name);
+                            setDraggedDesign(design);
+                        }}
+                        onDragEnd={() => { setDraggedDesign(null); setDropFolder(null); }}
                         className="group bg-card rounded-2xl border border-border overflow-hidden hover:shadow-xl hover:ring-2 hover:ring-primary/20 transition-all cursor-pointer relative flex flex-col"
                      >
                         <div className="aspect-video bg-secondary/50 flex items-center justify-center relative bg-checkerboard overflow-hidden">
-                            {design.thumbnail ? (
-                                <img src={design.thumbnail} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" alt={design.name}/>
+                            {design.image ? (
+                                <img src={design.image} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" alt={design.name}/>
                             ) : (
                                 <ImageIcon className="text-muted-foreground/30 w-12 h-12" />
                             )}
+
+                            <button
+                                onClick={(e) => handleTogglePinned(design, e)}
+                                className={`absolute top-2 left-2 z-10 p-1.5 rounded-full bg-background/80 backdrop-blur transition-opacity ${
+                                    design.pinned ? 'text-amber-500 opacity-100' : 'text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-amber-500'
+                                }`}
+                                title={design.pinned ? 'Remove from favourites' : 'Add to favourites'}
+                            >
+                                <Star size={14} fill={design.pinned ? 'currentColor' : 'none'} />
+                            </button>
                             
                             {/* Overlay */}
                             <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
@@ -370,18 +880,92 @@ export default function Dashboard({ onNewDesign, onSelectTemplate, onOpenDesign,
                         
                         <div className="p-4 flex items-center justify-between bg-card flex-1">
                            <div className="min-w-0">
-                              <h3 className="font-semibold text-sm text-foreground truncate" title={design.name}>{design.name}</h3>
-                              <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                              <h3 className="font-semibold text-sm text-foreground truncate" title={design.description || design.name}>{design.name}</h3>
+                              <p className="text-xs text-muted-foreground mt-1 truncate">
                                   edited {new Date(design.lastModified).toLocaleDateString()}
+                                  {describeDesignSize(design) && ` · ${describeDesignSize(design)}`}
                               </p>
+                              {design.resizedFrom && (
+                                  <button
+                                      onClick={(e) => { e.stopPropagation(); clearFilters(); setDesignQuery(design.resizedFrom?.name ?? ''); }}
+                                      className="flex items-center gap-1 mt-1 text-[11px] text-muted-foreground hover:text-foreground truncate max-w-full"
+                                      title="Find the original design"
+                                  >
+                                      <Link2 size={11} className="shrink-0" /> Resized from {design.resizedFrom.name}
+                                  </button>
+                              )}
+                              {design.folder !== currentFolder && (
+                                  <button
+                                      onClick={(e) => { e.stopPropagation(); clearFilters(); setCurrentFolder(design.folder); }}
+                                      className="flex items-center gap-1 mt-1 text-[11px] text-muted-foreground hover:text-foreground truncate max-w-full"
+                                      title="Open folder"
+                                  >
+                                      <Folder size={11} className="shrink-0" /> {design.folder || 'All projects'}
+                                  </button>
+                              )}
+                              {design.tags.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mt-1.5">
+                                      {design.tags.slice(0, 3).map(tag => (
+                                          <button
+                                              key={tag}
+                                              onClick={(e) => { e.stopPropagation(); setTagFilter(tag); }}
+                                              className="text-[10px] px-1.5 py-0.5 rounded bg-secondary text-muted-foreground hover:text-foreground"
+                                          >
+                                              {tag}
+                                          </button>
+                                      ))}
+                                      {design.tags.length > 3 && <span className="text-[10px] text-muted-foreground">+{design.tags.length - 3}</span>}
+                                  </div>
+                              )}
                            </div>
+                           <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                           <button 
+                                onClick={(e) => handleShowHistory(design, e)}
+                                className="text-muted-foreground hover:text-foreground p-2 rounded-full hover:bg-secondary transition-colors"
+                                title="Version History"
+                            >
+                              <History size={16} />
+                           </button>
                            <button 
-                                onClick={(e) => handleDelete(design.id, e)}
-                                className="text-muted-foreground hover:text-destructive p-2 rounded-full hover:bg-destructive/10 transition-colors opacity-0 group-hover:opacity-100"
+                                onClick={(e) => handleDelete(design, e)}
+                                className="text-muted-foreground hover:text-destructive p-2 rounded-full hover:bg-destructive/10 transition-colors"
                                 title="Delete Project"
                             >
                               <Trash2 size={16} />
                            </button>
+                           <button 
+                                onClick={(e) => { e.stopPropagation(); setMenuDesign(menuDesign === design ? null : design); }}
+                                className="text-muted-foreground hover:text-foreground p-2 rounded-full hover:bg-secondary transition-colors"
+                                title="More actions"
+                            >
+                              <MoreVertical size={16} />
+                           </button>
+                           </div>
+                           {menuDesign === design && (
+                               <>
+                                   {/* Click-away layer */}
+                                   <div className="fixed inset-0 z-30 cursor-default" onClick={(e) => { e.stopPropagation(); setMenuDesign(null); }} />
+                                   <div className="absolute right-3 bottom-14 z-40 w-48 rounded-xl border border-border bg-popover shadow-xl py-1 text-sm animate-in fade-in zoom-in-95 duration-100">
+                                       <button onClick={runMenuAction(handleRename)} className="w-full px-3 py-2 flex items-center gap-2 hover:bg-secondary text-left">
+                                           <Pencil size={14} /> Rename
+                                       </button>
+                                       <button onClick={runMenuAction(handleEditTags)} className="w-full px-3 py-2 flex items-center gap-2 hover:bg-secondary text-left">
+                                           <Tag size={14} /> Edit tags
+                                       </button>
+                                       <button onClick={runMenuAction(handleDuplicate)} className="w-full px-3 py-2 flex items-center gap-2 hover:bg-secondary text-left">
+                                           <Copy size={14} /> Duplicate
+                                       </button>
+                                       <button onClick={runMenuAction(handleMoveToFolder)} className="w-full px-3 py-2 flex items-center gap-2 hover:bg-secondary text-left">
+                                           <Folder size={14} /> Move to folder
+                                       </button>
+                                       {availableSpaces.includes('team') && (
+                                           <button onClick={runMenuAction(handleMoveToOtherSpace)} className="w-full px-3 py-2 flex items-center gap-2 hover:bg-secondary text-left">
+                                               <FolderInput size={14} /> {design.space === 'team' ? 'Move to my space' : 'Move to team'}
+                                           </button>
+                                       )}
+                                   </div>
+                               </>
+                           )}
                         </div>
                      </div>
                   ))}
@@ -460,6 +1044,20 @@ export default function Dashboard({ onNewDesign, onSelectTemplate, onOpenDesign,
         </section>
 
       </div>
+
+      <VersionHistoryModal
+          isOpen={historyDesign !== null}
+          onClose={() => setHistoryDesign(null)}
+          design={historyDesign}
+          onRestored={handleVersionRestored}
+          onForked={handleVersionForked}
+      />
+
+      <TrashModal
+          isOpen={isTrashOpen}
+          onClose={() => setIsTrashOpen(false)}
+          onRestored={(item) => { if (item.kind === 'design') reloadDesigns(); }}
+      />
     </div>
   );
 }
@@ -0,0 +1,350 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import * as fabric from 'fabric';
+import JSZip from 'jszip';
+import { Braces, ChevronLeft, ChevronRight, Download, Eye, FileSpreadsheet, Image as ImageIcon, Loader2, RotateCw, Type } from 'lucide-react';
+import DraggableResizablePanel from '@/components/ui/DraggableResizablePanel';
+import { useToast } from '@/providers/ToastProvider';
+import { getActiveArtboard, getArtboards, renderArtboardToDataURL, renderArtboardsToPdf } from '@/lib/artboards';
+import { slugify } from '@/lib/design-package';
+import {
+    buildFileName,
+    ColumnMapping,
+    Dataset,
+    DataRow,
+    findMergeVariables,
+    matchColumns,
+    MergePreview,
+    MergeVariable,
+    parseDataset,
+} from '@/lib/data-merge';
+
+type MergeFormat = 'png' | 'jpg' | 'pdf';
+
+interface DataMergePanelProps {
+    canvas: fabric.Canvas;
+    designName?: string;
+    onClose: () => void;
+    onDownload: (blob: Blob, filename: string) => void;
+}
+
+// PNG and JPG hold the page being edited; a PDF holds every page
+const renderRow = (canvas: fabric.Canvas, format: MergeFormat) => {
+    if (format === 'pdf') {
+        const pages = getArtboards(canvas);
+        return { data: renderArtboardsToPdf(canvas, pages).output('arraybuffer'), base64: false };
+    }
+    const page = getActiveArtboard(canvas);
+    const originalBg = canvas.backgroundColor;
+    if (format === 'jpg') canvas.set('backgroundColor', '#ffffff');
+    try {
+        const dataUrl = page
+            ? renderArtboardToDataURL(canvas, page, { format: format === 'jpg' ? 'jpeg' : 'png', quality: 0.92 })
+            : canvas.toDataURL({ format: format === 'jpg' ? 'jpeg' : 'png', quality: 0.92, multiplier: 1 });
+        return { data: dataUrl.split(',')[1], base64: true };
+    } finally {
+        canvas.set('backgroundColor', originalBg);
+    }
+};
+
+const rowLabel = (row: DataRow, columns: string[], index: number) => {
+    const first = columns.map((column) => row[column]).find(Boolean);
+    return `${index + 1}. ${first ?? '(empty)'}`;
+};
+
+/**
+ * Fills the template's named variables from a CSV or JSON file, one row at a time on the
+ * canvas, and exports every row to a ZIP. The template is put back when the panel closes.
+ */
+export default function DataMergePanel({ canvas, designName, onClose, onDownload }: DataMergePanelProps) {
+    const { toast } = useToast();
+    const previewRef = useRef<MergePreview | null>(null);
+    const [variables, setVariables] = useState<MergeVariable[]>([]);
+    const [dataset, setDataset] = useState<Dataset | null>(null);
+    const [datasetName, setDatasetName] = useState('');
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [rowIndex, setRowIndex] = useState<number | null>(null);
+    const [format, setFormat] = useState<MergeFormat>('png');
+    const [pattern, setPattern] = useState('{#}');
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+    const getPreview = () => {
+        if (!previewRef.current) previewRef.current = new MergePreview(canvas);
+        return previewRef.current;
+    };
+
+    const refreshVariables = () => setVariables(findMergeVariables(canvas));
+
+    useEffect(() => {
+        let cancelled = false;
+        setTimeout(() => {
+            if (!cancelled) setVariables(findMergeVariables(canvas));
+        }, 0);
+        return () => {
+            cancelled = true;
+            // Never leave a row's values in the design
+            previewRef.current?.restore();
+        };
+    }, [canvas]);
+
+    const reportFailedImages = (failed: string[], rowNumber: number) => {
+        if (failed.length === 0) return;
+        toast({
+            title: `Row ${rowNumber}: ${failed.length} image${failed.length === 1 ? '' : 's'} not loaded`,
+            description: 'The template image was kept. Check that the URLs point to images.',
+            variant: 'warning',
+        });
+    };
+
+    const showRow = async (index: number, nextMapping = mapping) => {
+        if (!dataset || index < 0 || index >= dataset.rows.length) return;
+        const failed = await getPreview().apply(variables, nextMapping, dataset.rows[index]);
+        setRowIndex(index);
+        reportFailedImages(failed, index + 1);
+    };
+
+    const showTemplate = async () => {
+        await getPreview().restore();
+        setRowIndex(null);
+    };
+
+    const handleFile = async (file: File) => {
+        try {
+            const parsed = parseDataset(await file.text(), file.name);
+            if (parsed.rows.length === 0) {
+                toast({ title: 'No rows found', description: 'The file needs a header row and at least one data row.', variant: 'destructive' });
+                return;
+            }
+            await showTemplate();
+            const current = findMergeVariables(canvas);
+            setVariables(current);
+            setDataset(parsed);
+            setDatasetName(file.name);
+            setMapping(matchColumns(current, parsed.columns));
+            setPattern(parsed.columns.length > 0 ? `{#}-{${parsed.columns[0]}}` : '{#}');
+        } catch (error) {
+            console.error('Failed to read dataset', error);
+            toast({ title: 'Could not read the file', description: 'Use a CSV file with a header row or a JSON list of objects.', variant: 'destructive' });
+        }
+    };
+
+    const handleMappingChange = async (variable: string, column: string) => {
+        const next = { ...mapping };
+        if (column) next[variable] = column;
+        else delete next[variable];
+        setMapping(next);
+        if (rowIndex === null) return;
+        // A variable that was unmapped must get its template content back
+        await getPreview().restore();
+        await showRow(rowIndex, next);
+    };
+
+    const handleExport = async () => {
+        if (!dataset) return;
+        const total = dataset.rows.length;
+        const zip = new JSZip();
+        const usedNames = new Set<string>();
+        const failedRows: number[] = [];
+        setProgress({ done: 0, total });
+        canvas.discardActiveObject();
+        try {
+            for (let index = 0; index < total; index += 1) {
+                const row = dataset.rows[index];
+                const failed = await getPreview().apply(variables, mapping, row);
+                if (failed.length > 0) failedRows.push(index + 1);
+
+                const base = buildFileName(pattern, row, index, total);
+                let name = base;
+                for (let copy = 2; usedNames.has(name.toLowerCase()); copy += 1) name = `${base} (${copy})`;
+                usedNames.add(name.toLowerCase());
+
+                const file = renderRow(canvas, format);
+                zip.file(`${name}.${format}`, file.data, { base64: file.base64 });
+                setProgress({ done: index + 1, total });
+                // Let the progress bar paint between rows
+                await new Promise((resolve) => setTimeout(resolve, 0));
+            }
+            onDownload(await zip.generateAsync({ type: 'blob' }), `${slugify(designName ?? '')}-merge.zip`);
+            toast({
+                title: `Exported ${total} file${total === 1 ? '' : 's'}`,
+                description: failedRows.length > 0 ? `Some images could not be loaded in rows ${failedRows.slice(0, 10).join(', ')}${failedRows.length > 10 ? '…' : ''}.` : undefined,
+                variant: failedRows.length > 0 ? 'warning' : 'success',
+            });
+        } catch (error) {
+            console.error('Data merge export failed', error);
+            toast({ title: 'Export failed', description: 'The batch could not be rendered.', variant: 'destructive' });
+        } finally {
+            await getPreview().restore();
+            if (rowIndex !== null) await getPreview().apply(variables, mapping, dataset.rows[rowIndex]);
+            setProgress(null);
+        }
+    };
+
+    const isExporting = progress !== null;
+    const mappedCount = variables.filter((variable) => mapping[variable.name]).length;
+    const samplePattern = dataset && dataset.rows.length > 0 ? buildFileName(pattern, dataset.rows[0], 0, dataset.rows.length) : '';
+
+    return (
+        <DraggableResizablePanel
+            className="bg-card border border-border rounded-lg shadow-2xl overflow-hidden animate-in fade-in slide-in-from-left-4 duration-200"
+            initialPosition={{ x: 80, y: 140 }}
+            initialSize={{ width: 340, height: 600 }}
+            minWidth={300}
+            minHeight={400}
+        >
+            <div className="p-3 border-b border-border flex items-center justify-between bg-secondary/10 rounded-t-lg draggable-handle cursor-move">
+                <h3 className="font-semibold text-sm flex items-center gap-2"><FileSpreadsheet size={14} /> Data Merge</h3>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={refreshVariables}
+                        disabled={isExporting}
+                        className="p-1.5 hover:bg-secondary rounded-full text-muted-foreground hover:text-foreground transition-colors"
+                        title="Refresh variables"
+                    >
+                        <RotateCw size={14} />
+                    </button>
+                    <button onClick={onClose} disabled={isExporting} className="p-1.5 hover:bg-secondary rounded-full text-muted-foreground hover:text-foreground">✕</button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-3 space-y-4 text-xs">
+                <section className="space-y-2">
+                    <h4 className="font-medium text-sm">1. Data</h4>
+                    <label className="flex items-center justify-center gap-2 w-full border border-dashed border-border rounded-md py-3 cursor-pointer hover:bg-secondary/40 text-muted-foreground">
+                        <FileSpreadsheet size={14} />
+                        <span>{datasetName ? `${datasetName} · ${dataset?.rows.length ?? 0} rows` : 'Choose a CSV or JSON file'}</span>
+                        <input
+                            type="file"
+                            accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+                            className="hidden"
+                            disabled={isExporting}
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleFile(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                </section>
+
+                <section className="space-y-2">
+                    <h4 className="font-medium text-sm">2. Variables</h4>
+                    {variables.length === 0 ? (
+                        <p className="text-muted-foreground">
+                            No variables yet. Select a text or image layer and give it a name under <span className="font-medium">Data Variable</span> in the Properties panel, then refresh.
+                        </p>
+                    ) : (
+                        <div className="space-y-1.5">
+                            {variables.map((variable) => (
+                                <div key={variable.name} className="flex items-center gap-2">
+                                    {variable.kind === 'text' ? <Type size={12} className="text-muted-foreground shrink-0" /> : <ImageIcon size={12} className="text-muted-foreground shrink-0" />}
+                                    <span className="flex-1 truncate" title={variable.name}><Braces size={10} className="inline mr-1" />{variable.name}</span>
+                                    <select
+                                        value={mapping[variable.name] ?? ''}
+                                        onChange={(e) => handleMappingChange(variable.name, e.target.value)}
+                                        disabled={!dataset || isExporting}
+                                        className="w-36 bg-background border border-border rounded px-1.5 py-1"
+                                    >
+                                        <option value="">Keep template</option>
+                                        {dataset?.columns.map((column) => <option key={column} value={column}>{column}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </section>
+
+                {dataset && (
+                    <section className="space-y-2">
+                        <h4 className="font-medium text-sm">3. Preview</h4>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={() => showRow(rowIndex === null ? 0 : rowIndex - 1)}
+                                disabled={isExporting || rowIndex === 0}
+                                className="p-1.5 border border-border rounded hover:bg-secondary disabled:opacity-40"
+                                title="Previous row"
+                            >
+                                <ChevronLeft size={14} />
+                            </button>
+                            <select
+                                value={rowIndex ?? ''}
+                                onChange={(e) => (e.target.value === '' ? showTemplate() : showRow(Number(e.target.value)))}
+                                disabled={isExporting}
+                                className="flex-1 min-w-0 bg-background border border-border rounded px-1.5 py-1"
+                            >
+                                <option value="">Template</option>
+                                {dataset.rows.map((row, index) => (
+                                    <option key={index} value={index}>{rowLabel(row, dataset.columns, index)}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => showRow(rowIndex === null ? 0 : rowIndex + 1)}
+                                disabled={isExporting || rowIndex === dataset.rows.length - 1}
+                                className="p-1.5 border border-border rounded hover:bg-secondary disabled:opacity-40"
+                                title="Next row"
+                            >
+                                <ChevronRight size={14} />
+                            </button>
+                        </div>
+                        {rowIndex !== null && (
+                            <button onClick={showTemplate} disabled={isExporting} className="flex items-center gap-1.5 text-primary hover:underline">
+                                <Eye size={12} /> Show template
+                            </button>
+                        )}
+                        <p className="text-[10px] text-muted-foreground">Previewed values are not saved; the template comes back when this panel closes.</p>
+                    </section>
+                )}
+
+                {dataset && (
+                    <section className="space-y-2">
+                        <h4 className="font-medium text-sm">4. Export</h4>
+                        <div className="flex items-center gap-2">
+                            <span className="w-16 text-muted-foreground">Format</span>
+                            <select
+                                value={format}
+                                onChange={(e) => setFormat(e.target.value as MergeFormat)}
+                                disabled={isExporting}
+                                className="flex-1 bg-background border border-border rounded px-1.5 py-1"
+                            >
+                                <option value="png">PNG (current page)</option>
+                                <option value="jpg">JPG (current page)</option>
+                                <option value="pdf">PDF (all pages)</option>
+                            </select>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <span className="w-16 text-muted-foreground">File name</span>
+                            <input
+                                type="text"
+                                value={pattern}
+                                onChange={(e) => setPattern(e.target.value)}
+                                disabled={isExporting}
+                                className="flex-1 min-w-0 bg-background border border-border rounded px-1.5 py-1 font-mono"
+                            />
+                        </div>
+                        <p className="text-[10px] text-muted-foreground">
+                            <code>{'{column}'}</code> inserts a value, <code>{'{#}'}</code> the row number.
+                            {samplePattern && <> First file: <span className="font-mono">{samplePattern}.{format}</span></>}
+                        </p>
+                        {mappedCount === 0 && (
+                            <p className="text-[10px] text-amber-500">No variable is mapped to a column, so every file would show the template.</p>
+                        )}
+                        <button
+                            onClick={handleExport}
+                            disabled={isExporting}
+                            className="w-full flex items-center justify-center gap-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-md py-2 text-sm font-medium disabled:opacity-60"
+                        >
+                            {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                            {isExporting ? `Rendering ${progress.done} / ${progress.total}` : `Export ${dataset.rows.length} files (ZIP)`}
+                        </button>
+                        {isExporting && (
+                            <div className="h-1.5 bg-secondary rounded-full overflow-hidden">
+                                <div className="h-full bg-primary transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                            </div>
+                        )}
+                    </section>
+                )}
+            </div>
+        </DraggableResizablePanel>
+    );
+}
@@ -3,6 +3,7 @@ import { useEffect, useRef, useState } from 'react';
 import * as fabric from 'fabric'; // Import all to be safe with versioning, or named imports
 import { useDialog } from '@/providers/DialogProvider';
 import { useToast } from '@/providers/ToastProvider';
+import { createArtboardId, DEFAULT_ARTBOARD_BACKGROUND, restoreArtboards } from '@/lib/artboards';
 
 type ArtboardInfo = {
     width: number;
@@ -365,27 +366,16 @@ export default function DesignCanvas({ onCanvasReady, onModified, onRightClick,
         };
 
     // --- Create Artboard (The White Page) ---
-    const artboard = new fabric.Rect({
-        left: 0,
-        top: 0,
+    // Pages are managed by lib/artboards; a new design starts with a single page
+    restoreArtboards(canvas, [{
+        id: createArtboardId(),
+        name: 'Page 1',
         width: DESIGN_WIDTH,
         height: DESIGN_HEIGHT,
-        fill: '#ffffff',
-        originX: 'left', // EXPLICITLY set origin to Top-Left to avoid Center-Origin defaults in Fabric v7?
-        originY: 'top',
-        selectable: false,
-        evented: false, // Don't intercept events, let them fall through to canvas/selection
-        excludeFromExport: true, // We will handle export by cropping manually usually
-        shadow: new fabric.Shadow({ color: 'rgba(0,0,0,0.3)', blur: 20, offsetX: 0, offsetY: 0, includeDefaultValues: false })
-    });
-        canvas.add(artboard);
-    // In Fabric.js v6+, methods like sendToBack are on the object itself using canvas.moveObjectTo(obj, index) or obj methods
-    // Actually, in v6 it is canvas.moveObjectTo(object, index) or canvas.sendObjectToBack(object)
-    // Let's check Fabric 6 docs or try standard method.
-    // If sendToBack is not on canvas, it might be removed in v6.
-    // We can use insertAt(0) when adding? Or canvas.sendObjectToBack(artboard).
-    canvas.sendObjectToBack(artboard);
-        extendedCanvas.artboardRect = artboard;
+        left: 0,
+        top: 0,
+        background: DEFAULT_ARTBOARD_BACKGROUND
+    }]);
 
     // Center the view on the artboard (Fit within view)
     const centerArtboard = () => {
@@ -72,7 +72,7 @@ export default function DocumentationModal({ isOpen, onClose }: DocumentationMod
                                 <li><span className="font-medium">Welcome banner:</span> confirms the current profile and links to community resources.</li>
                                 <li><span className="font-medium">Quick Start:</span> One-click access to popular formats (Instagram, YouTube, A4, Letter) to instantly launch a sized canvas.</li>
                                 <li><span className="font-medium">Start Creating:</span> opens a custom blank canvas dialog.</li>
-                                <li><span className="font-medium">Recent designs:</span> shows saved canvases from /api/designs/list with delete shortcuts and thumbnail previews.</li>
+                                <li><span className="font-medium">Recent designs:</span> shows saved canvases from /api/designs/list with delete shortcuts and thumbnail previews; switch between your own projects and the shared team space.</li>
                                 <li><span className="font-medium">Support:</span> Footer links to support the developer (&quot;Buy me a Coffee&quot;) and social channels.</li>
                             </ul>
                         </Section>
@@ -136,7 +136,7 @@ export default function DocumentationModal({ isOpen, onClose }: DocumentationMod
                         <Section id="ai-tools" title="AI Generation Tools">
                             <ul className="list-disc list-inside space-y-2">
                                 <li><span className="font-medium">Image Generator:</span> define a “magic zone” rectangle, enter prompts, and send to ComfyUI or available API providers (Stability, OpenAI, Google, Banana).</li>
-                                <li>Generated images are auto-saved into assets/generated/images and placed on the canvas sized to the zone.</li>
+                                <li>Generated images are auto-saved into your Generated assets and placed on the canvas sized to the zone.</li>
                                 <li><span className="font-medium">AI 3D Generator:</span> choose Meshy or Tripo, supply prompts or seed imagery, and monitor background job progress via the footer.</li>
                                 <li>Use the 3D Layer Editor to recapture higher-resolution thumbnails or replace existing Fabric placeholders.</li>
                             </ul>
@@ -145,7 +145,7 @@ export default function DocumentationModal({ isOpen, onClose }: DocumentationMod
                         <Section id="templates" title="Templates & Reuse">
                             <ul className="list-disc list-inside space-y-2">
                                 <li>Save the current canvas as a reusable template from the Library panel; thumbnails are auto-generated.</li>
-                                <li>Template selection clears the canvas and loads JSON definitions from /assets/templates.</li>
+                                <li>Template selection clears the canvas and loads the template JSON from your own or the team&apos;s template space.</li>
                                 <li>Missing asset detection prompts for replacements via the Asset Library before finalising the load.</li>
                             </ul>
                         </Section>
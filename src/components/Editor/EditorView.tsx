@@ -9,14 +9,42 @@ import ThreeDLayerEditor from '@/components/ThreeDLayerEditor';
 import JobStatusFooter from '@/components/JobStatusFooter';
 import UserProfileModal from '@/components/UserProfileModal';
 import AssetLibrary from '@/components/AssetLibrary';
+import DataMergePanel from '@/components/DataMergePanel';
+import MagicResizeModal, { ResizedCopy } from '@/components/MagicResizeModal';
 import MissingAssetsModal from '@/components/MissingAssetsModal';
 import * as fabric from 'fabric';
 import { GridOverlay, GridType } from '@/components/GridOverlay';
-import { Download, Share2, Sparkles, Home as HomeIcon, ChevronDown, Image as ImageIcon, FileText, FileCode, Settings, Box, Cloud, User, Save, X, Maximize, Minimize, ChevronLeft, ChevronRight, GripHorizontal, Grid3x3, LayoutGrid, Crosshair as CrosshairIcon, Archive } from 'lucide-react';
-import { jsPDF } from 'jspdf';
-import { BackgroundJob, ThreeDImage, ThreeDGroup, ExtendedFabricObject } from '@/types';
+import { TextOverflowBadges } from '@/components/TextOverflowBadges';
+import { SmartGuides } from '@/components/SmartGuides';
+import PagesStrip from '@/components/PagesStrip';
+import VersionHistoryModal, { VersionedDesign } from '@/components/VersionHistoryModal';
+import { Download, Share2, Sparkles, Home as HomeIcon, ChevronDown, Image as ImageIcon, FileText, FileCode, Settings, Box, Cloud, User, Save, X, Maximize, Minimize, ChevronLeft, ChevronRight, GripHorizontal, Grid3x3, LayoutGrid, Crosshair as CrosshairIcon, Archive, Magnet, History, Package, FileSpreadsheet } from 'lucide-react';
+import { ApiKeyProvider, BackgroundJob, ThreeDImage, ThreeDGroup, ExtendedFabricObject, SnapSettings, WorkspaceSpace } from '@/types';
 import JSZip from 'jszip';
 import { loadDriveConfig, uploadBackup } from '@/lib/googleDrive';
+import { CanvasHistory, loadHistoryDepth } from '@/lib/canvas-history';
+import { loadSnapSettings, saveSnapSettings } from '@/lib/snapping';
+import { getActiveArtboard, getArtboards, renderArtboardToDataURL, renderArtboardsToPdf, restoreArtboards, serializeArtboards } from '@/lib/artboards';
+import { fetchApiKeyStatuses, getConfiguredProviders } from '@/lib/api-keys';
+import { createRecoverySlotId, discardRecoverySlot, loadAutosaveInterval } from '@/lib/autosave';
+import { DesignJson, findAssetReferences, packAssetFiles } from '@/lib/design-assets';
+import { loadDesignFonts } from '@/lib/fonts';
+import { PACKAGE_EXTENSION, PACKAGE_FORMAT, PACKAGE_VERSION, PackageManifest, slugify } from '@/lib/design-package';
+import { describeDesignProblems, prepareDesign, PreparedDesign, serializeDesign, toPortableDesign } from '@/lib/design-schema';
+import {
+    fetchComponents,
+    findMaster,
+    markAsMaster,
+    prepareMasterGroup,
+    renderComponentThumbnail,
+    revealObject,
+    serializeMaster,
+    updateInstancesFromLibrary,
+    watchComponents,
+} from '@/lib/components';
+import { watchTextPaths } from '@/lib/text-path';
+import { watchTextFit } from '@/lib/text-fit';
+import { restoreTextStyles } from '@/lib/text-styles';
 import { useDialog } from '@/providers/DialogProvider';
 import { useToast } from '@/providers/ToastProvider';
 
@@ -26,8 +54,11 @@ interface MissingItem {
     originalSrc: string;
 }
 
+/** A design to open; `recoverySlot` marks unsaved state brought back from an autosave. */
+export type DesignToOpen = { data?: unknown; recoverySlot?: string };
+
 interface EditorViewProps {
-    initialDesign: { data?: unknown } | null;
+    initialDesign: DesignToOpen | null;
     initialTemplateJsonUrl: string | null;
     initialSize?: { width: number, height: number } | null;
     user: string;
@@ -35,7 +66,8 @@ interface EditorViewProps {
     onLogout: () => void;
     currentDesignName: string;
     currentDesignId: string | null;
-    onUpdateDesignInfo: (id: string | null, name: string) => void;
+    currentDesignSpace?: WorkspaceSpace;
+    onUpdateDesignInfo: (id: string | null, name: string, space?: WorkspaceSpace) => void;
     onOpenDocumentation?: () => void;
     onOpenSettings: () => void;
     settingsOpen: boolean;
@@ -47,37 +79,27 @@ type CanvasWithArtboard = fabric.Canvas & {
     artboard?: { width: number; height: number };
 };
 
-type SerializedFill = {
-    src?: string;
-    source?: string;
-    colorStops?: Array<{ src?: string }>;
-};
-
-type SerializedObject = {
-    type?: string;
-    src?: string;
-    modelUrl?: string;
-    mediaType?: 'video' | 'audio' | string;
-    mediaSource?: string;
-    name?: string;
-    is3DModel?: boolean;
-    clipPath?: SerializedObject;
-    objects?: SerializedObject[];
-    paths?: SerializedObject[];
-    fill?: unknown;
-    stroke?: unknown;
-    backgroundColor?: unknown;
-    overlayFill?: unknown;
-    [key: string]: unknown;
-};
-
-type DesignJson = {
-    objects?: SerializedObject[];
-    backgroundImage?: { src?: string };
-    overlayImage?: { src?: string };
-    clipPath?: SerializedObject;
-    metadata?: unknown;
-    [key: string]: unknown;
+// The first page doubles as the design's cover
+const renderCoverThumbnail = (canvas: fabric.Canvas, multiplier: number) => {
+    if (!canvas.width || !canvas.height || canvas.width <= 0 || canvas.height <= 0) {
+        console.warn('Canvas has invalid dimensions, skipping thumbnail generation.');
+        return '';
+    }
+    const coverPage = getArtboards(canvas)[0];
+    try {
+        return coverPage
+            ? renderArtboardToDataURL(canvas, coverPage, { multiplier })
+            : canvas.toDataURL({ format: 'png', multiplier });
+    } catch (e) {
+        console.warn('Thumbnail generation with multiplier failed, retrying without:', e);
+        try {
+            // Fallback without multiplier
+            return canvas.toDataURL({ format: 'png', multiplier: 1 });
+        } catch (e2) {
+            console.error('Thumbnail generation failed completely:', e2);
+            return '';
+        }
+    }
 };
 
 export default function EditorView({ 
@@ -89,6 +111,7 @@ export default function EditorView({
     onLogout,
     currentDesignName: propDesignName,
     currentDesignId: propDesignId,
+    currentDesignSpace = 'personal',
     onUpdateDesignInfo,
     onOpenDocumentation,
     onOpenSettings,
@@ -110,7 +133,16 @@ export default function EditorView({
     const [zoom, setZoom] = useState(1);
     const [isDirty, setIsDirty] = useState(false);
 
-    const handleCanvasModified = useCallback(() => setIsDirty(true), []);
+    // Counts edits so autosave can tell whether anything changed since its last run
+    const changeCountRef = useRef(0);
+    const handleCanvasModified = useCallback(() => {
+        changeCountRef.current += 1;
+        setIsDirty(true);
+    }, []);
+
+    // Undo/Redo History
+    const [history, setHistory] = useState<CanvasHistory | null>(null);
+    const historyRef = useRef<CanvasHistory | null>(null);
 
     // Panel State
     const [panelState, setPanelState] = useState<{
@@ -190,12 +222,16 @@ export default function EditorView({
     
     // UI States
     const [showExportMenu, setShowExportMenu] = useState(false);
+    const [showDataMerge, setShowDataMerge] = useState(false);
+    const [showMagicResize, setShowMagicResize] = useState(false);
     const [showGridMenu, setShowGridMenu] = useState(false);
     const [gridType, setGridType] = useState<GridType>('none');
+    const [snapSettings, setSnapSettings] = useState<SnapSettings>(() => loadSnapSettings());
     const [showProfileModal, setShowProfileModal] = useState(false);
     
     // Assets & Missing Items
     const [showMissingAssetsModal, setShowMissingAssetsModal] = useState(false);
+    const [historyDesign, setHistoryDesign] = useState<{ id: string; name: string; space: WorkspaceSpace } | null>(null);
     const [missingItems, setMissingItems] = useState<MissingItem[]>([]);
     const [pendingTemplateJson, setPendingTemplateJson] = useState<DesignJson | null>(null);
     const [showAssetBrowserForMissing, setShowAssetBrowserForMissing] = useState(false);
@@ -211,18 +247,21 @@ export default function EditorView({
     const [mediaPreview, setMediaPreview] = useState<{ type: 'video' | 'audio'; url: string } | null>(null);
     const exportRef = useRef<HTMLDivElement>(null);
     
-    // API Keys State
-    const [apiKeys, setApiKeys] = useState<{
-        meshy?: string, 
-        tripo?: string, 
-        stability?: string, 
-        openai?: string, 
-        google?: string,
-        banana?: string
-    }>({});
+    // Providers with a key in the user's vault (the keys themselves stay on the server)
+    const [configuredKeys, setConfiguredKeys] = useState<Set<ApiKeyProvider>>(() => new Set());
 
     // Handle Open Design (Local helpers)
-    const handleOpenDesign = useCallback(async (design: { data?: unknown }) => {
+    // Migrations run quietly; anything the validator had to leave out is worth a warning
+    const reportDesignProblems = useCallback((prepared: PreparedDesign) => {
+        if (prepared.migrations.length > 0) {
+            console.info(`Upgraded design from schema version ${prepared.savedVersion}:`, prepared.migrations);
+        }
+        if (prepared.issues.length > 0) console.warn('Design validation issues:', prepared.issues);
+        const description = describeDesignProblems(prepared);
+        if (description) toast({ title: 'Opened with warnings', description, variant: 'warning' });
+    }, [toast]);
+
+    const handleOpenDesign = useCallback(async (design: DesignToOpen) => {
         if (!canvas) return;
         
         let designData: unknown = design.data;
@@ -238,14 +277,215 @@ export default function EditorView({
                 return;
             }
         }
+
+        let prepared: PreparedDesign;
+        try {
+            prepared = prepareDesign(designData);
+        } catch (e) {
+            console.error("Unreadable design data", e);
+            toast({ title: 'Load failed', description: 'This file is not a design Image Express can open.', variant: 'destructive' });
+            return;
+        }
+        reportDesignProblems(prepared);
+        // Text is measured as it loads, so uploaded fonts have to be there first
+        await loadDesignFonts(prepared.design);
   
-        canvas.loadFromJSON(designData as Record<string, unknown>, () => {
+        await canvas.loadFromJSON(prepared.design, () => {
             canvas.requestRenderAll();
-            // Don't set isDirty, we just opened it
-            setIsDirty(false);
+            // Don't set isDirty, we just opened it; recovered changes still need saving
+            setIsDirty(Boolean(design.recoverySlot));
+        }).then(async () => {
+            // Pages are stored next to the objects; older designs fall back to a single page
+            restoreArtboards(canvas, prepared.design.artboards);
+            restoreTextStyles(canvas, prepared.design.textStyles);
+            historyRef.current?.reset();
+            // Instances catch up with masters published since the design was saved
+            const updated = await updateInstancesFromLibrary(canvas).catch((e) => {
+                console.error('Failed to update component instances', e);
+                return 0;
+            });
+            if (updated > 0) {
+                historyRef.current?.record('Update components');
+                toast({ title: `Updated ${updated} component ${updated === 1 ? 'instance' : 'instances'}`, description: 'Their masters changed since the design was saved.' });
+            }
+        }).catch((e) => {
+            console.error("Error opening design", e);
+            toast({ title: 'Load failed', description: 'The design could not be drawn.', variant: 'destructive' });
         });
-    }, [canvas, toast]);
+    }, [canvas, toast, reportDesignProblems]);
+
+
+    // --- Autosave & Recovery ---
+    // Background copies go to a recovery slot, never over the saved design
+    const [recoverySlot] = useState(() => initialDesign?.recoverySlot ?? createRecoverySlotId());
+    const autosavedCountRef = useRef(0);
+    const autosaveRef = useRef<Promise<void> | null>(null);
+    const isSavingRef = useRef(false);
+    const [lastAutosave, setLastAutosave] = useState<number | null>(null);
+
+    const runAutosave = useCallback(async () => {
+        if (!canvas || autosaveRef.current || isSavingRef.current) return;
+        const changeCount = changeCountRef.current;
+        if (changeCount === autosavedCountRef.current) return;
+
+        const json = serializeDesign(canvas);
+        const request = fetch('/api/recovery', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                slot: recoverySlot,
+                designId: propDesignId,
+                name: propDesignName,
+                space: currentDesignSpace,
+                canvasData: json,
+                thumbnailDataUrl: renderCoverThumbnail(canvas, 0.25)
+            })
+        })
+            .then(async (res) => {
+                const data = await res.json();
+                if (!data.success) throw new Error(data.message || 'Autosave failed');
+                autosavedCountRef.current = changeCount;
+                setLastAutosave(Date.now());
+            })
+            .catch((error) => console.error('Autosave failed', error))
+            .finally(() => {
+                autosaveRef.current = null;
+            });
+        autosaveRef.current = request;
+        await request;
+    }, [canvas, recoverySlot, propDesignId, propDesignName, currentDesignSpace]);
 
+    // The interval is re-read whenever Settings closes
+    useEffect(() => {
+        if (!canvas || !isDirty || settingsOpen) return;
+        const seconds = loadAutosaveInterval();
+        if (seconds <= 0) return;
+        const timer = window.setInterval(() => void runAutosave(), seconds * 1000);
+        // Also catch the moment the window is hidden, which often precedes a quit
+        const handleVisibility = () => {
+            if (document.visibilityState === 'hidden') void runAutosave();
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => {
+            window.clearInterval(timer);
+            document.removeEventListener('visibilitychange', handleVisibility);
+        };
+    }, [canvas, isDirty, settingsOpen, runAutosave]);
+
+    // --- Components ---
+    // Instances on the canvas follow their master while it is edited
+    useEffect(() => {
+        if (!canvas) return;
+        return watchComponents(canvas, () => historyRef.current?.record('Update instances'));
+    }, [canvas]);
+
+    // Text set along a shape follows it while it is edited
+    useEffect(() => {
+        if (!canvas) return;
+        return watchTextPaths(canvas);
+    }, [canvas]);
+
+    // Text boxes with a fit mode fit their text again as it changes
+    useEffect(() => {
+        if (!canvas) return;
+        return watchTextFit(canvas);
+    }, [canvas]);
+
+    const handleCreateComponent = async (objects: fabric.Object[]) => {
+        if (!canvas) return;
+        const defaultName = objects.length === 1 ? (objects[0] as ExtendedFabricObject).name : undefined;
+        const name = (await dialog.prompt('Name of the new component:', { title: 'Create component', defaultValue: defaultName ?? 'Component', confirmText: 'Create' }))?.trim();
+        if (!name) return;
+
+        const master = prepareMasterGroup(canvas, objects);
+        canvas.requestRenderAll();
+        try {
+            const response = await fetch('/api/components/save', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name,
+                    space: currentDesignSpace,
+                    object: serializeMaster(master),
+                    thumbnailDataUrl: renderComponentThumbnail(master),
+                    masterDesignId: propDesignId ?? undefined,
+                }),
+            });
+            const result = await response.json();
+            if (!result.success) throw new Error(result.message || 'Save failed');
+            markAsMaster(master, result.component);
+            canvas.setActiveObject(master);
+            canvas.requestRenderAll();
+            historyRef.current?.record('Create component');
+            toast({
+                title: 'Component created',
+                description: propDesignId ? `“${name}” is in the Components library.` : `“${name}” is in the Components library. Save this design to keep the master.`,
+                variant: 'success',
+            });
+        } catch (error) {
+            console.error('Create component failed', error);
+            historyRef.current?.record('Group layers');
+            toast({ title: 'Component not saved', description: 'The layers were grouped but could not be added to the library.', variant: 'destructive' });
+        }
+    };
+
+    const handlePublishComponent = async (master: fabric.Group) => {
+        const { componentId, componentSpace, name } = master as ExtendedFabricObject;
+        try {
+            const response = await fetch('/api/components/save', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    id: componentId,
+                    name: name || 'Component',
+                    space: componentSpace,
+                    object: serializeMaster(master),
+                    thumbnailDataUrl: renderComponentThumbnail(master),
+                    // Only a master in a design of the component's own space can be found again
+                    masterDesignId: propDesignId && componentSpace === currentDesignSpace ? propDesignId : undefined,
+                }),
+            });
+            const result = await response.json();
+            if (!result.success) throw new Error(result.message || 'Publish failed');
+            (master as ExtendedFabricObject).componentVersion = result.component.version;
+            historyRef.current?.record('Publish component');
+            toast({ title: `Published version ${result.component.version}`, description: 'Instances in other designs update when those designs are opened.', variant: 'success' });
+        } catch (error) {
+            console.error('Publish component failed', error);
+            toast({ title: 'Publish failed', description: error instanceof Error ? error.message : 'The component could not be published.', variant: 'destructive' });
+        }
+    };
+
+    const handleGoToMaster = async (instance: fabric.Group) => {
+        if (!canvas) return;
+        const { componentId, componentSpace } = instance as ExtendedFabricObject;
+        if (!componentId) return;
+        const local = findMaster(canvas, componentId);
+        if (local) {
+            revealObject(canvas, local);
+            return;
+        }
+        try {
+            const { components } = await fetchComponents(componentSpace);
+            const component = components.find((item) => item.id === componentId);
+            const masterDesign = component?.masterDesign;
+            if (!masterDesign) {
+                toast({ title: 'Master not found', description: component ? 'The design holding the master was not saved or has been deleted.' : 'The component is no longer in the library.', variant: 'warning' });
+                return;
+            }
+            if (isDirty) {
+                const confirmed = await dialog.confirm(`Open “${masterDesign.name}” and discard unsaved changes to this design?`, { title: 'Unsaved changes', variant: 'destructive' });
+                if (!confirmed) return;
+            }
+            onUpdateDesignInfo(masterDesign.id, masterDesign.name, component.space);
+            await handleOpenDesign({ data: masterDesign.data });
+            const master = findMaster(canvas, componentId);
+            if (master) revealObject(canvas, master);
+        } catch (error) {
+            console.error('Go to master failed', error);
+            toast({ title: 'Master not found', description: 'The component library could not be loaded.', variant: 'destructive' });
+        }
+    };
 
     // --- Navigation Guard ---
     useEffect(() => {
@@ -264,6 +504,10 @@ export default function EditorView({
             const confirmed = await dialog.confirm('Discard unsaved changes and leave?', { title: 'Unsaved changes', variant: 'destructive' });
             if (confirmed) {
                 setIsDirty(false);
+                // Discarding means the autosaved copy should not come back either
+                (autosaveRef.current ?? Promise.resolve())
+                    .then(() => discardRecoverySlot(recoverySlot))
+                    .catch((error) => console.error('Failed to discard recovery data', error));
                 onBack();
             }
         } else {
@@ -271,6 +515,28 @@ export default function EditorView({
         }
     };
 
+    // --- Version History ---
+    const handleVersionRestored = (design: VersionedDesign) => {
+        // The file name is unchanged, so skip any cached copy of the old JSON
+        handleOpenDesign({ data: `${design.data}?v=${design.version}` });
+    };
+
+    const handleVersionForked = (design: VersionedDesign) => {
+        onUpdateDesignInfo(design.id, design.name, design.space);
+        handleOpenDesign({ data: design.data });
+    };
+
+    // Resized copies open like any other design; the original stays as it was saved
+    const handleOpenResizedCopy = async (copy: ResizedCopy) => {
+        if (isDirty) {
+            const confirmed = await dialog.confirm('Open the copy and discard unsaved changes to this design?', { title: 'Unsaved changes', variant: 'destructive' });
+            if (!confirmed) return;
+        }
+        setShowMagicResize(false);
+        onUpdateDesignInfo(copy.id, copy.name, copy.space);
+        handleOpenDesign({ data: copy.data });
+    };
+
     // --- Save Logic ---
     const handleSave = async () => {
        if (!canvas) return;
@@ -294,44 +560,34 @@ export default function EditorView({
             if (inputName) name = inputName;
        }
        
-       const json = canvas.toJSON();
+       const json = serializeDesign(canvas);
        const jsonString = JSON.stringify(json);
-        
-       let thumbnailDataUrl = '';
-       
-       if (canvas.width && canvas.height && canvas.width > 0 && canvas.height > 0) {
-            try {
-                // Attempt with multiplier
-                thumbnailDataUrl = canvas.toDataURL({ format: 'png', multiplier: 0.5 });
-            } catch (e) {
-                console.warn('Thumbnail generation with multiplier failed, retrying without:', e);
-                try {
-                     // Fallback without multiplier
-                    thumbnailDataUrl = canvas.toDataURL({ format: 'png', multiplier: 1 });
-                } catch (e2) {
-                    console.error('Thumbnail generation failed completely:', e2);
-                }
-            }
-       } else {
-           console.warn('Canvas has invalid dimensions, skipping thumbnail generation.');
-       }
+       const thumbnailDataUrl = renderCoverThumbnail(canvas, 0.5);
+       const changeCount = changeCountRef.current;
 
+       isSavingRef.current = true;
        try {
+           // An autosave finishing after this save would bring the recovery slot back
+           await autosaveRef.current;
            const response = await fetch('/api/designs/save', {
                method: 'POST',
                headers: { 'Content-Type': 'application/json' },
                body: JSON.stringify({
                    id: propDesignId,
                    name,
+                   space: currentDesignSpace,
                     canvasData: json,
-                   thumbnailDataUrl
+                   thumbnailDataUrl,
+                   recoverySlot
                })
            });
            
            const result = await response.json();
            if (result.success) {
-                onUpdateDesignInfo(result.design.id, result.design.name);
+                onUpdateDesignInfo(result.design.id, result.design.name, result.design.space);
                 setIsDirty(false);
+                autosavedCountRef.current = changeCount;
+                setLastAutosave(null);
                 toast({ title: 'Design saved', description: 'Your changes are saved.', variant: 'success' });
 
                  if (typeof window !== 'undefined') {
@@ -365,6 +621,8 @@ export default function EditorView({
        } catch (error) {
            console.error("Save error:", error);
            toast({ title: 'Save failed', description: 'Error saving design to server.', variant: 'destructive' });
+       } finally {
+           isSavingRef.current = false;
        }
     };
 
@@ -379,32 +637,49 @@ export default function EditorView({
         return () => document.removeEventListener("mousedown", handleClickOutside);
     }, []);
 
-    const handleExport = async (format: 'png' | 'jpg' | 'svg' | 'pdf' | 'json' | 'html') => {
+    const handleExport = async (format: 'png' | 'png-zip' | 'jpg' | 'svg' | 'pdf' | 'json' | 'html' | 'package') => {
         if (!canvas) return;
         try {
             let dataUrl = '';
             const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
             const filename = `design-${timestamp}.${format}`;
+            // Raster exports are cropped to pages; the active page is the one being edited
+            const activePage = getActiveArtboard(canvas);
+            const pages = getArtboards(canvas);
     
             switch (format) {
                 case 'png':
-                    dataUrl = canvas.toDataURL({
-                        format: 'png',
-                        quality: 1,
-                        multiplier: 1,
-                        enableRetinaScaling: true
-                    });
+                    dataUrl = activePage
+                        ? renderArtboardToDataURL(canvas, activePage, { format: 'png', quality: 1 })
+                        : canvas.toDataURL({
+                              format: 'png',
+                              quality: 1,
+                              multiplier: 1,
+                              enableRetinaScaling: true
+                          });
                     downloadFile(dataUrl, filename);
                     break;
+                case 'png-zip':
+                    const pagesZip = new JSZip();
+                    pages.forEach((page, index) => {
+                        const slug = slugify(page.name, 'page');
+                        const pageData = renderArtboardToDataURL(canvas, page, { format: 'png', quality: 1 });
+                        // Index prefix keeps files in page order and names unique
+                        pagesZip.file(`${String(index + 1).padStart(2, '0')}-${slug}.png`, pageData.split(',')[1], { base64: true });
+                    });
+                    downloadBlob(await pagesZip.generateAsync({ type: 'blob' }), `design-${timestamp}-pages.zip`);
+                    break;
                 case 'jpg':
                     const originalBg = canvas.backgroundColor;
                     canvas.set('backgroundColor', '#ffffff');
-                    dataUrl = canvas.toDataURL({
-                        format: 'jpeg',
-                        quality: 0.9,
-                        multiplier: 1,
-                        enableRetinaScaling: true
-                    });
+                    dataUrl = activePage
+                        ? renderArtboardToDataURL(canvas, activePage, { format: 'jpeg', quality: 0.9 })
+                        : canvas.toDataURL({
+                              format: 'jpeg',
+                              quality: 0.9,
+                              multiplier: 1,
+                              enableRetinaScaling: true
+                          });
                     downloadFile(dataUrl, filename);
                     canvas.set('backgroundColor', originalBg); 
                     canvas.requestRenderAll();
@@ -416,24 +691,11 @@ export default function EditorView({
                     downloadFile(url, filename);
                     break;
                  case 'pdf':
-                    const pdfWidth = canvas.width!;
-                    const pdfHeight = canvas.height!;
-                    const pdf = new jsPDF({
-                        orientation: pdfWidth > pdfHeight ? 'landscape' : 'portrait',
-                        unit: 'px',
-                        format: [pdfWidth, pdfHeight]
-                    });
-                    const imgData = canvas.toDataURL({
-                        format: 'png',
-                        quality: 1,
-                        multiplier: 1,
-                        enableRetinaScaling: true
-                    });
-                    pdf.addImage(imgData, 'PNG', 0, 0, pdfWidth, pdfHeight);
-                    pdf.save(filename);
+                    if (pages.length === 0) break;
+                    renderArtboardsToPdf(canvas, pages).save(filename);
                     break;
                 case 'json':
-                    const json = JSON.stringify(canvas.toJSON());
+                    const json = JSON.stringify(serializeDesign(canvas));
                     const jsonBlob = new Blob([json], { type: 'application/json' });
                     const jsonUrl = URL.createObjectURL(jsonBlob);
                     downloadFile(jsonUrl, `design-${timestamp}.json`);
@@ -441,6 +703,9 @@ export default function EditorView({
                 case 'html':
                     await exportHtmlBundle(filename.replace(/\.html$/, ''), timestamp);
                     break;
+                case 'package':
+                    await exportDesignPackage();
+                    break;
             }
         } catch (error) {
             console.error("Export failed:", error);
@@ -463,16 +728,50 @@ export default function EditorView({
         setTimeout(() => URL.revokeObjectURL(url), 1000);
     };
 
+    // Everything needed to open the design elsewhere, see src/lib/design-package.ts
+    const exportDesignPackage = async () => {
+        if (!canvas) return;
+        const zip = new JSZip();
+        const designJson = serializeDesign(canvas);
+        const assets = await packAssetFiles(findAssetReferences(designJson), zip, 'assets');
+
+        const pages = getArtboards(canvas).map((page, index) => {
+            const preview = `pages/${String(index + 1).padStart(2, '0')}-${slugify(page.name, 'page')}.png`;
+            const multiplier = Math.min(1, 1200 / Math.max(page.width, page.height));
+            zip.file(preview, renderArtboardToDataURL(canvas, page, { multiplier }).split(',')[1], { base64: true });
+            return { id: page.id, name: page.name, width: page.width, height: page.height, preview };
+        });
+        const thumbnail = renderCoverThumbnail(canvas, 0.5);
+        if (thumbnail) zip.file('thumbnail.png', thumbnail.split(',')[1], { base64: true });
+
+        const manifest: PackageManifest = {
+            format: PACKAGE_FORMAT,
+            version: PACKAGE_VERSION,
+            name: propDesignName,
+            exportedAt: Date.now(),
+            pages,
+            assets: assets.map(({ url, path, kind, contentType }) => ({ path, kind, originalUrl: url, contentType })),
+        };
+        zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+        zip.file('design.json', JSON.stringify(designJson));
+
+        downloadBlob(await zip.generateAsync({ type: 'blob' }), `${slugify(propDesignName)}${PACKAGE_EXTENSION}`);
+
+        const missing = findAssetReferences(designJson).filter((reference) => !reference.url.startsWith('assets/')).length;
+        if (missing > 0) {
+            toast({ title: 'Package exported with gaps', description: `${missing} asset(s) could not be fetched and still point at their original location.`, variant: 'warning' });
+        }
+    };
+
     const exportHtmlBundle = async (baseName: string, timestamp: string) => {
         if (!canvas) return;
 
         const zip = new JSZip();
-        const assetsFolder = zip.folder('assets');
         const libsFolder = zip.folder('libs');
         const scriptsFolder = zip.folder('scripts');
 
-        const customProps = ['id', 'gradient', 'pattern', 'is3DModel', 'modelUrl', 'isStar', 'starPoints', 'starInnerRadius', 'mediaType', 'mediaSource', 'layerTagColor'];
-        const designJson = (canvas as unknown as { toJSON: (properties?: string[]) => DesignJson }).toJSON(customProps);
+        // The bundle's viewer runs stock Fabric, without the app's own layouts
+        const designJson = toPortableDesign(serializeDesign(canvas));
 
         const metadata = {
             canvasWidth: canvas.getWidth(),
@@ -496,6 +795,7 @@ export default function EditorView({
                       };
                   }
                 | undefined,
+            artboards: serializeArtboards(canvas),
             mediaAssets: [] as Array<{ type: 'video' | 'audio'; label: string; path: string }>,
         };
 
@@ -529,272 +829,31 @@ export default function EditorView({
 
         designJson.metadata = metadata;
 
-        const assetMap = new Map<string, string>();
-        const usedNames = new Set<string>();
-        const assetPromises: Array<Promise<void>> = [];
-
-        const sanitizeSegment = (segment: string) => segment.replace(/[^a-z0-9._-]/gi, '_');
-
-        const ensureExtension = (name: string, fallback: string) => {
-            if (name.includes('.')) return name;
-            return `${name}.${fallback}`;
-        };
-
-        const getUniqueFileName = (rawName: string) => {
-            const parts = rawName.split('.');
-            const ext = parts.length > 1 ? `.${parts.pop()}` : '';
-            const base = sanitizeSegment(parts.join('.') || 'asset');
-            let extension = sanitizeSegment(ext.replace('.', ''));
-            if (!extension) extension = 'bin';
-            let candidate = `${base}.${extension}`;
-            let counter = 1;
-            while (usedNames.has(candidate)) {
-                candidate = `${base}-${counter}.${extension}`;
-                counter += 1;
-            }
-            usedNames.add(candidate);
-            return candidate;
-        };
-
-        const deriveFileName = (url: string, contentType: string | null) => {
-            const withoutQuery = url.split('?')[0];
-            const urlName = withoutQuery.split('/').pop() || '';
-            let clean = sanitizeSegment(decodeURIComponent(urlName));
-            if (!clean) {
-                if (contentType?.includes('image/')) clean = `image.${contentType.split('/')[1]?.split(';')[0] ?? 'png'}`;
-                else if (contentType?.includes('video/')) clean = `video.${contentType.split('/')[1]?.split(';')[0] ?? 'mp4'}`;
-                else if (contentType?.includes('audio/')) clean = `audio.${contentType.split('/')[1]?.split(';')[0] ?? 'mp3'}`;
-                else if (contentType?.includes('model/')) clean = `model.${contentType.split('/')[1]?.split(';')[0] ?? 'glb'}`;
-                else clean = 'asset.bin';
-            }
-            return ensureExtension(clean, 'bin');
-        };
-
-        const decodeDataUrl = (dataUrl: string) => {
-            const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/);
-            if (!match) return null;
-            const mimeType = match[1] || 'application/octet-stream';
-            const isBase64 = Boolean(match[2]);
-            const dataPart = match[3] || '';
-
-            try {
-                let buffer: ArrayBuffer;
-                if (isBase64) {
-                    const binary = atob(dataPart);
-                    const view = new Uint8Array(binary.length);
-                    for (let i = 0; i < binary.length; i += 1) {
-                        view[i] = binary.charCodeAt(i);
-                    }
-                    buffer = view.buffer;
-                } else {
-                    const decoded = decodeURIComponent(dataPart.replace(/\+/g, '%20'));
-                    buffer = new TextEncoder().encode(decoded).buffer;
-                }
-
-                const extension = mimeType.split('/')[1]?.split(';')[0] ?? 'bin';
-                return { buffer, mimeType, extension };
-            } catch (error) {
-                console.error('Failed to decode data URL asset:', error);
-                return null;
-            }
-        };
-
-        const queueAsset = (url: string | undefined, setter: (relative: string) => void, manifest?: { record?: { type: 'video' | 'audio'; label: string; path: string } }) => {
-            if (!url || !assetsFolder) {
-                if (url) setter(url);
-                if (manifest?.record) manifest.record.path = url || '';
-                return;
-            }
-
-            if (url.startsWith('data:')) {
-                const decoded = decodeDataUrl(url);
-                if (!decoded) {
-                    setter(url);
-                    if (manifest?.record) manifest.record.path = url;
-                    return;
-                }
-
-                const assetKey = url;
-                if (assetMap.has(assetKey)) {
-                    const existingPath = assetMap.get(assetKey)!;
-                    setter(existingPath);
-                    if (manifest?.record) manifest.record.path = existingPath;
-                    return;
-                }
-
-                const inferredName = `inline-asset.${decoded.extension || 'bin'}`;
-                const fileName = getUniqueFileName(inferredName);
-                assetsFolder.file(fileName, decoded.buffer);
-                const relativePath = `assets/${fileName}`;
-                assetMap.set(assetKey, relativePath);
-                setter(relativePath);
-                if (manifest?.record) manifest.record.path = relativePath;
-                return;
-            }
-
-            const resolveAbsoluteUrl = (input: string) => {
-                try {
-                    if (typeof window === 'undefined') return input;
-                    return new URL(input, window.location.href).toString();
-                } catch {
-                    return input;
-                }
+        // Media elements are listed in the metadata so the page can build players for them
+        const references = findAssetReferences(designJson).map((reference) => {
+            if (reference.kind !== 'video' && reference.kind !== 'audio') return reference;
+            const record = {
+                type: reference.kind,
+                label: reference.owner?.name || getDisplayName(reference.url),
+                path: reference.url
             };
-
-            const absoluteUrl = resolveAbsoluteUrl(url);
-            const assetKey = absoluteUrl || url;
-
-            if (assetMap.has(assetKey)) {
-                const existing = assetMap.get(assetKey)!;
-                setter(existing);
-                if (manifest?.record) manifest.record.path = existing;
-                return;
-            }
-
-            const isCrossOrigin = (() => {
-                if (typeof window === 'undefined') return false;
-                try {
-                    return new URL(absoluteUrl).origin !== window.location.origin;
-                } catch {
-                    return false;
-                }
-            })();
-
-            const candidates: string[] = [];
-            if (isCrossOrigin) {
-                candidates.push(`/api/export/proxy?url=${encodeURIComponent(absoluteUrl)}`);
-            }
-            candidates.push(absoluteUrl);
-            if (url.startsWith('blob:')) {
-                candidates.push(url);
-            }
-
-            const promise = (async () => {
-                let lastError: unknown = null;
-                for (const candidate of candidates) {
-                    try {
-                        const response = await fetch(candidate, { credentials: 'include', mode: 'cors' });
-                        if (!response.ok) throw new Error(`Failed to fetch asset: ${candidate}`);
-                        const buffer = await response.arrayBuffer();
-                        const contentType = response.headers.get('content-type');
-                        const fileName = getUniqueFileName(deriveFileName(absoluteUrl, contentType));
-                        assetsFolder.file(fileName, buffer);
-                        const relativePath = `assets/${fileName}`;
-                        assetMap.set(assetKey, relativePath);
-                        setter(relativePath);
-                        if (manifest?.record) manifest.record.path = relativePath;
-                        return;
-                    } catch (error) {
-                        lastError = error;
-                    }
+            metadata.mediaAssets.push(record);
+            return {
+                ...reference,
+                set: (newPath: string) => {
+                    reference.set(newPath);
+                    record.path = newPath;
                 }
+            };
+        });
+        const includes3DModel = references.some((reference) => reference.kind === 'model');
 
-                console.error('Asset bundling failed:', lastError);
-                setter(url);
-                if (manifest?.record) manifest.record.path = url;
-            })();
-
-            assetPromises.push(promise);
-        };
-
-        let includes3DModel = false;
-
-        const processFill = (fill: unknown) => {
-            if (!fill || typeof fill !== 'object') return;
-            const fillData = fill as SerializedFill;
-
-            if (typeof fillData.src === 'string') {
-                queueAsset(fillData.src, (newPath) => {
-                    fillData.src = newPath;
-                });
-            }
-
-            if (typeof fillData.source === 'string') {
-                queueAsset(fillData.source, (newPath) => {
-                    fillData.source = newPath;
-                });
-            }
-
-            if (Array.isArray(fillData.colorStops)) {
-                fillData.colorStops.forEach((stop) => {
-                    if (stop && typeof stop.src === 'string') {
-                        queueAsset(stop.src, (newPath) => {
-                            stop.src = newPath;
-                        });
-                    }
-                });
-            }
-        };
-
-        const processObject = (obj: SerializedObject) => {
-            if (!obj) return;
-
-            if (obj.type === 'image' && typeof obj.src === 'string') {
-                queueAsset(obj.src, (newPath) => {
-                    obj.src = newPath;
-                });
-            }
-
-            if (obj.is3DModel && typeof obj.modelUrl === 'string') {
-                includes3DModel = true;
-                queueAsset(obj.modelUrl, (newPath) => {
-                    obj.modelUrl = newPath;
-                });
-            }
-
-            if (obj.mediaType && typeof obj.mediaSource === 'string') {
-                const record = {
-                    type: obj.mediaType as 'video' | 'audio',
-                    label: obj.name || getDisplayName(obj.mediaSource),
-                    path: ''
-                };
-                metadata.mediaAssets.push(record);
-                queueAsset(obj.mediaSource, (newPath) => {
-                    obj.mediaSource = newPath;
-                }, { record });
-            }
-
-            if (obj.clipPath) {
-                processObject(obj.clipPath);
-            }
-
-            if (Array.isArray(obj.objects)) {
-                obj.objects.forEach((nested) => processObject(nested));
-            }
-
-            if (Array.isArray(obj.paths)) {
-                obj.paths.forEach((pathItem) => processObject(pathItem));
-            }
-
-            processFill(obj.fill);
-            processFill(obj.stroke);
-            processFill(obj.backgroundColor);
-            processFill(obj.overlayFill);
-        };
-
-        if (Array.isArray(designJson.objects)) {
-            designJson.objects.forEach((object) => processObject(object));
-        }
-
-        const backgroundImage = designJson.backgroundImage;
-        if (backgroundImage && typeof backgroundImage.src === 'string') {
-            queueAsset(backgroundImage.src, (newPath) => {
-                backgroundImage.src = newPath;
-            });
-        }
-
-        const overlayImage = designJson.overlayImage;
-        if (overlayImage && typeof overlayImage.src === 'string') {
-            queueAsset(overlayImage.src, (newPath) => {
-                overlayImage.src = newPath;
-            });
-        }
-
-        if (designJson.clipPath) {
-            processObject(designJson.clipPath);
-        }
+        await packAssetFiles(references, zip, 'assets');
 
-        await Promise.all(assetPromises);
+        // Uploaded fonts ship next to the other assets; styles.css sits at the root like them
+        const fontFaceRules = (designJson.fonts ?? [])
+            .map((font) => `@font-face { font-family: ${JSON.stringify(font.family)}; src: url(${JSON.stringify(font.src)}); font-display: block; }`)
+            .join('\n    ');
 
         zip.file('design.json', JSON.stringify(designJson, null, 2));
 
@@ -822,7 +881,8 @@ export default function EditorView({
 
         const designJsonBase64 = encodeDesignPayload();
 
-        const styles = `:root { color-scheme: light dark; font-family: 'Inter', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; --workspace-bg: #0b1120; --canvas-shadow: 0 40px 120px rgba(8, 15, 35, 0.55); --media-border: rgba(148, 163, 184, 0.28); --media-surface: rgba(12, 18, 32, 0.94); --workspace-pattern: radial-gradient(#4d4d4d 1px, transparent 1px); }
+        const styles = `${fontFaceRules}
+    :root { color-scheme: light dark; font-family: 'Inter', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; --workspace-bg: #0b1120; --canvas-shadow: 0 40px 120px rgba(8, 15, 35, 0.55); --media-border: rgba(148, 163, 184, 0.28); --media-surface: rgba(12, 18, 32, 0.94); --workspace-pattern: radial-gradient(#4d4d4d 1px, transparent 1px); }
     * { box-sizing: border-box; }
     body { margin: 0; min-height: 100vh; background: var(--workspace-bg); color: #e2e8f0; display: flex; align-items: center; justify-content: center; font-family: inherit; }
     main { width: 100%; display: flex; justify-content: center; padding: 2.5rem 1.5rem; position: relative; }
@@ -836,6 +896,10 @@ export default function EditorView({
     .media-element[data-media-type="model"] model-viewer { width: 100%; height: 100%; display: block; object-fit: cover; background: #020617; }
     .media-element[data-media-type="audio"] { padding: 16px 20px; min-height: 76px; }
     .media-element[data-media-type="audio"] audio { width: 100%; }
+    #page-nav { position: absolute; top: 0.75rem; left: 50%; transform: translateX(-50%); display: flex; gap: 6px; z-index: 10; }
+    #page-nav[hidden] { display: none; }
+    #page-nav button { font: inherit; font-size: 12px; padding: 4px 12px; border-radius: 999px; border: 1px solid var(--media-border); background: var(--media-surface); color: inherit; cursor: pointer; }
+    #page-nav button.active { background: #e2e8f0; color: #0f172a; }
     @media (max-width: 900px) { main { padding: 1.5rem; } }
     `;
 
@@ -899,6 +963,7 @@ document.addEventListener('DOMContentLoaded', () => {
     const canvasEl = document.getElementById('artboard');
     const overlayEl = document.getElementById('media-overlay');
     const wrapperEl = document.querySelector('.canvas-wrapper');
+    const pageNavEl = document.getElementById('page-nav');
 
     if (!canvasEl || !overlayEl) return;
 
@@ -928,10 +993,22 @@ document.addEventListener('DOMContentLoaded', () => {
         }
     };
 
+    // Multi-page designs list every artboard; older bundles only carry the single artboard
+    const pages = Array.isArray(metadata.artboards) ? metadata.artboards : [];
+    let pageOffset = { x: 0, y: 0 };
+
     const applyArtboard = () => {
+        if (pages.length > 0) {
+            pages.forEach((page) => addArtboardRect({ ...metadata.artboard, ...page, fill: page.background }));
+            canvas.requestRenderAll();
+            return;
+        }
         if (!metadata.artboard) return;
+        addArtboardRect(metadata.artboard);
+        canvas.requestRenderAll();
+    };
 
-        const info = metadata.artboard;
+    const addArtboardRect = (info) => {
         const artboard = new fabric.Rect({
             left: typeof info.left === 'number' ? info.left : 0,
             top: typeof info.top === 'number' ? info.top : 0,
@@ -958,8 +1035,34 @@ document.addEventListener('DOMContentLoaded', () => {
         }
 
         canvas.add(artboard);
-        canvas.sendToBack(artboard);
-        canvas.requestRenderAll();
+        canvas.sendObjectToBack(artboard);
+    };
+
+    const showPage = (index) => {
+        const page = pages[index];
+        if (!page) return;
+        pageOffset = { x: page.left || 0, y: page.top || 0 };
+        canvas.setDimensions({ width: page.width, height: page.height });
+        canvas.setViewportTransform([1, 0, 0, 1, -pageOffset.x, -pageOffset.y]);
+        if (pageNavEl) {
+            Array.from(pageNavEl.children).forEach((button, buttonIndex) => {
+                button.classList.toggle('active', buttonIndex === index);
+            });
+        }
+        syncDimensions();
+        renderMediaOverlays();
+    };
+
+    const buildPageNav = () => {
+        if (!pageNavEl || pages.length < 2) return;
+        pages.forEach((page, index) => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.textContent = page.name || \`Page \${index + 1}\`;
+            button.addEventListener('click', () => showPage(index));
+            pageNavEl.appendChild(button);
+        });
+        pageNavEl.hidden = false;
     };
 
     const renderMediaOverlays = () => {
@@ -994,8 +1097,8 @@ document.addEventListener('DOMContentLoaded', () => {
 
             container.style.width = \`\${scaledWidth}px\`;
             container.style.height = \`\${scaledHeight}px\`;
-            container.style.left = \`\${center.x}px\`;
-            container.style.top = \`\${center.y}px\`;
+            container.style.left = \`\${center.x - pageOffset.x}px\`;
+            container.style.top = \`\${center.y - pageOffset.y}px\`;
             container.style.transform = \`translate(-50%, -50%) rotate(\${angle}deg)\`;
             container.style.transformOrigin = 'center center';
             container.style.zIndex = String(1000 + index);
@@ -1075,11 +1178,20 @@ document.addEventListener('DOMContentLoaded', () => {
 
     canvas.setViewportTransform([1, 0, 0, 1, 0, 0]);
 
-    canvas.loadFromJSON(designData, () => {
+    // Text is measured as it loads, so the design's own fonts have to be ready first
+    const fonts = Array.isArray(designData.fonts) ? designData.fonts : [];
+    const fontsReady = Promise.all(fonts.map((font) => document.fonts.load('16px "' + font.family + '"').catch(() => null)));
+
+    fontsReady.then(() => canvas.loadFromJSON(designData, () => {
         applyArtboard();
+        if (pages.length > 0) {
+            buildPageNav();
+            showPage(0);
+            return;
+        }
         syncDimensions();
         renderMediaOverlays();
-    });
+    }));
 
     window.addEventListener('resize', () => {
         syncDimensions();
@@ -1103,6 +1215,7 @@ document.addEventListener('DOMContentLoaded', () => {
 </head>
 <body>
     <main>
+        <nav id="page-nav" hidden></nav>
         <div class="canvas-wrapper">
             <canvas id="artboard"></canvas>
             <div id="media-overlay"></div>
@@ -1134,8 +1247,11 @@ document.addEventListener('DOMContentLoaded', () => {
            const res = await fetch(templateJsonUrl);
            if(!res.ok) throw new Error("Failed to fetch template JSON");
            
-           const json = await res.json();
-           const objects = Array.isArray(json.objects) ? (json.objects as SerializedObject[]) : [];
+           const prepared = prepareDesign(await res.json());
+           reportDesignProblems(prepared);
+           const json = prepared.design;
+           await loadDesignFonts(json);
+           const objects = Array.isArray(json.objects) ? json.objects : [];
            const missing: MissingItem[] = [];
    
            const checkUrl = (url: string): Promise<boolean> => {
@@ -1149,7 +1265,7 @@ document.addEventListener('DOMContentLoaded', () => {
            
            const candidates: { index: number, src: string, type: 'image' | 'model' }[] = [];
            objects.forEach((obj, index) => {
-               if (obj.type === 'image' && obj.src) candidates.push({ index, src: obj.src, type: 'image' });
+               if (obj.type?.toLowerCase() === 'image' && obj.src) candidates.push({ index, src: obj.src, type: 'image' });
                if (obj.is3DModel && obj.modelUrl) candidates.push({ index, src: obj.modelUrl, type: 'model' });
            });
    
@@ -1180,13 +1296,20 @@ document.addEventListener('DOMContentLoaded', () => {
                canvas.loadFromJSON(json, () => {
                    canvas.requestRenderAll();
                    setIsDirty(false);
+               }).then(() => {
+                   restoreArtboards(canvas, json.artboards);
+                   restoreTextStyles(canvas, json.textStyles);
+                   historyRef.current?.reset('Loaded template');
+               }).catch((e) => {
+                   console.error("Failed to draw template", e);
+                   toast({ title: 'Load failed', description: 'The template could not be drawn.', variant: 'destructive' });
                });
            }
         } catch (e) {
             console.error("Failed to load template", e);
             toast({ title: 'Load failed', description: 'Error loading template file.', variant: 'destructive' });
         }
-    }, [canvas, toast]);
+    }, [canvas, toast, reportDesignProblems]);
 
     // --- Loading Logic ---
     useEffect(() => {
@@ -1212,7 +1335,7 @@ document.addEventListener('DOMContentLoaded', () => {
                 const idx = parseInt(indexStr);
                 if (json.objects && json.objects[idx]) {
                      const obj = json.objects[idx];
-                     if (obj.type === 'image') obj.src = newUrl;
+                     if (String(obj.type).toLowerCase() === 'image') obj.src = newUrl;
                      if (obj.is3DModel) obj.modelUrl = newUrl;
                 }
             });
@@ -1228,6 +1351,10 @@ document.addEventListener('DOMContentLoaded', () => {
             setPendingTemplateJson(null);
             setMissingItems([]);
             setShowMissingAssetsModal(false);
+        }).then(() => {
+            restoreArtboards(canvas, (json as DesignJson).artboards);
+            restoreTextStyles(canvas, (json as DesignJson).textStyles);
+            historyRef.current?.reset('Loaded template');
         });
     };
 
@@ -1387,6 +1514,50 @@ document.addEventListener('DOMContentLoaded', () => {
         };
     }, [canvas, activeTool]);
 
+    const updateSnapSettings = (patch: Partial<SnapSettings>) => {
+        setSnapSettings(prev => {
+            const next = { ...prev, ...patch };
+            saveSnapSettings(next);
+            return next;
+        });
+    };
+
+    // --- Undo/Redo ---
+    useEffect(() => {
+        if (!canvas) return;
+        const instance = new CanvasHistory(canvas, loadHistoryDepth());
+        historyRef.current = instance;
+        setHistory(instance);
+        return () => {
+            instance.dispose();
+            historyRef.current = null;
+        };
+    }, [canvas]);
+
+    useEffect(() => {
+        if (!history) return;
+
+        const handleKeydown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+            const target = event.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                history.undo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                history.redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeydown);
+        return () => {
+            window.removeEventListener('keydown', handleKeydown);
+        };
+    }, [history]);
+
     useEffect(() => {
         if (!mediaPreview) return;
 
@@ -1404,19 +1575,21 @@ document.addEventListener('DOMContentLoaded', () => {
     // --- Background Jobs (AI) ---
     // Check API keys on mount and when settings close
     useEffect(() => {
-        setApiKeys({
-            meshy: localStorage.getItem('meshy_api_key') || undefined,
-            tripo: localStorage.getItem('tripo_api_key') || undefined,
-            stability: localStorage.getItem('stability_api_key') || undefined,
-            openai: localStorage.getItem('openai_api_key') || undefined,
-            google: localStorage.getItem('google_api_key') || undefined,
-            banana: localStorage.getItem('banana_api_key') || undefined,
-        });
+        if (settingsOpen) return;
+        let cancelled = false;
+        fetchApiKeyStatuses()
+            .then((statuses) => {
+                if (!cancelled) setConfiguredKeys(getConfiguredProviders(statuses));
+            })
+            .catch((error) => console.error('Failed to load API key status', error));
+        return () => {
+            cancelled = true;
+        };
     }, [settingsOpen]);
     
     const is3DMode = activeTool === '3d-gen';
-    const has2DKey = !!(apiKeys.stability || apiKeys.openai || apiKeys.google || apiKeys.banana);
-    const has3DKey = !!(apiKeys.meshy || apiKeys.tripo);
+    const has2DKey = ['stability', 'openai', 'google', 'banana'].some((provider) => configuredKeys.has(provider as ApiKeyProvider));
+    const has3DKey = configuredKeys.has('meshy') || configuredKeys.has('tripo');
     const isConnected = is3DMode ? has3DKey : has2DKey;
 
     useEffect(() => {
@@ -1424,7 +1597,7 @@ document.addEventListener('DOMContentLoaded', () => {
         if (activeJobs.length === 0) return;
     
         const checkJobStatus = async (job: BackgroundJob) => {
-            if (!job.id || !job.apiKey) return;
+            if (!job.id) return;
             try {
                 type TripoOutput = {
                     model?: string;
@@ -1453,7 +1626,7 @@ document.addEventListener('DOMContentLoaded', () => {
                 let thumbnailUrl = job.thumbnailUrl;
     
                 if (job.provider === 'stability') {
-                    const res = await fetch(`/api/ai/stability/upscale/poll?id=${job.id}`, { headers: { 'Authorization': `Bearer ${job.apiKey}` } });
+                    const res = await fetch(`/api/ai/stability/upscale/poll?id=${job.id}`);
                     if (!res.ok) return;
                     const data = await res.json();
                     if (data.status === 'SUCCEEDED') {
@@ -1465,7 +1638,7 @@ document.addEventListener('DOMContentLoaded', () => {
                          status = 'FAILED';
                     }
                 } else if (job.provider === 'tripo') {
-                     const res = await fetch(`/api/ai/tripo/${job.id}`, { headers: { 'Authorization': `Bearer ${job.apiKey}` } });
+                     const res = await fetch(`/api/ai/tripo/${job.id}`);
                      if (!res.ok) return;
                      const json = (await res.json()) as ApiResponse;
                      if (json.data) {
@@ -1479,7 +1652,7 @@ document.addEventListener('DOMContentLoaded', () => {
                      } else if (json.code !== undefined && json.code !== 0) { status = 'FAILED'; }
                 } else {
                     const endpoint = job.type === 'image-to-3d' ? 'image-to-3d' : 'text-to-3d';
-                    const res = await fetch(`/api/ai/meshy?endpoint=${endpoint}/${job.id}`, { headers: { 'Authorization': `Bearer ${job.apiKey}` } });
+                    const res = await fetch(`/api/ai/meshy?endpoint=${endpoint}/${job.id}`);
                     if (!res.ok) return;
                     data = (await res.json()) as ApiResponse;
                     if (data.status === 'SUCCEEDED') status = 'SUCCEEDED';
@@ -1570,10 +1743,18 @@ document.addEventListener('DOMContentLoaded', () => {
                      <button 
                         onClick={() => handleSave()}
                         className={`p-2 hover:bg-secondary rounded-full transition-colors ${isDirty ? 'text-primary animate-pulse' : 'text-muted-foreground'}`}
-                        title="Save Design"
+                        title={lastAutosave ? `Save Design (unsaved changes autosaved at ${new Date(lastAutosave).toLocaleTimeString()})` : 'Save Design'}
                      >
                         <Save size={20} />
                      </button>
+                     <button 
+                        onClick={() => propDesignId && setHistoryDesign({ id: propDesignId, name: propDesignName, space: currentDesignSpace })}
+                        disabled={!propDesignId}
+                        className="p-2 hover:bg-secondary rounded-full transition-colors text-muted-foreground hover:text-foreground disabled:opacity-40 disabled:hover:bg-transparent"
+                        title={propDesignId ? 'Version History' : 'Save the design to start its version history'}
+                     >
+                        <History size={20} />
+                     </button>
         
                             <button 
                                 onClick={onOpenSettings}
@@ -1649,6 +1830,29 @@ document.addEventListener('DOMContentLoaded', () => {
                                  <button onClick={() => { setGridType('grid-4x4'); setShowGridMenu(false); }} className={`w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3 ${gridType === 'grid-4x4' ? 'bg-secondary/30' : ''}`}>
                                     <LayoutGrid size={16} className="text-green-500"/> <span className="font-medium">4x4 Grid</span>
                                 </button>
+                                <div className="border-t border-border/50 mt-1 px-4 py-2.5 space-y-2">
+                                    <label className="flex items-center justify-between text-sm font-medium cursor-pointer">
+                                        <span className="flex items-center gap-3"><Magnet size={16} className="text-fuchsia-500"/> Smart Guides</span>
+                                        <input
+                                            type="checkbox"
+                                            checked={snapSettings.enabled}
+                                            onChange={(e) => updateSnapSettings({ enabled: e.target.checked })}
+                                            className="accent-fuchsia-500"
+                                        />
+                                    </label>
+                                    <div className={`space-y-1 ${snapSettings.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+                                        <div className="flex justify-between text-[10px] text-muted-foreground">
+                                            <span>Snap threshold</span>
+                                            <span>{snapSettings.threshold}px</span>
+                                        </div>
+                                        <input
+                                            type="range" min="1" max="20"
+                                            value={snapSettings.threshold}
+                                            onChange={(e) => updateSnapSettings({ threshold: parseInt(e.target.value, 10) })}
+                                            className="w-full h-1 bg-secondary rounded-lg appearance-none cursor-pointer"
+                                        />
+                                    </div>
+                                </div>
                             </div>
                         )}
                      </div>
@@ -1669,11 +1873,14 @@ document.addEventListener('DOMContentLoaded', () => {
                         {showExportMenu && (
                               <div className="absolute right-0 top-full mt-2 w-48 bg-card border border-border/50 rounded-xl shadow-xl overflow-hidden py-1 animate-in fade-in slide-in-from-top-2 z-50">
                                   <button onClick={() => handleExport('png')} className="w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3"><ImageIcon size={16} className="text-blue-500"/> <span className="font-medium">PNG</span></button>
+                                  <button onClick={() => handleExport('png-zip')} className="w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3"><Archive size={16} className="text-blue-500"/> <span className="font-medium">PNG – all pages (ZIP)</span></button>
                                   <button onClick={() => handleExport('jpg')} className="w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3"><ImageIcon size={16} className="text-orange-500"/> <span className="font-medium">JPG</span></button>
                                   <button onClick={() => handleExport('svg')} className="w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3"><FileCode size={16} className="text-purple-500"/> <span className="font-medium">SVG</span></button>
                                   <button onClick={() => handleExport('pdf')} className="w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3"><FileText size={16} className="text-red-500"/> <span className="font-medium">PDF</span></button>
                                   <button onClick={() => handleExport('json')} className="w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3"><FileCode size={16} className="text-green-500"/> <span className="font-medium">JSON</span></button>
                                   <button onClick={() => handleExport('html')} className="w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3"><Archive size={16} className="text-sky-400"/> <span className="font-medium">HTML Bundle</span></button>
+                                  <button onClick={() => handleExport('package')} className="w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3"><Package size={16} className="text-amber-500"/> <span className="font-medium">Design Package</span></button>
+                                  <button onClick={() => { setShowExportMenu(false); setShowDataMerge(true); }} className="w-full text-left px-4 py-2.5 text-sm hover:bg-secondary/50 flex items-center gap-3 border-t border-border/50"><FileSpreadsheet size={16} className="text-emerald-500"/> <span className="font-medium">Data Merge…</span></button>
                             </div>
                         )}
                      </div>
@@ -1683,6 +1890,8 @@ document.addEventListener('DOMContentLoaded', () => {
 
             {/* Overlays */}
             <GridOverlay canvas={canvas} gridType={gridType} />
+            <TextOverflowBadges canvas={canvas} />
+            <SmartGuides canvas={canvas} gridType={gridType} enabled={snapSettings.enabled} threshold={snapSettings.threshold} />
             <UserProfileModal 
                 isOpen={showProfileModal} 
                 onClose={() => setShowProfileModal(false)}
@@ -1693,6 +1902,24 @@ document.addEventListener('DOMContentLoaded', () => {
                 }} 
             />
             
+            {showMagicResize && canvas && (
+                <MagicResizeModal
+                    canvas={canvas}
+                    design={{ id: propDesignId, name: propDesignName, space: currentDesignSpace }}
+                    onClose={() => setShowMagicResize(false)}
+                    onOpenCopy={handleOpenResizedCopy}
+                />
+            )}
+
+            {showDataMerge && canvas && (
+                <DataMergePanel
+                    canvas={canvas}
+                    designName={propDesignName}
+                    onClose={() => setShowDataMerge(false)}
+                    onDownload={downloadBlob}
+                />
+            )}
+
             {showAssetBrowserForMissing && (
                 <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm">
                      <div className="bg-card w-[800px] h-[600px] rounded-xl shadow-2xl relative flex flex-col overflow-hidden border border-border">
@@ -1715,6 +1942,15 @@ document.addEventListener('DOMContentLoaded', () => {
                   onClose={() => { setShowMissingAssetsModal(false); setPendingTemplateJson(null); }}
             />
 
+            <VersionHistoryModal
+                  isOpen={historyDesign !== null}
+                  onClose={() => setHistoryDesign(null)}
+                  design={historyDesign}
+                  hasUnsavedChanges={isDirty}
+                  onRestored={handleVersionRestored}
+                  onForked={handleVersionForked}
+            />
+
             {mediaPreview && (
                 <div
                     className="fixed inset-0 z-[85] flex items-center justify-center bg-black/70 backdrop-blur-sm p-6"
@@ -1771,7 +2007,6 @@ document.addEventListener('DOMContentLoaded', () => {
                         activeTool={activeTool} 
                         setActiveTool={setActiveTool} 
                         onOpen3DEditor={(url) => setEditingModelUrl(url)} 
-                        apiKeys={apiKeys} 
                      />
                 </aside>
 
@@ -1792,6 +2027,11 @@ document.addEventListener('DOMContentLoaded', () => {
                                 onLayerDblClick={() => setActiveTool('select')}
                                 onMake3D={(imageUrl) => { setInitialImageFor3D(imageUrl); if (canvas) { setSourceObjectFor3D(canvas.getActiveObject() || null); } setActiveTool('3d-gen'); }}
                                 onPreviewMedia={({ type, url }) => setMediaPreview({ type, url })}
+                                history={history}
+                                onMagicResize={() => setShowMagicResize(true)}
+                                onCreateComponent={handleCreateComponent}
+                                onPublishComponent={handlePublishComponent}
+                                onGoToMaster={handleGoToMaster}
                             />
                         </div>
                     </aside>
@@ -1891,6 +2131,10 @@ document.addEventListener('DOMContentLoaded', () => {
                         />
                    </div>
                    
+                   <div className="absolute bottom-20 left-1/2 -translate-x-1/2 z-20">
+                       <PagesStrip canvas={canvas} history={history} />
+                   </div>
+
                    <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-popover/90 backdrop-blur-md px-2 py-1.5 rounded-full shadow-2xl border border-border/50 z-20 transform hover:-translate-y-1 transition-transform duration-300">
                        <button onClick={() => handleZoom(0.1)} className="p-2 hover:bg-secondary rounded-full text-muted-foreground hover:text-foreground transition-colors" title="Zoom In">+</button>
                        <span className="text-xs font-mono text-muted-foreground w-12 text-center">{Math.round(zoom * 100)}%</span>
@@ -1915,6 +2159,11 @@ document.addEventListener('DOMContentLoaded', () => {
                                 onLayerDblClick={() => setActiveTool('select')}
                                 onMake3D={(imageUrl) => { setInitialImageFor3D(imageUrl); if (canvas) { setSourceObjectFor3D(canvas.getActiveObject() || null); } setActiveTool('3d-gen'); }}
                                 onPreviewMedia={({ type, url }) => setMediaPreview({ type, url })}
+                                history={history}
+                                onMagicResize={() => setShowMagicResize(true)}
+                                onCreateComponent={handleCreateComponent}
+                                onPublishComponent={handlePublishComponent}
+                                onGoToMaster={handleGoToMaster}
                             />
                         </div>
                     </aside>
@@ -1950,6 +2199,11 @@ document.addEventListener('DOMContentLoaded', () => {
                                 onLayerDblClick={() => setActiveTool('select')}
                                 onMake3D={(imageUrl) => { setInitialImageFor3D(imageUrl); if (canvas) { setSourceObjectFor3D(canvas.getActiveObject() || null); } setActiveTool('3d-gen'); }}
                                 onPreviewMedia={({ type, url }) => setMediaPreview({ type, url })}
+                                history={history}
+                                onMagicResize={() => setShowMagicResize(true)}
+                                onCreateComponent={handleCreateComponent}
+                                onPublishComponent={handlePublishComponent}
+                                onGoToMaster={handleGoToMaster}
                             />
                         </div>
                     </div>
@@ -3,7 +3,7 @@ import * as fabric from 'fabric';
 
 export type GridType = 'none' | 'rule-of-thirds' | 'golden-ratio' | 'cross' | 'grid-4x4';
 
-type ArtboardInfo = {
+export type ArtboardInfo = {
   width: number;
   height: number;
   left: number;
@@ -12,6 +12,40 @@ type ArtboardInfo = {
 
 type CanvasWithArtboard = fabric.Canvas & { artboard?: ArtboardInfo };
 
+/**
+ * Scene-space positions of the composition lines for a grid type.
+ * Shared with SmartGuides so objects can snap to whatever grid is visible.
+ */
+export const getGridLines = (gridType: GridType, artboard: ArtboardInfo): { vertical: number[]; horizontal: number[] } => {
+  const { width, height } = artboard;
+  const left = artboard.left || 0;
+  const top = artboard.top || 0;
+
+  if (gridType === 'rule-of-thirds') {
+    return {
+      vertical: [left + width / 3, left + (width / 3) * 2],
+      horizontal: [top + height / 3, top + (height / 3) * 2],
+    };
+  }
+  if (gridType === 'golden-ratio') {
+    const phi = 0.618;
+    return {
+      vertical: [left + width * (1 - phi), left + width * phi],
+      horizontal: [top + height * (1 - phi), top + height * phi],
+    };
+  }
+  if (gridType === 'cross') {
+    return { vertical: [left + width / 2], horizontal: [top + height / 2] };
+  }
+  if (gridType === 'grid-4x4') {
+    return {
+      vertical: [1, 2, 3].map((i) => left + (width / 4) * i),
+      horizontal: [1, 2, 3].map((i) => top + (height / 4) * i),
+    };
+  }
+  return { vertical: [], horizontal: [] };
+};
+
 interface GridOverlayProps {
   canvas: fabric.Canvas | null;
   gridType: GridType;
@@ -57,63 +91,15 @@ export const GridOverlay = ({ canvas, gridType, color = 'rgba(0, 163, 255, 0.4)'
        // Maybe light dash?
        // ctx.setLineDash([5 / vpt[0], 5 / vpt[0]]); 
 
-       if (gridType === 'rule-of-thirds') {
-            const w3 = width / 3;
-            const h3 = height / 3;
-
-            // Verticals
-            ctx.moveTo(left + w3, top);
-            ctx.lineTo(left + w3, top + height);
-            ctx.moveTo(left + w3 * 2, top);
-            ctx.lineTo(left + w3 * 2, top + height);
-
-            // Horizontals
-            ctx.moveTo(left, top + h3);
-            ctx.lineTo(left + width, top + h3);
-            ctx.moveTo(left, top + h3 * 2);
-            ctx.lineTo(left + width, top + h3 * 2);
-
-       } else if (gridType === 'golden-ratio') {
-            const phi = 0.618;
-            const wPhi = width * phi;
-            const hPhi = height * phi;
-            const wInv = width * (1 - phi); // 0.382
-            const hInv = height * (1 - phi);
-
-            // Verticals
-            ctx.moveTo(left + wInv, top);
-            ctx.lineTo(left + wInv, top + height);
-            ctx.moveTo(left + wPhi, top);
-            ctx.lineTo(left + wPhi, top + height);
-
-            // Horizontals
-            ctx.moveTo(left, top + hInv);
-            ctx.lineTo(left + width, top + hInv);
-            ctx.moveTo(left, top + hPhi);
-            ctx.lineTo(left + width, top + hPhi);
-            
-       } else if (gridType === 'cross') {
-            const cx = left + width / 2;
-            const cy = top + height / 2;
-
-            ctx.moveTo(cx, top);
-            ctx.lineTo(cx, top + height);
-            
-            ctx.moveTo(left, cy);
-            ctx.lineTo(left + width, cy);
-
-       } else if (gridType === 'grid-4x4') {
-           const w4 = width / 4;
-           const h4 = height / 4;
-
-           for (let i = 1; i < 4; i++) {
-               ctx.moveTo(left + w4 * i, top);
-               ctx.lineTo(left + w4 * i, top + height);
-               
-               ctx.moveTo(left, top + h4 * i);
-               ctx.lineTo(left + width, top + h4 * i);
-           }
-       }
+       const lines = getGridLines(gridType, { width, height, left, top });
+       lines.vertical.forEach((x) => {
+            ctx.moveTo(x, top);
+            ctx.lineTo(x, top + height);
+       });
+       lines.horizontal.forEach((y) => {
+            ctx.moveTo(left, y);
+            ctx.lineTo(left + width, y);
+       });
 
        ctx.stroke();
        ctx.restore();
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { X, Wand2, Loader2, RotateCw, GripHorizontal } from 'lucide-react';
 import * as fabric from 'fabric';
 import StabilityGenerator from './AI/StabilityGenerator';
+import { fetchApiKeyStatuses, getConfiguredProviders } from '@/lib/api-keys';
 
 /**
  * ImageGeneratorModal
@@ -26,8 +27,6 @@ interface ImageGeneratorModalProps {
   initialWidth?: number;
   /** Default height for the generation zone */
   initialHeight?: number;
-  /** Optional API Key override */
-  apiKey?: string; 
 }
 
 type CanvasWithArtboard = fabric.Canvas & {
@@ -41,7 +40,6 @@ export default function ImageGeneratorModal({
   onGenerate,
   initialWidth = 512,
   initialHeight = 512,
-  apiKey,
 }: ImageGeneratorModalProps) {
   // --- Generation State ---
   const [prompt, setPrompt] = useState('');
@@ -64,53 +62,56 @@ export default function ImageGeneratorModal({
   const [config, setConfig] = useState({
     provider: 'local',
     serverUrl: 'http://127.0.0.1:8188',
-    apiKey: '',
   });
 
   // --- Provider Selection ---
-  const [availableProviders, setAvailableProviders] = useState<string[]>([]);
+  const [availableProviders, setAvailableProviders] = useState<string[]>(['comfy']);
   const [selectedProvider, setSelectedProvider] = useState<string>('comfy'); // Default
 
-  // Init: Synch with LocalStorage settings
+  // Init: Sync with local settings and the providers that have a key in the vault
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-        const comfyUrl = localStorage.getItem('image-express-comfy-url');
-        const savedApiKey = localStorage.getItem('image-express-gen-key');
-
-        // Check for Available API Keys in storage
-        const stability = localStorage.getItem('stability_api_key');
-        const openai = localStorage.getItem('openai_api_key');
-        const google = localStorage.getItem('google_api_key');
-        const banana = localStorage.getItem('banana_api_key');
-        
-        const providers = ['comfy']; // Local ComfyUI is always an option
-        if (stability) providers.push('stability');
-        if (openai) providers.push('openai');
-        if (google) providers.push('google');
-        if (banana) providers.push('banana');
-        
-        setAvailableProviders(providers);
+    if (typeof window === 'undefined') return;
+    let cancelled = false;
 
-        // Load previously selected provider
-        const savedProvider = localStorage.getItem('image-express-gen-provider');
-        if (savedProvider && providers.includes(savedProvider)) {
-            setSelectedProvider(savedProvider);
-        } else {
-             // Fallback logic
-             const legacyProvider = localStorage.getItem('image-express-provider');
-             if (legacyProvider === 'api' && providers.length > 1) {
-                  setSelectedProvider(providers[1]); 
-             } else {
-                 setSelectedProvider('comfy');
-             }
-        }
-        
-        setConfig({
-            provider: 'comfy', // Base default
-            serverUrl: comfyUrl || 'http://127.0.0.1:8188',
-            apiKey: savedApiKey || '',
+    const comfyUrl = localStorage.getItem('image-express-comfy-url');
+    setConfig({
+        provider: 'comfy', // Base default
+        serverUrl: comfyUrl || 'http://127.0.0.1:8188',
+    });
+
+    fetchApiKeyStatuses()
+        .catch((error) => {
+            console.error('Failed to load API key status', error);
+            return [];
+        })
+        .then((statuses) => {
+            if (cancelled) return;
+            const configured = getConfiguredProviders(statuses);
+            const providers = ['comfy']; // Local ComfyUI is always an option
+            (['stability', 'openai', 'google', 'banana'] as const).forEach((provider) => {
+                if (configured.has(provider)) providers.push(provider);
+            });
+
+            setAvailableProviders(providers);
+
+            // Load previously selected provider
+            const savedProvider = localStorage.getItem('image-express-gen-provider');
+            if (savedProvider && providers.includes(savedProvider)) {
+                setSelectedProvider(savedProvider);
+            } else {
+                 // Fallback logic
+                 const legacyProvider = localStorage.getItem('image-express-provider');
+                 if (legacyProvider === 'api' && providers.length > 1) {
+                      setSelectedProvider(providers[1]);
+                 } else {
+                     setSelectedProvider('comfy');
+                 }
+            }
         });
-    }
+
+    return () => {
+        cancelled = true;
+    };
   }, []);
 
   /**
@@ -122,14 +123,6 @@ export default function ImageGeneratorModal({
       localStorage.setItem('image-express-gen-provider', newVal);
   };
     
-  /**
-   * Retreives the API key for a specific provider from storage.
-   */
-  const getProviderKey = (provider: string) => {
-      if (provider === 'comfy') return '';
-      return localStorage.getItem(`${provider}_api_key`) || '';
-  }
-
   // --- Modal View Mode (Local Zone vs Stability Specific UI) ---
   const [mode, setMode] = useState<'zone' | 'stability'>('zone');
 
@@ -405,8 +398,7 @@ export default function ImageGeneratorModal({
     const currentH = zoneObjectRef.current ? Math.round(zoneObjectRef.current.height! * zoneObjectRef.current.scaleY!) : zoneHeight;
 
     try {
-      const currentKey = getProviderKey(selectedProvider);
-      
+      // Remote providers use the key stored in the server vault
       const response = await fetch('/api/ai/generate-image', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -416,8 +408,7 @@ export default function ImageGeneratorModal({
           height: currentH,
           serverUrl: config.serverUrl,
           provider: selectedProvider === 'comfy' ? 'comfy' : 'remote',
-          specificProvider: selectedProvider, 
-          apiKey: currentKey
+          specificProvider: selectedProvider
         }),
       });
 
@@ -501,7 +492,7 @@ export default function ImageGeneratorModal({
                  isOpen={true}
                  onClose={onClose}
                  canvas={canvas || null}
-                 apiKey={apiKey || getProviderKey('stability')}
+                 hasApiKey={availableProviders.includes('stability')}
                  embedded={true} 
                  onAssetSave={saveToAssets}
              />
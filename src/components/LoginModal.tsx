@@ -1,33 +1,57 @@
 'use client';
 
 import { useState } from 'react';
-import { User, Lock, ArrowRight, Loader2 } from 'lucide-react';
+import { User, Lock, ArrowRight, Loader2, Ticket } from 'lucide-react';
+import { AuthUser } from '@/types';
 
 interface LoginModalProps {
     isOpen: boolean;
-    onLogin: (username: string) => void;
+    onLogin: (user: AuthUser) => void;
+    /** No accounts exist yet: the form creates the first (admin) account. */
+    needsSetup?: boolean;
 }
 
-export default function LoginModal({ isOpen, onLogin }: LoginModalProps) {
+type Mode = 'signin' | 'signup';
+
+const readInviteFromUrl = () => {
+    if (typeof window === 'undefined') return '';
+    return new URLSearchParams(window.location.search).get('invite') || '';
+};
+
+export default function LoginModal({ isOpen, onLogin, needsSetup = false }: LoginModalProps) {
+    const [inviteCode, setInviteCode] = useState(readInviteFromUrl);
+    const [mode, setMode] = useState<Mode>(() => (needsSetup || readInviteFromUrl() ? 'signup' : 'signin'));
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
 
+    const isSignup = mode === 'signup' || needsSetup;
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
         setIsLoading(true);
 
-        // Mock delay
-        await new Promise(resolve => setTimeout(resolve, 800));
-
-        if (username === 'vovka' && password === 'vovka') {
-            onLogin(username);
-        } else {
-            setError('Invalid credentials.');
-            setIsLoading(false);
+        try {
+            const res = await fetch(isSignup ? '/api/auth/signup' : '/api/auth/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, password, inviteCode: isSignup ? inviteCode : undefined })
+            });
+            const data = await res.json();
+            if (res.ok && data.success && data.user) {
+                setPassword('');
+                setIsLoading(false);
+                onLogin(data.user as AuthUser);
+                return;
+            }
+            setError(data.message || 'Invalid credentials.');
+        } catch (err) {
+            console.error('Authentication request failed', err);
+            setError('Could not reach the server.');
         }
+        setIsLoading(false);
     };
 
     if (!isOpen) return null;
@@ -37,7 +61,9 @@ export default function LoginModal({ isOpen, onLogin }: LoginModalProps) {
             <div className="bg-card w-full max-w-sm p-8 rounded-2xl shadow-2xl border border-border/50 animate-in zoom-in-95 duration-300">
                 <div className="text-center mb-8">
                     <h1 className="text-2xl font-bold bg-gradient-to-r from-indigo-500 to-purple-500 bg-clip-text text-transparent">Creative Flow</h1>
-                    <p className="text-sm text-muted-foreground mt-2">Sign in to your workspace</p>
+                    <p className="text-sm text-muted-foreground mt-2">
+                        {needsSetup ? 'Create the administrator account' : isSignup ? 'Create your account' : 'Sign in to your workspace'}
+                    </p>
                 </div>
 
                 <form onSubmit={handleSubmit} className="space-y-4">
@@ -65,12 +91,30 @@ export default function LoginModal({ isOpen, onLogin }: LoginModalProps) {
                                 value={password}
                                 onChange={(e) => setPassword(e.target.value)}
                                 className="w-full pl-9 pr-4 py-2.5 bg-secondary/50 border border-border/50 rounded-lg text-sm focus:ring-2 focus:ring-primary/20 outline-none transition-all"
-                                placeholder="Enter password"
+                                placeholder={isSignup ? 'At least 8 characters' : 'Enter password'}
+                                minLength={isSignup ? 8 : undefined}
+                                autoComplete={isSignup ? 'new-password' : 'current-password'}
                                 required
                             />
                         </div>
                     </div>
 
+                    {isSignup && !needsSetup && (
+                        <div className="space-y-2">
+                            <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Invite Code</label>
+                            <div className="relative">
+                                <Ticket className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                                <input 
+                                    type="text"
+                                    value={inviteCode}
+                                    onChange={(e) => setInviteCode(e.target.value)}
+                                    className="w-full pl-9 pr-4 py-2.5 bg-secondary/50 border border-border/50 rounded-lg text-sm focus:ring-2 focus:ring-primary/20 outline-none transition-all"
+                                    placeholder="From your administrator"
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     {error && (
                         <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-xs text-center font-medium">
                             {error}
@@ -82,11 +126,22 @@ export default function LoginModal({ isOpen, onLogin }: LoginModalProps) {
                         disabled={isLoading}
                         className="w-full bg-foreground text-background py-2.5 rounded-lg text-sm font-semibold hover:bg-foreground/90 transition-all flex items-center justify-center gap-2 group mt-6"
                     >
-                        {isLoading ? <Loader2 className="animate-spin w-4 h-4" /> : 'Sign In'}
+                        {isLoading ? <Loader2 className="animate-spin w-4 h-4" /> : isSignup ? 'Create Account' : 'Sign In'}
                         {!isLoading && <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />}
                     </button>
-                    
 
+                    {!needsSetup && (
+                        <p className="text-center text-xs text-muted-foreground">
+                            {isSignup ? 'Already have an account?' : 'Have an invite?'}{' '}
+                            <button
+                                type="button"
+                                onClick={() => { setMode(isSignup ? 'signin' : 'signup'); setError(''); }}
+                                className="font-medium text-foreground hover:underline"
+                            >
+                                {isSignup ? 'Sign in' : 'Create an account'}
+                            </button>
+                        </p>
+                    )}
                 </form>
             </div>
         </div>
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import * as fabric from 'fabric';
+import { X, Scaling, Loader2, Plus, Check, ExternalLink } from 'lucide-react';
+import { DesignSummary, WorkspaceSpace } from '@/types';
+import { getArtboards } from '@/lib/artboards';
+import { serializeDesign } from '@/lib/design-schema';
+import { RESIZE_PRESETS, ResizePreset, resizeDesign } from '@/lib/magic-resize';
+import { useToast } from '@/providers/ToastProvider';
+
+/** A copy as the save route returns it. */
+export type ResizedCopy = DesignSummary & { version: number };
+
+interface MagicResizeModalProps {
+    canvas: fabric.Canvas;
+    /** The saved design the copies link back to; null while the design has never been saved */
+    design: { id: string | null; name: string; space: WorkspaceSpace };
+    onClose: () => void;
+    onOpenCopy: (copy: ResizedCopy) => void;
+}
+
+const MAX_CUSTOM_SIZE = 10000;
+
+/**
+ * MagicResizeModal
+ *
+ * Saves the current design as linked copies at one or more preset sizes. Objects are
+ * placed by their layout constraints (see src/lib/layout-constraints.ts); the copies open
+ * as ordinary designs for fine-tuning.
+ */
+export default function MagicResizeModal({ canvas, design, onClose, onOpenCopy }: MagicResizeModalProps) {
+    const { toast } = useToast();
+    const [presets, setPresets] = useState<ResizePreset[]>(RESIZE_PRESETS);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [customWidth, setCustomWidth] = useState('');
+    const [customHeight, setCustomHeight] = useState('');
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [copies, setCopies] = useState<ResizedCopy[]>([]);
+
+    const currentPage = getArtboards(canvas)[0];
+    const isBusy = progress !== null;
+
+    const toggle = (id: string) =>
+        setSelected((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]));
+
+    const addCustomSize = () => {
+        const width = Math.round(Number(customWidth));
+        const height = Math.round(Number(customHeight));
+        if (!(width > 0 && height > 0 && width <= MAX_CUSTOM_SIZE && height <= MAX_CUSTOM_SIZE)) {
+            toast({ title: 'Invalid size', description: `Width and height must be between 1 and ${MAX_CUSTOM_SIZE} px.`, variant: 'destructive' });
+            return;
+        }
+        const id = `custom-${width}x${height}`;
+        if (!presets.some((preset) => preset.id === id)) {
+            setPresets((prev) => [...prev, { id, name: `${width} × ${height}`, width, height, category: 'Custom' }]);
+        }
+        setSelected((prev) => (prev.includes(id) ? prev : [...prev, id]));
+        setCustomWidth('');
+        setCustomHeight('');
+    };
+
+    const handleCreate = async () => {
+        if (!design.id || selected.length === 0) return;
+        const targets = presets.filter((preset) => selected.includes(preset.id));
+        const source = serializeDesign(canvas);
+        const created: ResizedCopy[] = [];
+        setProgress({ done: 0, total: targets.length });
+        try {
+            for (const target of targets) {
+                const { design: resized, thumbnail } = await resizeDesign(source, target);
+                const response = await fetch('/api/designs/save', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        name: `${design.name} (${target.name})`,
+                        space: design.space,
+                        canvasData: resized,
+                        thumbnailDataUrl: thumbnail,
+                        resizedFrom: design.id,
+                    }),
+                });
+                const result = await response.json();
+                if (!result.success) throw new Error(result.message || 'Save failed');
+                created.push(result.design);
+                setProgress({ done: created.length, total: targets.length });
+            }
+            toast({ title: `Created ${created.length} resized ${created.length === 1 ? 'copy' : 'copies'}`, description: 'They are saved next to the original.', variant: 'success' });
+        } catch (error) {
+            console.error('Magic resize failed', error);
+            toast({
+                title: 'Resize failed',
+                description: created.length > 0 ? `${created.length} of ${targets.length} copies were saved.` : 'No copies were saved.',
+                variant: 'destructive',
+            });
+        } finally {
+            setCopies((prev) => [...prev, ...created]);
+            setSelected([]);
+            setProgress(null);
+        }
+    };
+
+    const categories = [...new Set(presets.map((preset) => preset.category))];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-card w-full max-w-2xl max-h-[85vh] rounded-xl border border-border shadow-2xl relative animate-in zoom-in-95 duration-200 flex flex-col overflow-hidden">
+                <div className="flex items-center gap-3 p-5 border-b border-border">
+                    <Scaling size={18} className="text-primary" />
+                    <div className="flex-1 min-w-0">
+                        <h2 className="font-semibold">Resize to…</h2>
+                        <p className="text-xs text-muted-foreground truncate">
+                            Saves copies of “{design.name}” at other sizes. Objects follow their constraints, set in the Properties panel.
+                        </p>
+                    </div>
+                    <button onClick={onClose} disabled={isBusy} className="p-1.5 rounded-full hover:bg-secondary text-muted-foreground hover:text-foreground">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-5 space-y-5">
+                    {!design.id && (
+                        <p className="text-sm text-amber-600 bg-amber-500/10 border border-amber-500/30 rounded-lg p-3">
+                            Save the design first so the copies can link back to it.
+                        </p>
+                    )}
+
+                    {categories.map((category) => (
+                        <section key={category} className="space-y-2">
+                            <h3 className="text-[10px] uppercase tracking-wide text-muted-foreground font-medium">{category}</h3>
+                            <div className="grid grid-cols-3 gap-2">
+                                {presets.filter((preset) => preset.category === category).map((preset) => {
+                                    const isSelected = selected.includes(preset.id);
+                                    const isCurrent = currentPage?.width === preset.width && currentPage?.height === preset.height;
+                                    const scale = 36 / Math.max(preset.width, preset.height);
+                                    return (
+                                        <button
+                                            key={preset.id}
+                                            onClick={() => toggle(preset.id)}
+                                            disabled={isBusy}
+                                            className={`flex items-center gap-3 p-2.5 rounded-lg border text-left transition-colors ${isSelected ? 'border-primary bg-primary/10' : 'border-border hover:bg-secondary/50'}`}
+                                        >
+                                            <div className="w-10 h-10 flex items-center justify-center shrink-0">
+                                                <div
+                                                    className={`rounded-sm border ${isSelected ? 'border-primary bg-primary/20' : 'border-muted-foreground/40 bg-secondary'}`}
+                                                    style={{ width: preset.width * scale, height: preset.height * scale }}
+                                                />
+                                            </div>
+                                            <div className="min-w-0 flex-1">
+                                                <div className="text-xs font-medium truncate">{preset.name}</div>
+                                                <div className="text-[10px] text-muted-foreground">
+                                                    {preset.width} × {preset.height}{isCurrent && ' · current'}
+                                                </div>
+                                            </div>
+                                            {isSelected && <Check size={14} className="text-primary shrink-0" />}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </section>
+                    ))}
+
+                    <section className="space-y-2">
+                        <h3 className="text-[10px] uppercase tracking-wide text-muted-foreground font-medium">Custom size</h3>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="number"
+                                value={customWidth}
+                                onChange={(e) => setCustomWidth(e.target.value)}
+                                placeholder="Width"
+                                className="w-24 h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+                            />
+                            <span className="text-muted-foreground">×</span>
+                            <input
+                                type="number"
+                                value={customHeight}
+                                onChange={(e) => setCustomHeight(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') addCustomSize(); }}
+                                placeholder="Height"
+                                className="w-24 h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+                            />
+                            <button onClick={addCustomSize} disabled={isBusy} className="h-8 px-3 rounded-md border border-border hover:bg-secondary text-xs flex items-center gap-1">
+                                <Plus size={12} /> Add
+                            </button>
+                        </div>
+                    </section>
+
+                    {copies.length > 0 && (
+                        <section className="space-y-2">
+                            <h3 className="text-[10px] uppercase tracking-wide text-muted-foreground font-medium">Created</h3>
+                            <div className="grid grid-cols-3 gap-2">
+                                {copies.map((copy) => (
+                                    <div key={copy.id} className="rounded-lg border border-border overflow-hidden">
+                                        <div className="aspect-video bg-secondary flex items-center justify-center">
+                                            <img src={`${copy.image}?v=${copy.version}`} alt={copy.name} className="max-w-full max-h-full object-contain" />
+                                        </div>
+                                        <div className="p-2 flex items-center gap-2">
+                                            <span className="text-[11px] truncate flex-1" title={copy.name}>{copy.name}</span>
+                                            <button
+                                                onClick={() => onOpenCopy(copy)}
+                                                className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground"
+                                                title="Open to fine-tune"
+                                            >
+                                                <ExternalLink size={12} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-border flex items-center justify-end gap-2">
+                    <button onClick={onClose} disabled={isBusy} className="px-4 py-2 rounded-lg text-sm hover:bg-secondary">
+                        {copies.length > 0 ? 'Done' : 'Cancel'}
+                    </button>
+                    <button
+                        onClick={handleCreate}
+                        disabled={isBusy || !design.id || selected.length === 0}
+                        className="px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 flex items-center gap-2"
+                    >
+                        {isBusy && <Loader2 size={14} className="animate-spin" />}
+                        {isBusy
+                            ? `Creating ${progress.done + 1} of ${progress.total}…`
+                            : `Create ${selected.length || ''} ${selected.length === 1 ? 'copy' : 'copies'}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,211 @@
+'use client';
+import React, { useEffect, useState } from 'react';
+import * as fabric from 'fabric';
+import { Plus, Copy, Trash2, GripVertical } from 'lucide-react';
+import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, horizontalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Artboard } from '@/types';
+import { cn } from '@/lib/utils';
+import { CanvasHistory } from '@/lib/canvas-history';
+import {
+    CanvasWithArtboards,
+    addArtboard,
+    duplicateArtboard,
+    getArtboardObjects,
+    getArtboards,
+    isArtboardObject,
+    removeArtboard,
+    reorderArtboards,
+    setActiveArtboard,
+    updateArtboard
+} from '@/lib/artboards';
+import { useDialog } from '@/providers/DialogProvider';
+
+/**
+ * PagesStrip
+ * Floating strip of the design's artboards. Click to focus a page, double-click to rename,
+ * drag to change the page order (pages are re-laid out left to right to match).
+ */
+interface PagesStripProps {
+    canvas: fabric.Canvas | null;
+    history?: CanvasHistory | null;
+}
+
+interface PageChipProps {
+    artboard: Artboard;
+    index: number;
+    active: boolean;
+    canDelete: boolean;
+    onSelect: () => void;
+    onRename: (name: string) => void;
+    onDuplicate: () => void;
+    onDelete: () => void;
+}
+
+function PageChip({ artboard, index, active, canDelete, onSelect, onRename, onDuplicate, onDelete }: PageChipProps) {
+    const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: artboard.id });
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(artboard.name);
+
+    const commit = () => {
+        setIsEditing(false);
+        const name = draft.trim();
+        if (name && name !== artboard.name) onRename(name);
+        else setDraft(artboard.name);
+    };
+
+    return (
+        <div
+            ref={setNodeRef}
+            style={{ transform: CSS.Transform.toString(transform), transition, zIndex: isDragging ? 10 : 'auto' }}
+            onClick={onSelect}
+            onDoubleClick={() => { setDraft(artboard.name); setIsEditing(true); }}
+            className={cn(
+                'group flex items-center gap-1.5 pl-1 pr-1.5 py-1 rounded-lg border text-xs cursor-pointer select-none shrink-0 transition-colors',
+                active ? 'bg-primary/10 border-primary/40 text-foreground' : 'bg-card border-border/50 hover:bg-secondary/50 text-muted-foreground'
+            )}
+        >
+            <span {...attributes} {...listeners} className="cursor-grab text-muted-foreground/60 hover:text-foreground" title="Drag to reorder">
+                <GripVertical size={12} />
+            </span>
+            <span className="w-3 h-3 rounded-sm border border-border/60 shrink-0" style={{ backgroundColor: artboard.background }} />
+            <span className="text-[10px] text-muted-foreground/70 font-mono">{index + 1}</span>
+            {isEditing ? (
+                <input
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={commit}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commit();
+                        if (e.key === 'Escape') { setDraft(artboard.name); setIsEditing(false); }
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-24 bg-background border border-border rounded px-1 py-0.5 text-xs"
+                />
+            ) : (
+                <span className="max-w-[120px] truncate font-medium" title={`${artboard.name} (${artboard.width}×${artboard.height})`}>{artboard.name}</span>
+            )}
+            <span className="text-[10px] text-muted-foreground/70">{artboard.width}×{artboard.height}</span>
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                    onClick={(e) => { e.stopPropagation(); onDuplicate(); }}
+                    className="p-1 hover:bg-secondary rounded text-muted-foreground"
+                    title="Duplicate page"
+                >
+                    <Copy size={11} />
+                </button>
+                <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(); }}
+                    disabled={!canDelete}
+                    className="p-1 hover:bg-destructive/10 hover:text-destructive rounded text-muted-foreground disabled:opacity-40 disabled:hover:bg-transparent"
+                    title="Delete page"
+                >
+                    <Trash2 size={11} />
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default function PagesStrip({ canvas, history }: PagesStripProps) {
+    const dialog = useDialog();
+    const [artboards, setArtboards] = useState<Artboard[]>([]);
+    const [activeId, setActiveId] = useState<string | undefined>();
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+        useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+    );
+
+    useEffect(() => {
+        if (!canvas) return;
+        const sync = () => {
+            setArtboards([...getArtboards(canvas)]);
+            setActiveId((canvas as CanvasWithArtboards).activeArtboardId);
+        };
+        // Selecting an object makes its page active so guides, alignment and exports follow it
+        const followSelection = () => {
+            const target = canvas.getActiveObject();
+            if (!target || isArtboardObject(target)) return;
+            const owner = getArtboards(canvas).find((artboard) => getArtboardObjects(canvas, artboard).includes(target));
+            if (owner && owner.id !== (canvas as CanvasWithArtboards).activeArtboardId) setActiveArtboard(canvas, owner.id);
+        };
+        sync();
+        // @ts-expect-error Custom event
+        canvas.on('artboards:change', sync);
+        canvas.on('selection:created', followSelection);
+        canvas.on('selection:updated', followSelection);
+        return () => {
+            // @ts-expect-error Custom event
+            canvas.off('artboards:change', sync);
+            canvas.off('selection:created', followSelection);
+            canvas.off('selection:updated', followSelection);
+        };
+    }, [canvas]);
+
+    if (!canvas || artboards.length === 0) return null;
+
+    const focusPage = (id: string) => {
+        setActiveArtboard(canvas, id);
+        (canvas as CanvasWithArtboards).centerArtboard?.();
+    };
+
+    const handleAdd = () => {
+        addArtboard(canvas);
+        (canvas as CanvasWithArtboards).centerArtboard?.();
+        history?.record('Add page');
+    };
+
+    const handleDuplicate = async (id: string) => {
+        await duplicateArtboard(canvas, id);
+        (canvas as CanvasWithArtboards).centerArtboard?.();
+        history?.record('Duplicate page');
+    };
+
+    const handleDelete = async (artboard: Artboard) => {
+        const confirmed = await dialog.confirm(`Delete "${artboard.name}" and everything on it?`, { title: 'Delete page', variant: 'destructive' });
+        if (!confirmed) return;
+        if (removeArtboard(canvas, artboard.id)) history?.record('Delete page');
+    };
+
+    const handleDragEnd = (event: DragEndEvent) => {
+        const { active, over } = event;
+        if (!over || active.id === over.id) return;
+        const from = artboards.findIndex((artboard) => artboard.id === active.id);
+        const to = artboards.findIndex((artboard) => artboard.id === over.id);
+        reorderArtboards(canvas, from, to);
+        history?.record('Reorder pages');
+    };
+
+    return (
+        <div className="flex items-center gap-1.5 max-w-[70vw] bg-popover/90 backdrop-blur-md px-2 py-1.5 rounded-xl shadow-2xl border border-border/50">
+            <div className="flex items-center gap-1.5 overflow-x-auto scrollbar-thin">
+                <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                    <SortableContext items={artboards.map((artboard) => artboard.id)} strategy={horizontalListSortingStrategy}>
+                        {artboards.map((artboard, index) => (
+                            <PageChip
+                                key={artboard.id}
+                                artboard={artboard}
+                                index={index}
+                                active={artboard.id === activeId}
+                                canDelete={artboards.length > 1}
+                                onSelect={() => focusPage(artboard.id)}
+                                onRename={(name) => {
+                                    updateArtboard(canvas, artboard.id, { name });
+                                    history?.record('Rename page');
+                                }}
+                                onDuplicate={() => handleDuplicate(artboard.id)}
+                                onDelete={() => handleDelete(artboard)}
+                            />
+                        ))}
+                    </SortableContext>
+                </DndContext>
+            </div>
+            <button onClick={handleAdd} className="p-1.5 hover:bg-secondary rounded-lg text-muted-foreground hover:text-foreground shrink-0" title="Add page">
+                <Plus size={14} />
+            </button>
+        </div>
+    );
+}
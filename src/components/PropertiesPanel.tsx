@@ -11,6 +11,7 @@ import {
     HueSaturationSettings, 
     ExposureSettings, 
     FabricBaseFilter, 
+    BrandTextStyle,
 } from '@/types';
 
 // Extracted Components
@@ -18,10 +19,12 @@ import { LayersView } from './properties/LayersView';
 import { SelectionProperties } from './properties/SelectionProperties';
 import { PaintProperties } from './properties/PaintProperties';
 import { CanvasSettingsPanel } from './properties/CanvasSettingsPanel';
+import { HistoryPanel } from './properties/HistoryPanel';
 
 // Utils & Libs
 import { 
     ensureObjectId, 
+    findObjectById,
     applyAlphaToColor, 
     normalizeColorValue, 
     parseColorWithAlpha,
@@ -31,6 +34,43 @@ import {
     getDefaultAdjustmentSettings
 } from '@/lib/fabric-utils';
 import { CurvesFilter } from '@/lib/fabric-filters';
+import { CanvasHistory, describeObject } from '@/lib/canvas-history';
+import { loadFont, refreshFontUsers } from '@/lib/fonts';
+import { getActiveArtboard, isArtboardObject, updateArtboard } from '@/lib/artboards';
+import { resizeArtboardWithContent } from '@/lib/layout-constraints';
+import { createStack, isStack, reflowParentStack, reflowStack, removeStackLayout, setStackLayout } from '@/lib/stack-layout';
+import {
+    clearLayerOverrides,
+    detachInstance,
+    findOwningInstance,
+    isComponentInstance,
+    isComponentMaster,
+    notifyComponentChange,
+    rebuildInstance,
+    recordOverride,
+    resolveMasterSource,
+} from '@/lib/components';
+import { applyTextStyle } from '@/lib/brand-kit';
+import { applyCharacterStyle, getStyleRange, setTextScript, setTextTransform, toggleList } from '@/lib/rich-text';
+import {
+    addBrandTextStyles,
+    addTextStyle,
+    applyTextStyleSheet,
+    captureTextStyle,
+    createTextStyleId,
+    deleteTextStyle,
+    findCharacterStyle,
+    findParagraphStyle,
+    getTextStyles,
+    resetTextStyleOverrides,
+    updateTextStyle,
+} from '@/lib/text-styles';
+import { attachTextToPath, canFollowPath, detachTextFromPath, isOnPath, updatePathFollowers } from '@/lib/text-path';
+import { fitTextBox, getTextFit, refitTextBox, setTextFit } from '@/lib/text-fit';
+import { ComponentAction } from './properties/ComponentProperties';
+import { TextStyleSheetAction } from './properties/TextStyleSheets';
+import { useToast } from '@/providers/ToastProvider';
+import { useDialog } from '@/providers/DialogProvider';
 
 type CanvasWithArtboard = fabric.Canvas & {
     artboard?: { width: number; height: number; left: number; top: number };
@@ -48,19 +88,30 @@ interface PropertiesPanelProps {
     onMake3D?: (imageUrl: string) => void;
     onLayerDblClick?: () => void;
     onPreviewMedia?: (payload: { type: 'video' | 'audio'; url: string }) => void;
+    history?: CanvasHistory | null;
+    onMagicResize?: () => void;
+    /** Saves the given top-level layers to the library as a new component */
+    onCreateComponent?: (objects: fabric.Object[]) => void;
+    onPublishComponent?: (master: fabric.Group) => Promise<void>;
+    onGoToMaster?: (instance: fabric.Group) => void;
 }
 
-export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerDblClick, onPreviewMedia }: PropertiesPanelProps) {
+export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerDblClick, onPreviewMedia, history, onMagicResize, onCreateComponent, onPublishComponent, onGoToMaster }: PropertiesPanelProps) {
+    const { toast } = useToast();
+    const dialog = useDialog();
     // Global Object State
     const [selectedObject, setSelectedObject] = useState<fabric.Object | null>(null);
     const [objects, setObjects] = useState<fabric.Object[]>([]);
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
     const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+    const [isPublishingComponent, setIsPublishingComponent] = useState(false);
 
     // Canvas Settings State
     const [canvasWidth, setCanvasWidth] = useState(1080);
     const [canvasHeight, setCanvasHeight] = useState(1080);
     const [canvasColor, setCanvasColor] = useState('#ffffff');
+    const [canvasX, setCanvasX] = useState(0);
+    const [canvasY, setCanvasY] = useState(0);
     
     // Paint State - Delegated to PaintProperties component
 
@@ -105,6 +156,7 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
     const [curveCenter, setCurveCenter] = useState(0);
     const [fontFamily, setFontFamily] = useState('Arial');
     const [fontWeight, setFontWeight] = useState('normal');
+    const [fontSize, setFontSize] = useState(40);
 
     const [adjustmentSettings, setAdjustmentSettings] = useState<AdjustmentLayerSettings | null>(null);
 
@@ -125,7 +177,12 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
             setCanvasHeight(Math.round((canvas.height || 1080) / zoom));
         }
         
-        if (typeof canvas.backgroundColor === 'string') {
+        const page = getActiveArtboard(canvas);
+        if (page) {
+            setCanvasX(Math.round(page.left));
+            setCanvasY(Math.round(page.top));
+            setCanvasColor(normalizeColorValue(page.background) || '#ffffff');
+        } else if (typeof canvas.backgroundColor === 'string') {
             setCanvasColor(normalizeColorValue(canvas.backgroundColor) || '#ffffff');
         }
     }, [canvas]);
@@ -136,8 +193,9 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
         (canvas as any).on('artboard:resize', syncCanvasMetrics);
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         (canvas as any).on('workspace:color', syncCanvasMetrics);
-        syncCanvasMetrics();
+        const initialSync = setTimeout(syncCanvasMetrics, 0);
         return () => {
+             clearTimeout(initialSync);
              // eslint-disable-next-line @typescript-eslint/no-explicit-any
              (canvas as any).off('artboard:resize', syncCanvasMetrics);
              // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -149,7 +207,7 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
     // --- Layer & Selection Sync ---
     const updateObjects = useCallback(() => {
         if (!canvas) return;
-        const objs = canvas.getObjects();
+        const objs = canvas.getObjects().filter(o => !isArtboardObject(o));
         objs.forEach(o => {
             ensureObjectId(o);
             if (o.type === 'group') (o as fabric.Group).getObjects().forEach(ensureObjectId);
@@ -211,10 +269,11 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
                 setSkewZ(target.skewZ || 0);
                 setTaperDirection(target.taperDirection || 0);
 
-                if (target.type === 'text' || target.type === 'i-text') {
+                if (target.type === 'text' || target.type === 'i-text' || target.type === 'textbox') {
                     const t = target as fabric.IText;
                     setFontFamily(t.fontFamily || 'Arial');
-                    setFontWeight((t.fontWeight as string) || 'normal');
+                    setFontWeight(String(t.fontWeight || 'normal'));
+                    setFontSize(t.fontSize);
                     setCurveStrength(target.curveStrength || 0);
                     setCurveCenter(target.curveCenter || 0);
                 }
@@ -340,15 +399,22 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
         canvas.on('object:added', handleChange);
         canvas.on('object:removed', handleChange);
         canvas.on('object:modified', handleChange); // Covers reordering if fired
+        // Layers show which text no longer fits its box
+        // @ts-expect-error Custom event
+        canvas.on('textfit:change', updateObjects);
         
-        updateObjects();
+        // Initial sync (deferred so the layer list is not set during the effect itself)
+        const initialSync = setTimeout(() => updateObjects(), 0);
         // Initial apply
         setTimeout(() => applyAdjustmentLayers(), 100);
 
         return () => {
+            clearTimeout(initialSync);
             canvas.off('object:added', handleChange);
             canvas.off('object:removed', handleChange);
             canvas.off('object:modified', handleChange);
+            // @ts-expect-error Custom event
+            canvas.off('textfit:change', updateObjects);
         };
     }, [canvas, updateObjects, applyAdjustmentLayers]);
 
@@ -357,6 +423,7 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
         (selectedObject as ExtendedFabricObject).set('adjustmentSettings', newSettings);
         setAdjustmentSettings(newSettings);
         applyAdjustmentLayers();
+        history?.record(`Adjust ${describeObject(selectedObject)}`);
     };
 
     const createAdjustmentLayer = useCallback((type: AdjustmentLayerType) => {
@@ -404,6 +471,7 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const handlePropChange = (prop: string, value: any) => {
         if (!selectedObject || !canvas) return;
+        const fontSizeBefore = selectedObject instanceof fabric.Textbox ? selectedObject.fontSize : 0;
 
         // Standard props
         if (prop === 'fill' || prop === 'left' || prop === 'top' || prop === 'width' || prop === 'height' || prop === 'angle' || prop === 'scaleX' || prop === 'scaleY' || prop === 'skewX' || prop === 'skewY') {
@@ -415,6 +483,8 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
                  setIsGradient(false);
                  setColor(value);
                  selectedObject.set('fill', value);
+                 // A layer of an instance keeps its own colour when the master changes
+                 recordOverride(selectedObject, { fill: value });
              }
         }
 
@@ -460,8 +530,60 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
          if (prop === 'skewX') setSkewX(value);
          if (prop === 'skewY') setSkewY(value);
         
-        if (prop === 'fontFamily') (selectedObject as fabric.IText).set('fontFamily', value);
-        if (prop === 'fontWeight') (selectedObject as fabric.IText).set('fontWeight', value);
+        if (prop === 'fontFamily') {
+            (selectedObject as fabric.IText).set('fontFamily', value);
+            setFontFamily(value);
+            // An uploaded font still loading is measured again once it is there
+            void loadFont(value).then(() => refreshFontUsers(canvas, value));
+        }
+        if (prop === 'fontWeight') {
+            (selectedObject as fabric.IText).set('fontWeight', value);
+            setFontWeight(value);
+        }
+        if (prop === 'textStyle' && selectedObject instanceof fabric.IText) {
+            const style = value as BrandTextStyle;
+            applyTextStyle(selectedObject, style);
+            void loadFont(style.fontFamily).then(() => refreshFontUsers(canvas, style.fontFamily));
+            setFontFamily(style.fontFamily);
+            setFontWeight(style.fontWeight);
+            setFontSize(style.fontSize);
+            if (style.fill) {
+                setColor(style.fill);
+                setIsGradient(false);
+                recordOverride(selectedObject, { fill: style.fill });
+            }
+        }
+        
+        if (selectedObject instanceof fabric.IText) {
+            if (prop === 'characterStyle') {
+                applyCharacterStyle(selectedObject, value);
+                // Without a selection the change is the text's own
+                if (!getStyleRange(selectedObject).isSelection) {
+                    if (value.fill) {
+                        setColor(value.fill);
+                        setIsGradient(false);
+                    }
+                    if (value.fontSize) setFontSize(value.fontSize);
+                    if (value.bold !== undefined) setFontWeight(String(selectedObject.fontWeight));
+                }
+            }
+            if (prop === 'textScript') setTextScript(selectedObject, value);
+            if (prop === 'textList') toggleList(selectedObject, value);
+            if (prop === 'textTransform') setTextTransform(selectedObject, value);
+            if (prop === 'textAlign' || prop === 'charSpacing' || prop === 'lineHeight') selectedObject.set(prop, value);
+            if (prop === 'pathStartOffset' || prop === 'pathSide' || prop === 'pathAlign') selectedObject.set(prop, value);
+            if (prop === 'textPath' && !value && isOnPath(selectedObject)) detachTextFromPath(selectedObject);
+        }
+
+        if (selectedObject instanceof fabric.Textbox) {
+            if (prop === 'textFit') {
+                setTextFit(selectedObject, value);
+            } else {
+                const fit = getTextFit(selectedObject);
+                if (prop === 'width' && fit?.width !== undefined) fit.width = value;
+                refitTextBox(selectedObject, fontSizeBefore);
+            }
+        }
         
         if (prop === 'curve') {
              const { strength, center } = value;
@@ -488,6 +610,28 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
              (selectedObject as ExtendedFabricObject).set({ taperDirection: value });
         }
         if (prop === 'skewZ') setSkewZ(value); 
+
+        if (prop === 'variableName') {
+            (selectedObject as ExtendedFabricObject).set({ variableName: value || undefined });
+        }
+
+        if (prop === 'resizeAnchor') {
+            (selectedObject as ExtendedFabricObject).set({ resizeAnchor: value ?? undefined });
+        }
+
+        if (prop === 'stackLayout' && selectedObject instanceof fabric.Group) {
+            if (value) setStackLayout(selectedObject, value);
+            else removeStackLayout(selectedObject);
+        }
+        if (prop === 'stackSize') {
+            selectedObject.set({ width: value.width, height: value.height });
+        }
+        if (prop === 'stackFill') {
+            (selectedObject as ExtendedFabricObject).set({ stackFill: value || undefined });
+        }
+        if (prop === 'backgroundColor') {
+            selectedObject.set({ backgroundColor: value ?? '' });
+        }
         
         if (prop === 'filter') {
             if (value.type === 'Blur') setBlurValue(value.value);
@@ -511,11 +655,18 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
             // ... could add opacity etc
         }
 
+        // Text, size and visibility changes move the rest of a stack
+        if (isStack(selectedObject)) reflowStack(selectedObject);
+        reflowParentStack(selectedObject);
+        notifyComponentChange(canvas, selectedObject);
+        updatePathFollowers(canvas, selectedObject);
+
         canvas.requestRenderAll();
         if ((selectedObject as ExtendedFabricObject).isAdjustmentLayer) applyAdjustmentLayers();
         
         // Force re-render for transform props that don't have their own state
         updateObjects();
+        history?.record(`Change ${prop}`);
     };
     
     const handleLayoutAction = (type: 'align' | 'distribute', value: string) => {
@@ -548,20 +699,274 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
              }
              selectedObject.setCoords();
              handlePropChange('left', selectedObject.left); // Sync UI
+             history?.record(`Align ${value}`);
         }
     };
 
     const handleReorder = (activeId: string, overId: string) => {
         if (!canvas) return;
-        const active = canvas.getObjects().find(o => (o as ExtendedFabricObject).id === activeId);
-        const over = canvas.getObjects().find(o => (o as ExtendedFabricObject).id === overId);
-        if (!active || !over) return;
+        const active = findObjectById(canvas.getObjects(), activeId);
+        const over = findObjectById(canvas.getObjects(), overId);
+        // Layers are reordered within their own folder; moving between folders is not supported here
+        if (!active || !over || active.parent !== over.parent) return;
         
-        const overIdx = canvas.getObjects().indexOf(over);
-        canvas.moveObjectTo(active, overIdx);
+        const parent = active.parent;
+        if (parent) {
+            parent.moveObjectTo(active, parent.getObjects().indexOf(over));
+            parent.set('dirty', true);
+            reflowParentStack(active);
+            notifyComponentChange(canvas, parent);
+        } else {
+            canvas.moveObjectTo(active, canvas.getObjects().indexOf(over));
+        }
         canvas.requestRenderAll();
         updateObjects();
         applyAdjustmentLayers();
+        history?.record('Reorder layers');
+    };
+
+    // --- Stacks ---
+    const createStackFromSelection = () => {
+        if (!canvas) return;
+        // Only top-level layers; a multi-selection can also hold layers picked inside folders
+        const targets = canvas.getActiveObjects().filter(o => !o.parent);
+        if (targets.length < 2) return;
+        const stack = createStack(canvas, targets);
+        (stack as ExtendedFabricObject).name = getNextIndexedName('Stack', getGroupNames(canvas));
+        canvas.setActiveObject(stack);
+        canvas.requestRenderAll();
+        setSelectedObject(stack);
+        updateObjects();
+        history?.record('Create stack');
+    };
+
+    // --- Components ---
+    // Rebuild an instance from its master, e.g. after its overrides changed, and select it
+    const refreshInstance = async (instance: fabric.Group, label: string) => {
+        if (!canvas) return;
+        const { componentId } = instance as ExtendedFabricObject;
+        const source = componentId ? await resolveMasterSource(canvas, componentId).catch(() => null) : null;
+        if (!source) {
+            toast({ title: 'Master not found', description: 'The component is no longer in the library.', variant: 'destructive' });
+            return;
+        }
+        const fresh = await rebuildInstance(canvas, instance, source.data, source.version);
+        canvas.setActiveObject(fresh);
+        canvas.requestRenderAll();
+        setSelectedObject(fresh);
+        updateObjects();
+        history?.record(label);
+    };
+
+    const handleComponentAction = async (action: ComponentAction) => {
+        if (!canvas) return;
+        const target = selectedObject;
+        switch (action) {
+            case 'create': {
+                // Only top-level layers; a multi-selection can also hold layers picked inside folders
+                const targets = canvas.getActiveObjects().filter(o => !o.parent);
+                if (targets.length > 0) onCreateComponent?.(targets);
+                break;
+            }
+            case 'publish':
+                if (!isComponentMaster(target) || !onPublishComponent) break;
+                setIsPublishingComponent(true);
+                try {
+                    await onPublishComponent(target);
+                } finally {
+                    setIsPublishingComponent(false);
+                }
+                break;
+            case 'go-to-master':
+                if (isComponentInstance(target)) onGoToMaster?.(target);
+                break;
+            case 'reset-overrides':
+                if (!isComponentInstance(target)) break;
+                (target as ExtendedFabricObject).componentOverrides = {};
+                await refreshInstance(target, 'Reset overrides');
+                break;
+            case 'detach':
+                if (!isComponentInstance(target)) break;
+                detachInstance(target);
+                updateObjects();
+                history?.record('Detach instance');
+                break;
+            case 'reset-layer': {
+                const instance = target ? findOwningInstance(target) : null;
+                if (!target || !instance) break;
+                clearLayerOverrides(target);
+                await refreshInstance(instance, 'Reset override');
+                break;
+            }
+        }
+    };
+
+    // The new image is uploaded next to the component and kept as an override of the layer
+    const replaceComponentImage = async (file: File) => {
+        const instance = selectedObject ? findOwningInstance(selectedObject) : null;
+        if (!selectedObject || !instance) return;
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('space', (instance as ExtendedFabricObject).componentSpace ?? 'personal');
+        try {
+            const res = await fetch('/api/assets/upload', { method: 'POST', body: formData });
+            const data = await res.json();
+            if (!data.success) throw new Error(data.message || 'Upload failed');
+            recordOverride(selectedObject, { src: data.path });
+            await refreshInstance(instance, 'Replace image');
+        } catch (error) {
+            console.error('Failed to replace component image', error);
+            toast({ title: 'Replace failed', description: 'The image could not be uploaded.', variant: 'destructive' });
+        }
+    };
+
+    // --- Masking ---
+    // The upper of the two selected objects becomes the clip path of the lower one
+    const createMask = () => {
+        if (!canvas) return;
+        const activeObjects = canvas.getActiveObjects();
+        if (activeObjects.length !== 2) return;
+
+        const [bottom, top] = [...activeObjects].sort((a, b) => canvas.getObjects().indexOf(a) - canvas.getObjects().indexOf(b));
+        canvas.discardActiveObject();
+
+        canvas.remove(top);
+        top.set('absolutePositioned', true);
+        bottom.set({ clipPath: top, dirty: true });
+
+        canvas.setActiveObject(bottom);
+        canvas.requestRenderAll();
+        setSelectedObject(bottom);
+        updateObjects();
+        history?.record(`Mask ${describeObject(bottom)}`);
+    };
+
+    // --- Text styles ---
+    const handleStyleSheetAction = async (action: TextStyleSheetAction) => {
+        if (!canvas || !(selectedObject instanceof fabric.IText)) return;
+        const text = selectedObject;
+        const fontSizeBefore = text.fontSize;
+        const styles = getTextStyles(canvas);
+        const kind = 'kind' in action ? action.kind : 'paragraph';
+        const current = kind === 'paragraph' ? findParagraphStyle(styles, text) : findCharacterStyle(styles, text);
+        // Text elsewhere in the design that a style change reformatted
+        let restyled: fabric.IText[] = [];
+        let label: string;
+
+        switch (action.type) {
+            case 'apply': {
+                const style = styles.find((item) => item.id === action.id) ?? null;
+                applyTextStyleSheet(text, kind, style);
+                if (style) void loadFont(style.fontFamily).then(() => refreshFontUsers(canvas, style.fontFamily));
+                label = style ? `Apply ${style.name}` : `Remove ${kind} style`;
+                break;
+            }
+            case 'create': {
+                const name = (await dialog.prompt(`Name of the new ${kind} style:`, { title: 'New text style', defaultValue: kind === 'paragraph' ? 'Heading' : 'Emphasis', confirmText: 'Create' }))?.trim();
+                if (!name) return;
+                const style = { ...captureTextStyle(text, kind), id: createTextStyleId(), name };
+                addTextStyle(canvas, style);
+                // The text already looks like its new paragraph style; linking it keeps its own character formatting
+                if (kind === 'paragraph') text.set('paragraphStyleId', style.id);
+                else applyTextStyleSheet(text, kind, style);
+                label = `Create ${name}`;
+                break;
+            }
+            case 'redefine':
+                if (!current) return;
+                restyled = updateTextStyle(canvas, { ...current, ...captureTextStyle(text, kind) });
+                label = `Update ${current.name}`;
+                break;
+            case 'rename': {
+                if (!current) return;
+                const name = (await dialog.prompt('New name of the style:', { title: 'Rename text style', defaultValue: current.name, confirmText: 'Rename' }))?.trim();
+                if (!name || name === current.name) return;
+                updateTextStyle(canvas, { ...current, name });
+                label = `Rename ${current.name}`;
+                break;
+            }
+            case 'delete': {
+                if (!current) return;
+                const confirmed = await dialog.confirm(`Delete the style "${current.name}"? Text using it keeps its formatting.`, { title: 'Delete text style', variant: 'destructive', confirmText: 'Delete' });
+                if (!confirmed) return;
+                deleteTextStyle(canvas, current.id);
+                label = `Delete ${current.name}`;
+                break;
+            }
+            case 'reset':
+                resetTextStyleOverrides(styles, text);
+                label = 'Reset style overrides';
+                break;
+            case 'add-brand-styles': {
+                const added = addBrandTextStyles(canvas, action.styles);
+                if (added === 0) {
+                    toast({ title: 'Nothing to add', description: 'The design already has styles named like the brand kit\'s.' });
+                    return;
+                }
+                action.styles.forEach((style) => void loadFont(style.fontFamily));
+                label = 'Add brand text styles';
+                break;
+            }
+        }
+
+        if (text instanceof fabric.Textbox) refitTextBox(text, fontSizeBefore);
+        [text, ...restyled].forEach((obj) => {
+            if (obj !== text && obj instanceof fabric.Textbox) fitTextBox(obj);
+            reflowParentStack(obj);
+            notifyComponentChange(canvas, obj);
+        });
+        setFontFamily(text.fontFamily);
+        setFontWeight(String(text.fontWeight || 'normal'));
+        setFontSize(text.fontSize);
+        if (typeof text.fill === 'string') {
+            setColor(text.fill);
+            setIsGradient(false);
+        }
+        canvas.requestRenderAll();
+        updateObjects();
+        history?.record(label);
+    };
+
+    // --- Text on path ---
+    // The selected text is set along the other selected object and follows it from then on
+    const setTextOnPath = async () => {
+        if (!canvas) return;
+        const activeObjects = canvas.getActiveObjects();
+        const text = activeObjects.find((obj): obj is fabric.IText => obj instanceof fabric.IText);
+        const target = activeObjects.find((obj) => obj !== text && canFollowPath(obj));
+        if (activeObjects.length !== 2 || !text || !target) return;
+
+        canvas.discardActiveObject();
+        const follower = await attachTextToPath(canvas, text, target);
+
+        canvas.setActiveObject(follower);
+        canvas.requestRenderAll();
+        setSelectedObject(follower);
+        setCurveStrength(0);
+        setCurveCenter(0);
+        updateObjects();
+        history?.record(`Set ${describeObject(follower)} on ${describeObject(target)}`);
+    };
+
+    const releaseMask = async () => {
+        if (!canvas || !selectedObject || !selectedObject.clipPath) return;
+        const target = selectedObject;
+        const mask = target.clipPath!;
+
+        const restored = (await mask.clone()) as fabric.Object;
+        if (!mask.absolutePositioned) {
+            // A relative clip path sits in the target's centre-origin local space
+            fabric.util.applyTransformToObject(
+                restored,
+                fabric.util.multiplyTransformMatrices(target.calcTransformMatrix(), restored.calcOwnMatrix())
+            );
+        }
+        target.set({ clipPath: undefined, dirty: true });
+        canvas.add(restored);
+        canvas.setActiveObject(target);
+        canvas.requestRenderAll();
+        updateObjects();
+        history?.record(`Release mask on ${describeObject(target)}`);
     };
 
     const deleteLayer = (obj: fabric.Object) => {
@@ -569,6 +974,7 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
          if(obj.group) obj.group.remove(obj);
          else canvas.remove(obj);
          canvas.requestRenderAll();
+         history?.record(`Delete ${describeObject(obj)}`);
     };
 
     if (activeTool === 'paint') {
@@ -590,45 +996,55 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
     
     if (activeTool === 'layers') {
         return (
-            <LayersView 
-                objects={objects}
-                selectedIds={selectedIds}
-                onSelect={(obj, e) => {
-                     if (e?.shiftKey) { /* multi */ } 
-                     else { 
-                         canvas?.discardActiveObject();
-                         canvas?.setActiveObject(obj);
-                         canvas?.requestRenderAll(); 
-                     }
-                }}
-                onToggleVisibility={(obj) => { 
-                    obj.visible = !obj.visible; 
-                    canvas?.requestRenderAll(); 
-                    if ((obj as ExtendedFabricObject).isAdjustmentLayer) applyAdjustmentLayers();
-                }}
-                onToggleLock={(obj) => { 
-                    const l = !(obj as ExtendedFabricObject).locked;
-                    (obj as ExtendedFabricObject).locked = l;
-                    obj.set({ lockMovementX: l, lockMovementY: l, selectable: !l, evented: !l });
-                    canvas?.discardActiveObject();
-                    canvas?.requestRenderAll();
-                }}
-                onDelete={deleteLayer}
-                onReorder={handleReorder}
-                onGroup={() => {}}
-                onUngroup={() => {}}
-                onCreateFolder={() => {}}
-                onDblClick={() => onLayerDblClick && onLayerDblClick()}
-                expandedFolders={expandedFolders}
-                onToggleFolder={(obj) => {
-                     const id = ensureObjectId(obj);
-                     setExpandedFolders(prev => {
-                         const n = new Set(prev);
-                         if (n.has(id)) n.delete(id); else n.add(id);
-                         return n;
-                     });
-                }}
-            />
+            <div className="flex flex-col h-full">
+                <div className="flex-[3] min-h-0">
+                    <LayersView 
+                        objects={objects}
+                        selectedIds={selectedIds}
+                        onSelect={(obj, e) => {
+                             if (e?.shiftKey) { /* multi */ } 
+                             else { 
+                                 canvas?.discardActiveObject();
+                                 canvas?.setActiveObject(obj);
+                                 canvas?.requestRenderAll(); 
+                             }
+                        }}
+                        onToggleVisibility={(obj) => { 
+                            obj.visible = !obj.visible; 
+                            reflowParentStack(obj);
+                            canvas?.requestRenderAll(); 
+                            if ((obj as ExtendedFabricObject).isAdjustmentLayer) applyAdjustmentLayers();
+                            history?.record(`${obj.visible ? 'Show' : 'Hide'} ${describeObject(obj)}`);
+                        }}
+                        onToggleLock={(obj) => { 
+                            const l = !(obj as ExtendedFabricObject).locked;
+                            (obj as ExtendedFabricObject).locked = l;
+                            obj.set({ lockMovementX: l, lockMovementY: l, selectable: !l, evented: !l });
+                            canvas?.discardActiveObject();
+                            canvas?.requestRenderAll();
+                            history?.record(`${l ? 'Lock' : 'Unlock'} ${describeObject(obj)}`);
+                        }}
+                        onDelete={deleteLayer}
+                        onReorder={handleReorder}
+                        onGroup={() => {}}
+                        onUngroup={() => {}}
+                        onCreateFolder={() => {}}
+                        onDblClick={() => onLayerDblClick && onLayerDblClick()}
+                        expandedFolders={expandedFolders}
+                        onToggleFolder={(obj) => {
+                             const id = ensureObjectId(obj);
+                             setExpandedFolders(prev => {
+                                 const n = new Set(prev);
+                                 if (n.has(id)) n.delete(id); else n.add(id);
+                                 return n;
+                             });
+                        }}
+                    />
+                </div>
+                <div className="flex-[2] min-h-0 border-t border-border/50">
+                    <HistoryPanel history={history ?? null} />
+                </div>
+            </div>
         );
     }
 
@@ -639,19 +1055,30 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
                      width={canvasWidth}
                      height={canvasHeight}
                      backgroundColor={canvasColor}
+                     x={canvasX}
+                     y={canvasY}
                      onResize={(w, h) => {
                           if (!canvas) return;
-                          const ext = canvas as CanvasWithArtboard;
-                          if (ext.artboardRect) { ext.artboardRect.set({ width: w, height: h }); }
-                          canvas.requestRenderAll();
+                          const page = getActiveArtboard(canvas);
+                          if (!page || w <= 0 || h <= 0) return;
+                          resizeArtboardWithContent(canvas, page.id, { width: w, height: h });
+                          history?.record('Resize page');
+                     }}
+                     onMove={(x, y) => {
+                          if (!canvas) return;
+                          const page = getActiveArtboard(canvas);
+                          if (!page) return;
+                          updateArtboard(canvas, page.id, { left: x, top: y });
+                          history?.record('Move page');
                      }}
                      onColorChange={(c) => {
                           if (!canvas) return;
-                          const cvs = canvas;
-                          // eslint-disable-next-line @typescript-eslint/no-explicit-any, react-hooks/immutability
-                          (cvs as any).backgroundColor = c;
-                          cvs.requestRenderAll();
+                          const page = getActiveArtboard(canvas);
+                          if (!page) return;
+                          updateArtboard(canvas, page.id, { background: c });
+                          history?.record('Change background');
                      }}
+                     onMagicResize={onMagicResize}
                  />
              </div>
          );
@@ -676,10 +1103,16 @@ export default function PropertiesPanel({ canvas, activeTool, onMake3D, onLayerD
              onLayoutAction={handleLayoutAction}
              onGroup={() => { /* group logic */ }}
              onUngroup={() => { /* ungroup logic */ }}
-             onCreateMask={() => { /* mask logic */ }}
-             onReleaseMask={() => { /* unmask logic */ }}
+             onCreateStack={createStackFromSelection}
+             onComponentAction={handleComponentAction}
+             onReplaceComponentImage={replaceComponentImage}
+             isPublishingComponent={isPublishingComponent}
+             onCreateMask={createMask}
+             onReleaseMask={releaseMask}
+             onSetTextOnPath={setTextOnPath}
+             onStyleSheetAction={handleStyleSheetAction}
              updateAdjustment={updateAdjustment}
-             textState={{ font: fontFamily, weight: fontWeight, curve: curveStrength, center: curveCenter }}
+             textState={{ font: fontFamily, weight: fontWeight, size: fontSize, curve: curveStrength, center: curveCenter }}
              effectState={{ 
                  filters: { 
                      blur: blurValue, brightness: brightnessValue, contrast: contrastValue,
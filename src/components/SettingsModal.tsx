@@ -1,48 +1,40 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Save, Key, ShieldCheck, AlertCircle, Server, Cloud, Box, RefreshCcw, DownloadCloud, HardDrive, Loader2, HelpCircle } from 'lucide-react';
+import { X, Save, Key, ShieldCheck, AlertCircle, Server, Cloud, Box, RefreshCcw, DownloadCloud, HardDrive, Loader2, HelpCircle, CheckCircle2, XCircle, Trash2, History, Timer, Palette } from 'lucide-react';
 import HelpPopup from './HelpPopup';
-import type { DesktopUpdatePayload, DesktopUpdateStatus, GoogleDriveConfig } from '@/types';
+import BrandKitSettings from './BrandKitSettings';
+import type { ApiKeyProvider, ApiKeyStatus, BrandKit, DesktopUpdatePayload, DesktopUpdateStatus, GoogleDriveConfig, VersionRetention } from '@/types';
 import { connectGoogleDrive, disconnectGoogleDrive, loadDriveConfig, updateDriveConfig } from '@/lib/googleDrive';
+import { AUTOSAVE_INTERVAL_OPTIONS, describeAutosaveInterval, loadAutosaveInterval, saveAutosaveInterval } from '@/lib/autosave';
+import { API_KEY_PROVIDERS, fetchApiKeyStatuses, migrateLegacyApiKeys, saveApiKeys, type ApiKeyProviderInfo } from '@/lib/api-keys';
+import { fetchBrandKit, type BrandKitState } from '@/lib/brand-kit';
+import { useBrandKit } from '@/providers/BrandKitProvider';
 
 interface SettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
-    userId?: string;
 }
 
+// Non-secret preferences that stay in the browser; API keys live in the server vault
 export const STORAGE_KEYS = {
-    // 3D Services
-    MESHY_API_KEY: 'meshy_api_key',
-    TRIPO_API_KEY: 'tripo_api_key',
-    HITEMS_API_KEY: 'hitems_api_key',
-    
-    // Image Services
-    STABILITY_API_KEY: 'stability_api_key',
-    OPENAI_API_KEY: 'openai_api_key',
-    GOOGLE_API_KEY: 'google_api_key', // Google Nano/Gemini
-    BANANA_API_KEY: 'banana_api_key', // Banana.dev
-    
-    // Legacy / Others
     IMG_GEN_PROVIDER: 'image-express-provider',
     COMFY_UI_URL: 'image-express-comfy-url',
 };
 
-export default function SettingsModal({ isOpen, onClose, userId }: SettingsModalProps) {
-    // 3D Keys
-    const [meshyKey, setMeshyKey] = useState('');
-    const [tripoKey, setTripoKey] = useState('');
-    const [hitemsKey, setHitemsKey] = useState('');
-
-    // Image Keys
-    const [stabilityKey, setStabilityKey] = useState('');
-    const [openaiKey, setOpenaiKey] = useState('');
-    const [googleKey, setGoogleKey] = useState('');
-    const [bananaKey, setBananaKey] = useState('');
+type KeyTestState = {
+    busy: boolean;
+    valid?: boolean | null;
+    message?: string;
+};
 
+export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
+    const [keyStatuses, setKeyStatuses] = useState<ApiKeyStatus[]>([]);
+    // New keys typed in this session; saved keys are only ever shown masked
+    const [keyDrafts, setKeyDrafts] = useState<Partial<Record<ApiKeyProvider, string>>>({});
+    const [keyTests, setKeyTests] = useState<Partial<Record<ApiKeyProvider, KeyTestState>>>({});
+    const [vaultStatus, setVaultStatus] = useState<'loading' | 'ready' | 'error'>('loading');
     const [status, setStatus] = useState<'idle' | 'saved' | 'saving' | 'error'>('idle');
-    const [syncStatus, setSyncStatus] = useState<'local' | 'synced' | 'syncing'>('local');
     const [helpType, setHelpType] = useState<'comfy' | 'api' | null>(null);
     const [isLogVisible, setIsLogVisible] = useState(false);
     const [logContent, setLogContent] = useState('');
@@ -57,6 +49,17 @@ export default function SettingsModal({ isOpen, onClose, userId }: SettingsModal
     const envDriveClientId = process.env.NEXT_PUBLIC_GOOGLE_DRIVE_CLIENT_ID ?? '';
     const [clientIdInput, setClientIdInput] = useState(envDriveClientId);
     const [showDriveHelp, setShowDriveHelp] = useState(false);
+    const [autosaveInterval, setAutosaveInterval] = useState(() => loadAutosaveInterval());
+    // Server-wide; only admins may change it
+    const [retention, setRetention] = useState<VersionRetention | null>(null);
+    const [retentionDraft, setRetentionDraft] = useState<VersionRetention | null>(null);
+    const [retentionEditable, setRetentionEditable] = useState(false);
+    const [trashDays, setTrashDays] = useState<number | null>(null);
+    const [trashDaysDraft, setTrashDaysDraft] = useState<number | null>(null);
+    // The team's kit (or the user's own without a team space); edited as a draft like the settings above
+    const [brandKit, setBrandKit] = useState<BrandKitState | null>(null);
+    const [brandDraft, setBrandDraft] = useState<BrandKit | null>(null);
+    const { save: saveBrandKit } = useBrandKit();
 
     // Load keys on mount
     useEffect(() => {
@@ -88,102 +91,215 @@ export default function SettingsModal({ isOpen, onClose, userId }: SettingsModal
             setClientIdInput(envDriveClientId || '');
         }
 
-        // Always load from local storage first for immediate UI
-        setMeshyKey(localStorage.getItem(STORAGE_KEYS.MESHY_API_KEY) || '');
-        setTripoKey(localStorage.getItem(STORAGE_KEYS.TRIPO_API_KEY) || '');
-        setHitemsKey(localStorage.getItem(STORAGE_KEYS.HITEMS_API_KEY) || '');
-        
-        setStabilityKey(localStorage.getItem(STORAGE_KEYS.STABILITY_API_KEY) || '');
-        setOpenaiKey(localStorage.getItem(STORAGE_KEYS.OPENAI_API_KEY) || '');
-        setGoogleKey(localStorage.getItem(STORAGE_KEYS.GOOGLE_API_KEY) || '');
-        setBananaKey(localStorage.getItem(STORAGE_KEYS.BANANA_API_KEY) || '');
-
-        // If user is logged in, fetch from server
-        if (userId && userId !== 'Guest') {
-            setSyncStatus('syncing');
-            fetch(`/api/user/keys?userId=${encodeURIComponent(userId)}`)
-                .then(res => {
-                    if (res.ok) return res.json();
-                    throw new Error('Failed to fetch keys');
+        if (isOpen) {
+            // Keys left in localStorage by older versions are moved into the vault first
+            migrateLegacyApiKeys()
+                .catch((error) => console.error('Failed to migrate stored API keys:', error))
+                .then(() => fetchApiKeyStatuses())
+                .then((statuses) => {
+                    setKeyStatuses(statuses);
+                    setVaultStatus('ready');
                 })
-                .then(data => {
-                    if (data && data.keys) {
-                        if (data.keys.meshy) setMeshyKey(data.keys.meshy);
-                        if (data.keys.tripo) setTripoKey(data.keys.tripo);
-                        if (data.keys.stability) setStabilityKey(data.keys.stability);
-                        if (data.keys.openai) setOpenaiKey(data.keys.openai);
-                        if (data.keys.google) setGoogleKey(data.keys.google);
-                        if (data.keys.banana) setBananaKey(data.keys.banana);
-                        setSyncStatus('synced');
-                    } else {
-                         setSyncStatus('local'); // No keys on server yet
-                    }
-                })
-                .catch(err => {
-                    console.error("Failed to sync keys:", err);
-                    setSyncStatus('local');
+                .catch((error) => {
+                    console.error('Failed to load API keys:', error);
+                    setVaultStatus('error');
                 });
-        } else {
-            setSyncStatus('local');
+
+            fetch('/api/settings/versions')
+                .then((res) => res.json())
+                .then((data) => {
+                    if (!data.success) throw new Error(data.message);
+                    setRetention(data.retention);
+                    setRetentionDraft(data.retention);
+                    setRetentionEditable(Boolean(data.editable));
+                })
+                .catch((error) => console.error('Failed to load version retention:', error));
+
+            fetch('/api/settings/trash')
+                .then((res) => res.json())
+                .then((data) => {
+                    if (!data.success) throw new Error(data.message);
+                    setTrashDays(data.retentionDays);
+                    setTrashDaysDraft(data.retentionDays);
+                    setRetentionEditable(Boolean(data.editable));
+                })
+                .catch((error) => console.error('Failed to load trash retention:', error));
+
+            fetchBrandKit()
+                .then((result) => {
+                    setBrandKit(result);
+                    setBrandDraft(result.kit);
+                })
+                .catch((error) => console.error('Failed to load brand kit:', error));
         }
 
         return () => {
             unsubscribe?.();
         };
-    }, [isOpen, userId]);
+    }, [isOpen]);
+
+    const saveRetention = async (next: VersionRetention) => {
+        const res = await fetch('/api/settings/versions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(next)
+        });
+        const data = await res.json();
+        if (!res.ok || !data.success) throw new Error(data.message || 'Failed to save version retention');
+        setRetention(data.retention);
+        setRetentionDraft(data.retention);
+    };
+
+    const saveTrashDays = async (retentionDays: number) => {
+        const res = await fetch('/api/settings/trash', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ retentionDays })
+        });
+        const data = await res.json();
+        if (!res.ok || !data.success) throw new Error(data.message || 'Failed to save trash retention');
+        setTrashDays(data.retentionDays);
+        setTrashDaysDraft(data.retentionDays);
+    };
 
     const handleSave = async () => {
+        const drafts = Object.fromEntries(
+            Object.entries(keyDrafts).filter(([, value]) => value?.trim())
+        ) as Partial<Record<ApiKeyProvider, string>>;
+        const retentionChanged = retentionEditable && retentionDraft && retention &&
+            (retentionDraft.maxVersions !== retention.maxVersions || retentionDraft.maxAgeDays !== retention.maxAgeDays);
+        const trashDaysChanged = retentionEditable && trashDaysDraft !== null && trashDaysDraft !== trashDays;
+        const brandKitChanged = Boolean(brandKit?.editable && brandDraft && JSON.stringify(brandDraft) !== JSON.stringify(brandKit.kit));
+        if (Object.keys(drafts).length === 0 && !retentionChanged && !trashDaysChanged && !brandKitChanged) {
+            onClose();
+            return;
+        }
+
         setStatus('saving');
+        try {
+            if (Object.keys(drafts).length > 0) {
+                setKeyStatuses(await saveApiKeys(drafts));
+                setKeyDrafts({});
+                setKeyTests({});
+            }
+            if (retentionChanged && retentionDraft) await saveRetention(retentionDraft);
+            if (trashDaysChanged && trashDaysDraft !== null) await saveTrashDays(trashDaysDraft);
+            if (brandKitChanged && brandKit && brandDraft) {
+                const saved = await saveBrandKit(brandDraft);
+                setBrandKit({ ...brandKit, kit: saved });
+                setBrandDraft(saved);
+            }
+            setStatus('saved');
+            setTimeout(() => setStatus('idle'), 2000);
+        } catch (error) {
+            console.error('Failed to save settings:', error);
+            setStatus('error');
+        }
+    };
 
-        // 1. Save Local
-        localStorage.setItem(STORAGE_KEYS.MESHY_API_KEY, meshyKey);
-        localStorage.setItem(STORAGE_KEYS.TRIPO_API_KEY, tripoKey);
-        localStorage.setItem(STORAGE_KEYS.HITEMS_API_KEY, hitemsKey);
-        
-        localStorage.setItem(STORAGE_KEYS.STABILITY_API_KEY, stabilityKey);
-        localStorage.setItem(STORAGE_KEYS.OPENAI_API_KEY, openaiKey);
-        localStorage.setItem(STORAGE_KEYS.GOOGLE_API_KEY, googleKey);
-        localStorage.setItem(STORAGE_KEYS.BANANA_API_KEY, bananaKey);
-
-        // 2. Save Server (if logged in)
-        if (userId && userId !== 'Guest') {
-            try {
-                const keysToSave = {
-                    meshy: meshyKey,
-                    tripo: tripoKey,
-                    stability: stabilityKey,
-                    openai: openaiKey,
-                    google: googleKey,
-                    banana: bananaKey
-                };
-
-                const res = await fetch('/api/user/keys', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        userId: userId,
-                        keys: keysToSave
-                    })
-                });
+    const handleTestKey = async (provider: ApiKeyProvider) => {
+        const draft = keyDrafts[provider]?.trim();
+        setKeyTests((prev) => ({ ...prev, [provider]: { busy: true } }));
+        try {
+            const res = await fetch('/api/user/keys/test', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ provider, key: draft || undefined })
+            });
+            const data = await res.json();
+            if (!res.ok || !data.success) throw new Error(data.message || 'Test failed');
+            setKeyTests((prev) => ({ ...prev, [provider]: { busy: false, valid: data.valid, message: data.message } }));
+            // Results for the stored key are remembered by the server
+            if (!draft) setKeyStatuses(await fetchApiKeyStatuses());
+        } catch (error) {
+            setKeyTests((prev) => ({
+                ...prev,
+                [provider]: { busy: false, valid: null, message: error instanceof Error ? error.message : 'Test failed' }
+            }));
+        }
+    };
 
-                if (res.ok) {
-                    setSyncStatus('synced');
-                } else {
-                    console.error("Failed to save to server, status:", res.status);
-                    setSyncStatus('local');
-                }
-            } catch (e) {
-                console.error("Exception saving to server", e);
-                setSyncStatus('local');
-            }
+    const handleRemoveKey = async (provider: ApiKeyProvider) => {
+        try {
+            const res = await fetch(`/api/user/keys?provider=${encodeURIComponent(provider)}`, { method: 'DELETE' });
+            const data = await res.json();
+            if (!res.ok || !data.success) throw new Error(data.message || 'Failed to remove key');
+            setKeyStatuses(data.keys);
+            setKeyTests((prev) => ({ ...prev, [provider]: undefined }));
+        } catch (error) {
+            console.error('Failed to remove API key:', error);
+            setKeyTests((prev) => ({
+                ...prev,
+                [provider]: { busy: false, valid: null, message: error instanceof Error ? error.message : 'Failed to remove key' }
+            }));
         }
-        
-        setStatus('saved');
-        setTimeout(() => setStatus('idle'), 2000);
     };
 
-    // Helper to mask key for display if it comes from env (not implemented here per se, but good for UX)
-    // Here we just input what is in local storage.
+    const renderKeyField = (provider: ApiKeyProviderInfo) => {
+        const keyStatus = keyStatuses.find((item) => item.provider === provider.id);
+        const test = keyTests[provider.id];
+        const draft = keyDrafts[provider.id] ?? '';
+        const accent = provider.group === '3d'
+            ? 'focus:border-indigo-500 focus:ring-indigo-500'
+            : 'focus:border-pink-500 focus:ring-pink-500';
+        return (
+            <div key={provider.id} className="bg-secondary/20 p-3 rounded-lg border border-border/50 hover:bg-secondary/30 transition-colors">
+                <div className="flex justify-between items-center mb-1.5">
+                    <label className="text-xs font-semibold">{provider.label}</label>
+                    {provider.badge && (
+                        <span className="text-[10px] text-muted-foreground bg-secondary px-1.5 rounded">{provider.badge}</span>
+                    )}
+                </div>
+                {keyStatus?.configured && (
+                    <div className="flex items-center justify-between gap-2 mb-2 text-[11px]">
+                        <span className="font-mono text-muted-foreground truncate">{keyStatus.preview}</span>
+                        <span
+                            className={`shrink-0 flex items-center gap-1 ${
+                                keyStatus.valid === true ? 'text-green-500' : keyStatus.valid === false ? 'text-destructive' : 'text-muted-foreground'
+                            }`}
+                            title={keyStatus.validatedAt ? `Checked ${new Date(keyStatus.validatedAt).toLocaleString()}` : undefined}
+                        >
+                            {keyStatus.valid === true ? <CheckCircle2 size={12} /> : keyStatus.valid === false ? <XCircle size={12} /> : null}
+                            {keyStatus.valid === true ? 'Valid' : keyStatus.valid === false ? 'Rejected' : 'Not tested'}
+                        </span>
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    <input
+                        type="password"
+                        autoComplete="off"
+                        value={draft}
+                        onChange={(e) => setKeyDrafts((prev) => ({ ...prev, [provider.id]: e.target.value }))}
+                        placeholder={keyStatus?.configured ? 'Enter a new key to replace it' : provider.placeholder}
+                        className={`flex-1 min-w-0 h-9 px-3 rounded-md bg-background border border-border focus:ring-1 outline-none text-xs font-mono placeholder:font-sans ${accent}`}
+                    />
+                    <button
+                        onClick={() => handleTestKey(provider.id)}
+                        disabled={test?.busy || (!draft.trim() && !keyStatus?.configured)}
+                        className="px-2.5 h-9 text-[11px] font-semibold border border-border rounded-md hover:bg-secondary transition-colors flex items-center gap-1 disabled:opacity-50"
+                        title={draft.trim() ? 'Test the key you entered' : 'Test the saved key'}
+                    >
+                        {test?.busy ? <Loader2 size={12} className="animate-spin" /> : <ShieldCheck size={12} />}
+                        Test
+                    </button>
+                    {keyStatus?.configured && (
+                        <button
+                            onClick={() => handleRemoveKey(provider.id)}
+                            className="px-2 h-9 text-muted-foreground hover:text-destructive border border-border rounded-md hover:bg-secondary transition-colors"
+                            title="Remove saved key"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    )}
+                </div>
+                {test?.message && !test.busy && (
+                    <p className={`mt-1.5 text-[11px] ${test.valid === true ? 'text-green-500' : test.valid === false ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {test.message}
+                    </p>
+                )}
+            </div>
+        );
+    };
 
     const handleToggleLog = async () => {
         if (!isLogVisible) {
@@ -295,12 +411,10 @@ export default function SettingsModal({ isOpen, onClose, userId }: SettingsModal
                         <h2 className="text-lg font-bold">API Configurations</h2>
                         <div className="flex flex-col">
                              <p className="text-xs text-muted-foreground">Manage your keys for external AI services</p>
-                             {userId && userId !== 'Guest' && (
-                                 <span className={`text-[10px] flex items-center gap-1 mt-1 ${syncStatus === 'synced' ? 'text-green-500' : 'text-amber-500'}`}>
-                                     <Server size={10} />
-                                     {syncStatus === 'syncing' ? 'Syncing...' : syncStatus === 'synced' ? 'Synced with Account' : 'Local Storage Only'}
-                                 </span>
-                             )}
+                             <span className={`text-[10px] flex items-center gap-1 mt-1 ${vaultStatus === 'error' ? 'text-destructive' : 'text-green-500'}`}>
+                                 <Server size={10} />
+                                 {vaultStatus === 'loading' ? 'Loading...' : vaultStatus === 'error' ? 'Could not reach the key vault' : 'Encrypted on the server'}
+                             </span>
                         </div>
                     </div>
                 </div>
@@ -314,41 +428,7 @@ export default function SettingsModal({ isOpen, onClose, userId }: SettingsModal
                         </h4>
                         
                         <div className="grid gap-3">
-                            {/* Meshy */}
-                            <div className="bg-secondary/20 p-3 rounded-lg border border-border/50 hover:bg-secondary/30 transition-colors">
-                                <label className="text-xs font-semibold mb-1.5 block">Meshy AI</label>
-                                <input 
-                                    type="password"
-                                    value={meshyKey}
-                                    onChange={(e) => setMeshyKey(e.target.value)}
-                                    placeholder="Enter Meshy API Key"
-                                    className="w-full h-9 px-3 rounded-md bg-background border border-border focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none text-xs font-mono placeholder:font-sans"
-                                />
-                            </div>
-
-                            {/* Tripo */}
-                            <div className="bg-secondary/20 p-3 rounded-lg border border-border/50 hover:bg-secondary/30 transition-colors">
-                                <label className="text-xs font-semibold mb-1.5 block">Tripo AI</label>
-                                <input 
-                                    type="password"
-                                    value={tripoKey}
-                                    onChange={(e) => setTripoKey(e.target.value)}
-                                    placeholder="Enter Tripo API Key"
-                                    className="w-full h-9 px-3 rounded-md bg-background border border-border focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none text-xs font-mono placeholder:font-sans"
-                                />
-                            </div>
-
-                            {/* Hitems3D (Generic/Placeholder) */}
-                             <div className="bg-secondary/20 p-3 rounded-lg border border-border/50 hover:bg-secondary/30 transition-colors">
-                                <label className="text-xs font-semibold mb-1.5 block">Hitems3D / Hy3D</label>
-                                <input 
-                                    type="password"
-                                    value={hitemsKey}
-                                    onChange={(e) => setHitemsKey(e.target.value)}
-                                    placeholder="Enter API Key"
-                                    className="w-full h-9 px-3 rounded-md bg-background border border-border focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none text-xs font-mono placeholder:font-sans"
-                                />
-                            </div>
+                            {API_KEY_PROVIDERS.filter((provider) => provider.group === '3d').map(renderKeyField)}
                         </div>
                     </div>
 
@@ -362,72 +442,14 @@ export default function SettingsModal({ isOpen, onClose, userId }: SettingsModal
                         </h4>
                         
                         <div className="grid gap-3">
-                            {/* Stability AI */}
-                            <div className="bg-secondary/20 p-3 rounded-lg border border-border/50 hover:bg-secondary/30 transition-colors">
-                                <div className="flex justify-between mb-1.5">
-                                    <label className="text-xs font-semibold">Stability AI</label>
-                                    <span className="text-[10px] text-muted-foreground bg-secondary px-1.5 rounded">SD3 / Core</span>
-                                </div>
-                                <input 
-                                    type="password"
-                                    value={stabilityKey}
-                                    onChange={(e) => setStabilityKey(e.target.value)}
-                                    placeholder="sk-..."
-                                    className="w-full h-9 px-3 rounded-md bg-background border border-border focus:border-pink-500 focus:ring-1 focus:ring-pink-500 outline-none text-xs font-mono placeholder:font-sans"
-                                />
-                            </div>
-
-                            {/* OpenAI */}
-                             <div className="bg-secondary/20 p-3 rounded-lg border border-border/50 hover:bg-secondary/30 transition-colors">
-                                <div className="flex justify-between mb-1.5">
-                                    <label className="text-xs font-semibold">OpenAI</label>
-                                    <span className="text-[10px] text-muted-foreground bg-secondary px-1.5 rounded">DALL-E 3</span>
-                                </div>
-                                <input 
-                                    type="password"
-                                    value={openaiKey}
-                                    onChange={(e) => setOpenaiKey(e.target.value)}
-                                    placeholder="sk-..."
-                                    className="w-full h-9 px-3 rounded-md bg-background border border-border focus:border-pink-500 focus:ring-1 focus:ring-pink-500 outline-none text-xs font-mono placeholder:font-sans"
-                                />
-                            </div>
-
-                            {/* Google Nano */}
-                            <div className="bg-secondary/20 p-3 rounded-lg border border-border/50 hover:bg-secondary/30 transition-colors">
-                                <div className="flex justify-between mb-1.5">
-                                    <label className="text-xs font-semibold">Google Gemini / Vertex</label>
-                                    <span className="text-[10px] text-muted-foreground bg-secondary px-1.5 rounded">Nano / Imagen</span>
-                                </div>
-                                <input 
-                                    type="password"
-                                    value={googleKey}
-                                    onChange={(e) => setGoogleKey(e.target.value)}
-                                    placeholder="Enter API Key"
-                                    className="w-full h-9 px-3 rounded-md bg-background border border-border focus:border-pink-500 focus:ring-1 focus:ring-pink-500 outline-none text-xs font-mono placeholder:font-sans"
-                                />
-                            </div>
-
-                             {/* Banana.dev */}
-                            <div className="bg-secondary/20 p-3 rounded-lg border border-border/50 hover:bg-secondary/30 transition-colors">
-                                <div className="flex justify-between mb-1.5">
-                                    <label className="text-xs font-semibold">Banana.dev</label>
-                                    <span className="text-[10px] text-muted-foreground bg-secondary px-1.5 rounded">GPU Cloud</span>
-                                </div>
-                                <input 
-                                    type="password"
-                                    value={bananaKey}
-                                    onChange={(e) => setBananaKey(e.target.value)}
-                                    placeholder="Enter API Key"
-                                    className="w-full h-9 px-3 rounded-md bg-background border border-border focus:border-pink-500 focus:ring-1 focus:ring-pink-500 outline-none text-xs font-mono placeholder:font-sans"
-                                />
-                            </div>
+                            {API_KEY_PROVIDERS.filter((provider) => provider.group === 'image').map(renderKeyField)}
                         </div>
                     </div>
 
                     <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md flex items-start gap-3">
                         <AlertCircle size={16} className="text-yellow-500 shrink-0 mt-0.5" />
                         <p className="text-xs text-muted-foreground">
-                            Keys are stored locally in your browser. We never transmit them to our servers, only directly to the AI providers.
+                            Keys are encrypted and stored on the server with your account. They are never sent back to the browser; AI requests are made by the server on your behalf.
                         </p>
                     </div>
 
@@ -568,6 +590,114 @@ export default function SettingsModal({ isOpen, onClose, userId }: SettingsModal
                         )}
                     </div>
 
+                    <div className="border-t border-border/40 pt-4 space-y-3">
+                        <div className="flex items-center justify-between gap-4">
+                            <div>
+                                <h4 className="text-sm font-semibold flex items-center gap-2">
+                                    <Timer size={16} className="text-primary" />
+                                    Autosave
+                                </h4>
+                                <p className="text-[11px] text-muted-foreground">
+                                    Unsaved changes are copied to a recovery slot in the background and offered on the dashboard after a crash. Your saved design is not touched.
+                                </p>
+                            </div>
+                            <select
+                                value={autosaveInterval}
+                                onChange={(event) => {
+                                    const value = Number(event.target.value);
+                                    setAutosaveInterval(value);
+                                    saveAutosaveInterval(value);
+                                }}
+                                className="h-9 px-2 rounded-md bg-background border border-border focus:border-primary outline-none text-xs shrink-0"
+                            >
+                                {[...new Set([...AUTOSAVE_INTERVAL_OPTIONS, autosaveInterval])].sort((a, b) => a - b).map((option) => (
+                                    <option key={option} value={option}>{describeAutosaveInterval(option)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {retentionDraft && (
+                        <div className="border-t border-border/40 pt-4 space-y-3">
+                            <div>
+                                <h4 className="text-sm font-semibold flex items-center gap-2">
+                                    <History size={16} className="text-primary" />
+                                    Version History
+                                </h4>
+                                <p className="text-[11px] text-muted-foreground">
+                                    Older versions beyond these limits are removed the next time a design is saved. Labelled versions are always kept. Use 0 for no limit.
+                                </p>
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                {([
+                                    ['maxVersions', 'Versions per design'],
+                                    ['maxAgeDays', 'Keep for (days)'],
+                                ] as const).map(([field, label]) => (
+                                    <div key={field} className="space-y-1">
+                                        <label className="text-xs font-semibold block">{label}</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={retentionDraft[field]}
+                                            disabled={!retentionEditable}
+                                            onChange={(event) => {
+                                                const value = Math.max(0, Math.floor(Number(event.target.value) || 0));
+                                                setRetentionDraft((prev) => prev && { ...prev, [field]: value });
+                                            }}
+                                            className="w-full h-9 px-3 rounded-md bg-background border border-border focus:border-primary focus:ring-1 focus:ring-primary outline-none text-xs disabled:opacity-60"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            {!retentionEditable && (
+                                <p className="text-[11px] text-muted-foreground">Only administrators can change these limits.</p>
+                            )}
+                        </div>
+                    )}
+
+                    {trashDaysDraft !== null && (
+                        <div className="border-t border-border/40 pt-4 space-y-3">
+                            <div className="flex items-center justify-between gap-4">
+                                <div>
+                                    <h4 className="text-sm font-semibold flex items-center gap-2">
+                                        <Trash2 size={16} className="text-primary" />
+                                        Trash
+                                    </h4>
+                                    <p className="text-[11px] text-muted-foreground">
+                                        Deleted designs, templates and assets are purged after this many days. Use 0 to keep them until the trash is emptied.
+                                    </p>
+                                </div>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={trashDaysDraft}
+                                    disabled={!retentionEditable}
+                                    onChange={(event) => setTrashDaysDraft(Math.max(0, Math.floor(Number(event.target.value) || 0)))}
+                                    className="w-24 h-9 px-3 rounded-md bg-background border border-border focus:border-primary focus:ring-1 focus:ring-primary outline-none text-xs disabled:opacity-60 shrink-0"
+                                    title={retentionEditable ? 'Days to keep deleted items' : 'Only administrators can change this'}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {brandKit && brandDraft && (
+                        <div className="border-t border-border/40 pt-4 space-y-3">
+                            <div>
+                                <h4 className="text-sm font-semibold flex items-center gap-2">
+                                    <Palette size={16} className="text-primary" />
+                                    {brandKit.space === 'team' ? 'Team Brand Kit' : 'Brand Kit'}
+                                </h4>
+                                <p className="text-[11px] text-muted-foreground">
+                                    Palettes show up in every colour picker, approved fonts and text styles in the text panel. Use Brand in the editor to place logos and check a design against the kit.
+                                </p>
+                            </div>
+                            <BrandKitSettings kit={brandDraft} space={brandKit.space} editable={brandKit.editable} onChange={setBrandDraft} />
+                            {!brandKit.editable && (
+                                <p className="text-[11px] text-muted-foreground">Only administrators can change the team brand kit.</p>
+                            )}
+                        </div>
+                    )}
+
                     <div className="border-t border-border/40 pt-4">
                         <button 
                             onClick={handleToggleLog}
@@ -599,10 +729,11 @@ export default function SettingsModal({ isOpen, onClose, userId }: SettingsModal
                     </button>
                     <button 
                         onClick={handleSave}
+                        disabled={status === 'saving'}
                         className="px-4 py-2 text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 rounded-lg shadow-lg shadow-primary/20 flex items-center gap-2 transition-all"
                     >
-                        {status === 'saved' ? 'Saved!' : 'Save Configurations'}
-                        {status !== 'saved' && <Save size={16} />}
+                        {status === 'saving' ? 'Saving...' : status === 'saved' ? 'Saved!' : status === 'error' ? 'Save Failed - Retry' : 'Save Configurations'}
+                        {status === 'saving' ? <Loader2 size={16} className="animate-spin" /> : status !== 'saved' && <Save size={16} />}
                     </button>
                 </div>
                 
@@ -615,19 +746,3 @@ export default function SettingsModal({ isOpen, onClose, userId }: SettingsModal
         </div>
     );
 }
-
-// Utility to get the key from anywhere
-export const getApiKey = (provider: 'meshy' | 'tripo' | 'hitems') => {
-    if (typeof window === 'undefined') return '';
-    
-    switch (provider) {
-        case 'meshy':
-             return localStorage.getItem(STORAGE_KEYS.MESHY_API_KEY) || process.env.NEXT_PUBLIC_MESHY_API_KEY || '';
-        case 'tripo':
-             return localStorage.getItem(STORAGE_KEYS.TRIPO_API_KEY) || '';
-        case 'hitems':
-             return localStorage.getItem(STORAGE_KEYS.HITEMS_API_KEY) || '';
-        default:
-            return '';
-    }
-};
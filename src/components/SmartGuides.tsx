@@ -0,0 +1,226 @@
+import { useEffect } from 'react';
+import * as fabric from 'fabric';
+import { ArtboardInfo, GridType, getGridLines } from '@/components/GridOverlay';
+import { ExtendedFabricObject } from '@/types';
+import { isArtboardObject } from '@/lib/artboards';
+import {
+  Box,
+  Edge,
+  SnapGuide,
+  SpacingHint,
+  collectGuides,
+  collectSnapTargets,
+  computeMoveSnap,
+  computeResizeSnap,
+} from '@/lib/snapping';
+
+type CanvasWithArtboard = fabric.Canvas & { artboard?: ArtboardInfo };
+
+interface SmartGuidesProps {
+  canvas: fabric.Canvas | null;
+  gridType: GridType;
+  enabled: boolean;
+  threshold: number;
+  color?: string;
+}
+
+const toBox = (obj: fabric.Object): Box => {
+  const rect = obj.getBoundingRect();
+  return { left: rect.left, top: rect.top, width: rect.width, height: rect.height };
+};
+
+// Which edge of the bounding box a resize handle drags (tl, mr, bl, ...)
+const handleEdges = (corner: string): { x: Edge | null; y: Edge | null } => {
+  const x = corner.includes('l') ? 'start' : corner.includes('r') ? 'end' : null;
+  const y = corner.startsWith('t') || corner === 'mt' ? 'start' : corner.startsWith('b') || corner === 'mb' ? 'end' : null;
+  return { x, y };
+};
+
+/**
+ * Snaps dragged and resized objects to the artboard, other objects, equal spacing and the active grid,
+ * drawing magenta guides with distance labels while the transform is in progress.
+ * Hold Ctrl/Cmd while dragging to move freely.
+ */
+export const SmartGuides = ({ canvas, gridType, enabled, threshold, color = '#ff00ff' }: SmartGuidesProps) => {
+  useEffect(() => {
+    if (!canvas || !enabled) return;
+
+    let guides: SnapGuide[] = [];
+    let spacings: SpacingHint[] = [];
+
+    const getContext = (target: fabric.Object) => {
+      const extendedCanvas = canvas as CanvasWithArtboard;
+      const moving = target instanceof fabric.ActiveSelection ? target.getObjects() : [target];
+      const others = canvas.getObjects()
+        .filter((obj) => !isArtboardObject(obj) && !moving.includes(obj))
+        .filter((obj) => obj.visible !== false && !(obj as ExtendedFabricObject).isAdjustmentLayer)
+        .map(toBox);
+      const artboard = extendedCanvas.artboard ?? null;
+      const grid = artboard ? getGridLines(gridType, artboard) : { vertical: [], horizontal: [] };
+      return { others, targets: collectSnapTargets(artboard, others, grid) };
+    };
+
+    // Threshold is in screen pixels so snapping feels the same at every zoom level
+    const sceneThreshold = () => threshold / (canvas.getZoom() || 1);
+
+    const handleMoving = (e: { target: fabric.Object; e: Event }) => {
+      const evt = e.e as MouseEvent;
+      if (evt.ctrlKey || evt.metaKey) {
+        guides = [];
+        spacings = [];
+        return;
+      }
+      const target = e.target;
+      const { others, targets } = getContext(target);
+      const result = computeMoveSnap(toBox(target), targets, others, sceneThreshold());
+
+      if (result.dx || result.dy) {
+        target.set({ left: (target.left ?? 0) + result.dx, top: (target.top ?? 0) + result.dy });
+        target.setCoords();
+      }
+      guides = result.guides;
+      spacings = result.spacings;
+    };
+
+    const handleScaling = (e: { target: fabric.Object; e: Event; transform?: { corner?: string } }) => {
+      const evt = e.e as MouseEvent;
+      const target = e.target;
+      const corner = e.transform?.corner ?? '';
+      // Bounding-box snapping only makes sense while the box is axis-aligned
+      if (evt.ctrlKey || evt.metaKey || !corner || (target.angle ?? 0) % 180 !== 0) {
+        guides = [];
+        spacings = [];
+        return;
+      }
+
+      const edges = handleEdges(corner);
+      const { targets } = getContext(target);
+      const before = toBox(target);
+      const result = computeResizeSnap(before, targets, edges.x, edges.y, sceneThreshold());
+
+      if (result.dx || result.dy) {
+        const ratioX = edges.x ? (before.width + (edges.x === 'end' ? result.dx : -result.dx)) / before.width : 1;
+        const ratioY = edges.y ? (before.height + (edges.y === 'end' ? result.dy : -result.dy)) / before.height : 1;
+        const isCorner = !!edges.x && !!edges.y;
+        const proportional = isCorner && (canvas.uniformScaling ? !evt.shiftKey : evt.shiftKey);
+
+        if (proportional) {
+          // Keep the aspect ratio: follow whichever axis snapped with the smaller correction
+          const useX = result.dx && (!result.dy || Math.abs(result.dx) <= Math.abs(result.dy));
+          const ratio = useX ? ratioX : ratioY;
+          target.set({ scaleX: (target.scaleX ?? 1) * ratio, scaleY: (target.scaleY ?? 1) * ratio });
+        } else {
+          target.set({ scaleX: (target.scaleX ?? 1) * ratioX, scaleY: (target.scaleY ?? 1) * ratioY });
+        }
+        target.setCoords();
+
+        // Pin the edge opposite the handle so only the dragged edge moves
+        const after = toBox(target);
+        const shiftX = edges.x === 'start' ? (before.left + before.width) - (after.left + after.width) : before.left - after.left;
+        const shiftY = edges.y === 'start' ? (before.top + before.height) - (after.top + after.height) : before.top - after.top;
+        target.set({ left: (target.left ?? 0) + shiftX, top: (target.top ?? 0) + shiftY });
+        target.setCoords();
+      }
+
+      guides = collectGuides(toBox(target), targets, edges.x ? [edges.x] : [], edges.y ? [edges.y] : []);
+      spacings = [];
+    };
+
+    const clearGuides = () => {
+      if (guides.length === 0 && spacings.length === 0) return;
+      guides = [];
+      spacings = [];
+      canvas.requestRenderAll();
+    };
+
+    const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, zoom: number) => {
+      const fontSize = 11 / zoom;
+      ctx.font = `600 ${fontSize}px sans-serif`;
+      const padding = 3 / zoom;
+      const width = ctx.measureText(text).width + padding * 2;
+      const height = fontSize + padding * 2;
+      ctx.fillStyle = color;
+      ctx.fillRect(x - width / 2, y - height / 2, width, height);
+      ctx.fillStyle = '#ffffff';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(text, x, y);
+    };
+
+    const drawGuides = (opt: { ctx: CanvasRenderingContext2D }) => {
+      if (guides.length === 0 && spacings.length === 0) return;
+      const ctx = opt.ctx;
+      const vpt = canvas.viewportTransform || [1, 0, 0, 1, 0, 0];
+      const zoom = Math.max(vpt[0], 0.01);
+
+      ctx.save();
+      ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5]);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1 / zoom;
+
+      guides.forEach((guide) => {
+        ctx.beginPath();
+        if (guide.orientation === 'vertical') {
+          ctx.moveTo(guide.position, guide.start);
+          ctx.lineTo(guide.position, guide.end);
+        } else {
+          ctx.moveTo(guide.start, guide.position);
+          ctx.lineTo(guide.end, guide.position);
+        }
+        ctx.stroke();
+
+        if (guide.distance) {
+          const mid = (guide.distance.from + guide.distance.to) / 2;
+          const label = `${Math.round(guide.distance.to - guide.distance.from)}`;
+          if (guide.orientation === 'vertical') drawLabel(ctx, label, guide.position, mid, zoom);
+          else drawLabel(ctx, label, mid, guide.position, zoom);
+        }
+      });
+
+      spacings.forEach((hint) => {
+        const tick = 4 / zoom;
+        ctx.beginPath();
+        if (hint.orientation === 'horizontal') {
+          ctx.moveTo(hint.from, hint.cross);
+          ctx.lineTo(hint.to, hint.cross);
+          ctx.moveTo(hint.from, hint.cross - tick);
+          ctx.lineTo(hint.from, hint.cross + tick);
+          ctx.moveTo(hint.to, hint.cross - tick);
+          ctx.lineTo(hint.to, hint.cross + tick);
+        } else {
+          ctx.moveTo(hint.cross, hint.from);
+          ctx.lineTo(hint.cross, hint.to);
+          ctx.moveTo(hint.cross - tick, hint.from);
+          ctx.lineTo(hint.cross + tick, hint.from);
+          ctx.moveTo(hint.cross - tick, hint.to);
+          ctx.lineTo(hint.cross + tick, hint.to);
+        }
+        ctx.stroke();
+
+        const mid = (hint.from + hint.to) / 2;
+        const label = `${Math.round(hint.to - hint.from)}`;
+        if (hint.orientation === 'horizontal') drawLabel(ctx, label, mid, hint.cross, zoom);
+        else drawLabel(ctx, label, hint.cross, mid, zoom);
+      });
+
+      ctx.restore();
+    };
+
+    canvas.on('object:moving', handleMoving);
+    canvas.on('object:scaling', handleScaling);
+    canvas.on('mouse:up', clearGuides);
+    canvas.on('selection:cleared', clearGuides);
+    canvas.on('after:render', drawGuides);
+
+    return () => {
+      canvas.off('object:moving', handleMoving);
+      canvas.off('object:scaling', handleScaling);
+      canvas.off('mouse:up', clearGuides);
+      canvas.off('selection:cleared', clearGuides);
+      canvas.off('after:render', drawGuides);
+      canvas.requestRenderAll();
+    };
+  }, [canvas, gridType, enabled, threshold, color]);
+
+  return null;
+};
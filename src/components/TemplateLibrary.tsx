@@ -1,49 +1,59 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { LayoutTemplate, Plus, Loader2, Trash2 } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { LayoutTemplate, Plus, Loader2, Trash2, Users } from 'lucide-react';
 import Image from 'next/image';
 import { useDialog } from '@/providers/DialogProvider';
 import { useToast } from '@/providers/ToastProvider';
 import DraggableResizablePanel from '@/components/ui/DraggableResizablePanel';
+import TrashModal from '@/components/TrashModal';
+import { cn } from '@/lib/utils';
+import { WorkspaceSpace } from '@/types';
 
 interface Template {
     id: string;
     name: string;
     path: string; // URL to json
     image: string; // URL to thumbnail
+    space?: WorkspaceSpace;
 }
 
 interface TemplateLibraryProps {
     onSelect: (templateDataUrl: string) => void;
     onSaveCurrent: () => void;
     onClose: () => void;
+    /** Personal or team templates; "Save Current" saves into the same space */
+    space: WorkspaceSpace;
+    onSpaceChange: (space: WorkspaceSpace) => void;
 }
 
-export default function TemplateLibrary({ onSelect, onSaveCurrent, onClose }: TemplateLibraryProps) {
+export default function TemplateLibrary({ onSelect, onSaveCurrent, onClose, space, onSpaceChange }: TemplateLibraryProps) {
     const [templates, setTemplates] = useState<Template[]>([]);
+    const [availableSpaces, setAvailableSpaces] = useState<WorkspaceSpace[]>(['personal']);
     const [isLoading, setIsLoading] = useState(false);
+    const [isTrashOpen, setIsTrashOpen] = useState(false);
     const dialog = useDialog();
     const { toast } = useToast();
 
-    const fetchTemplates = async () => {
+    const fetchTemplates = useCallback(async () => {
         setIsLoading(true);
         try {
-            const res = await fetch('/api/templates/list');
+            const res = await fetch(`/api/templates/list?space=${space}`);
             const data = await res.json();
             if (data.success) {
                 setTemplates(data.templates);
+                if (Array.isArray(data.spaces)) setAvailableSpaces(data.spaces as WorkspaceSpace[]);
             }
         } catch (error) {
             console.error("Failed to load templates", error);
         } finally {
             setIsLoading(false);
         }
-    };
+    }, [space]);
 
     const handleDelete = async (e: React.MouseEvent, templatePath: string) => {
         e.stopPropagation();
-        const confirmed = await dialog.confirm('Delete this template?', { title: 'Delete Template', variant: 'destructive' });
+        const confirmed = await dialog.confirm('Move this template to the trash? It can be restored from there.', { title: 'Delete Template', variant: 'destructive' });
         if (!confirmed) return;
 
         try {
@@ -65,9 +75,10 @@ export default function TemplateLibrary({ onSelect, onSaveCurrent, onClose }: Te
 
     useEffect(() => {
         fetchTemplates();
-    }, []);
+    }, [fetchTemplates]);
 
     return (
+        <>
         <DraggableResizablePanel
             className="bg-card border border-border rounded-lg shadow-xl overflow-hidden animate-in fade-in slide-in-from-left-4 duration-200"
             initialPosition={{ x: 80, y: 320 }}
@@ -91,6 +102,24 @@ export default function TemplateLibrary({ onSelect, onSaveCurrent, onClose }: Te
                 </button>
             </div>
 
+            {availableSpaces.includes('team') && (
+                <div className="flex p-2 gap-1 border-b border-border/50">
+                    {(['personal', 'team'] as WorkspaceSpace[]).map((item) => (
+                        <button
+                            key={item}
+                            onClick={() => onSpaceChange(item)}
+                            className={cn(
+                                "flex-1 flex items-center justify-center gap-1 py-1.5 text-xs font-medium rounded-md transition-colors",
+                                space === item ? "bg-primary/10 text-primary" : "hover:bg-secondary text-muted-foreground"
+                            )}
+                        >
+                            {item === 'team' && <Users size={12} />}
+                            {item === 'team' ? 'Team' : 'My Templates'}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {/* List */}
             <div className="flex-1 overflow-y-auto p-3">
                 {isLoading ? (
@@ -136,7 +165,13 @@ export default function TemplateLibrary({ onSelect, onSaveCurrent, onClose }: Te
             </div>
 
             {/* Footer */}
-            <div className="p-3 border-t border-border bg-secondary/5 flex justify-end">
+            <div className="p-3 border-t border-border bg-secondary/5 flex justify-between">
+                <button
+                    onClick={() => setIsTrashOpen(true)}
+                    className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+                >
+                    <Trash2 size={12} /> Trash
+                </button>
                 <button 
                     onClick={onClose}
                     className="text-xs text-muted-foreground hover:text-foreground"
@@ -145,5 +180,12 @@ export default function TemplateLibrary({ onSelect, onSaveCurrent, onClose }: Te
                 </button>
             </div>
         </DraggableResizablePanel>
+        <TrashModal
+            isOpen={isTrashOpen}
+            onClose={() => setIsTrashOpen(false)}
+            initialKind="template"
+            onRestored={(item) => { if (item.kind === 'template') fetchTemplates(); }}
+        />
+        </>
     );
 }
@@ -0,0 +1,85 @@
+import { useEffect } from 'react';
+import * as fabric from 'fabric';
+import { FittedTextbox, getTextFit } from '@/lib/text-fit';
+
+interface TextOverflowBadgesProps {
+  canvas: fabric.Canvas | null;
+  color?: string;
+}
+
+const BADGE_RADIUS = 8;
+
+const collectOverflowing = (objects: fabric.Object[], found: fabric.Textbox[] = []) => {
+  objects.forEach((obj) => {
+    if (!obj.visible) return;
+    if (obj instanceof fabric.Textbox && (obj as FittedTextbox).textOverflow) found.push(obj);
+    if (obj instanceof fabric.Group) collectOverflowing(obj.getObjects(), found);
+  });
+  return found;
+};
+
+/**
+ * Marks text boxes whose text does not fit with a badge at their top right corner, and outlines
+ * the fixed box of the selected text box, which can be smaller than the text it holds.
+ */
+export const TextOverflowBadges = ({ canvas, color = '#ef4444' }: TextOverflowBadgesProps) => {
+  useEffect(() => {
+    if (!canvas) return;
+
+    const drawBadges = (opt: { ctx: CanvasRenderingContext2D }) => {
+      const ctx = opt.ctx;
+      const vpt = canvas.viewportTransform || [1, 0, 0, 1, 0, 0];
+      const toScreen = (point: fabric.Point) => fabric.util.transformPoint(point, vpt);
+
+      ctx.save();
+
+      const active = canvas.getActiveObject();
+      const fit = getTextFit(active);
+      if (active && fit?.width !== undefined && fit.height !== undefined) {
+        // The box in the text's own plane, from its top left corner
+        const matrix = active.calcTransformMatrix();
+        const left = -active.width / 2;
+        const top = -active.height / 2;
+        const corners = [[0, 0], [fit.width, 0], [fit.width, fit.height], [0, fit.height]]
+          .map(([x, y]) => toScreen(fabric.util.transformPoint(new fabric.Point(left + x, top + y), matrix)));
+        ctx.beginPath();
+        corners.forEach((corner, i) => (i === 0 ? ctx.moveTo(corner.x, corner.y) : ctx.lineTo(corner.x, corner.y)));
+        ctx.closePath();
+        ctx.setLineDash([4, 4]);
+        ctx.lineWidth = 1;
+        ctx.strokeStyle = (active as FittedTextbox).textOverflow ? color : 'rgba(0, 163, 255, 0.8)';
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      collectOverflowing(canvas.getObjects()).forEach((text) => {
+        const [, topRight] = text.getCoords();
+        const { x, y } = toScreen(topRight);
+        ctx.beginPath();
+        ctx.arc(x, y, BADGE_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = color;
+        ctx.fill();
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = '#ffffff';
+        ctx.stroke();
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 11px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('!', x, y + 0.5);
+      });
+
+      ctx.restore();
+    };
+
+    canvas.on('after:render', drawBadges);
+    canvas.requestRenderAll();
+
+    return () => {
+      canvas.off('after:render', drawBadges);
+      canvas.requestRenderAll();
+    };
+  }, [canvas, color]);
+
+  return null;
+};
@@ -6,8 +6,8 @@ import { OrbitControls, Stage, useGLTF, ContactShadows } from '@react-three/drei
 import * as THREE from 'three';
 import { Loader2, Plus, RotateCw, Box, Settings2, Sun } from 'lucide-react';
 import * as fabric from 'fabric';
-import { getApiKey } from './SettingsModal';
-import { BackgroundJob } from '@/types';
+import { ApiKeyProvider, BackgroundJob } from '@/types';
+import { fetchApiKeyStatuses, getConfiguredProviders, saveApiKeys } from '@/lib/api-keys';
 import { useDialog } from '@/providers/DialogProvider';
 import { useToast } from '@/providers/ToastProvider';
 
@@ -116,55 +116,59 @@ export default function ThreeDGenerator({ onAddToCanvas, onClose, initialImage,
         }
     }, []);
 
-    // Check for key when provider changes
+    // Check the vault for a key when the provider changes
     useEffect(() => {
-        if (typeof window === 'undefined') return;
-        const key = localStorage.getItem(`${selectedProvider}_api_key`);
-        const hasKey = !!key;
-        // eslint-disable-next-line
-        setHasSavedKey(prev => prev !== hasKey ? hasKey : prev);
-        setApiKey(''); // Clear manual input on switch
+        let cancelled = false;
+        fetchApiKeyStatuses()
+            .then((statuses) => {
+                if (!cancelled) setHasSavedKey(getConfiguredProviders(statuses).has(selectedProvider as ApiKeyProvider));
+            })
+            .catch((error) => console.error('Failed to load API key status', error));
+        return () => {
+            cancelled = true;
+        };
     }, [selectedProvider]);
 
-    const getSelectedKey = () => {
-         // Should use the centralized util to check params too if needed, but direct localstorage is fine here
-         // Need to match STORAGE_KEYS from SettingsModal:
-         // MESHY_API_KEY: 'meshy_api_key'
-         // TRIPO_API_KEY: 'tripo_api_key'
-         return localStorage.getItem(`${selectedProvider}_api_key`) || apiKey;
-    };
-
     const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         setSelectedProvider(e.target.value);
+        setApiKey(''); // Clear manual input on switch
         localStorage.setItem('image-express-3d-provider', e.target.value);
     };
 
     const handleGenerate = async () => {
-        let key = getSelectedKey();
-        if (!key) {
-            toast({
-                title: 'Missing API key',
-                description: `Configure API key for ${selectedProvider}.`,
-                variant: 'warning'
-            });
-            return;
+        if (!hasSavedKey) {
+            // Sanitize: Remove 'Bearer', quotes, and surrounding whitespace
+            const key = apiKey.replace(/Bearer /gi, '').replace(/["']/g, '').trim();
+            if (!key) {
+                toast({
+                    title: 'Missing API key',
+                    description: `Configure API key for ${selectedProvider}.`,
+                    variant: 'warning'
+                });
+                return;
+            }
+            // Quick-input keys go to the vault like any other; the proxy reads them from there
+            try {
+                await saveApiKeys({ [selectedProvider as ApiKeyProvider]: key });
+                setHasSavedKey(true);
+                setApiKey('');
+            } catch (e) {
+                toast({ title: 'Could not save API key', description: e instanceof Error ? e.message : 'Unknown error', variant: 'destructive' });
+                return;
+            }
         }
 
-        // Sanitize Globally: Remove 'Bearer', quotes, and surrounding whitespace
-        key = key.replace(/Bearer /gi, '').replace(/["']/g, '').trim();
-        
         console.log(`[ThreeDGenerator] Generating with provider: ${selectedProvider}`);
-        console.log(`[ThreeDGenerator] Key prefix: ${key.substring(0, 5)}... (${key.length} chars)`);
 
         setIsLoading(true);
 
         try {
             // ... Logic branches based on Provider ...
             if (selectedProvider === 'meshy') {
-                await generateMeshy(key);
+                await generateMeshy();
             } else if (selectedProvider === 'tripo') {
                  // Tripo Integration
-                 await generateTripo(key);
+                 await generateTripo();
             } else {
                   toast({ title: 'Coming soon', description: 'Service integration in progress.', variant: 'warning' });
                  setIsLoading(false);
@@ -175,7 +179,7 @@ export default function ThreeDGenerator({ onAddToCanvas, onClose, initialImage,
         }
     };
 
-    const generateMeshy = async (key: string) => {
+    const generateMeshy = async () => {
         // reuse existing logic but wrapped
          let body: Record<string, unknown> = {};
             let endpoint = '';
@@ -214,7 +218,6 @@ export default function ThreeDGenerator({ onAddToCanvas, onClose, initialImage,
             const res = await fetch(`/api/ai/meshy?endpoint=${endpoint}`, {
                 method: 'POST',
                 headers: {
-                    'Authorization': `Bearer ${key}`,
                     'Content-Type': 'application/json'
                 },
                 body: JSON.stringify(body)
@@ -232,8 +235,7 @@ export default function ThreeDGenerator({ onAddToCanvas, onClose, initialImage,
                         provider: 'meshy',
                         status: 'IN_PROGRESS',
                         prompt: mode === 'text' ? prompt : 'Image to 3D',
-                        createdAt: Date.now(),
-                        apiKey: key // Store key with job to poll correctly
+                        createdAt: Date.now()
                     });
                 }
             } else {
@@ -247,7 +249,7 @@ export default function ThreeDGenerator({ onAddToCanvas, onClose, initialImage,
             }
     };
 
-    const generateTripo = async (key: string) => {
+    const generateTripo = async () => {
         let body: Record<string, unknown> = {};
         
         if (mode === 'text') {
@@ -284,9 +286,6 @@ export default function ThreeDGenerator({ onAddToCanvas, onClose, initialImage,
                     // Upload
                     const uploadRes = await fetch('/api/ai/tripo/upload', {
                         method: 'POST',
-                        headers: {
-                            'Authorization': `Bearer ${key}`
-                        },
                         body: formData
                     });
 
@@ -340,7 +339,6 @@ export default function ThreeDGenerator({ onAddToCanvas, onClose, initialImage,
         const res = await fetch(`/api/ai/tripo`, {
             method: 'POST',
             headers: {
-                'Authorization': `Bearer ${key}`,
                 'Content-Type': 'application/json'
             },
             body: JSON.stringify(body)
@@ -356,8 +354,7 @@ export default function ThreeDGenerator({ onAddToCanvas, onClose, initialImage,
                     provider: 'tripo',
                     status: 'IN_PROGRESS',
                     prompt: mode === 'text' ? prompt : 'Image to 3D',
-                    createdAt: Date.now(),
-                    apiKey: key
+                    createdAt: Date.now()
                 });
             }
         } else {
@@ -1,14 +1,19 @@
 'use client';
 import { useEffect, useState, useRef } from 'react';
 import * as fabric from 'fabric';
-import { Type, Square, Image as ImageIcon, LayoutTemplate, Shapes, Circle, Triangle, Star, Move, Layers, Box, Wand2, PaintBucket, Brush, Blend } from 'lucide-react';
+import { Type, Square, Image as ImageIcon, LayoutTemplate, Shapes, Circle, Triangle, Star, Move, Layers, Box, Wand2, PaintBucket, Brush, Blend, Component, Palette } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { StarPolygon, ThreeDGroup, ExtendedFabricObject, AdjustmentLayerType } from '@/types';
+import { StarPolygon, ThreeDGroup, ExtendedFabricObject, AdjustmentLayerType, WorkspaceSpace } from '@/types';
 import AssetLibrary from './AssetLibrary';
 import TemplateLibrary from './TemplateLibrary';
+import ComponentLibrary from './ComponentLibrary';
+import BrandPanel from './BrandPanel';
 import InputModal from './InputModal';
 import ImageGeneratorModal from './ImageGeneratorModal';
 import { useToast } from '@/providers/ToastProvider';
+import { restoreArtboards } from '@/lib/artboards';
+import { describeDesignProblems, prepareDesign, serializeDesign } from '@/lib/design-schema';
+import { getFontFamilyName, loadDesignFonts, refreshFontUsers, registerFont } from '@/lib/fonts';
 
 /**
  * Toolbar
@@ -20,11 +25,10 @@ interface ToolbarProps {
     activeTool: string;
     setActiveTool: (tool: string) => void;
     onOpen3DEditor?: (url: string) => void;
-    apiKeys?: { stability?: string };
 }
 
 type CanvasWithArtboard = fabric.Canvas & {
-    artboard?: { width: number; height: number };
+    artboard?: { width: number; height: number; left?: number; top?: number };
 };
 
 const getStarPoints = (numPoints: number, innerRadius: number, outerRadius: number) => {
@@ -53,11 +57,14 @@ const configureCanvasForTool = (canvas: fabric.Canvas, tool: string) => {
 };
 
 // Start of component
-export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEditor, apiKeys }: ToolbarProps) {
+export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEditor }: ToolbarProps) {
     const { toast } = useToast();
     const [showShapesMenu, setShowShapesMenu] = useState(false);
     const [showAdjustmentMenu, setShowAdjustmentMenu] = useState(false);
     const [refreshTemplatesTrigger, setRefreshTemplatesTrigger] = useState(0);
+    // Space the template library shows and saves into; kept here so it survives the library's refresh remount
+    const [templateSpace, setTemplateSpace] = useState<WorkspaceSpace>('personal');
+    const [componentSpace, setComponentSpace] = useState<WorkspaceSpace>('personal');
     const shapesMenuRef = useRef<HTMLDivElement>(null);
     const adjustmentMenuRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -74,6 +81,8 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
         { name: 'ai-zone', icon: Wand2, label: 'AI Zone' }, 
         { name: '3d-gen', icon: Box, label: 'AI 3D' },
         { name: 'templates', icon: LayoutTemplate, label: 'Library' },
+        { name: 'components', icon: Component, label: 'Components' },
+        { name: 'brand', icon: Palette, label: 'Brand' },
         { name: 'adjustments', icon: Blend, label: 'Adjustments' },
         { name: 'layers', icon: Layers, label: 'Layers' },
     ];
@@ -150,11 +159,18 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
         }
     };
 
+    // New elements are placed relative to the active page's top-left corner
+    const pageOrigin = () => {
+        const artboard = canvas ? (canvas as CanvasWithArtboard).artboard : undefined;
+        return { x: artboard?.left ?? 0, y: artboard?.top ?? 0 };
+    };
+
     const addRectangle = () => {
         if (!canvas) return;
+        const origin = pageOrigin();
         const rect = new fabric.Rect({
-            left: 100,
-            top: 100,
+            left: origin.x + 100,
+            top: origin.y + 100,
             fill: '#8b5cf6',
             width: 100,
             height: 100,
@@ -167,9 +183,10 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
 
     const addCircle = () => {
         if (!canvas) return;
+        const origin = pageOrigin();
         const circle = new fabric.Circle({
-            left: 150,
-            top: 150,
+            left: origin.x + 150,
+            top: origin.y + 150,
             fill: '#ec4899', // Pink
             radius: 50,
         });
@@ -179,9 +196,10 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
 
     const addTriangle = () => {
         if (!canvas) return;
+        const origin = pageOrigin();
         const triangle = new fabric.Triangle({
-            left: 200,
-            top: 200,
+            left: origin.x + 200,
+            top: origin.y + 200,
             fill: '#06b6d4', // Cyan
             width: 100,
             height: 100,
@@ -192,11 +210,12 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
 
     const addStar = () => {
         if (!canvas) return;
+        const origin = pageOrigin();
         
         const points = getStarPoints(5, 25, 50);
         const star = new fabric.Polygon(points, {
-            left: 250,
-            top: 250,
+            left: origin.x + 250,
+            top: origin.y + 250,
             fill: '#eab308', // Yellow
             objectCaching: false,
         }) as StarPolygon;
@@ -219,9 +238,12 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
 
     const addText = () => {
         if (!canvas) return;
-        const text = new fabric.IText('Tap to edit', {
-            left: 100,
-            top: 250,
+        const origin = pageOrigin();
+        // A text box wraps to its width, which rich text paragraphs and justified lines need
+        const text = new fabric.Textbox('Tap to edit', {
+            left: origin.x + 100,
+            top: origin.y + 250,
+            width: 360,
             fontFamily: 'Arial',
             fill: '#1f2937',
             fontSize: 40,
@@ -231,12 +253,41 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
         canvas.setActiveObject(text);
     };
 
+    // A font from the library goes onto the selected text, or into a new text set in it
+    const applyLibraryFont = async (src: string, name: string) => {
+        if (!canvas) return;
+        const family = getFontFamilyName(name);
+        const loaded = await registerFont({ family, src });
+        if (!loaded) {
+            toast({ title: 'Font failed to load', description: `${family} could not be read as a font.`, variant: 'destructive' });
+            return;
+        }
+        const active = canvas.getActiveObject();
+        if (active instanceof fabric.FabricText) {
+            active.set('fontFamily', family);
+            refreshFontUsers(canvas, family);
+            canvas.fire('object:modified', { target: active });
+            return;
+        }
+        const origin = pageOrigin();
+        const text = new fabric.IText(family, {
+            left: origin.x + 100,
+            top: origin.y + 250,
+            fontFamily: family,
+            fill: '#1f2937',
+            fontSize: 40
+        });
+        canvas.add(text);
+        canvas.setActiveObject(text);
+    };
+
     const add3DPlaceholder = (url: string, nameOverride?: string) => {
         if (!canvas) return;
+        const origin = pageOrigin();
         
         const group = new fabric.Group([], {
-            left: 150,
-            top: 150,
+            left: origin.x + 150,
+            top: origin.y + 150,
             subTargetCheck: true,
             interactive: true 
         });
@@ -437,8 +488,8 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
         setShowSaveModal(false);
 
         try {
-            // Include custom properties in serialization
-            const json = canvas.toObject(['id', 'gradient', 'pattern', 'is3DModel', 'modelUrl', 'isStar', 'starPoints', 'starInnerRadius', 'mediaType', 'mediaSource', 'layerTagColor', 'isAdjustmentLayer', 'adjustmentType', 'adjustmentSettings']); 
+            // Same format as a saved design: custom properties, pages and schema version
+            const json = serializeDesign(canvas);
             const dataUrl = canvas.toDataURL({
                 format: 'png',
                 multiplier: 0.5,
@@ -450,6 +501,7 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     name,
+                    space: templateSpace,
                     canvasData: json,
                     thumbnailDataUrl: dataUrl
                 })
@@ -476,12 +528,18 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
          if (!canvas) return;
          fetch(url)
             .then(res => res.json())
-            .then(json => {
+            .then(async (data) => {
+                const prepared = prepareDesign(data);
+                if (prepared.issues.length > 0) console.warn('Template validation issues:', prepared.issues);
+                const problems = describeDesignProblems(prepared);
+                if (problems) toast({ title: 'Opened with warnings', description: problems, variant: 'warning' });
+
+                await loadDesignFonts(prepared.design);
                 canvas.clear();
-                canvas.loadFromJSON(json, () => {
-                    canvas.requestRenderAll();
-                    setActiveTool('select');
-                });
+                await canvas.loadFromJSON(prepared.design);
+                restoreArtboards(canvas, prepared.design.artboards);
+                canvas.requestRenderAll();
+                setActiveTool('select');
             })
             .catch(err => {
                 console.error("Error loading template", err);
@@ -524,6 +582,27 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
                     onClose={() => setActiveTool('select')}
                     onSelect={handleLoadTemplate}
                     onSaveCurrent={handleSaveTemplateTrigger}
+                    space={templateSpace}
+                    onSpaceChange={setTemplateSpace}
+                />
+            )}
+
+            {/* Component Library */}
+            {activeTool === 'components' && (
+                <ComponentLibrary
+                    canvas={canvas}
+                    onClose={() => setActiveTool('select')}
+                    space={componentSpace}
+                    onSpaceChange={setComponentSpace}
+                />
+            )}
+
+            {/* Brand Kit */}
+            {activeTool === 'brand' && (
+                <BrandPanel
+                    canvas={canvas}
+                    onClose={() => setActiveTool('select')}
+                    onInsertLogo={(src, name) => loadDataUrlToCanvas(src, name)}
                 />
             )}
 
@@ -532,7 +611,6 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
                  <ImageGeneratorModal 
                     canvas={canvas}
                     onClose={() => setActiveTool('select')}
-                    apiKey={apiKeys?.stability}
                  />
             )}
 
@@ -566,6 +644,8 @@ export default function Toolbar({ canvas, activeTool, setActiveTool, onOpen3DEdi
                         } else if (type === 'audio') {
                             addAudioPlaceholder(path);
                             setActiveTool('select');
+                        } else if (type === 'fonts') {
+                            void applyLibraryFont(path, name || getFileDisplayName(path));
                         } else {
                             loadDataUrlToCanvas(path, name || getFileDisplayName(path));
                         }
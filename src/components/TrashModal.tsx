@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Trash2, RotateCcw, Loader2, Users, File, LayoutTemplate, Image as ImageIcon, Component } from 'lucide-react';
+import { TrashItem, TrashItemKind, WorkspaceSpace } from '@/types';
+import { useDialog } from '@/providers/DialogProvider';
+import { useToast } from '@/providers/ToastProvider';
+
+interface TrashModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Tab to open on; the asset, template and component libraries open on their own kind */
+    initialKind?: TrashItemKind;
+    /** Called after an item is back where it was deleted from */
+    onRestored?: (item: TrashItem) => void;
+}
+
+type KindFilter = TrashItemKind | 'all';
+
+const KIND_TABS: { id: KindFilter; label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'design', label: 'Designs' },
+    { id: 'template', label: 'Templates' },
+    { id: 'asset', label: 'Assets' },
+    { id: 'component', label: 'Components' },
+];
+
+const KIND_ICONS = { design: File, template: LayoutTemplate, asset: ImageIcon, component: Component };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describePurge = (purgeAt: number | null) => {
+    if (purgeAt === null) return null;
+    const days = Math.ceil((purgeAt - Date.now()) / DAY_MS);
+    return days <= 1 ? 'deleted for good within a day' : `deleted for good in ${days} days`;
+};
+
+/**
+ * TrashModal
+ *
+ * Deleted designs, templates, assets and components from the user's own and the team's trash,
+ * with restore, permanent delete and "Empty trash".
+ */
+export default function TrashModal({ isOpen, onClose, initialKind, onRestored }: TrashModalProps) {
+    const dialog = useDialog();
+    const { toast } = useToast();
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [retentionDays, setRetentionDays] = useState(0);
+    const [availableSpaces, setAvailableSpaces] = useState<WorkspaceSpace[]>(['personal']);
+    const [kind, setKind] = useState<KindFilter>(initialKind ?? 'all');
+    const [isLoading, setIsLoading] = useState(false);
+    const [busyItem, setBusyItem] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        // Deferred so opening the modal never sets state synchronously inside the effect
+        const timer = window.setTimeout(async () => {
+            setIsLoading(true);
+            setKind(initialKind ?? 'all');
+            try {
+                const res = await fetch('/api/trash');
+                const data = await res.json();
+                if (cancelled) return;
+                if (!data.success) throw new Error(data.message || 'Failed to load the trash');
+                setItems(data.items as TrashItem[]);
+                setRetentionDays(Number(data.retentionDays) || 0);
+                if (Array.isArray(data.spaces)) setAvailableSpaces(data.spaces as WorkspaceSpace[]);
+            } catch (error) {
+                console.error('Failed to load the trash', error);
+                if (!cancelled) toast({ title: 'Trash unavailable', description: 'Could not load deleted items.', variant: 'destructive' });
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        }, 0);
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+        };
+    }, [isOpen, initialKind, toast]);
+
+    if (!isOpen) return null;
+
+    const visibleItems = kind === 'all' ? items : items.filter((item) => item.kind === kind);
+
+    const post = async (route: 'restore' | 'purge', body: Record<string, unknown>) => {
+        const res = await fetch(`/api/trash/${route}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const data = await res.json();
+        if (!res.ok || !data.success) throw new Error(data.message || `Failed to ${route} item`);
+        return data;
+    };
+
+    const handleRestore = async (item: TrashItem) => {
+        setBusyItem(item.id);
+        try {
+            await post('restore', { id: item.id, space: item.space });
+            setItems((prev) => prev.filter((entry) => entry.id !== item.id));
+            onRestored?.(item);
+            toast({ title: 'Restored', description: `"${item.name}" is back in ${item.originalPath}.`, variant: 'success' });
+        } catch (error) {
+            console.error('Restore failed', error);
+            toast({ title: 'Restore failed', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+        } finally {
+            setBusyItem(null);
+        }
+    };
+
+    const handlePurge = async (item: TrashItem) => {
+        const confirmed = await dialog.confirm(`Delete "${item.name}" for good? This cannot be undone.`, { title: 'Delete forever', variant: 'destructive', confirmText: 'Delete' });
+        if (!confirmed) return;
+        setBusyItem(item.id);
+        try {
+            await post('purge', { id: item.id, space: item.space });
+            setItems((prev) => prev.filter((entry) => entry.id !== item.id));
+        } catch (error) {
+            console.error('Purge failed', error);
+            toast({ title: 'Delete failed', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+        } finally {
+            setBusyItem(null);
+        }
+    };
+
+    const handleEmpty = async () => {
+        const spaces = [...new Set(items.map((item) => item.space))];
+        const where = spaces.includes('team') ? ' This includes items deleted from the team space.' : '';
+        const confirmed = await dialog.confirm(`Delete all ${items.length} items in the trash for good?${where} This cannot be undone.`, { title: 'Empty trash', variant: 'destructive', confirmText: 'Empty trash' });
+        if (!confirmed) return;
+        try {
+            for (const space of spaces) {
+                await post('purge', { space, all: true });
+                setItems((prev) => prev.filter((item) => item.space !== space));
+            }
+        } catch (error) {
+            console.error('Emptying the trash failed', error);
+            toast({ title: 'Empty trash failed', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-card w-full max-w-3xl max-h-[85vh] rounded-xl border border-border shadow-2xl relative animate-in zoom-in-95 duration-200 flex flex-col overflow-hidden">
+                <div className="flex items-center gap-3 p-5 border-b border-border">
+                    <div className="p-2 bg-primary/10 rounded-lg text-primary">
+                        <Trash2 size={20} />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                        <h2 className="text-lg font-bold">Trash</h2>
+                        <p className="text-xs text-muted-foreground">
+                            {retentionDays > 0
+                                ? `Deleted items are kept for ${retentionDays} ${retentionDays === 1 ? 'day' : 'days'}, then removed for good.`
+                                : 'Deleted items are kept until the trash is emptied.'}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-muted-foreground hover:text-foreground transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-1 px-4 pt-3">
+                    {KIND_TABS.map((tab) => (
+                        <button
+                            key={tab.id}
+                            onClick={() => setKind(tab.id)}
+                            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                                kind === tab.id ? 'bg-foreground text-background' : 'text-muted-foreground hover:bg-secondary'
+                            }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                    {items.length > 0 && (
+                        <button
+                            onClick={handleEmpty}
+                            className="ml-auto px-3 py-1 rounded-full border border-border text-xs font-medium text-muted-foreground hover:text-destructive hover:border-destructive/40 transition-colors"
+                        >
+                            Empty trash
+                        </button>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-12">
+                            <Loader2 size={16} className="animate-spin" /> Loading trash…
+                        </div>
+                    ) : visibleItems.length === 0 ? (
+                        <div className="text-center text-sm text-muted-foreground py-12">
+                            Nothing here. Deleted items show up in the trash until they are removed for good.
+                        </div>
+                    ) : visibleItems.map((item) => {
+                        const KindIcon = KIND_ICONS[item.kind];
+                        const purge = describePurge(item.purgeAt);
+                        return (
+                            <div key={`${item.space}-${item.id}`} className="flex items-center gap-3 p-2 rounded-lg border border-border/50 bg-secondary/20">
+                                <div className="w-20 h-12 shrink-0 rounded bg-checkerboard overflow-hidden border border-border/50 flex items-center justify-center">
+                                    {item.image ? (
+                                        <img src={item.image} alt={item.name} className="w-full h-full object-cover" />
+                                    ) : (
+                                        <KindIcon size={18} className="text-muted-foreground/50" />
+                                    )}
+                                </div>
+                                <div className="min-w-0 flex-1">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-sm font-semibold truncate" title={item.name}>{item.name}</span>
+                                        <span className="text-[10px] px-1.5 py-0.5 rounded bg-secondary text-muted-foreground capitalize shrink-0">{item.kind}</span>
+                                        {availableSpaces.includes('team') && item.space === 'team' && (
+                                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-secondary text-muted-foreground flex items-center gap-1 shrink-0"><Users size={10} /> Team</span>
+                                        )}
+                                    </div>
+                                    <p className="text-[11px] text-muted-foreground truncate" title={item.originalPath}>
+                                        from {item.originalPath} · deleted {new Date(item.deletedAt).toLocaleString()} by {item.deletedBy.username}
+                                    </p>
+                                    {purge && <p className="text-[11px] text-muted-foreground">{purge}</p>}
+                                </div>
+                                <div className="flex items-center gap-1 shrink-0">
+                                    <button
+                                        onClick={() => handleRestore(item)}
+                                        disabled={busyItem === item.id}
+                                        className="px-2.5 py-1.5 rounded-md text-xs font-medium flex items-center gap-1 hover:bg-secondary text-foreground disabled:opacity-50"
+                                        title="Put it back where it was"
+                                    >
+                                        {busyItem === item.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />} Restore
+                                    </button>
+                                    <button
+                                        onClick={() => handlePurge(item)}
+                                        disabled={busyItem === item.id}
+                                        className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 disabled:opacity-50"
+                                        title="Delete forever"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
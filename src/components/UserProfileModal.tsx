@@ -1,7 +1,9 @@
 'use client';
 
-import { X, User, Mail, Camera, Save } from 'lucide-react';
-import { useState } from 'react';
+import { X, User, Mail, Camera, Save, KeyRound, Ticket, Copy } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { AuthUser } from '@/types';
+import { useToast } from '@/providers/ToastProvider';
 
 interface UserProfileModalProps {
     isOpen: boolean;
@@ -14,9 +16,83 @@ export default function UserProfileModal({ isOpen, onClose, username, onLogout }
     const [name, setName] = useState(username === 'test' ? 'Test User' : username);
     const [email, setEmail] = useState('user@example.com');
     const [image, setImage] = useState<string | null>(null);
+    const { toast } = useToast();
+    // Server account behind the session (null for the desktop build or when signed out)
+    const [account, setAccount] = useState<AuthUser | null>(null);
+    const [isDesktop, setIsDesktop] = useState(false);
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [passwordBusy, setPasswordBusy] = useState(false);
+    const [inviteLink, setInviteLink] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        fetch('/api/auth/session', { cache: 'no-store' })
+            .then((res) => res.json())
+            .then((data) => {
+                if (cancelled) return;
+                setAccount(data.user ?? null);
+                setIsDesktop(Boolean(window.desktop?.isDesktop));
+            })
+            .catch((error) => console.error('Failed to load account', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen]);
 
     if (!isOpen) return null;
 
+    const handleChangePassword = async () => {
+        if (newPassword !== confirmPassword) {
+            toast({ title: 'Passwords do not match', description: 'Type the new password twice.', variant: 'warning' });
+            return;
+        }
+        setPasswordBusy(true);
+        try {
+            const res = await fetch('/api/auth/password', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ currentPassword, newPassword })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setCurrentPassword('');
+                setNewPassword('');
+                setConfirmPassword('');
+                toast({ title: 'Password updated', description: 'Other devices have been signed out.', variant: 'success' });
+            } else {
+                toast({ title: 'Password not changed', description: data.message || 'Please try again.', variant: 'destructive' });
+            }
+        } catch (error) {
+            console.error('Password change failed', error);
+            toast({ title: 'Password not changed', description: 'Could not reach the server.', variant: 'destructive' });
+        }
+        setPasswordBusy(false);
+    };
+
+    const handleCreateInvite = async () => {
+        try {
+            const res = await fetch('/api/auth/invites', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ role: 'member' })
+            });
+            const data = await res.json();
+            if (!data.success) {
+                toast({ title: 'Invite failed', description: data.message || 'Could not create an invite.', variant: 'destructive' });
+                return;
+            }
+            setInviteLink(`${window.location.origin}/?invite=${encodeURIComponent(data.invite.code)}`);
+        } catch (error) {
+            console.error('Invite creation failed', error);
+            toast({ title: 'Invite failed', description: 'Could not reach the server.', variant: 'destructive' });
+        }
+    };
+
+    const canChangePassword = Boolean(account) && !isDesktop;
+
     const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
@@ -87,6 +163,71 @@ export default function UserProfileModal({ isOpen, onClose, username, onLogout }
                         </div>
                     </div>
 
+                    {canChangePassword && (
+                        <div className="space-y-2 pt-4 border-t border-border/50">
+                            <label className="text-xs font-semibold text-muted-foreground uppercase flex items-center gap-1.5"><KeyRound size={12} /> Change Password</label>
+                            <input
+                                type="password"
+                                value={currentPassword}
+                                onChange={(e) => setCurrentPassword(e.target.value)}
+                                placeholder="Current password"
+                                autoComplete="current-password"
+                                className="w-full bg-secondary/50 border border-border/50 rounded-md px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-primary/50"
+                            />
+                            <div className="flex gap-2">
+                                <input
+                                    type="password"
+                                    value={newPassword}
+                                    onChange={(e) => setNewPassword(e.target.value)}
+                                    placeholder="New password"
+                                    autoComplete="new-password"
+                                    className="flex-1 min-w-0 bg-secondary/50 border border-border/50 rounded-md px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-primary/50"
+                                />
+                                <input
+                                    type="password"
+                                    value={confirmPassword}
+                                    onChange={(e) => setConfirmPassword(e.target.value)}
+                                    placeholder="Confirm"
+                                    autoComplete="new-password"
+                                    className="flex-1 min-w-0 bg-secondary/50 border border-border/50 rounded-md px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-primary/50"
+                                />
+                            </div>
+                            <button
+                                onClick={handleChangePassword}
+                                disabled={passwordBusy || !currentPassword || !newPassword}
+                                className="w-full py-2 bg-secondary text-foreground rounded-md text-sm font-medium hover:bg-secondary/80 transition-colors disabled:opacity-50"
+                            >
+                                Update Password
+                            </button>
+                        </div>
+                    )}
+
+                    {canChangePassword && account?.role === 'admin' && (
+                        <div className="space-y-2 pt-4 border-t border-border/50">
+                            <label className="text-xs font-semibold text-muted-foreground uppercase flex items-center gap-1.5"><Ticket size={12} /> Invite Teammates</label>
+                            {inviteLink ? (
+                                <div className="flex gap-2">
+                                    <input readOnly value={inviteLink} className="flex-1 min-w-0 bg-secondary/50 border border-border/50 rounded-md px-3 py-2 text-xs outline-none" />
+                                    <button
+                                        onClick={() => navigator.clipboard.writeText(inviteLink).then(() => toast({ title: 'Invite link copied', variant: 'success' }))}
+                                        className="px-3 bg-secondary rounded-md hover:bg-secondary/80"
+                                        title="Copy link"
+                                    >
+                                        <Copy size={14} />
+                                    </button>
+                                </div>
+                            ) : (
+                                <p className="text-xs text-muted-foreground">Single-use links that expire after 7 days.</p>
+                            )}
+                            <button
+                                onClick={handleCreateInvite}
+                                className="w-full py-2 bg-secondary text-foreground rounded-md text-sm font-medium hover:bg-secondary/80 transition-colors"
+                            >
+                                {inviteLink ? 'Create Another Invite' : 'Create Invite Link'}
+                            </button>
+                        </div>
+                    )}
+
                     <div className="pt-4 flex gap-3 border-t border-border/50">
                         <button className="flex-1 py-2 bg-primary text-primary-foreground rounded-md text-sm font-medium hover:bg-primary/90 transition-colors flex items-center justify-center gap-2">
                             <Save size={16} /> Save Changes
@@ -0,0 +1,462 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { X, History, Eye, RotateCcw, GitBranch, Tag, Columns2, Layers, Loader2, ArrowLeft, Image as ImageIcon } from 'lucide-react';
+import { DesignSummary, DesignVersion, WorkspaceSpace } from '@/types';
+import { renderDesignPages, RenderedPage } from '@/lib/design-preview';
+import { useDialog } from '@/providers/DialogProvider';
+import { useToast } from '@/providers/ToastProvider';
+
+/** What the server returns after a restore or fork: the design as listed, plus its new version number. */
+export type VersionedDesign = DesignSummary & { version: number };
+
+interface VersionHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    design: { id: string; name: string; space?: WorkspaceSpace } | null;
+    /** Called after a version became current again */
+    onRestored?: (design: VersionedDesign) => void;
+    /** Called after a version was copied into a new design */
+    onForked?: (design: VersionedDesign) => void;
+    /** The editor warns before a restore would discard unsaved work */
+    hasUnsavedChanges?: boolean;
+}
+
+type View =
+    | { mode: 'list' }
+    | { mode: 'preview'; version: number }
+    | { mode: 'compare'; from: number; to: number };
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+/**
+ * VersionHistoryModal
+ *
+ * Lists the saved versions of a design with a read-only preview, restore, fork,
+ * labels, and a side-by-side / onion-skin comparison of two versions.
+ */
+export default function VersionHistoryModal({ isOpen, onClose, design, onRestored, onForked, hasUnsavedChanges }: VersionHistoryModalProps) {
+    const dialog = useDialog();
+    const { toast } = useToast();
+    const [versions, setVersions] = useState<DesignVersion[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [busyVersion, setBusyVersion] = useState<number | null>(null);
+    const [view, setView] = useState<View>({ mode: 'list' });
+    const [compareSelection, setCompareSelection] = useState<number[]>([]);
+    const [renderedPages, setRenderedPages] = useState<Record<number, RenderedPage[] | 'error'>>({});
+    const [pageIndex, setPageIndex] = useState(0);
+    const [diffMode, setDiffMode] = useState<'side-by-side' | 'onion'>('side-by-side');
+    const [onionOpacity, setOnionOpacity] = useState(0.5);
+    const rendering = useRef(new Set<number>());
+
+    const space = design?.space ?? 'personal';
+
+    useEffect(() => {
+        if (!isOpen || !design) return;
+        let cancelled = false;
+        // Deferred so opening the modal never sets state synchronously inside the effect
+        const timer = window.setTimeout(async () => {
+            setIsLoading(true);
+            setView({ mode: 'list' });
+            setCompareSelection([]);
+            setRenderedPages({});
+            rendering.current.clear();
+            try {
+                const res = await fetch(`/api/designs/versions?id=${encodeURIComponent(design.id)}&space=${space}`);
+                const data = await res.json();
+                if (cancelled) return;
+                if (!data.success) throw new Error(data.message || 'Failed to load versions');
+                setVersions(data.versions as DesignVersion[]);
+            } catch (error) {
+                console.error('Failed to load versions', error);
+                if (!cancelled) toast({ title: 'History unavailable', description: 'Could not load versions.', variant: 'destructive' });
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        }, 0);
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+        };
+    }, [isOpen, design, space, toast]);
+
+    // Render the versions the current view needs, once each
+    useEffect(() => {
+        const needed = view.mode === 'preview' ? [view.version] : view.mode === 'compare' ? [view.from, view.to] : [];
+        needed.forEach((number) => {
+            if (rendering.current.has(number)) return;
+            const version = versions.find((item) => item.version === number);
+            if (!version) return;
+            rendering.current.add(number);
+            renderDesignPages(version.data)
+                .then((pages) => setRenderedPages((prev) => ({ ...prev, [number]: pages })))
+                .catch((error) => {
+                    console.error(`Failed to render version ${number}`, error);
+                    setRenderedPages((prev) => ({ ...prev, [number]: 'error' }));
+                });
+        });
+    }, [view, versions]);
+
+    if (!isOpen || !design) return null;
+
+    const latestVersion = versions[0]?.version;
+
+    const openView = (next: View) => {
+        setPageIndex(0);
+        setView(next);
+    };
+
+    const toggleCompare = (number: number) => {
+        setCompareSelection((prev) => {
+            if (prev.includes(number)) return prev.filter((item) => item !== number);
+            // Keep the two most recent picks
+            return [...prev, number].slice(-2);
+        });
+    };
+
+    const handleRestore = async (version: DesignVersion) => {
+        const confirmed = await dialog.confirm(
+            hasUnsavedChanges
+                ? `Restore version ${version.version}? Your unsaved changes will be lost. The current saved state stays in the history.`
+                : `Restore version ${version.version}? The current state stays in the history.`,
+            { title: 'Restore version', confirmText: 'Restore', variant: hasUnsavedChanges ? 'destructive' : 'default' }
+        );
+        if (!confirmed) return;
+
+        setBusyVersion(version.version);
+        try {
+            const res = await fetch('/api/designs/versions/restore', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: design.id, space, version: version.version })
+            });
+            const data = await res.json();
+            if (!data.success) throw new Error(data.message || 'Restore failed');
+            toast({ title: 'Version restored', description: `Version ${version.version} is now current (saved as v${data.design.version}).`, variant: 'success' });
+            onRestored?.(data.design);
+            onClose();
+        } catch (error) {
+            toast({ title: 'Restore failed', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+        } finally {
+            setBusyVersion(null);
+        }
+    };
+
+    const handleFork = async (version: DesignVersion) => {
+        const name = await dialog.prompt(hasUnsavedChanges
+            ? 'Name for the new design. It opens in place of this one and your unsaved changes will be lost.'
+            : 'Name for the new design:', {
+            title: 'Fork version',
+            defaultValue: `${design.name} (v${version.version})`,
+            confirmText: 'Create'
+        });
+        if (!name?.trim()) return;
+
+        setBusyVersion(version.version);
+        try {
+            const res = await fetch('/api/designs/versions/fork', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: design.id, space, version: version.version, name: name.trim() })
+            });
+            const data = await res.json();
+            if (!data.success) throw new Error(data.message || 'Fork failed');
+            toast({ title: 'Design created', description: `"${data.design.name}" starts from version ${version.version}.`, variant: 'success' });
+            onForked?.(data.design);
+            onClose();
+        } catch (error) {
+            toast({ title: 'Fork failed', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+        } finally {
+            setBusyVersion(null);
+        }
+    };
+
+    const handleLabel = async (version: DesignVersion) => {
+        const label = await dialog.prompt('Label this version (leave empty to remove). Labelled versions are never cleaned up.', {
+            title: `Label version ${version.version}`,
+            defaultValue: version.label ?? '',
+            placeholder: 'e.g. Sent to client'
+        });
+        if (label === null) return;
+
+        try {
+            const res = await fetch('/api/designs/versions/label', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: design.id, space, version: version.version, label })
+            });
+            const data = await res.json();
+            if (!data.success) throw new Error(data.message || 'Failed to save label');
+            setVersions((prev) => prev.map((item) => (item.version === version.version ? data.version : item)));
+        } catch (error) {
+            toast({ title: 'Label failed', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+        }
+    };
+
+    const describe = (version: DesignVersion) =>
+        version.restoredFrom ? `Restored from v${version.restoredFrom}` : version.version === latestVersion ? 'Current' : null;
+
+    const renderPages = (number: number) => {
+        const pages = renderedPages[number];
+        if (pages === 'error') {
+            return <div className="text-xs text-destructive p-6 text-center">Could not render this version.</div>;
+        }
+        if (!pages) {
+            return (
+                <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground p-10">
+                    <Loader2 size={14} className="animate-spin" /> Rendering…
+                </div>
+            );
+        }
+        const page = pages[Math.min(pageIndex, pages.length - 1)];
+        return page ? (
+            <img src={page.url} alt={`Version ${number} – ${page.name}`} className="max-w-full max-h-[55vh] object-contain mx-auto shadow-md bg-checkerboard" />
+        ) : (
+            <div className="text-xs text-muted-foreground p-6 text-center">This version has no pages.</div>
+        );
+    };
+
+    const pageCount = (() => {
+        if (view.mode === 'list') return 0;
+        const numbers = view.mode === 'preview' ? [view.version] : [view.from, view.to];
+        return Math.max(0, ...numbers.map((number) => {
+            const pages = renderedPages[number];
+            return Array.isArray(pages) ? pages.length : 0;
+        }));
+    })();
+
+    const pageSwitcher = pageCount > 1 && (
+        <div className="flex items-center gap-1">
+            {Array.from({ length: pageCount }, (_, index) => (
+                <button
+                    key={index}
+                    onClick={() => setPageIndex(index)}
+                    className={`w-6 h-6 rounded text-[11px] font-medium transition-colors ${pageIndex === index ? 'bg-primary text-primary-foreground' : 'bg-secondary hover:bg-secondary/80 text-muted-foreground'}`}
+                >
+                    {index + 1}
+                </button>
+            ))}
+        </div>
+    );
+
+    const previewed = view.mode === 'preview' ? versions.find((item) => item.version === view.version) : undefined;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-card w-full max-w-3xl max-h-[85vh] rounded-xl border border-border shadow-2xl relative animate-in zoom-in-95 duration-200 flex flex-col overflow-hidden">
+                <div className="flex items-center gap-3 p-5 border-b border-border">
+                    {view.mode !== 'list' ? (
+                        <button
+                            onClick={() => openView({ mode: 'list' })}
+                            className="p-2 rounded-lg hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+                            title="Back to versions"
+                        >
+                            <ArrowLeft size={18} />
+                        </button>
+                    ) : (
+                        <div className="p-2 bg-primary/10 rounded-lg text-primary">
+                            <History size={20} />
+                        </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                        <h2 className="text-lg font-bold truncate">
+                            {view.mode === 'preview' ? `Version ${view.version}` : view.mode === 'compare' ? `Compare v${view.from} → v${view.to}` : 'Version History'}
+                        </h2>
+                        <p className="text-xs text-muted-foreground truncate">{design.name}</p>
+                    </div>
+                    <button onClick={onClose} className="text-muted-foreground hover:text-foreground transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {view.mode === 'list' && (
+                    <>
+                        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                            {isLoading ? (
+                                <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-12">
+                                    <Loader2 size={16} className="animate-spin" /> Loading versions…
+                                </div>
+                            ) : versions.length === 0 ? (
+                                <div className="text-center text-sm text-muted-foreground py-12">
+                                    No versions yet. Each save adds one.
+                                </div>
+                            ) : versions.map((version) => (
+                                <div
+                                    key={version.version}
+                                    className={`flex items-center gap-3 p-2 rounded-lg border transition-colors ${
+                                        compareSelection.includes(version.version) ? 'border-primary bg-primary/5' : 'border-border/50 bg-secondary/20 hover:bg-secondary/30'
+                                    }`}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={compareSelection.includes(version.version)}
+                                        onChange={() => toggleCompare(version.version)}
+                                        className="accent-primary"
+                                        title="Select to compare"
+                                    />
+                                    <button
+                                        onClick={() => openView({ mode: 'preview', version: version.version })}
+                                        className="w-20 h-12 shrink-0 rounded bg-checkerboard overflow-hidden border border-border/50 flex items-center justify-center"
+                                        title="Preview"
+                                    >
+                                        {version.image ? (
+                                            <img src={version.image} alt={`Version ${version.version}`} className="w-full h-full object-cover" />
+                                        ) : (
+                                            <ImageIcon size={16} className="text-muted-foreground/40" />
+                                        )}
+                                    </button>
+                                    <div className="min-w-0 flex-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-sm font-semibold">v{version.version}</span>
+                                            {version.label && (
+                                                <span className="text-[10px] bg-amber-500/15 text-amber-600 px-1.5 py-0.5 rounded truncate max-w-[200px]" title={version.label}>
+                                                    {version.label}
+                                                </span>
+                                            )}
+                                            {describe(version) && (
+                                                <span className="text-[10px] bg-secondary text-muted-foreground px-1.5 py-0.5 rounded">{describe(version)}</span>
+                                            )}
+                                        </div>
+                                        <p className="text-[11px] text-muted-foreground truncate">
+                                            {formatTime(version.createdAt)} · {version.author.username}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        {busyVersion === version.version ? (
+                                            <Loader2 size={16} className="animate-spin text-muted-foreground mx-2" />
+                                        ) : (
+                                            <>
+                                                <button onClick={() => openView({ mode: 'preview', version: version.version })} className="p-1.5 rounded hover:bg-secondary text-muted-foreground hover:text-foreground" title="Preview">
+                                                    <Eye size={15} />
+                                                </button>
+                                                <button onClick={() => handleLabel(version)} className="p-1.5 rounded hover:bg-secondary text-muted-foreground hover:text-foreground" title="Label">
+                                                    <Tag size={15} />
+                                                </button>
+                                                <button onClick={() => handleFork(version)} className="p-1.5 rounded hover:bg-secondary text-muted-foreground hover:text-foreground" title="Fork into a new design">
+                                                    <GitBranch size={15} />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleRestore(version)}
+                                                    disabled={version.version === latestVersion}
+                                                    className="p-1.5 rounded hover:bg-secondary text-muted-foreground hover:text-foreground disabled:opacity-30 disabled:hover:bg-transparent"
+                                                    title="Restore as current"
+                                                >
+                                                    <RotateCcw size={15} />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="p-4 border-t border-border flex items-center justify-between gap-3 bg-muted/20">
+                            <p className="text-[11px] text-muted-foreground">
+                                {compareSelection.length === 2 ? 'Ready to compare the selected versions.' : 'Tick two versions to compare them.'}
+                            </p>
+                            <button
+                                onClick={() => {
+                                    const [a, b] = [...compareSelection].sort((x, y) => x - y);
+                                    openView({ mode: 'compare', from: a, to: b });
+                                }}
+                                disabled={compareSelection.length !== 2}
+                                className="px-4 py-2 text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 rounded-lg flex items-center gap-2 transition-all disabled:opacity-50"
+                            >
+                                <Columns2 size={16} />
+                                Compare
+                            </button>
+                        </div>
+                    </>
+                )}
+
+                {view.mode === 'preview' && (
+                    <>
+                        <div className="flex-1 overflow-auto p-4 bg-secondary/20">{renderPages(view.version)}</div>
+                        <div className="p-4 border-t border-border flex items-center justify-between gap-3 bg-muted/20">
+                            <div className="flex items-center gap-3 min-w-0">
+                                {pageSwitcher}
+                                {previewed && (
+                                    <span className="text-[11px] text-muted-foreground truncate">
+                                        Read-only · {formatTime(previewed.createdAt)} · {previewed.author.username}
+                                    </span>
+                                )}
+                            </div>
+                            {previewed && (
+                                <div className="flex gap-2 shrink-0">
+                                    <button
+                                        onClick={() => handleFork(previewed)}
+                                        className="px-3 py-2 text-xs font-medium border border-border rounded-lg hover:bg-secondary flex items-center gap-1.5"
+                                    >
+                                        <GitBranch size={14} /> Fork
+                                    </button>
+                                    <button
+                                        onClick={() => handleRestore(previewed)}
+                                        disabled={previewed.version === latestVersion || busyVersion !== null}
+                                        className="px-3 py-2 text-xs font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 flex items-center gap-1.5 disabled:opacity-50"
+                                    >
+                                        <RotateCcw size={14} /> Restore
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+
+                {view.mode === 'compare' && (
+                    <>
+                        <div className="flex-1 overflow-auto p-4 bg-secondary/20">
+                            {diffMode === 'side-by-side' ? (
+                                <div className="grid grid-cols-2 gap-4">
+                                    {[view.from, view.to].map((number) => (
+                                        <div key={number} className="space-y-2">
+                                            <p className="text-xs font-semibold text-center text-muted-foreground">v{number}</p>
+                                            {renderPages(number)}
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : (
+                                <div className="relative w-fit mx-auto">
+                                    {renderPages(view.from)}
+                                    <div className="absolute inset-0" style={{ opacity: onionOpacity }}>
+                                        {renderPages(view.to)}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                        <div className="p-4 border-t border-border flex flex-wrap items-center justify-between gap-3 bg-muted/20">
+                            <div className="flex bg-secondary/50 rounded-full p-0.5 text-xs font-medium">
+                                {(['side-by-side', 'onion'] as const).map((mode) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setDiffMode(mode)}
+                                        className={`px-3 py-1 rounded-full flex items-center gap-1 transition-colors ${
+                                            diffMode === mode ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                                        }`}
+                                    >
+                                        {mode === 'onion' ? <Layers size={12} /> : <Columns2 size={12} />}
+                                        {mode === 'onion' ? 'Onion skin' : 'Side by side'}
+                                    </button>
+                                ))}
+                            </div>
+                            {diffMode === 'onion' && (
+                                <label className="flex items-center gap-2 text-[11px] text-muted-foreground">
+                                    v{view.from}
+                                    <input
+                                        type="range"
+                                        min={0}
+                                        max={1}
+                                        step={0.05}
+                                        value={onionOpacity}
+                                        onChange={(e) => setOnionOpacity(Number(e.target.value))}
+                                        className="w-32 accent-primary"
+                                    />
+                                    v{view.to}
+                                </label>
+                            )}
+                            {pageSwitcher}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,36 @@
+import React from 'react';
+import { useBrandKit } from '@/providers/BrandKitProvider';
+import { getBrandColors, toBrandHex } from '@/lib/brand-kit';
+import { cn } from '@/lib/utils';
+
+interface BrandSwatchesProps {
+    /** The picker's current colour, marked when it is a brand colour */
+    value?: string | null;
+    onSelect: (color: string) => void;
+    className?: string;
+}
+
+/** The brand kit's colours under a colour picker; nothing while the kit has none. */
+export function BrandSwatches({ value, onSelect, className }: BrandSwatchesProps) {
+    const { kit } = useBrandKit();
+    const colors = getBrandColors(kit);
+    if (colors.length === 0) return null;
+    const current = toBrandHex(value);
+
+    return (
+        <div className={cn('flex flex-wrap gap-1', className)}>
+            {colors.map((color) => (
+                <button
+                    key={color.value}
+                    onClick={() => onSelect(color.value)}
+                    className={cn(
+                        'w-4 h-4 rounded-sm border shrink-0 hover:scale-110 transition-transform',
+                        current === color.value ? 'border-primary ring-1 ring-primary' : 'border-border/60'
+                    )}
+                    style={{ backgroundColor: color.value }}
+                    title={`${color.name} (${color.value.toUpperCase()})`}
+                />
+            ))}
+        </div>
+    );
+}
@@ -1,19 +1,52 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Scaling } from 'lucide-react';
+import { BrandSwatches } from './BrandSwatches';
 
 interface CanvasSettingsPanelProps {
     width: number;
     height: number;
     backgroundColor: string;
+    x?: number;
+    y?: number;
     onResize: (width: number, height: number) => void;
+    onMove?: (x: number, y: number) => void;
     onColorChange: (color: string) => void;
+    /** Opens "Resize to…", which saves copies of the design at other sizes */
+    onMagicResize?: () => void;
+}
+
+// Resizing re-lays out the page, so the size applies on Enter or blur rather than per keystroke
+function SizeInput({ value, onCommit, className }: { value: number; onCommit: (value: number) => void; className: string }) {
+    const [draft, setDraft] = useState(value ? String(value) : '');
+
+    const commit = () => {
+        const next = parseInt(draft) || 0;
+        if (next > 0 && next !== value) onCommit(next);
+        else setDraft(value ? String(value) : '');
+    };
+
+    return (
+        <input
+            type="number"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            className={className}
+        />
+    );
 }
 
 export function CanvasSettingsPanel({
     width,
     height,
     backgroundColor,
+    x = 0,
+    y = 0,
     onResize,
-    onColorChange
+    onMove,
+    onColorChange,
+    onMagicResize
 }: CanvasSettingsPanelProps) {
     return (
         <div className="p-4 space-y-6">
@@ -24,19 +57,19 @@ export function CanvasSettingsPanel({
                 <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
                         <label className="text-[10px] uppercase text-muted-foreground font-medium">Width</label>
-                        <input
-                            type="number"
-                            value={width || ''}
-                            onChange={(e) => onResize(parseInt(e.target.value) || 0, height)}
+                        <SizeInput
+                            key={`w-${width}`}
+                            value={width}
+                            onCommit={(value) => onResize(value, height)}
                             className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
                         />
                     </div>
                     <div className="space-y-2">
                         <label className="text-[10px] uppercase text-muted-foreground font-medium">Height</label>
-                        <input
-                            type="number"
-                            value={height || ''}
-                            onChange={(e) => onResize(width, parseInt(e.target.value) || 0)}
+                        <SizeInput
+                            key={`h-${height}`}
+                            value={height}
+                            onCommit={(value) => onResize(width, value)}
                             className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
                         />
                     </div>
@@ -56,8 +89,44 @@ export function CanvasSettingsPanel({
                         </button>
                     ))}
                 </div>
+                {onMagicResize && (
+                    <button
+                        onClick={onMagicResize}
+                        className="w-full flex items-center justify-center gap-2 px-2 py-1.5 text-xs border border-border rounded-md hover:bg-secondary"
+                    >
+                        <Scaling size={12} /> Resize to…
+                    </button>
+                )}
             </div>
 
+            {onMove && (
+                <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                        <h3 className="font-medium text-sm">Position</h3>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <label className="text-[10px] uppercase text-muted-foreground font-medium">X</label>
+                            <input
+                                type="number"
+                                value={x}
+                                onChange={(e) => onMove(parseInt(e.target.value) || 0, y)}
+                                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-[10px] uppercase text-muted-foreground font-medium">Y</label>
+                            <input
+                                type="number"
+                                value={y}
+                                onChange={(e) => onMove(x, parseInt(e.target.value) || 0)}
+                                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                            />
+                        </div>
+                    </div>
+                </div>
+            )}
+
             <div className="space-y-4">
                 <div className="flex items-center justify-between">
                     <h3 className="font-medium text-sm">Background</h3>
@@ -87,6 +156,7 @@ export function CanvasSettingsPanel({
                             />
                         ))}
                     </div>
+                    <BrandSwatches value={backgroundColor} onSelect={onColorChange} />
                 </div>
             </div>
         </div>
@@ -0,0 +1,131 @@
+import React, { useRef } from 'react';
+import { Component, Crosshair, ImageUp, Loader2, RotateCcw, Unlink, UploadCloud } from 'lucide-react';
+import { ComponentOverride, ComponentRole } from '@/types';
+
+export type ComponentAction = 'create' | 'publish' | 'go-to-master' | 'reset-overrides' | 'detach' | 'reset-layer';
+
+interface ComponentPropertiesProps {
+    /** null while the selection is not a component yet */
+    role: ComponentRole | null;
+    name?: string;
+    version?: number;
+    /** Instances: how many of their layers have overrides */
+    overrideCount: number;
+    /** Set while a publish is on its way to the library */
+    isPublishing?: boolean;
+    onCreate: () => void;
+    onPublish: () => void;
+    onGoToMaster: () => void;
+    onResetOverrides: () => void;
+    onDetach: () => void;
+}
+
+const actionClass = 'flex items-center justify-center gap-1.5 px-2 py-1.5 rounded border border-border hover:bg-secondary text-xs disabled:opacity-50';
+
+/** A component master or instance, or the button that turns the selection into a component. */
+export function ComponentProperties({ role, name, version, overrideCount, isPublishing, onCreate, onPublish, onGoToMaster, onResetOverrides, onDetach }: ComponentPropertiesProps) {
+    if (!role) {
+        return (
+            <div className="p-4 space-y-2 border-b border-border/50">
+                <h3 className="font-medium text-sm">Component</h3>
+                <button onClick={onCreate} className={`w-full ${actionClass}`}>
+                    <Component size={14} /> Create component
+                </button>
+                <p className="text-[10px] text-muted-foreground">
+                    Saves it to the library so copies placed anywhere follow it when it changes.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 space-y-3 border-b border-border/50">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="font-medium text-sm flex items-center gap-1.5 min-w-0">
+                    <Component size={14} className="text-violet-500 shrink-0" />
+                    <span className="truncate">{role === 'master' ? 'Master component' : 'Instance'}</span>
+                </h3>
+                {version !== undefined && <span className="text-[10px] text-muted-foreground shrink-0">v{version}</span>}
+            </div>
+            {name && <p className="text-xs truncate" title={name}>{name}</p>}
+
+            {role === 'master' ? (
+                <>
+                    <button onClick={onPublish} disabled={isPublishing} className={`w-full ${actionClass}`}>
+                        {isPublishing ? <Loader2 size={14} className="animate-spin" /> : <UploadCloud size={14} />} Publish changes
+                    </button>
+                    <p className="text-[10px] text-muted-foreground">
+                        Instances on this page follow the master as you edit it. Publish to update instances in other designs.
+                    </p>
+                </>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button onClick={onGoToMaster} className={actionClass}>
+                            <Crosshair size={14} /> Go to master
+                        </button>
+                        <button onClick={onDetach} className={actionClass}>
+                            <Unlink size={14} /> Detach
+                        </button>
+                    </div>
+                    <button onClick={onResetOverrides} disabled={overrideCount === 0} className={`w-full ${actionClass}`}>
+                        <RotateCcw size={14} /> Reset overrides{overrideCount > 0 ? ` (${overrideCount})` : ''}
+                    </button>
+                    <p className="text-[10px] text-muted-foreground">
+                        Text, fill and image changes to its layers are kept when the master changes.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
+
+interface ComponentLayerPropertiesProps {
+    /** What the instance changes about this layer */
+    override?: ComponentOverride;
+    isImage: boolean;
+    onReplaceImage: (file: File) => void;
+    onReset: () => void;
+}
+
+const OVERRIDE_LABELS: Record<keyof ComponentOverride, string> = { text: 'Text', fill: 'Fill', src: 'Image' };
+
+/** A layer inside an instance: which of its properties are overridden, and image replacement. */
+export function ComponentLayerProperties({ override, isImage, onReplaceImage, onReset }: ComponentLayerPropertiesProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const overridden = (Object.keys(OVERRIDE_LABELS) as (keyof ComponentOverride)[]).filter((key) => override?.[key] !== undefined);
+
+    return (
+        <div className="p-4 space-y-2 border-b border-border/50">
+            <div className="flex items-center justify-between">
+                <h3 className="font-medium text-sm">In Instance</h3>
+                {overridden.length > 0 && (
+                    <button onClick={onReset} className="text-[10px] text-primary hover:underline">Reset</button>
+                )}
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+                {overridden.length > 0
+                    ? `Overrides: ${overridden.map((key) => OVERRIDE_LABELS[key]).join(', ')}. Other changes are replaced when the master changes.`
+                    : 'Follows the master. Text, fill and image changes made here are kept as overrides.'}
+            </p>
+            {isImage && (
+                <>
+                    <button onClick={() => fileInputRef.current?.click()} className={`w-full ${actionClass}`}>
+                        <ImageUp size={14} /> Replace image…
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="image/*"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onReplaceImage(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown } from 'lucide-react';
+import { useUploadedFonts } from '@/providers/FontProvider';
+import { SYSTEM_FONTS } from '@/lib/fonts';
+import { cn } from '@/lib/utils';
+
+interface FontPickerProps {
+    value: string;
+    onChange: (font: string) => void;
+    /** Approved by the brand kit, listed first */
+    brandFonts: string[];
+}
+
+// Quoted so families with spaces or digits are read as one name
+const previewStyle = (family: string) => ({ fontFamily: `"${family}", sans-serif` });
+
+/** The font menu of the text panel, each font shown in its own face. */
+export function FontPicker({ value, onChange, brandFonts }: FontPickerProps) {
+    const { fonts: uploadedFonts } = useUploadedFonts();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) setIsOpen(false);
+        };
+        const handleKeydown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        document.addEventListener('keydown', handleKeydown);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+            document.removeEventListener('keydown', handleKeydown);
+        };
+    }, [isOpen]);
+
+    // Each font once, in the first group that has it; the current font stays listed so the text keeps it
+    const listed = new Set(brandFonts);
+    const uploaded = uploadedFonts.map((font) => font.family).filter((family) => !listed.has(family));
+    uploaded.forEach((family) => listed.add(family));
+    const system = [...SYSTEM_FONTS, value].filter((family, index, list) => family && !listed.has(family) && list.indexOf(family) === index);
+    const groups = [
+        { label: 'Brand fonts', fonts: brandFonts },
+        { label: 'Uploaded fonts', fonts: uploaded },
+        { label: brandFonts.length > 0 || uploaded.length > 0 ? 'Other fonts' : '', fonts: system },
+    ].filter((group) => group.fonts.length > 0);
+
+    const handleSelect = (family: string) => {
+        setIsOpen(false);
+        if (family !== value) onChange(family);
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen((open) => !open)}
+                className="w-full flex items-center justify-between gap-2 text-sm bg-transparent border border-border rounded px-2 py-1 outline-none focus:ring-1 focus:ring-primary"
+            >
+                <span className="truncate" style={previewStyle(value)}>{value}</span>
+                <ChevronDown size={14} className="text-muted-foreground shrink-0" />
+            </button>
+
+            {isOpen && (
+                <div className="absolute left-0 right-0 top-full mt-1 z-50 max-h-72 overflow-y-auto bg-card border border-border rounded-md shadow-xl py-1 animate-in fade-in zoom-in-95 duration-100">
+                    {groups.map((group) => (
+                        <div key={group.label || 'fonts'}>
+                            {group.label && (
+                                <div className="px-2 pt-2 pb-1 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">{group.label}</div>
+                            )}
+                            {group.fonts.map((family) => (
+                                <button
+                                    key={family}
+                                    onClick={() => handleSelect(family)}
+                                    className={cn(
+                                        'w-full flex items-center justify-between gap-2 px-2 py-1.5 text-sm text-left hover:bg-secondary/60',
+                                        family === value && 'text-primary'
+                                    )}
+                                    title={family}
+                                >
+                                    <span className="truncate" style={previewStyle(family)}>{family}</span>
+                                    {family === value && <Check size={12} className="shrink-0" />}
+                                </button>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
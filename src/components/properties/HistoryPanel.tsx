@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { History, Undo2, Redo2 } from 'lucide-react';
+import { CanvasHistory, HISTORY_DEPTH_OPTIONS } from '@/lib/canvas-history';
+import { HistoryEntry } from '@/types';
+
+interface HistoryPanelProps {
+    history: CanvasHistory | null;
+}
+
+export function HistoryPanel({ history }: HistoryPanelProps) {
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [index, setIndex] = useState(0);
+    const [limit, setLimit] = useState(0);
+    const [canUndo, setCanUndo] = useState(false);
+    const [canRedo, setCanRedo] = useState(false);
+
+    useEffect(() => {
+        if (!history) return;
+        const sync = () => {
+            setEntries([...history.getEntries()]);
+            setIndex(history.getIndex());
+            setLimit(history.getLimit());
+            setCanUndo(history.canUndo());
+            setCanRedo(history.canRedo());
+        };
+        sync();
+        return history.subscribe(sync);
+    }, [history]);
+
+    const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+    return (
+        <div className="flex flex-col h-full bg-card">
+            {/* Header */}
+            <div className="px-4 py-3 border-b border-border/50 bg-secondary/10 flex justify-between items-center">
+                <h2 className="font-semibold text-xs tracking-tight text-foreground/90 uppercase flex items-center gap-2">
+                    <History size={14} /> History
+                </h2>
+                <span className="text-[10px] text-muted-foreground">{entries.length} / {limit} steps</span>
+            </div>
+
+            {/* Toolbar */}
+            <div className="flex items-center gap-1 px-3 py-2 border-b border-border/30 bg-secondary/5">
+                <button
+                    onClick={() => history?.undo()}
+                    disabled={!canUndo}
+                    className="p-1.5 hover:bg-secondary rounded text-muted-foreground disabled:opacity-40 disabled:hover:bg-transparent"
+                    title="Undo (Ctrl/Cmd+Z)"
+                >
+                    <Undo2 size={14} />
+                </button>
+                <button
+                    onClick={() => history?.redo()}
+                    disabled={!canRedo}
+                    className="p-1.5 hover:bg-secondary rounded text-muted-foreground disabled:opacity-40 disabled:hover:bg-transparent"
+                    title="Redo (Ctrl/Cmd+Shift+Z)"
+                >
+                    <Redo2 size={14} />
+                </button>
+                <div className="ml-auto flex items-center gap-1 text-[10px] text-muted-foreground">
+                    <label htmlFor="history-depth">Depth</label>
+                    <select
+                        id="history-depth"
+                        className="bg-background border border-border rounded px-1 py-0.5 text-[10px]"
+                        value={limit}
+                        onChange={(e) => history?.setLimit(parseInt(e.target.value, 10))}
+                    >
+                        {[...new Set([...HISTORY_DEPTH_OPTIONS, limit])].sort((a, b) => a - b).map((option) => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {/* List (newest first) */}
+            <div className="flex-1 overflow-y-auto p-2 scrollbar-thin">
+                {entries.map((entry, entryIndex) => ({ entry, entryIndex })).reverse().map(({ entry, entryIndex }) => {
+                    const isCurrent = entryIndex === index;
+                    const isUndone = entryIndex > index;
+                    return (
+                        <button
+                            key={entry.id}
+                            onClick={() => history?.jumpTo(entryIndex)}
+                            className={`w-full flex items-center justify-between px-2 py-1.5 mb-1 rounded-md border text-left text-xs transition-colors ${
+                                isCurrent
+                                    ? 'bg-primary/10 border-primary/30 text-foreground'
+                                    : 'bg-card border-border/50 hover:bg-secondary/50'
+                            } ${isUndone ? 'opacity-50 italic' : ''}`}
+                        >
+                            <span className="truncate">{entry.label}</span>
+                            <span className="text-[10px] text-muted-foreground shrink-0 ml-2">{formatTime(entry.timestamp)}</span>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
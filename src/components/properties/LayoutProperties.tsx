@@ -1,12 +1,35 @@
 import React from 'react';
+import { HorizontalAnchor, ResizeAnchor, VerticalAnchor } from '@/types';
 
 interface LayoutPropertiesProps {
     onAlign: (alignment: 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom') => void;
     onDistribute: (distribution: 'horizontal' | 'vertical') => void;
     canDistribute: boolean;
+    /** Single objects only: the layout constraint and whether it is the object's own, its group's or inferred */
+    resizeAnchor?: { anchor: ResizeAnchor; source: 'own' | 'group' | 'auto' };
+    /** null goes back to the group's or the inferred constraint */
+    onResizeAnchorChange?: (anchor: ResizeAnchor | null) => void;
+    /** Groups pass their constraint to children without one */
+    isGroup?: boolean;
 }
 
-export function LayoutProperties({ onAlign, onDistribute, canDistribute }: LayoutPropertiesProps) {
+const HORIZONTAL_ANCHORS: { value: HorizontalAnchor; label: string }[] = [
+    { value: 'left', label: 'Left' },
+    { value: 'center', label: 'Centre' },
+    { value: 'right', label: 'Right' },
+    { value: 'left-right', label: 'Left & Right' },
+    { value: 'scale', label: 'Scale' },
+];
+
+const VERTICAL_ANCHORS: { value: VerticalAnchor; label: string }[] = [
+    { value: 'top', label: 'Top' },
+    { value: 'center', label: 'Centre' },
+    { value: 'bottom', label: 'Bottom' },
+    { value: 'top-bottom', label: 'Top & Bottom' },
+    { value: 'scale', label: 'Scale' },
+];
+
+export function LayoutProperties({ onAlign, onDistribute, canDistribute, resizeAnchor, onResizeAnchorChange, isGroup }: LayoutPropertiesProps) {
     return (
         <div className="p-4 space-y-4 border-b border-border/50">
             <h3 className="font-medium text-sm mb-3">Alignment</h3>
@@ -42,6 +65,41 @@ export function LayoutProperties({ onAlign, onDistribute, canDistribute }: Layou
                     </button>
                 </div>
             )}
+
+            {resizeAnchor && onResizeAnchorChange && (
+                <div className="space-y-2 pt-1">
+                    <div className="flex items-center justify-between">
+                        <h3 className="font-medium text-sm">Constraints</h3>
+                        {resizeAnchor.source === 'own' ? (
+                            <button onClick={() => onResizeAnchorChange(null)} className="text-[10px] text-primary hover:underline">Reset</button>
+                        ) : (
+                            <span className="text-[10px] text-muted-foreground">{resizeAnchor.source === 'group' ? 'From group' : 'Auto'}</span>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <select
+                            value={resizeAnchor.anchor.horizontal}
+                            onChange={(e) => onResizeAnchorChange({ ...resizeAnchor.anchor, horizontal: e.target.value as HorizontalAnchor })}
+                            className="bg-background border border-border rounded px-1.5 py-1 text-xs"
+                            title="Horizontal"
+                        >
+                            {HORIZONTAL_ANCHORS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                        <select
+                            value={resizeAnchor.anchor.vertical}
+                            onChange={(e) => onResizeAnchorChange({ ...resizeAnchor.anchor, vertical: e.target.value as VerticalAnchor })}
+                            className="bg-background border border-border rounded px-1.5 py-1 text-xs"
+                            title="Vertical"
+                        >
+                            {VERTICAL_ANCHORS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                        Where the object goes when its page is resized or the design is resized to another size.
+                        {isGroup && ' Layers inside without constraints of their own follow the group.'}
+                    </p>
+                </div>
+            )}
         </div>
     );
 }
@@ -3,6 +3,7 @@ import * as fabric from 'fabric';
 import { Wand2 } from 'lucide-react';
 import { ExtendedFabricObject } from '@/types';
 import { getNextIndexedName, getGroupNames, moveObjectToGroup, applyAlphaToColor } from '@/lib/fabric-utils';
+import { BrandSwatches } from './BrandSwatches';
 
 interface PaintPropertiesProps {
     canvas: fabric.Canvas | null;
@@ -221,6 +222,7 @@ export function PaintProperties({ canvas, activeTool, onExpandFolder, onObjectsU
                                 </div>
                         </div>
                     </div>
+                    <BrandSwatches value={paintColor} onSelect={setPaintColor} />
                 </div>
 
                 <div className="space-y-3">
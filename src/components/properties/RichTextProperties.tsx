@@ -0,0 +1,221 @@
+import React, { useEffect, useReducer } from 'react';
+import * as fabric from 'fabric';
+import {
+    Bold, Italic, Underline, Superscript, Subscript, List, ListOrdered,
+    TextAlignStart, TextAlignCenter, TextAlignEnd, TextAlignJustify
+} from 'lucide-react';
+import { ExtendedFabricObject, TextListType, TextScript, TextTransform } from '@/types';
+import { CharacterStyle, getStyleRange, readCharacterStyle, readListType } from '@/lib/rich-text';
+import { BrandSwatches } from './BrandSwatches';
+
+export type RichTextChange =
+    | { prop: 'characterStyle'; value: Partial<Omit<CharacterStyle, 'script'>> }
+    | { prop: 'textScript'; value: TextScript }
+    | { prop: 'textList'; value: TextListType }
+    | { prop: 'textAlign'; value: string }
+    | { prop: 'charSpacing'; value: number }
+    | { prop: 'lineHeight'; value: number }
+    | { prop: 'textTransform'; value: TextTransform };
+
+interface RichTextPropertiesProps {
+    canvas: fabric.Canvas | null;
+    text: fabric.IText;
+    onChange: (change: RichTextChange) => void;
+}
+
+const ALIGNMENTS = [
+    { value: 'left', label: 'Align left', icon: TextAlignStart },
+    { value: 'center', label: 'Centre', icon: TextAlignCenter },
+    { value: 'right', label: 'Align right', icon: TextAlignEnd },
+    { value: 'justify', label: 'Justify', icon: TextAlignJustify },
+];
+
+// Fabric's own, restored by double-clicking the slider
+const DEFAULT_LINE_HEIGHT = 1.16;
+
+const TRANSFORM_LABELS: Record<TextTransform, string> = {
+    'none': 'As typed',
+    'uppercase': 'Uppercase',
+    'small-caps': 'Small caps',
+};
+
+// Buttons keep the focus on the text being edited, so its selection stays put
+const keepTextFocus = (e: React.MouseEvent) => e.preventDefault();
+
+const toggleClass = (active: boolean) =>
+    `flex-1 flex justify-center py-1 rounded ${active ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground hover:text-foreground'}`;
+
+/**
+ * Character formatting of the selected characters, or of the whole text when it is not being
+ * edited, and the paragraph settings of the text.
+ */
+export function RichTextProperties({ canvas, text, onChange }: RichTextPropertiesProps) {
+    // The text object holds the state; read it again whenever the selection or text changes
+    const [, refresh] = useReducer((count: number) => count + 1, 0);
+
+    useEffect(() => {
+        if (!canvas) return;
+        const handleChange = () => refresh();
+        canvas.on('text:selection:changed', handleChange);
+        canvas.on('text:changed', handleChange);
+        canvas.on('text:editing:entered', handleChange);
+        canvas.on('text:editing:exited', handleChange);
+        canvas.on('object:modified', handleChange);
+        return () => {
+            canvas.off('text:selection:changed', handleChange);
+            canvas.off('text:changed', handleChange);
+            canvas.off('text:editing:entered', handleChange);
+            canvas.off('text:editing:exited', handleChange);
+            canvas.off('object:modified', handleChange);
+        };
+    }, [canvas]);
+
+    const style = readCharacterStyle(text);
+    const listType = readListType(text);
+    const { isSelection } = getStyleRange(text);
+    const transform = (text as ExtendedFabricObject).textTransform ?? 'none';
+
+    const setCharacterStyle = (value: Partial<Omit<CharacterStyle, 'script'>>) => onChange({ prop: 'characterStyle', value });
+
+    return (
+        <div className="p-4 space-y-4 border-b border-border/50">
+            <div className="flex items-center justify-between">
+                <h3 className="font-medium text-sm">Rich Text</h3>
+                <span className="text-[10px] text-muted-foreground">{isSelection ? 'Selected characters' : 'Whole text'}</span>
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex bg-secondary rounded p-0.5">
+                    <button title="Bold" onMouseDown={keepTextFocus} onClick={() => setCharacterStyle({ bold: !style.bold })} className={toggleClass(style.bold)}>
+                        <Bold size={14} />
+                    </button>
+                    <button title="Italic" onMouseDown={keepTextFocus} onClick={() => setCharacterStyle({ italic: !style.italic })} className={toggleClass(style.italic)}>
+                        <Italic size={14} />
+                    </button>
+                    <button title="Underline" onMouseDown={keepTextFocus} onClick={() => setCharacterStyle({ underline: !style.underline })} className={toggleClass(style.underline)}>
+                        <Underline size={14} />
+                    </button>
+                    <button
+                        title="Superscript"
+                        onMouseDown={keepTextFocus}
+                        onClick={() => onChange({ prop: 'textScript', value: style.script === 'superscript' ? 'none' : 'superscript' })}
+                        className={toggleClass(style.script === 'superscript')}
+                    >
+                        <Superscript size={14} />
+                    </button>
+                    <button
+                        title="Subscript"
+                        onMouseDown={keepTextFocus}
+                        onClick={() => onChange({ prop: 'textScript', value: style.script === 'subscript' ? 'none' : 'subscript' })}
+                        className={toggleClass(style.script === 'subscript')}
+                    >
+                        <Subscript size={14} />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-muted-foreground">Colour</label>
+                        <input
+                            type="color"
+                            value={style.fill.startsWith('#') && style.fill.length === 7 ? style.fill : '#000000'}
+                            onChange={(e) => setCharacterStyle({ fill: e.target.value })}
+                            className="w-full h-7 bg-transparent border border-border rounded cursor-pointer"
+                        />
+                        <div onMouseDown={keepTextFocus}>
+                            <BrandSwatches value={style.fill} onSelect={(fill) => setCharacterStyle({ fill })} />
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-muted-foreground">Size</label>
+                        <input
+                            type="number"
+                            min={1}
+                            value={style.fontSize}
+                            onChange={(e) => {
+                                const size = parseInt(e.target.value);
+                                if (size > 0) setCharacterStyle({ fontSize: size });
+                            }}
+                            className="w-full text-xs bg-transparent border border-border rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-primary"
+                        />
+                    </div>
+                </div>
+            </div>
+
+            <div className="pt-2 border-t border-border/30 space-y-3">
+                <label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider block">Paragraph</label>
+
+                <div className="grid grid-cols-[2fr_1fr] gap-2">
+                    <div className="flex bg-secondary rounded p-0.5">
+                        {ALIGNMENTS.map(({ value, label, icon: Icon }) => (
+                            <button
+                                key={value}
+                                title={label}
+                                onMouseDown={keepTextFocus}
+                                onClick={() => onChange({ prop: 'textAlign', value })}
+                                className={toggleClass(text.textAlign === value)}
+                            >
+                                <Icon size={14} />
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex bg-secondary rounded p-0.5">
+                        <button title="Bulleted list" onMouseDown={keepTextFocus} onClick={() => onChange({ prop: 'textList', value: 'bullet' })} className={toggleClass(listType === 'bullet')}>
+                            <List size={14} />
+                        </button>
+                        <button title="Numbered list" onMouseDown={keepTextFocus} onClick={() => onChange({ prop: 'textList', value: 'number' })} className={toggleClass(listType === 'number')}>
+                            <ListOrdered size={14} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex justify-between text-[10px] text-muted-foreground">
+                        <span>Letter Spacing</span>
+                        <span>{text.charSpacing}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="-200"
+                        max="1000"
+                        step="10"
+                        value={text.charSpacing}
+                        onChange={(e) => onChange({ prop: 'charSpacing', value: parseInt(e.target.value) })}
+                        onDoubleClick={() => onChange({ prop: 'charSpacing', value: 0 })}
+                        className="w-full h-1 bg-secondary rounded-lg appearance-none cursor-pointer"
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex justify-between text-[10px] text-muted-foreground">
+                        <span>Line Height</span>
+                        <span>{text.lineHeight.toFixed(2)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="0.5"
+                        max="3"
+                        step="0.05"
+                        value={text.lineHeight}
+                        onChange={(e) => onChange({ prop: 'lineHeight', value: parseFloat(e.target.value) })}
+                        onDoubleClick={() => onChange({ prop: 'lineHeight', value: DEFAULT_LINE_HEIGHT })}
+                        className="w-full h-1 bg-secondary rounded-lg appearance-none cursor-pointer"
+                    />
+                </div>
+
+                <div className="space-y-1">
+                    <label className="text-[10px] text-muted-foreground">Transform</label>
+                    <select
+                        value={transform}
+                        onChange={(e) => onChange({ prop: 'textTransform', value: e.target.value as TextTransform })}
+                        className="w-full text-xs bg-transparent border border-border rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-primary"
+                    >
+                        {(Object.keys(TRANSFORM_LABELS) as TextTransform[]).map((value) => (
+                            <option key={value} value={value} className="bg-card text-foreground">{TRANSFORM_LABELS[value]}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -5,11 +5,24 @@ import { TransformProperties } from './TransformProperties';
 import { LayoutProperties } from './LayoutProperties';
 import { LayerEffectsProperties } from './LayerEffectsProperties';
 import { TextProperties } from './TextProperties';
+import { RichTextProperties } from './RichTextProperties';
+import { TextPathProperties } from './TextPathProperties';
+import { TextFitProperties } from './TextFitProperties';
+import { TextStyleSheetAction } from './TextStyleSheets';
 import { ImageFilterProperties, ImageFilterValues } from './ImageFilterProperties';
 import { ShadowStrokeProperties } from './ShadowStrokeProperties';
 import { SkewTaperProperties } from './SkewTaperProperties';
 import { AdjustmentControls } from './AdjustmentControls';
-import { GripVertical, Folder, FolderPlus, Layers, Blend } from 'lucide-react';
+import { VariableProperties } from './VariableProperties';
+import { BrandSwatches } from './BrandSwatches';
+import { StackItemProperties, StackProperties } from './StackProperties';
+import { ComponentAction, ComponentLayerProperties, ComponentProperties } from './ComponentProperties';
+import { describeResizeAnchor } from '@/lib/layout-constraints';
+import { describeObject } from '@/lib/canvas-history';
+import { canFillStack, isStack } from '@/lib/stack-layout';
+import { findOwningInstance, getOverride } from '@/lib/components';
+import { canFollowPath, findPathTarget, isOnPath } from '@/lib/text-path';
+import { GripVertical, Folder, FolderPlus, Layers, Blend, Rows3, Component, Spline } from 'lucide-react';
 
 interface SelectionPropertiesProps {
     canvas: fabric.Canvas | null;
@@ -30,8 +43,14 @@ interface SelectionPropertiesProps {
     onLayoutAction: (type: 'align' | 'distribute', value: string) => void;
     onGroup: () => void;
     onUngroup: () => void;
+    onCreateStack: () => void;
+    onComponentAction: (action: ComponentAction) => void;
+    onReplaceComponentImage: (file: File) => void;
+    isPublishingComponent?: boolean;
     onCreateMask: () => void;
     onReleaseMask: () => void;
+    onSetTextOnPath: () => void;
+    onStyleSheetAction: (action: TextStyleSheetAction) => void;
     
     // Sub-component specific handlers (pass-through helpers from parent would be ideal, 
     // but for now we might need to assume parent handles the heavy lifting via onPropChange or specific props)
@@ -41,7 +60,7 @@ interface SelectionPropertiesProps {
     updateAdjustment: (settings: AdjustmentLayerSettings) => void;
     
     // Specific state overrides that might not be on object directly or need React state
-    textState?: { font: string; weight: string; curve: number; center: number };
+    textState?: { font: string; weight: string; size: number; curve: number; center: number };
     effectState: { 
         stroke: { color: string; width: number; opacity: number; inside: boolean };
         shadow: { enabled: boolean; color: string; blur: number; offsetX: number; offsetY: number; opacity: number };
@@ -61,8 +80,14 @@ export function SelectionProperties({
     onLayoutAction,
     onGroup,
     onUngroup,
+    onCreateStack,
+    onComponentAction,
+    onReplaceComponentImage,
+    isPublishingComponent,
     onCreateMask,
     onReleaseMask,
+    onSetTextOnPath,
+    onStyleSheetAction,
     updateAdjustment,
     textState,
     effectState
@@ -70,12 +95,26 @@ export function SelectionProperties({
 
     const isMultiple = selectedObjects.length > 1;
     const isGroup = selectedObject?.type === 'group';
-    const isText = selectedObject?.type === 'text' || selectedObject?.type === 'i-text';
+    const isText = selectedObject?.type === 'text' || selectedObject?.type === 'i-text' || selectedObject?.type === 'textbox';
     const isImage = selectedObject?.type === 'image';
     const isRect = selectedObject?.type === 'rect'; // Could be adjustment layer
     
     const extended = selectedObject as ExtendedFabricObject | null;
     const isAdjustment = extended?.isAdjustmentLayer;
+    // Stacks place their children, so those have no constraints of their own
+    const inStack = isStack(selectedObject?.parent);
+    const owningInstance = selectedObject ? findOwningInstance(selectedObject) : null;
+    const componentRole = extended?.componentId ? extended.componentRole ?? null : null;
+    // Components are made from top-level layers; layers of an instance follow its master instead
+    const showComponent = Boolean(componentRole) || (!selectedObject?.parent && !isAdjustment && !extended?.is3DModel);
+    const variableKind = selectedObject instanceof fabric.FabricText
+        ? 'text'
+        : selectedObject instanceof fabric.FabricImage && !extended?.is3DModel ? 'image' : null;
+    // A top-level text and the shape to set it along
+    const canSetTextOnPath = selectedObjects.length === 2
+        && selectedObjects.some((obj) => obj instanceof fabric.IText && !obj.parent && !isOnPath(obj))
+        && selectedObjects.some((obj) => !(obj instanceof fabric.FabricText) && canFollowPath(obj));
+    const pathTarget = canvas && isOnPath(selectedObject) ? findPathTarget(canvas, selectedObject) : undefined;
 
     // Helper wrapper
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -96,11 +135,22 @@ export function SelectionProperties({
                     <button onClick={onGroup} className="flex flex-col items-center gap-1 p-2 hover:bg-secondary rounded-md text-xs">
                         <Folder size={20} /> Group
                     </button>
+                    <button onClick={onCreateStack} className="flex flex-col items-center gap-1 p-2 hover:bg-secondary rounded-md text-xs">
+                        <Rows3 size={20} /> Stack
+                    </button>
+                    <button onClick={() => onComponentAction('create')} className="flex flex-col items-center gap-1 p-2 hover:bg-secondary rounded-md text-xs">
+                        <Component size={20} /> Component
+                    </button>
                     {selectedObjects.length === 2 && (
                          <button onClick={onCreateMask} className="flex flex-col items-center gap-1 p-2 hover:bg-secondary rounded-md text-xs">
                             <Blend size={20} /> Mask
                         </button>
                     )}
+                    {canSetTextOnPath && (
+                         <button onClick={onSetTextOnPath} className="flex flex-col items-center gap-1 p-2 hover:bg-secondary rounded-md text-xs">
+                            <Spline size={20} /> Text on Path
+                        </button>
+                    )}
                 </div>
 
                 <LayoutProperties 
@@ -149,8 +199,54 @@ export function SelectionProperties({
                 onAlign={(align) => onLayoutAction('align', align)}
                 onDistribute={() => {}} // Single obj cannot distribute
                 canDistribute={false}
+                resizeAnchor={canvas && !inStack ? describeResizeAnchor(canvas, selectedObject) : undefined}
+                onResizeAnchorChange={(anchor) => onPropChange('resizeAnchor', anchor)}
+                isGroup={isGroup}
             />
 
+            {isGroup && !extended?.is3DModel && (
+                <StackProperties
+                    layout={extended?.stackLayout ?? null}
+                    size={{ width: selectedObject.width || 0, height: selectedObject.height || 0 }}
+                    background={typeof selectedObject.backgroundColor === 'string' && selectedObject.backgroundColor ? selectedObject.backgroundColor : null}
+                    onChange={(layout) => onPropChange('stackLayout', layout)}
+                    onSizeChange={(size) => onPropChange('stackSize', size)}
+                    onBackgroundChange={(color) => onPropChange('backgroundColor', color)}
+                />
+            )}
+
+            {showComponent && (
+                <ComponentProperties
+                    role={componentRole}
+                    name={componentRole ? extended?.name : undefined}
+                    version={extended?.componentVersion}
+                    overrideCount={Object.keys(extended?.componentOverrides ?? {}).length}
+                    isPublishing={isPublishingComponent}
+                    onCreate={() => onComponentAction('create')}
+                    onPublish={() => onComponentAction('publish')}
+                    onGoToMaster={() => onComponentAction('go-to-master')}
+                    onResetOverrides={() => onComponentAction('reset-overrides')}
+                    onDetach={() => onComponentAction('detach')}
+                />
+            )}
+
+            {owningInstance && extended?.componentKey && (
+                <ComponentLayerProperties
+                    override={getOverride(selectedObject)}
+                    isImage={selectedObject instanceof fabric.FabricImage}
+                    onReplaceImage={onReplaceComponentImage}
+                    onReset={() => onComponentAction('reset-layer')}
+                />
+            )}
+
+            {inStack && (
+                <StackItemProperties
+                    fill={extended?.stackFill === true}
+                    canFill={canFillStack(selectedObject)}
+                    onFillChange={(fill) => onPropChange('stackFill', fill)}
+                />
+            )}
+
             {/* Transform */}
             <TransformProperties 
                 x={selectedObject.left || 0}
@@ -200,18 +296,21 @@ export function SelectionProperties({
                     </div>
                     
                     {!isGradient ? (
-                        <div className="flex items-center gap-2">
-                            <div className="relative flex-1 h-8 rounded border border-border shadow-sm overflow-hidden group cursor-pointer">
-                                <div className="absolute inset-0 z-0 bg-image-checkered opacity-20" />
-                                <div className="absolute inset-0 z-10" style={{ backgroundColor: color }} />
-                                <input 
-                                    type="color" 
-                                    value={color}
-                                    onChange={(e) => onPropChange('fill', e.target.value)}
-                                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
-                                />
+                        <div className="space-y-2">
+                            <div className="flex items-center gap-2">
+                                <div className="relative flex-1 h-8 rounded border border-border shadow-sm overflow-hidden group cursor-pointer">
+                                    <div className="absolute inset-0 z-0 bg-image-checkered opacity-20" />
+                                    <div className="absolute inset-0 z-10" style={{ backgroundColor: color }} />
+                                    <input
+                                        type="color"
+                                        value={color}
+                                        onChange={(e) => onPropChange('fill', e.target.value)}
+                                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
+                                    />
+                                </div>
+                                <div className="text-xs text-muted-foreground font-mono">{color.toUpperCase()}</div>
                             </div>
-                            <div className="text-xs text-muted-foreground font-mono">{color.toUpperCase()}</div>
+                            <BrandSwatches value={color} onSelect={(c) => onPropChange('fill', c)} />
                         </div>
                     ) : (
                         <div className="space-y-3 bg-secondary/20 p-2 rounded-md">
@@ -229,7 +328,7 @@ export function SelectionProperties({
                              </div>
 
                              {/* Stops */}
-                             <div className="flex items-center gap-2">
+                             <div className="flex items-start gap-2">
                                  <div className="space-y-1 flex-1">
                                      <span className="text-[10px] text-muted-foreground">Start Color</span>
                                         <div className="relative h-6 rounded border border-border overflow-hidden">
@@ -241,6 +340,7 @@ export function SelectionProperties({
                                                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                                             />
                                         </div>
+                                        <BrandSwatches value={gradientState?.start} onSelect={(c) => onPropChange('gradient', { ...gradientState, start: c })} />
                                  </div>
                                  <div className="space-y-1 flex-1">
                                      <span className="text-[10px] text-muted-foreground">End Color</span>
@@ -253,6 +353,7 @@ export function SelectionProperties({
                                                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                                             />
                                         </div>
+                                        <BrandSwatches value={gradientState?.end} onSelect={(c) => onPropChange('gradient', { ...gradientState, end: c })} />
                                  </div>
                              </div>
                              
@@ -278,13 +379,44 @@ export function SelectionProperties({
 
             {isText && textState && (
                 <TextProperties 
+                    canvas={canvas}
+                    text={selectedObject instanceof fabric.IText ? selectedObject : null}
                     fontFamily={textState.font}
                     fontWeight={textState.weight}
+                    fontSize={textState.size}
                     curveStrength={textState.curve}
                     curveCenter={textState.center}
+                    isOnPath={isOnPath(selectedObject)}
                     onFontFamilyChange={(f) => onPropChange('fontFamily', f)}
                     onFontWeightChange={(w) => onPropChange('fontWeight', w)}
                     onCurveChange={(s, c) => onPropChange('curve', { strength: s, center: c })}
+                    onApplyTextStyle={(style) => onPropChange('textStyle', style)}
+                    onStyleSheetAction={onStyleSheetAction}
+                />
+            )}
+
+            {isOnPath(selectedObject) && (
+                <TextPathProperties
+                    text={selectedObject}
+                    pathName={pathTarget ? describeObject(pathTarget) : null}
+                    onChange={(change) => onPropChange(change.prop, change.value)}
+                    onDetach={() => onPropChange('textPath', null)}
+                />
+            )}
+
+            {selectedObject instanceof fabric.IText && (
+                <RichTextProperties
+                    canvas={canvas}
+                    text={selectedObject}
+                    onChange={(change) => onPropChange(change.prop, change.value)}
+                />
+            )}
+
+            {selectedObject instanceof fabric.Textbox && (
+                <TextFitProperties
+                    canvas={canvas}
+                    text={selectedObject}
+                    onChange={(fit) => onPropChange('textFit', fit)}
                 />
             )}
 
@@ -307,6 +439,15 @@ export function SelectionProperties({
                  </div>
             )}
 
+            {variableKind && (
+                <VariableProperties
+                    key={extended?.id ?? ''}
+                    kind={variableKind}
+                    variableName={extended?.variableName ?? ''}
+                    onChange={(name) => onPropChange('variableName', name)}
+                />
+            )}
+
             {/* Appearance (Opacity, Blend) */}
             <LayerEffectsProperties 
                 opacity={selectedObject.opacity || 1}
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { BrandSwatches } from './BrandSwatches';
 
 interface ShadowStrokeValues {
     strokeColor: string;
@@ -59,6 +60,7 @@ export function ShadowStrokeProperties({ values, onStrokeChange, onShadowChange
                         </button>
                     </div>
                 </div>
+                <BrandSwatches value={values.strokeColor} onSelect={handleStrokeColor} />
 
                 <div className="space-y-2">
                     <div className="flex justify-between text-[10px] text-muted-foreground">
@@ -115,6 +117,7 @@ export function ShadowStrokeProperties({ values, onStrokeChange, onShadowChange
                                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
                             />
                         </div>
+                        <BrandSwatches value={values.shadowColor} onSelect={handleShadowColor} />
 
                         <div className="space-y-2">
                             <div className="flex justify-between text-[10px] text-muted-foreground">
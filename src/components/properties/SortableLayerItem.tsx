@@ -2,7 +2,7 @@ import React, { useState, useRef } from 'react';
 import * as fabric from 'fabric';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical, Folder, FolderOpen, ChevronRight, ChevronDown, Eye, EyeOff, Lock, Unlock, Trash2, Blend, Image as ImageIcon } from 'lucide-react';
+import { GripVertical, Folder, FolderOpen, ChevronRight, ChevronDown, Eye, EyeOff, Lock, Unlock, Trash2, Blend, Image as ImageIcon, Rows3, Columns3, AlertTriangle } from 'lucide-react';
 import { ExtendedFabricObject, LayerNode } from '@/types';
 
 interface SortableLayerItemProps {
@@ -40,7 +40,7 @@ export function SortableLayerItem({ id, obj, index, selectedIds, selectLayer, to
     const isSelected = selectedIds.has(id);
 
     const [isEditing, setIsEditing] = useState(false);
-    const [name, setName] = useState(extendedObj.name || (extendedObj.isAdjustmentLayer ? 'Adjustment' : (obj.type === 'i-text' ? (obj as fabric.IText).text : (obj.type === 'group' ? 'Folder' : (obj.type || 'Object')))));
+    const [name, setName] = useState(extendedObj.name || (extendedObj.isAdjustmentLayer ? 'Adjustment' : (obj instanceof fabric.IText ? obj.text : (obj.type === 'group' ? 'Folder' : (obj.type || 'Object')))));
     // Use fill as color, defaulting to transparent or black if complex
     const [layerColor, setLayerColor] = useState(() => {
          if (typeof obj.fill === 'string') return obj.fill;
@@ -145,10 +145,12 @@ export function SortableLayerItem({ id, obj, index, selectedIds, selectLayer, to
                     {obj.type === 'rect' && <div className="w-4 h-4 bg-foreground rounded-sm opacity-50" />}
                     {obj.type === 'circle' && <div className="w-4 h-4 bg-foreground rounded-full opacity-50" />}
                     {obj.type === 'triangle' && <div className="w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-b-[10px] border-b-foreground opacity-50" />}
-                    {(obj.type === 'text' || obj.type === 'i-text') && <span className="text-xs font-serif font-bold">T</span>}
+                    {obj instanceof fabric.FabricText && <span className="text-xs font-serif font-bold">T</span>}
                     {extendedObj.isAdjustmentLayer && <Blend size={14} />}
                     {!extendedObj.isAdjustmentLayer && obj.type === 'image' && <ImageIcon size={14} />}
-                    {obj.type === 'group' && (expanded ? <FolderOpen size={14} /> : <Folder size={14} />)}
+                    {obj.type === 'group' && (extendedObj.stackLayout
+                        ? (extendedObj.stackLayout.direction === 'horizontal' ? <Columns3 size={14} /> : <Rows3 size={14} />)
+                        : (expanded ? <FolderOpen size={14} /> : <Folder size={14} />))}
                     {'isStar' in obj && <div className="text-[8px]">★</div>}
 
                      {/* Color Input Overlay (Not for images) */}
@@ -175,7 +177,7 @@ export function SortableLayerItem({ id, obj, index, selectedIds, selectLayer, to
                                 if (e.key === 'Enter') handleNameSave();
                                 if (e.key === 'Escape') {
                                     setIsEditing(false);
-                                    setName((obj as ExtendedFabricObject).name || (obj.type === 'i-text' ? (obj as fabric.IText).text : (obj.type === 'group' ? 'Folder' : (obj.type || 'Object'))));
+                                    setName((obj as ExtendedFabricObject).name || (obj instanceof fabric.IText ? obj.text : (obj.type === 'group' ? 'Folder' : (obj.type || 'Object'))));
                                 }
                             }}
                             onClick={(e) => e.stopPropagation()}
@@ -190,7 +192,7 @@ export function SortableLayerItem({ id, obj, index, selectedIds, selectLayer, to
                             }}
                             title="Double click to rename"
                         >
-                            {(obj as ExtendedFabricObject).name || (extendedObj.isAdjustmentLayer ? 'Adjustment' : (obj.type === 'i-text' ? (obj as fabric.IText).text : (obj.type === 'group' ? 'Folder' : (obj.type || 'Object'))))}
+                            {(obj as ExtendedFabricObject).name || (extendedObj.isAdjustmentLayer ? 'Adjustment' : (obj instanceof fabric.IText ? obj.text : (obj.type === 'group' ? 'Folder' : (obj.type || 'Object'))))}
                         </span>
                     )}
                     <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
@@ -202,6 +204,11 @@ export function SortableLayerItem({ id, obj, index, selectedIds, selectLayer, to
                             <EyeOff size={12} className="text-rose-500" />
                         )}
                         {isLocked && <Lock size={12} className="text-amber-500" />}
+                        {extendedObj.textOverflow && (
+                            <span title="The text does not fit its box" className="flex">
+                                <AlertTriangle size={12} className="text-red-500" />
+                            </span>
+                        )}
                     </div>
                 </div>
             </div>
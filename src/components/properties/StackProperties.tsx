@@ -0,0 +1,193 @@
+import React from 'react';
+import { ArrowDown, ArrowRight, Rows3 } from 'lucide-react';
+import { StackAlign, StackLayout } from '@/types';
+import { DEFAULT_STACK_LAYOUT } from '@/lib/stack-layout';
+import { BrandSwatches } from './BrandSwatches';
+
+interface StackPropertiesProps {
+    /** null while the group is a plain folder */
+    layout: StackLayout | null;
+    /** The stack's own size, edited when it does not hug its children */
+    size: { width: number; height: number };
+    /** Fill behind the stack, padding included; null for none */
+    background: string | null;
+    onChange: (layout: StackLayout | null) => void;
+    onSizeChange: (size: { width: number; height: number }) => void;
+    onBackgroundChange: (color: string | null) => void;
+}
+
+const ALIGN_LABELS: Record<StackLayout['direction'], Record<StackAlign, string>> = {
+    horizontal: { start: 'Top', center: 'Middle', end: 'Bottom' },
+    vertical: { start: 'Left', center: 'Centre', end: 'Right' },
+};
+
+/** Auto layout settings for a group: children stacked in a row or column. */
+export function StackProperties({ layout, size, background, onChange, onSizeChange, onBackgroundChange }: StackPropertiesProps) {
+    if (!layout) {
+        return (
+            <div className="p-4 space-y-2 border-b border-border/50">
+                <h3 className="font-medium text-sm">Auto Layout</h3>
+                <button
+                    onClick={() => onChange(DEFAULT_STACK_LAYOUT)}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded border border-border hover:bg-secondary text-xs"
+                >
+                    <Rows3 size={14} /> Stack children
+                </button>
+                <p className="text-[10px] text-muted-foreground">
+                    Lines the layers up in a row or column that re-flows as they change.
+                </p>
+            </div>
+        );
+    }
+
+    const update = (patch: Partial<StackLayout>) => onChange({ ...layout, ...patch });
+
+    return (
+        <div className="p-4 space-y-3 border-b border-border/50">
+            <div className="flex items-center justify-between">
+                <h3 className="font-medium text-sm">Auto Layout</h3>
+                <button onClick={() => onChange(null)} className="text-[10px] text-primary hover:underline">Remove</button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <div className="flex bg-secondary rounded p-0.5">
+                    <button
+                        title="Row"
+                        onClick={() => update({ direction: 'horizontal' })}
+                        className={`flex-1 flex justify-center py-1 rounded ${layout.direction === 'horizontal' ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground'}`}
+                    >
+                        <ArrowRight size={14} />
+                    </button>
+                    <button
+                        title="Column"
+                        onClick={() => update({ direction: 'vertical' })}
+                        className={`flex-1 flex justify-center py-1 rounded ${layout.direction === 'vertical' ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground'}`}
+                    >
+                        <ArrowDown size={14} />
+                    </button>
+                </div>
+                <select
+                    value={layout.align}
+                    onChange={(e) => update({ align: e.target.value as StackAlign })}
+                    className="bg-background border border-border rounded px-1.5 py-1 text-xs"
+                    title="Alignment"
+                >
+                    {(['start', 'center', 'end'] as StackAlign[]).map((align) => (
+                        <option key={align} value={align}>{ALIGN_LABELS[layout.direction][align]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                    <label className="text-[10px] text-muted-foreground">Gap</label>
+                    <input
+                        type="number"
+                        value={layout.gap}
+                        onChange={(e) => update({ gap: Number(e.target.value) || 0 })}
+                        className="w-full bg-background border border-border rounded px-2 py-1 text-xs"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-[10px] text-muted-foreground">Padding</label>
+                    <input
+                        type="number"
+                        min="0"
+                        value={layout.padding}
+                        onChange={(e) => update({ padding: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-full bg-background border border-border rounded px-2 py-1 text-xs"
+                    />
+                </div>
+            </div>
+
+            <div className="space-y-1">
+                <label className="text-[10px] text-muted-foreground">Size</label>
+                <div className="flex bg-secondary rounded p-0.5">
+                    <button
+                        onClick={() => update({ sizing: 'hug' })}
+                        className={`flex-1 px-2 py-0.5 text-[10px] rounded ${layout.sizing === 'hug' ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground'}`}
+                    >Hug contents</button>
+                    <button
+                        onClick={() => update({ sizing: 'fixed' })}
+                        className={`flex-1 px-2 py-0.5 text-[10px] rounded ${layout.sizing === 'fixed' ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground'}`}
+                    >Fixed</button>
+                </div>
+                {layout.sizing === 'fixed' && (
+                    <div className="grid grid-cols-2 gap-2 pt-1">
+                        <input
+                            type="number"
+                            min="1"
+                            value={Math.round(size.width)}
+                            onChange={(e) => onSizeChange({ ...size, width: Math.max(1, Number(e.target.value) || 1) })}
+                            className="w-full bg-background border border-border rounded px-2 py-1 text-xs"
+                            title="Width"
+                        />
+                        <input
+                            type="number"
+                            min="1"
+                            value={Math.round(size.height)}
+                            onChange={(e) => onSizeChange({ ...size, height: Math.max(1, Number(e.target.value) || 1) })}
+                            className="w-full bg-background border border-border rounded px-2 py-1 text-xs"
+                            title="Height"
+                        />
+                    </div>
+                )}
+            </div>
+
+            <div className="flex items-center justify-between">
+                <label className="text-[10px] text-muted-foreground">Background</label>
+                <div className="flex items-center gap-2">
+                    {background && (
+                        <button onClick={() => onBackgroundChange(null)} className="text-[10px] text-muted-foreground hover:text-foreground">None</button>
+                    )}
+                    <div className="relative w-8 h-5 rounded border border-border overflow-hidden">
+                        <div className="absolute inset-0 bg-image-checkered opacity-20" />
+                        <div className="absolute inset-0" style={{ backgroundColor: background ?? undefined }} />
+                        <input
+                            type="color"
+                            value={background ?? '#ffffff'}
+                            onChange={(e) => onBackgroundChange(e.target.value)}
+                            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                        />
+                    </div>
+                </div>
+            </div>
+            <BrandSwatches value={background} onSelect={onBackgroundChange} className="justify-end" />
+
+            <p className="text-[10px] text-muted-foreground">
+                Layers are stacked in layer order, bottom layer first. Reorder them in the Layers panel.
+            </p>
+        </div>
+    );
+}
+
+interface StackItemPropertiesProps {
+    fill: boolean;
+    /** Whether the layer can be stretched at all: text boxes and plain shapes */
+    canFill: boolean;
+    onFillChange: (fill: boolean) => void;
+}
+
+/** How a layer sizes itself inside the stack it belongs to. */
+export function StackItemProperties({ fill, canFill, onFillChange }: StackItemPropertiesProps) {
+    return (
+        <div className="p-4 space-y-2 border-b border-border/50">
+            <h3 className="font-medium text-sm">In Stack</h3>
+            <label className={`text-xs flex items-center gap-2 select-none ${canFill ? 'cursor-pointer' : 'opacity-50'}`}>
+                <input
+                    type="checkbox"
+                    checked={fill}
+                    disabled={!canFill}
+                    onChange={(e) => onFillChange(e.target.checked)}
+                    className="rounded border-border"
+                />
+                <span>Fill the stack</span>
+            </label>
+            <p className="text-[10px] text-muted-foreground">
+                {canFill
+                    ? 'Stretches across the stack, and takes up the free space of a fixed-size stack.'
+                    : 'Only text boxes and plain shapes can stretch; this layer keeps its size.'}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,117 @@
+import React, { useEffect, useReducer } from 'react';
+import * as fabric from 'fabric';
+import { AlertTriangle } from 'lucide-react';
+import { TextFit, TextFitMode } from '@/types';
+import { DEFAULT_MIN_FONT_SIZE, FittedTextbox } from '@/lib/text-fit';
+
+interface TextFitPropertiesProps {
+    canvas: fabric.Canvas | null;
+    text: fabric.Textbox;
+    /** null goes back to growing in height */
+    onChange: (fit: TextFit | null) => void;
+}
+
+const MODES: Record<TextFitMode, string> = {
+    'grow-height': 'Grow height',
+    'grow-width': 'Grow width',
+    'shrink': 'Shrink text to fit',
+    'truncate': 'Cut short with …',
+};
+
+const inputClass = 'w-full bg-background border border-border rounded px-2 py-1 text-xs';
+
+/** How a text box makes room for text longer or shorter than the text it was designed with. */
+export function TextFitProperties({ canvas, text, onChange }: TextFitPropertiesProps) {
+    // Fitting happens on the canvas as the text changes; read the result again each time
+    const [, refresh] = useReducer((count: number) => count + 1, 0);
+
+    useEffect(() => {
+        if (!canvas) return;
+        const handleChange = () => refresh();
+        // @ts-expect-error Custom event
+        canvas.on('textfit:change', handleChange);
+        canvas.on('text:changed', handleChange);
+        canvas.on('object:modified', handleChange);
+        return () => {
+            // @ts-expect-error Custom event
+            canvas.off('textfit:change', handleChange);
+            canvas.off('text:changed', handleChange);
+            canvas.off('object:modified', handleChange);
+        };
+    }, [canvas]);
+
+    const { textFit: fit, textOverflow } = text as FittedTextbox;
+    const mode = fit?.mode ?? 'grow-height';
+    const minFontSize = fit?.minFontSize ?? DEFAULT_MIN_FONT_SIZE;
+    const maxFontSize = fit?.maxFontSize ?? text.fontSize;
+    const update = (changes: Partial<TextFit>) => fit && onChange({ ...fit, ...changes });
+
+    return (
+        <div className="p-4 space-y-3 border-b border-border/50">
+            <h3 className="font-medium text-sm">Text Fit</h3>
+
+            <div className="space-y-1">
+                <label className="text-[10px] text-muted-foreground">When the text changes</label>
+                <select
+                    value={mode}
+                    onChange={(e) => onChange(e.target.value === 'grow-height' ? null : { mode: e.target.value as TextFitMode })}
+                    className="w-full text-xs bg-transparent border border-border rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-primary"
+                >
+                    {(Object.keys(MODES) as TextFitMode[]).map((value) => (
+                        <option key={value} value={value} className="bg-card text-foreground">{MODES[value]}</option>
+                    ))}
+                </select>
+            </div>
+
+            {mode === 'shrink' && (
+                <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-muted-foreground">Smallest size</label>
+                        <input
+                            type="number"
+                            min="1"
+                            max={maxFontSize}
+                            value={minFontSize}
+                            onChange={(e) => update({ minFontSize: Math.min(maxFontSize, Math.max(1, Number(e.target.value) || 1)) })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-muted-foreground">Largest size</label>
+                        <input
+                            type="number"
+                            min={minFontSize}
+                            value={maxFontSize}
+                            onChange={(e) => update({ maxFontSize: Math.max(minFontSize, Number(e.target.value) || minFontSize) })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {(mode === 'shrink' || mode === 'truncate') && fit && (
+                <div className="space-y-1">
+                    <label className="text-[10px] text-muted-foreground">Box height</label>
+                    <input
+                        type="number"
+                        min="1"
+                        value={Math.round(fit.height ?? text.height)}
+                        onChange={(e) => update({ height: Math.max(1, Number(e.target.value) || 1) })}
+                        className={inputClass}
+                    />
+                </div>
+            )}
+
+            {textOverflow && (
+                <div className="flex items-center gap-2 rounded border border-red-500/40 bg-red-500/10 px-2 py-1 text-[10px] text-red-600">
+                    <AlertTriangle size={12} className="shrink-0" />
+                    <span>
+                        {mode === 'truncate'
+                            ? 'The text is cut short to fit; it is kept in full for editing.'
+                            : `The text does not fit even at ${minFontSize}px.`}
+                    </span>
+                </div>
+            )}
+        </div>
+    );
+}
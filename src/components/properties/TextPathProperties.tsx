@@ -0,0 +1,102 @@
+import React from 'react';
+import * as fabric from 'fabric';
+import { FlipVertical2, Unlink } from 'lucide-react';
+import { getPathLength } from '@/lib/text-path';
+
+export type TextPathChange =
+    | { prop: 'pathStartOffset'; value: number }
+    | { prop: 'pathSide'; value: fabric.TPathSide }
+    | { prop: 'pathAlign'; value: fabric.TPathAlign }
+    | { prop: 'textAlign'; value: string };
+
+interface TextPathPropertiesProps {
+    text: fabric.IText;
+    /** Name of the shape the text follows; null once that shape is deleted */
+    pathName: string | null;
+    onChange: (change: TextPathChange) => void;
+    onDetach: () => void;
+}
+
+const POSITIONS = [
+    { value: 'left', label: 'Start' },
+    { value: 'center', label: 'Middle' },
+    { value: 'right', label: 'End' },
+];
+
+const BASELINES: Record<fabric.TPathAlign, string> = {
+    baseline: 'Baseline',
+    center: 'Middle of letters',
+    ascender: 'Top of letters',
+    descender: 'Bottom of letters',
+};
+
+/** Where text set along a shape or path sits on it. */
+export function TextPathProperties({ text, pathName, onChange, onDetach }: TextPathPropertiesProps) {
+    const length = Math.round(getPathLength(text));
+    const offset = Math.round(text.pathStartOffset);
+
+    return (
+        <div className="p-4 space-y-3 border-b border-border/50">
+            <div className="flex items-center justify-between">
+                <h3 className="font-medium text-sm">Text on Path</h3>
+                <button onClick={onDetach} className="flex items-center gap-1 text-[10px] text-primary hover:underline">
+                    <Unlink size={10} /> Detach
+                </button>
+            </div>
+            <p className="text-[10px] text-muted-foreground truncate">
+                {pathName ? `Follows ${pathName}` : 'The shape it followed was deleted; the text keeps its last outline.'}
+            </p>
+
+            <div className="grid grid-cols-[2fr_1fr] gap-2">
+                <div className="flex bg-secondary rounded p-0.5">
+                    {POSITIONS.map(({ value, label }) => (
+                        <button
+                            key={value}
+                            onClick={() => onChange({ prop: 'textAlign', value })}
+                            className={`flex-1 py-1 rounded text-[10px] ${text.textAlign === value ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    title="Flip to the other side"
+                    onClick={() => onChange({ prop: 'pathSide', value: text.pathSide === 'right' ? 'left' : 'right' })}
+                    className={`flex items-center justify-center gap-1 rounded text-[10px] ${text.pathSide === 'right' ? 'bg-primary/10 text-primary' : 'bg-secondary text-muted-foreground hover:text-foreground'}`}
+                >
+                    <FlipVertical2 size={12} /> Flip
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex justify-between text-[10px] text-muted-foreground">
+                    <span>Offset</span>
+                    <span>{offset}px</span>
+                </div>
+                <input
+                    type="range"
+                    min={-length}
+                    max={length}
+                    step="1"
+                    value={offset}
+                    onChange={(e) => onChange({ prop: 'pathStartOffset', value: parseInt(e.target.value) })}
+                    onDoubleClick={() => onChange({ prop: 'pathStartOffset', value: 0 })}
+                    className="w-full h-1 bg-secondary rounded-lg appearance-none cursor-pointer"
+                />
+            </div>
+
+            <div className="space-y-1">
+                <label className="text-[10px] text-muted-foreground">Sits on the path by its</label>
+                <select
+                    value={text.pathAlign}
+                    onChange={(e) => onChange({ prop: 'pathAlign', value: e.target.value as fabric.TPathAlign })}
+                    className="w-full text-xs bg-transparent border border-border rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-primary"
+                >
+                    {(Object.keys(BASELINES) as fabric.TPathAlign[]).map((value) => (
+                        <option key={value} value={value} className="bg-card text-foreground">{BASELINES[value]}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+}
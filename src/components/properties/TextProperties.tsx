@@ -1,41 +1,83 @@
 import React from 'react';
+import * as fabric from 'fabric';
+import { BrandTextStyle } from '@/types';
+import { useBrandKit } from '@/providers/BrandKitProvider';
+import { findTextStyle } from '@/lib/brand-kit';
+import { FontPicker } from './FontPicker';
+import { TextStyleSheetAction, TextStyleSheets } from './TextStyleSheets';
 
 interface TextPropertiesProps {
+    canvas: fabric.Canvas | null;
+    /** Editable text, which can use the design's text styles */
+    text: fabric.IText | null;
     fontFamily: string;
     fontWeight: string;
+    fontSize: number;
     curveStrength: number;
     curveCenter: number;
+    /** Text set along a shape takes its curve from the shape instead */
+    isOnPath?: boolean;
     onFontFamilyChange: (font: string) => void;
     onFontWeightChange: (weight: string) => void;
     onCurveChange: (strength: number, center?: number) => void;
+    onApplyTextStyle: (style: BrandTextStyle) => void;
+    onStyleSheetAction: (action: TextStyleSheetAction) => void;
 }
 
 export function TextProperties({
+    canvas,
+    text,
     fontFamily,
     fontWeight,
+    fontSize,
     curveStrength,
     curveCenter,
+    isOnPath,
     onFontFamilyChange,
     onFontWeightChange,
-    onCurveChange
+    onCurveChange,
+    onApplyTextStyle,
+    onStyleSheetAction
 }: TextPropertiesProps) {
-    const FONTS = ['Arial', 'Times New Roman', 'Courier New', 'Georgia', 'Verdana', 'Impact', 'Comic Sans MS', 'Trebuchet MS', 'Arial Black'];
     const WEIGHTS = ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'];
+    const { kit } = useBrandKit();
+    const activeStyle = findTextStyle(kit, { fontFamily, fontWeight, fontSize });
 
     return (
         <div className="p-4 space-y-4 border-b border-border/50">
             <h3 className="font-medium text-sm">Text Style</h3>
             
             <div className="space-y-3">
+                {kit.textStyles.length > 0 && (
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-muted-foreground">Brand Styles</label>
+                        <div className="flex flex-wrap gap-1">
+                            {kit.textStyles.map(style => (
+                                <button
+                                    key={style.id}
+                                    onClick={() => onApplyTextStyle(style)}
+                                    className={`px-2 py-1 text-xs rounded border transition-colors ${activeStyle?.id === style.id ? 'border-primary bg-primary/10 text-primary' : 'border-border hover:bg-secondary'}`}
+                                    style={{ fontFamily: style.fontFamily, fontWeight: style.fontWeight }}
+                                    title={`${style.fontFamily} ${style.fontWeight}, ${style.fontSize}px`}
+                                >
+                                    {style.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {text && (
+                    <TextStyleSheets
+                        canvas={canvas}
+                        text={text}
+                        onAction={onStyleSheetAction}
+                    />
+                )}
+
                 <div className="space-y-1">
                     <label className="text-[10px] text-muted-foreground">Font Family</label>
-                    <select
-                        value={fontFamily}
-                        onChange={(e) => onFontFamilyChange(e.target.value)}
-                        className="w-full text-xs bg-transparent border border-border rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-primary"
-                    >
-                        {FONTS.map(f => <option key={f} value={f} className="bg-card text-foreground">{f}</option>)}
-                    </select>
+                    <FontPicker value={fontFamily} onChange={onFontFamilyChange} brandFonts={kit.fonts} />
                 </div>
                 
                 <div className="space-y-1">
@@ -49,44 +91,46 @@ export function TextProperties({
                     </select>
                 </div>
 
-                <div className="pt-2 border-t border-border/30">
-                    <label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider mb-2 block">Curved Text</label>
-                    
-                    <div className="space-y-3">
-                        <div className="space-y-2">
-                             <div className="flex justify-between text-[10px] text-muted-foreground">
-                                <span>Curve (Arch)</span>
-                                <span>{curveStrength}</span>
-                            </div>
-                            <input
-                                type="range"
-                                min="-100"
-                                max="100"
-                                value={curveStrength}
-                                onChange={(e) => onCurveChange(parseInt(e.target.value))}
-                                onDoubleClick={() => onCurveChange(0)}
-                                className="w-full h-1 bg-secondary rounded-lg appearance-none cursor-pointer"
-                            />
-                        </div>
-
-                        {curveStrength !== 0 && (
+                {!isOnPath && (
+                    <div className="pt-2 border-t border-border/30">
+                        <label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider mb-2 block">Curved Text</label>
+                        
+                        <div className="space-y-3">
                             <div className="space-y-2">
-                                <div className="flex justify-between text-[10px] text-muted-foreground">
-                                    <span>Center Point</span>
-                                    <span>{curveCenter}%</span>
+                                 <div className="flex justify-between text-[10px] text-muted-foreground">
+                                    <span>Curve (Arch)</span>
+                                    <span>{curveStrength}</span>
                                 </div>
                                 <input
                                     type="range"
                                     min="-100"
                                     max="100"
-                                    value={curveCenter}
-                                    onChange={(e) => onCurveChange(curveStrength, parseInt(e.target.value))}
+                                    value={curveStrength}
+                                    onChange={(e) => onCurveChange(parseInt(e.target.value))}
+                                    onDoubleClick={() => onCurveChange(0)}
                                     className="w-full h-1 bg-secondary rounded-lg appearance-none cursor-pointer"
                                 />
                             </div>
-                        )}
+
+                            {curveStrength !== 0 && (
+                                <div className="space-y-2">
+                                    <div className="flex justify-between text-[10px] text-muted-foreground">
+                                        <span>Center Point</span>
+                                        <span>{curveCenter}%</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min="-100"
+                                        max="100"
+                                        value={curveCenter}
+                                        onChange={(e) => onCurveChange(curveStrength, parseInt(e.target.value))}
+                                        className="w-full h-1 bg-secondary rounded-lg appearance-none cursor-pointer"
+                                    />
+                                </div>
+                            )}
+                        </div>
                     </div>
-                </div>
+                )}
             </div>
         </div>
     );
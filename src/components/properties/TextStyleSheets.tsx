@@ -0,0 +1,151 @@
+import React, { useEffect, useReducer } from 'react';
+import * as fabric from 'fabric';
+import { Pencil, Plus, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { BrandTextStyle, TextStyleKind, TextStyleSheet } from '@/types';
+import { useBrandKit } from '@/providers/BrandKitProvider';
+import {
+    findCharacterStyle,
+    findParagraphStyle,
+    findTextStyleOverrides,
+    getTextStyles,
+    hasTextStyleOverrides,
+    TEXT_STYLE_PROP_LABELS,
+} from '@/lib/text-styles';
+
+export type TextStyleSheetAction =
+    | { type: 'apply'; kind: TextStyleKind; id: string | null }
+    | { type: 'create'; kind: TextStyleKind }
+    | { type: 'redefine'; kind: TextStyleKind }
+    | { type: 'rename'; kind: TextStyleKind }
+    | { type: 'delete'; kind: TextStyleKind }
+    | { type: 'reset' }
+    | { type: 'add-brand-styles'; styles: BrandTextStyle[] };
+
+interface TextStyleSheetsProps {
+    canvas: fabric.Canvas | null;
+    text: fabric.IText;
+    onAction: (action: TextStyleSheetAction) => void;
+}
+
+const KIND_LABELS: Record<TextStyleKind, string> = {
+    paragraph: 'Paragraph Styles',
+    character: 'Character Styles',
+};
+
+// Buttons keep the focus on the text being edited, so its selection stays put
+const keepTextFocus = (e: React.MouseEvent) => e.preventDefault();
+
+const chipClass = (active: boolean) =>
+    `px-2 py-1 text-xs rounded border transition-colors ${active ? 'border-primary bg-primary/10 text-primary' : 'border-border hover:bg-secondary'}`;
+
+const iconClass = 'p-1 rounded text-muted-foreground hover:text-foreground hover:bg-secondary';
+
+/**
+ * The design's paragraph and character styles: which the text uses, where it departs from them,
+ * and the buttons that create, update, rename and delete them.
+ */
+export function TextStyleSheets({ canvas, text, onAction }: TextStyleSheetsProps) {
+    const { kit } = useBrandKit();
+    // Styles live on the canvas and the links on the text; read both again as either changes
+    const [, refresh] = useReducer((count: number) => count + 1, 0);
+
+    useEffect(() => {
+        if (!canvas) return;
+        const handleChange = () => refresh();
+        // @ts-expect-error Custom event
+        canvas.on('textstyles:change', handleChange);
+        canvas.on('text:selection:changed', handleChange);
+        canvas.on('text:changed', handleChange);
+        canvas.on('text:editing:exited', handleChange);
+        canvas.on('object:modified', handleChange);
+        return () => {
+            // @ts-expect-error Custom event
+            canvas.off('textstyles:change', handleChange);
+            canvas.off('text:selection:changed', handleChange);
+            canvas.off('text:changed', handleChange);
+            canvas.off('text:editing:exited', handleChange);
+            canvas.off('object:modified', handleChange);
+        };
+    }, [canvas]);
+
+    const styles = canvas ? getTextStyles(canvas) : [];
+    const active: Record<TextStyleKind, TextStyleSheet | undefined> = {
+        paragraph: findParagraphStyle(styles, text),
+        character: findCharacterStyle(styles, text),
+    };
+    const overrides = findTextStyleOverrides(styles, text);
+    const overrideSummary = [
+        ...overrides.properties.map((prop) => TEXT_STYLE_PROP_LABELS[prop]),
+        ...(overrides.characters > 0 ? [`${overrides.characters} character${overrides.characters === 1 ? '' : 's'}`] : []),
+    ].join(', ');
+
+    const renderKind = (kind: TextStyleKind) => {
+        const current = active[kind];
+        return (
+            <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                    <label className="text-[10px] text-muted-foreground">{KIND_LABELS[kind]}</label>
+                    <div className="flex items-center">
+                        {current && (
+                            <>
+                                <button title={`Update ${current.name} to match`} onMouseDown={keepTextFocus} onClick={() => onAction({ type: 'redefine', kind })} className={iconClass}>
+                                    <RefreshCw size={12} />
+                                </button>
+                                <button title={`Rename ${current.name}`} onMouseDown={keepTextFocus} onClick={() => onAction({ type: 'rename', kind })} className={iconClass}>
+                                    <Pencil size={12} />
+                                </button>
+                                <button title={`Delete ${current.name}`} onMouseDown={keepTextFocus} onClick={() => onAction({ type: 'delete', kind })} className={iconClass}>
+                                    <Trash2 size={12} />
+                                </button>
+                            </>
+                        )}
+                        <button title="New style from this text" onMouseDown={keepTextFocus} onClick={() => onAction({ type: 'create', kind })} className={iconClass}>
+                            <Plus size={12} />
+                        </button>
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                    <button onMouseDown={keepTextFocus} onClick={() => onAction({ type: 'apply', kind, id: null })} className={chipClass(!current)}>
+                        None
+                    </button>
+                    {styles.filter((style) => style.kind === kind).map((style) => (
+                        <button
+                            key={style.id}
+                            onMouseDown={keepTextFocus}
+                            onClick={() => onAction({ type: 'apply', kind, id: style.id })}
+                            className={chipClass(current?.id === style.id)}
+                            style={{ fontFamily: style.fontFamily, fontWeight: style.fontWeight, fontStyle: style.fontStyle }}
+                            title={`${style.fontFamily} ${style.fontWeight}, ${style.fontSize}px`}
+                        >
+                            {style.name}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-3">
+            {renderKind('paragraph')}
+            {renderKind('character')}
+
+            {hasTextStyleOverrides(overrides) && (
+                <div className="flex items-center justify-between gap-2 rounded border border-amber-500/40 bg-amber-500/10 px-2 py-1">
+                    <span className="text-[10px] text-amber-600 truncate" title={`Differs from its styles in ${overrideSummary}`}>
+                        Overridden: {overrideSummary}
+                    </span>
+                    <button onMouseDown={keepTextFocus} onClick={() => onAction({ type: 'reset' })} className="flex items-center gap-1 text-[10px] text-primary hover:underline shrink-0">
+                        <RotateCcw size={10} /> Reset
+                    </button>
+                </div>
+            )}
+
+            {kit.textStyles.length > 0 && (
+                <button onClick={() => onAction({ type: 'add-brand-styles', styles: kit.textStyles })} className="text-[10px] text-primary hover:underline">
+                    Add the brand kit&apos;s text styles to this design
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { Braces } from 'lucide-react';
+import { normalizeVariableName } from '@/lib/data-merge';
+
+interface VariablePropertiesProps {
+    kind: 'text' | 'image';
+    variableName: string;
+    onChange: (name: string) => void;
+}
+
+/** Names a text or image layer so Data Merge can fill it from a dataset column. */
+export function VariableProperties({ kind, variableName, onChange }: VariablePropertiesProps) {
+    // Committed on blur/Enter so typing a name is one undo step; remounted per selection
+    const [draft, setDraft] = useState(variableName);
+
+    const commit = () => {
+        const name = normalizeVariableName(draft);
+        setDraft(name);
+        if (name !== variableName) onChange(name);
+    };
+
+    return (
+        <div className="p-4 space-y-2 border-b border-border/50">
+            <h3 className="font-medium text-sm flex items-center gap-2"><Braces size={14} /> Data Variable</h3>
+            <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                placeholder={kind === 'text' ? 'e.g. speaker_name' : 'e.g. photo'}
+                className="w-full bg-background border border-border rounded px-2 py-1 text-xs"
+            />
+            <p className="text-[10px] text-muted-foreground">
+                {kind === 'text'
+                    ? 'Data Merge replaces this text with the matching column of each row.'
+                    : 'Data Merge swaps in the image URL from the matching column of each row.'}
+            </p>
+        </div>
+    );
+}
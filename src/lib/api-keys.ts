@@ -0,0 +1,70 @@
+// src/lib/api-keys.ts
+import type { ApiKeyProvider, ApiKeyStatus } from '@/types';
+
+export type ApiKeyProviderInfo = {
+    id: ApiKeyProvider;
+    label: string;
+    group: '3d' | 'image';
+    /** Short tag shown next to the label in Settings */
+    badge?: string;
+    placeholder: string;
+};
+
+export const API_KEY_PROVIDERS: ApiKeyProviderInfo[] = [
+    { id: 'meshy', label: 'Meshy AI', group: '3d', placeholder: 'Enter Meshy API Key' },
+    { id: 'tripo', label: 'Tripo AI', group: '3d', placeholder: 'Enter Tripo API Key' },
+    { id: 'hitems', label: 'Hitems3D / Hy3D', group: '3d', placeholder: 'Enter API Key' },
+    { id: 'stability', label: 'Stability AI', group: 'image', badge: 'SD3 / Core', placeholder: 'sk-...' },
+    { id: 'openai', label: 'OpenAI', group: 'image', badge: 'DALL-E 3', placeholder: 'sk-...' },
+    { id: 'google', label: 'Google Gemini / Vertex', group: 'image', badge: 'Nano / Imagen', placeholder: 'Enter API Key' },
+    { id: 'banana', label: 'Banana.dev', group: 'image', badge: 'GPU Cloud', placeholder: 'Enter API Key' },
+];
+
+export const isApiKeyProvider = (value: unknown): value is ApiKeyProvider =>
+    API_KEY_PROVIDERS.some((provider) => provider.id === value);
+
+export const getApiKeyProviderLabel = (provider: ApiKeyProvider) =>
+    API_KEY_PROVIDERS.find((item) => item.id === provider)?.label ?? provider;
+
+// Browsers used to keep keys in localStorage under these names
+const legacyStorageKey = (provider: ApiKeyProvider) => `${provider}_api_key`;
+
+/** Masked status of every provider for the signed-in user. */
+export const fetchApiKeyStatuses = async (): Promise<ApiKeyStatus[]> => {
+    const res = await fetch('/api/user/keys', { cache: 'no-store' });
+    if (!res.ok) throw new Error(`Status ${res.status}`);
+    const data = await res.json();
+    return Array.isArray(data.keys) ? (data.keys as ApiKeyStatus[]) : [];
+};
+
+/** Store (or, with an empty string, remove) keys in the server vault and return the updated statuses. */
+export const saveApiKeys = async (keys: Partial<Record<ApiKeyProvider, string>>): Promise<ApiKeyStatus[]> => {
+    const res = await fetch('/api/user/keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keys })
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) throw new Error(data.message || 'Failed to save keys');
+    return data.keys as ApiKeyStatus[];
+};
+
+export const getConfiguredProviders = (statuses: ApiKeyStatus[]) =>
+    new Set(statuses.filter((status) => status.configured).map((status) => status.provider));
+
+/**
+ * Move keys left in localStorage by earlier versions into the vault, then forget them locally.
+ * Keys already in the vault win over stale browser copies.
+ */
+export const migrateLegacyApiKeys = async () => {
+    if (typeof window === 'undefined') return;
+    const legacy = API_KEY_PROVIDERS
+        .map(({ id }) => ({ id, value: localStorage.getItem(legacyStorageKey(id))?.trim() }))
+        .filter((entry): entry is { id: ApiKeyProvider; value: string } => Boolean(entry.value));
+    if (legacy.length === 0) return;
+
+    const configured = getConfiguredProviders(await fetchApiKeyStatuses());
+    const toUpload = Object.fromEntries(legacy.filter(({ id }) => !configured.has(id)).map(({ id, value }) => [id, value]));
+    if (Object.keys(toUpload).length > 0) await saveApiKeys(toUpload);
+    legacy.forEach(({ id }) => localStorage.removeItem(legacyStorageKey(id)));
+};
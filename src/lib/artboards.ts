@@ -0,0 +1,287 @@
+// src/lib/artboards.ts
+import * as fabric from 'fabric';
+import { jsPDF } from 'jspdf';
+import { Artboard, ExtendedFabricObject } from '@/types';
+import { getNextIndexedName } from '@/lib/fabric-utils';
+
+/**
+ * `artboard`/`artboardRect` always mirror the active page so code written for a single
+ * artboard (grid, snapping, image placement, alignment) keeps working unchanged.
+ */
+export type CanvasWithArtboards = fabric.Canvas & {
+    artboard?: { width: number; height: number; left: number; top: number };
+    artboardRect?: fabric.Rect;
+    artboards?: Artboard[];
+    activeArtboardId?: string;
+    centerArtboard?: () => void;
+};
+
+export const DEFAULT_ARTBOARD_BACKGROUND = '#ffffff';
+
+// Horizontal space left between pages when they are laid out in a row
+export const ARTBOARD_GAP = 100;
+
+const fireCanvasEvent = (canvas: fabric.Canvas, eventName: string, options?: Record<string, unknown>) => {
+    (canvas.fire as (eventName: string, options?: Record<string, unknown>) => fabric.Canvas)(eventName, options);
+};
+
+export const isArtboardObject = (obj?: fabric.Object | null) => !!obj && !!(obj as ExtendedFabricObject).isArtboard;
+
+export const createArtboardId = () => `artboard-${Date.now()}-${Math.floor(Math.random() * 100000)}`;
+
+const createArtboardRect = (artboard: Artboard) => {
+    const rect = new fabric.Rect({
+        left: artboard.left,
+        top: artboard.top,
+        width: artboard.width,
+        height: artboard.height,
+        fill: artboard.background,
+        originX: 'left',
+        originY: 'top',
+        selectable: false,
+        evented: false, // Let events fall through to the canvas/selection
+        excludeFromExport: true, // Pages are saved in the design's `artboards` list instead
+        shadow: new fabric.Shadow({ color: 'rgba(0,0,0,0.3)', blur: 20, offsetX: 0, offsetY: 0, includeDefaultValues: false })
+    });
+    const ext = rect as unknown as ExtendedFabricObject;
+    ext.isArtboard = true;
+    ext.artboardId = artboard.id;
+    return rect;
+};
+
+export const getArtboards = (canvas: fabric.StaticCanvas) => (canvas as CanvasWithArtboards).artboards ?? [];
+
+export const getActiveArtboard = (canvas: fabric.Canvas) => {
+    const ext = canvas as CanvasWithArtboards;
+    const artboards = ext.artboards ?? [];
+    return artboards.find((artboard) => artboard.id === ext.activeArtboardId) ?? artboards[0] ?? null;
+};
+
+const getArtboardRect = (canvas: fabric.Canvas, id: string) =>
+    canvas.getObjects().find((obj) => isArtboardObject(obj) && (obj as ExtendedFabricObject).artboardId === id) as fabric.Rect | undefined;
+
+/** Point the legacy single-artboard fields at the active page and notify listeners. */
+const syncActiveArtboard = (canvas: fabric.Canvas) => {
+    const ext = canvas as CanvasWithArtboards;
+    const active = getActiveArtboard(canvas);
+    if (active) {
+        ext.activeArtboardId = active.id;
+        ext.artboard = { width: active.width, height: active.height, left: active.left, top: active.top };
+        ext.artboardRect = getArtboardRect(canvas, active.id);
+    }
+    fireCanvasEvent(canvas, 'artboard:resize', { artboard: active });
+    fireCanvasEvent(canvas, 'artboards:change', { artboards: ext.artboards ?? [] });
+    canvas.requestRenderAll();
+};
+
+const insertArtboardRect = (canvas: fabric.Canvas, artboard: Artboard) => {
+    const rect = createArtboardRect(artboard);
+    canvas.add(rect);
+    // Pages sit beneath all content, in page order
+    const index = getArtboards(canvas).findIndex((item) => item.id === artboard.id);
+    canvas.moveObjectTo(rect, Math.max(0, index));
+    return rect;
+};
+
+/** Objects that belong to a page: anything whose centre lies inside its bounds. */
+export const getArtboardObjects = (canvas: fabric.StaticCanvas, artboard: Artboard) =>
+    canvas.getObjects().filter((obj) => {
+        if (isArtboardObject(obj)) return false;
+        const center = obj.getCenterPoint();
+        return center.x >= artboard.left && center.x <= artboard.left + artboard.width
+            && center.y >= artboard.top && center.y <= artboard.top + artboard.height;
+    });
+
+const translateObjects = (objects: fabric.Object[], dx: number, dy: number) => {
+    objects.forEach((obj) => {
+        obj.set({ left: (obj.left ?? 0) + dx, top: (obj.top ?? 0) + dy });
+        obj.setCoords();
+    });
+};
+
+/** Replace the canvas pages (after loading a design or restoring a history step). */
+export const restoreArtboards = (canvas: fabric.Canvas, artboards?: Artboard[] | null, activeId?: string) => {
+    const ext = canvas as CanvasWithArtboards;
+    const stale = canvas.getObjects().filter(isArtboardObject);
+    if (stale.length) canvas.remove(...stale);
+
+    let list = (artboards ?? []).map((artboard) => ({ ...artboard }));
+    if (list.length === 0) {
+        // Designs saved before pages existed: one page from the legacy artboard and canvas colour
+        const legacy = ext.artboard ?? { width: 1080, height: 1080, left: 0, top: 0 };
+        const legacyBackground = typeof canvas.backgroundColor === 'string' && canvas.backgroundColor ? canvas.backgroundColor : DEFAULT_ARTBOARD_BACKGROUND;
+        if (typeof canvas.backgroundColor === 'string' && canvas.backgroundColor) canvas.backgroundColor = '';
+        list = [{ id: createArtboardId(), name: 'Page 1', ...legacy, background: legacyBackground }];
+    }
+
+    ext.artboards = list;
+    const preferred = activeId ?? ext.activeArtboardId;
+    ext.activeArtboardId = list.some((artboard) => artboard.id === preferred) ? preferred : list[0].id;
+    list.forEach((artboard) => insertArtboardRect(canvas, artboard));
+    syncActiveArtboard(canvas);
+};
+
+/** Plain copies of the pages for saving alongside the objects, see `serializeDesign`. */
+export const serializeArtboards = (canvas: fabric.StaticCanvas): Artboard[] => getArtboards(canvas).map((artboard) => ({ ...artboard }));
+
+export const setActiveArtboard = (canvas: fabric.Canvas, id: string) => {
+    const ext = canvas as CanvasWithArtboards;
+    if (!getArtboards(canvas).some((artboard) => artboard.id === id)) return;
+    ext.activeArtboardId = id;
+    syncActiveArtboard(canvas);
+};
+
+/** Append a page to the right of the existing ones and make it active. */
+export const addArtboard = (canvas: fabric.Canvas, init: Partial<Omit<Artboard, 'id'>> = {}) => {
+    const ext = canvas as CanvasWithArtboards;
+    const artboards = getArtboards(canvas);
+    const template = getActiveArtboard(canvas);
+    const right = artboards.reduce((max, artboard) => Math.max(max, artboard.left + artboard.width), -ARTBOARD_GAP);
+    const artboard: Artboard = {
+        id: createArtboardId(),
+        name: init.name ?? getNextIndexedName('Page', artboards.map((item) => item.name)),
+        width: init.width ?? template?.width ?? 1080,
+        height: init.height ?? template?.height ?? 1080,
+        left: init.left ?? right + ARTBOARD_GAP,
+        top: init.top ?? artboards[0]?.top ?? 0,
+        background: init.background ?? DEFAULT_ARTBOARD_BACKGROUND,
+    };
+    ext.artboards = [...artboards, artboard];
+    insertArtboardRect(canvas, artboard);
+    ext.activeArtboardId = artboard.id;
+    syncActiveArtboard(canvas);
+    return artboard;
+};
+
+/** Copy a page and its contents into a new page at the end of the strip. */
+export const duplicateArtboard = async (canvas: fabric.Canvas, id: string) => {
+    const source = getArtboards(canvas).find((artboard) => artboard.id === id);
+    if (!source) return null;
+    const contents = getArtboardObjects(canvas, source);
+    const copy = addArtboard(canvas, {
+        name: `${source.name} copy`,
+        width: source.width,
+        height: source.height,
+        background: source.background,
+    });
+    const clones = await Promise.all(contents.map((obj) => obj.clone()));
+    translateObjects(clones as fabric.Object[], copy.left - source.left, copy.top - source.top);
+    if (clones.length) canvas.add(...(clones as fabric.Object[]));
+    canvas.requestRenderAll();
+    return copy;
+};
+
+/** Delete a page together with its contents. The last remaining page cannot be removed. */
+export const removeArtboard = (canvas: fabric.Canvas, id: string) => {
+    const ext = canvas as CanvasWithArtboards;
+    const artboards = getArtboards(canvas);
+    const target = artboards.find((artboard) => artboard.id === id);
+    if (!target || artboards.length <= 1) return false;
+
+    const doomed = [...getArtboardObjects(canvas, target)];
+    const rect = getArtboardRect(canvas, id);
+    if (rect) doomed.push(rect);
+    canvas.discardActiveObject();
+    if (doomed.length) canvas.remove(...doomed);
+
+    ext.artboards = artboards.filter((artboard) => artboard.id !== id);
+    if (ext.activeArtboardId === id) {
+        const index = artboards.indexOf(target);
+        ext.activeArtboardId = ext.artboards[Math.min(index, ext.artboards.length - 1)].id;
+    }
+    syncActiveArtboard(canvas);
+    return true;
+};
+
+/** Rename, resize or recolour a page. Moving a page carries its contents along. */
+export const updateArtboard = (canvas: fabric.Canvas, id: string, patch: Partial<Omit<Artboard, 'id'>>) => {
+    const ext = canvas as CanvasWithArtboards;
+    const artboards = getArtboards(canvas);
+    const current = artboards.find((artboard) => artboard.id === id);
+    if (!current) return;
+
+    const next: Artboard = { ...current, ...patch };
+    const dx = next.left - current.left;
+    const dy = next.top - current.top;
+    if (dx || dy) translateObjects(getArtboardObjects(canvas, current), dx, dy);
+
+    ext.artboards = artboards.map((artboard) => (artboard.id === id ? next : artboard));
+    const rect = getArtboardRect(canvas, id);
+    if (rect) {
+        rect.set({ left: next.left, top: next.top, width: next.width, height: next.height, fill: next.background });
+        rect.setCoords();
+    }
+    syncActiveArtboard(canvas);
+};
+
+/** Move a page within the strip, then lay all pages out left to right in their new order. */
+export const reorderArtboards = (canvas: fabric.Canvas, fromIndex: number, toIndex: number) => {
+    const ext = canvas as CanvasWithArtboards;
+    const artboards = [...getArtboards(canvas)];
+    if (fromIndex === toIndex || !artboards[fromIndex] || !artboards[toIndex]) return;
+
+    // Capture contents before anything moves so pages do not pick up each other's objects
+    const contents = new Map(artboards.map((artboard) => [artboard.id, getArtboardObjects(canvas, artboard)]));
+    const [moved] = artboards.splice(fromIndex, 1);
+    artboards.splice(toIndex, 0, moved);
+
+    const top = artboards[0].top;
+    let left = Math.min(...artboards.map((artboard) => artboard.left));
+    ext.artboards = artboards.map((artboard) => {
+        const placed = { ...artboard, left, top };
+        translateObjects(contents.get(artboard.id) ?? [], placed.left - artboard.left, placed.top - artboard.top);
+        left += artboard.width + ARTBOARD_GAP;
+        return placed;
+    });
+
+    ext.artboards.forEach((artboard, index) => {
+        const rect = getArtboardRect(canvas, artboard.id);
+        if (!rect) return;
+        rect.set({ left: artboard.left, top: artboard.top });
+        rect.setCoords();
+        canvas.moveObjectTo(rect, index);
+    });
+    syncActiveArtboard(canvas);
+};
+
+/**
+ * Render one page at its own size, independent of the current zoom and pan.
+ * The viewport is reset for the capture and restored afterwards; selection controls are never drawn.
+ */
+export const renderArtboardToDataURL = (
+    canvas: fabric.Canvas,
+    artboard: Artboard,
+    options: { format?: 'png' | 'jpeg'; quality?: number; multiplier?: number } = {}
+) => {
+    const viewport = [...canvas.viewportTransform] as fabric.TMat2D;
+    canvas.setViewportTransform([1, 0, 0, 1, 0, 0]);
+    try {
+        return canvas.toDataURL({
+            format: options.format ?? 'png',
+            quality: options.quality ?? 1,
+            multiplier: options.multiplier ?? 1,
+            left: artboard.left,
+            top: artboard.top,
+            width: artboard.width,
+            height: artboard.height,
+        });
+    } finally {
+        canvas.setViewportTransform(viewport);
+    }
+};
+
+/** One PDF page per artboard, each at its own size. */
+export const renderArtboardsToPdf = (canvas: fabric.Canvas, pages: Artboard[]) => {
+    const orientationOf = (page: Artboard) => (page.width > page.height ? 'landscape' : 'portrait');
+    const pdf = new jsPDF({
+        orientation: orientationOf(pages[0]),
+        unit: 'px',
+        format: [pages[0].width, pages[0].height]
+    });
+    pages.forEach((page, index) => {
+        if (index > 0) pdf.addPage([page.width, page.height], orientationOf(page));
+        const imgData = renderArtboardToDataURL(canvas, page, { format: 'png', quality: 1 });
+        pdf.addImage(imgData, 'PNG', 0, 0, page.width, page.height);
+    });
+    return pdf;
+};
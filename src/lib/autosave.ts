@@ -0,0 +1,39 @@
+// src/lib/autosave.ts
+import type { RecoverySlot } from '@/types';
+
+export const AUTOSAVE_INTERVAL_STORAGE_KEY = 'image-express-autosave-interval';
+/** Seconds between background autosaves; 0 turns autosave off */
+export const DEFAULT_AUTOSAVE_INTERVAL = 30;
+export const AUTOSAVE_INTERVAL_OPTIONS = [0, 15, 30, 60, 120, 300];
+
+export const loadAutosaveInterval = () => {
+    if (typeof window === 'undefined') return DEFAULT_AUTOSAVE_INTERVAL;
+    const stored = parseInt(localStorage.getItem(AUTOSAVE_INTERVAL_STORAGE_KEY) || '', 10);
+    return Number.isFinite(stored) && stored >= 0 ? stored : DEFAULT_AUTOSAVE_INTERVAL;
+};
+
+export const saveAutosaveInterval = (seconds: number) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(AUTOSAVE_INTERVAL_STORAGE_KEY, String(Math.max(0, Math.floor(seconds))));
+};
+
+export const describeAutosaveInterval = (seconds: number) => {
+    if (seconds === 0) return 'Off';
+    return seconds < 60 ? `Every ${seconds} seconds` : `Every ${seconds / 60} minute${seconds === 60 ? '' : 's'}`;
+};
+
+/** A new id for one editing session's recovery slot. */
+export const createRecoverySlotId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const fetchRecoverySlots = async (): Promise<RecoverySlot[]> => {
+    const res = await fetch('/api/recovery');
+    const data = await res.json();
+    if (!res.ok || !data.success) throw new Error(data.message || 'Failed to load recovery data');
+    return data.slots as RecoverySlot[];
+};
+
+export const discardRecoverySlot = async (slot: string) => {
+    const res = await fetch(`/api/recovery?slot=${encodeURIComponent(slot)}`, { method: 'DELETE' });
+    const data = await res.json();
+    if (!res.ok || !data.success) throw new Error(data.message || 'Failed to discard recovery data');
+};
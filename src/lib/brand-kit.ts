@@ -0,0 +1,177 @@
+// src/lib/brand-kit.ts
+import * as fabric from 'fabric';
+import { BrandColor, BrandKit, BrandTextStyle, ExtendedFabricObject, WorkspaceSpace } from '@/types';
+import { getArtboards } from '@/lib/artboards';
+import { ensureObjectId } from '@/lib/fabric-utils';
+
+/**
+ * The brand kit is the team's shared set of palettes, approved fonts, logos and text styles
+ * (or the user's own when there is no team space). The editor offers it in colour pickers and
+ * the text panel, and `checkBrandCompliance` lists what in a design strays from it.
+ */
+export const EMPTY_BRAND_KIT: BrandKit = { palettes: [], fonts: [], logos: [], textStyles: [] };
+
+export type BrandKitState = {
+    kit: BrandKit;
+    space: WorkspaceSpace;
+    editable: boolean;
+};
+
+export const fetchBrandKit = async (): Promise<BrandKitState> => {
+    const res = await fetch('/api/brand-kit');
+    const data = await res.json();
+    if (!data.success) throw new Error(data.message || 'Failed to load brand kit');
+    return { kit: data.kit, space: data.space, editable: Boolean(data.editable) };
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<BrandKitState> => {
+    const res = await fetch('/api/brand-kit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kit }),
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) throw new Error(data.message || 'Failed to save brand kit');
+    return { kit: data.kit, space: data.space, editable: Boolean(data.editable) };
+};
+
+export const createBrandItemId = () => `brand-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Any CSS colour as lower-case `#rrggbb`, or null when it is fully transparent or missing. */
+export const toBrandHex = (value: unknown) => {
+    if (typeof value !== 'string' || !value.trim() || value.trim() === 'transparent') return null;
+    const color = new fabric.Color(value);
+    return color.getAlpha() === 0 ? null : `#${color.toHex().toLowerCase()}`;
+};
+
+/** Every colour of every palette, each value once. */
+export const getBrandColors = (kit: BrandKit) => {
+    const seen = new Set<string>();
+    return kit.palettes.flatMap((palette) => palette.colors).filter((color): color is BrandColor => {
+        if (seen.has(color.value)) return false;
+        seen.add(color.value);
+        return true;
+    });
+};
+
+/** The Fabric properties a text style sets. */
+export const getTextStyleProps = (style: BrandTextStyle) => ({
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontSize: style.fontSize,
+    ...(style.fill ? { fill: style.fill } : {}),
+    ...(style.lineHeight !== undefined ? { lineHeight: style.lineHeight } : {}),
+    ...(style.charSpacing !== undefined ? { charSpacing: style.charSpacing } : {}),
+});
+
+/** Give a text object a style, replacing the same properties set on single characters. */
+export const applyTextStyle = (text: fabric.IText, style: BrandTextStyle) => {
+    const props = getTextStyleProps(style);
+    (['fontFamily', 'fontWeight', 'fontSize', 'fill'] as const).forEach((key) => {
+        if (key in props) text.removeStyle(key);
+    });
+    text.set(props);
+    text.initDimensions();
+    text.setCoords();
+};
+
+/** The text style whose font, weight and size text currently has, if any. */
+export const findTextStyle = (kit: BrandKit, text: Pick<BrandTextStyle, 'fontFamily' | 'fontWeight' | 'fontSize'>) =>
+    kit.textStyles.find((style) =>
+        style.fontFamily === text.fontFamily &&
+        String(style.fontWeight) === String(text.fontWeight) &&
+        Math.abs(style.fontSize - text.fontSize) < 0.5) ?? null;
+
+export type BrandIssue = {
+    kind: 'color' | 'font';
+    /** The off-brand value: a `#rrggbb` colour or a font family */
+    value: string;
+    /** Where it was found, e.g. "Fill" or "Page background" */
+    property: string;
+    /** The layer holding it, or null for a page background */
+    object: fabric.Object | null;
+    pageName?: string;
+};
+
+type TextCharStyle = { fill?: unknown; stroke?: unknown; textBackgroundColor?: unknown; fontFamily?: unknown };
+
+// Colours found on one layer, without those of its children
+const collectColors = (obj: fabric.Object) => {
+    const colors: { property: string; value: unknown }[] = [];
+    const addPaint = (property: string, paint: unknown) => {
+        if (paint instanceof fabric.Gradient) {
+            paint.colorStops.forEach((stop) => colors.push({ property: `${property} gradient`, value: stop.color }));
+        } else if (typeof paint === 'string') {
+            colors.push({ property, value: paint });
+        }
+    };
+    // Images and groups draw their own pixels or children; their fill is never painted
+    if (!(obj instanceof fabric.FabricImage) && !(obj instanceof fabric.Group)) addPaint('Fill', obj.fill);
+    if (obj.strokeWidth > 0) addPaint('Stroke', obj.stroke);
+    if (obj.shadow) colors.push({ property: 'Shadow', value: obj.shadow.color });
+    if (obj.backgroundColor) colors.push({ property: 'Background', value: obj.backgroundColor });
+    if (obj instanceof fabric.FabricText) {
+        if (obj.textBackgroundColor) colors.push({ property: 'Text background', value: obj.textBackgroundColor });
+        Object.values(obj.styles ?? {}).forEach((line) => Object.values(line).forEach((char: TextCharStyle) => {
+            if (char.fill !== undefined) addPaint('Character fill', char.fill);
+            if (char.stroke !== undefined) addPaint('Character stroke', char.stroke);
+            if (char.textBackgroundColor) colors.push({ property: 'Character background', value: char.textBackgroundColor });
+        }));
+    }
+    return colors;
+};
+
+const collectFonts = (obj: fabric.Object) => {
+    if (!(obj instanceof fabric.FabricText)) return [];
+    const fonts = [obj.fontFamily];
+    Object.values(obj.styles ?? {}).forEach((line) => Object.values(line).forEach((char: TextCharStyle) => {
+        if (typeof char.fontFamily === 'string') fonts.push(char.fontFamily);
+    }));
+    return fonts;
+};
+
+/**
+ * Compare a design with the kit: colours outside every palette and fonts that are not approved.
+ * Colour checks are skipped while the kit has no palettes, font checks while it has no fonts.
+ */
+export const checkBrandCompliance = (canvas: fabric.Canvas, kit: BrandKit): BrandIssue[] => {
+    const colors = new Set(getBrandColors(kit).map((color) => color.value));
+    const fonts = new Set(kit.fonts.map((font) => font.toLowerCase()));
+    const issues: BrandIssue[] = [];
+    const seen = new Set<string>();
+    const report = (issue: BrandIssue, key: string) => {
+        if (seen.has(key)) return;
+        seen.add(key);
+        issues.push(issue);
+    };
+
+    if (colors.size > 0) {
+        getArtboards(canvas).forEach((page) => {
+            const hex = toBrandHex(page.background);
+            if (hex && !colors.has(hex)) {
+                report({ kind: 'color', value: hex, property: 'Page background', object: null, pageName: page.name }, `page:${page.id}`);
+            }
+        });
+    }
+
+    const visit = (obj: fabric.Object) => {
+        const ext = obj as ExtendedFabricObject;
+        // Pages, guides and adjustment layers are not part of the artwork
+        if (obj.excludeFromExport || ext.isAdjustmentLayer) return;
+        const id = ensureObjectId(obj);
+        if (colors.size > 0) {
+            collectColors(obj).forEach(({ property, value }) => {
+                const hex = toBrandHex(value);
+                if (hex && !colors.has(hex)) report({ kind: 'color', value: hex, property, object: obj }, `${id}:${property}:${hex}`);
+            });
+        }
+        if (fonts.size > 0) {
+            collectFonts(obj).forEach((font) => {
+                if (font && !fonts.has(font.toLowerCase())) report({ kind: 'font', value: font, property: 'Font', object: obj }, `${id}:font:${font}`);
+            });
+        }
+        if (obj instanceof fabric.Group) obj.getObjects().forEach(visit);
+    };
+    canvas.getObjects().forEach(visit);
+    return issues;
+};
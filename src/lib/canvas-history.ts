@@ -0,0 +1,268 @@
+// src/lib/canvas-history.ts
+import * as fabric from 'fabric';
+import { ExtendedFabricObject, HistoryEntry, HistorySnapshot } from '@/types';
+import { isArtboardObject, restoreArtboards, serializeArtboards } from '@/lib/artboards';
+import { DESIGN_CUSTOM_PROPS } from '@/lib/design-schema';
+import { restoreTextStyles, serializeTextStyles } from '@/lib/text-styles';
+
+export const HISTORY_DEPTH_STORAGE_KEY = 'image-express-history-depth';
+export const DEFAULT_HISTORY_DEPTH = 50;
+export const HISTORY_DEPTH_OPTIONS = [25, 50, 100, 200];
+
+// Custom properties that must survive an undo/redo round trip; the same ones a saved design keeps.
+export const HISTORY_CUSTOM_PROPS = DESIGN_CUSTOM_PROPS;
+
+// Consecutive changes inside this window (slider drags, multi-object adds) collapse into one step.
+const COALESCE_MS = 250;
+
+const MODIFY_ACTION_LABELS: Record<string, string> = {
+    drag: 'Move',
+    scale: 'Resize',
+    scaleX: 'Resize',
+    scaleY: 'Resize',
+    resizing: 'Resize',
+    rotate: 'Rotate',
+    skewX: 'Skew',
+    skewY: 'Skew',
+};
+
+export const describeObject = (obj?: fabric.Object) => {
+    if (!obj) return 'object';
+    const ext = obj as ExtendedFabricObject;
+    if (ext.name) return ext.name;
+    if (ext.isAdjustmentLayer) return 'adjustment layer';
+    return obj.type || 'object';
+};
+
+export const loadHistoryDepth = () => {
+    if (typeof window === 'undefined') return DEFAULT_HISTORY_DEPTH;
+    const stored = parseInt(localStorage.getItem(HISTORY_DEPTH_STORAGE_KEY) || '', 10);
+    return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_HISTORY_DEPTH;
+};
+
+/**
+ * Snapshot-based undo/redo stack for a Fabric canvas.
+ * Records automatically on add/remove/modify and paint strokes; panels call `record()` for
+ * changes Fabric does not report (property edits, reorders, masks, adjustment settings).
+ */
+export class CanvasHistory {
+    private canvas: fabric.Canvas;
+    private entries: HistoryEntry[] = [];
+    private index = -1;
+    private limit: number;
+    private pendingLabel: string | null = null;
+    private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+    private restoring = false;
+    private listeners = new Set<() => void>();
+    private nextId = 1;
+
+    constructor(canvas: fabric.Canvas, limit = DEFAULT_HISTORY_DEPTH) {
+        this.canvas = canvas;
+        this.limit = Math.max(1, limit);
+        this.canvas.on('object:added', this.handleAdded);
+        this.canvas.on('object:removed', this.handleRemoved);
+        this.canvas.on('object:modified', this.handleModified);
+        this.canvas.on('path:created', this.handlePathCreated);
+        this.reset('Initial state');
+    }
+
+    dispose() {
+        this.cancelPending();
+        this.canvas.off('object:added', this.handleAdded);
+        this.canvas.off('object:removed', this.handleRemoved);
+        this.canvas.off('object:modified', this.handleModified);
+        this.canvas.off('path:created', this.handlePathCreated);
+        this.listeners.clear();
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    getEntries() {
+        return this.entries;
+    }
+
+    getIndex() {
+        return this.index;
+    }
+
+    getLimit() {
+        return this.limit;
+    }
+
+    canUndo() {
+        return this.index > 0 || this.pendingLabel !== null;
+    }
+
+    canRedo() {
+        return this.index < this.entries.length - 1 && this.pendingLabel === null;
+    }
+
+    isRestoring() {
+        return this.restoring;
+    }
+
+    setLimit(limit: number) {
+        this.limit = Math.max(1, limit);
+        if (typeof window !== 'undefined') {
+            localStorage.setItem(HISTORY_DEPTH_STORAGE_KEY, String(this.limit));
+        }
+        this.trim();
+        this.emit();
+    }
+
+    /** Drop all steps and use the current canvas as the new baseline (e.g. after opening a design). */
+    reset(label = 'Opened design') {
+        this.cancelPending();
+        this.entries = [this.createEntry(label)];
+        this.index = 0;
+        this.emit();
+    }
+
+    /** Queue a history step. Calls within the coalesce window merge into a single step. */
+    record(label: string) {
+        if (this.restoring) return;
+        this.pendingLabel = label;
+        if (this.pendingTimer) clearTimeout(this.pendingTimer);
+        this.pendingTimer = setTimeout(() => this.flush(), COALESCE_MS);
+        this.emit();
+    }
+
+    flush() {
+        if (this.pendingTimer) {
+            clearTimeout(this.pendingTimer);
+            this.pendingTimer = null;
+        }
+        if (this.pendingLabel === null) return;
+        const label = this.pendingLabel;
+        this.pendingLabel = null;
+
+        this.entries = this.entries.slice(0, this.index + 1);
+        this.entries.push(this.createEntry(label));
+        this.index = this.entries.length - 1;
+        this.trim();
+        this.emit();
+    }
+
+    async undo() {
+        this.flush();
+        if (this.index <= 0) return;
+        await this.jumpTo(this.index - 1);
+    }
+
+    async redo() {
+        this.flush();
+        if (this.index >= this.entries.length - 1) return;
+        await this.jumpTo(this.index + 1);
+    }
+
+    async jumpTo(targetIndex: number) {
+        this.flush();
+        if (this.restoring) return;
+        if (targetIndex < 0 || targetIndex >= this.entries.length || targetIndex === this.index) return;
+
+        this.restoring = true;
+        this.emit();
+        try {
+            await this.applySnapshot(this.entries[targetIndex].snapshot);
+            this.index = targetIndex;
+        } catch (error) {
+            console.error('Failed to restore history step:', error);
+        } finally {
+            this.restoring = false;
+            this.emit();
+        }
+    }
+
+    private trim() {
+        const overflow = this.entries.length - this.limit;
+        if (overflow > 0) {
+            this.entries = this.entries.slice(overflow);
+            this.index = Math.max(0, this.index - overflow);
+        }
+    }
+
+    private cancelPending() {
+        if (this.pendingTimer) clearTimeout(this.pendingTimer);
+        this.pendingTimer = null;
+        this.pendingLabel = null;
+    }
+
+    private emit() {
+        this.listeners.forEach((listener) => listener());
+    }
+
+    private createEntry(label: string): HistoryEntry {
+        return {
+            id: this.nextId++,
+            label,
+            timestamp: Date.now(),
+            snapshot: this.takeSnapshot(),
+        };
+    }
+
+    private isTracked(obj?: fabric.Object) {
+        if (!obj) return false;
+        // Page rects are rebuilt from the snapshot's artboard list rather than tracked as objects
+        return !isArtboardObject(obj);
+    }
+
+    private takeSnapshot(): HistorySnapshot {
+        const objects = this.canvas.getObjects()
+            .filter((obj) => this.isTracked(obj))
+            .map((obj) => {
+                const data = obj.toObject(HISTORY_CUSTOM_PROPS) as Record<string, unknown>;
+                const ext = obj as ExtendedFabricObject;
+                // Adjustment layers bake their filters into images; store the untouched stack instead
+                if (obj.type === 'image' && ext.baseFilters) {
+                    data.filters = ext.baseFilters.map((filter) => filter.toObject());
+                }
+                return data;
+            });
+        return {
+            objects,
+            backgroundColor: typeof this.canvas.backgroundColor === 'string' ? this.canvas.backgroundColor : '',
+            artboards: serializeArtboards(this.canvas),
+            textStyles: serializeTextStyles(this.canvas),
+        };
+    }
+
+    private async applySnapshot(snapshot: HistorySnapshot) {
+        const canvas = this.canvas;
+        const revived = await fabric.util.enlivenObjects<fabric.Object>(snapshot.objects);
+
+        canvas.discardActiveObject();
+        const current = canvas.getObjects().filter((obj) => this.isTracked(obj));
+        if (current.length) canvas.remove(...current);
+        if (revived.length) canvas.add(...revived);
+
+        canvas.backgroundColor = snapshot.backgroundColor;
+        if (snapshot.artboards?.length) restoreArtboards(canvas, snapshot.artboards);
+        restoreTextStyles(canvas, snapshot.textStyles);
+        canvas.requestRenderAll();
+    }
+
+    private handleAdded = (e: { target: fabric.Object }) => {
+        if (!this.isTracked(e.target) || e.target.group) return;
+        this.record(`Add ${describeObject(e.target)}`);
+    };
+
+    private handleRemoved = (e: { target: fabric.Object }) => {
+        if (!this.isTracked(e.target)) return;
+        this.record(`Delete ${describeObject(e.target)}`);
+    };
+
+    private handleModified = (e: { target?: fabric.Object; action?: string }) => {
+        if (!this.isTracked(e.target)) return;
+        const verb = (e.action && MODIFY_ACTION_LABELS[e.action]) || 'Edit';
+        this.record(`${verb} ${describeObject(e.target)}`);
+    };
+
+    private handlePathCreated = () => {
+        this.record('Paint stroke');
+    };
+}
@@ -0,0 +1,409 @@
+// src/lib/components.ts
+import * as fabric from 'fabric';
+import { ComponentOverride, ComponentSummary, ExtendedFabricObject, WorkspaceSpace } from '@/types';
+import { DESIGN_CUSTOM_PROPS } from '@/lib/design-schema';
+import { ensureObjectId } from '@/lib/fabric-utils';
+import { reflowParentStack } from '@/lib/stack-layout';
+
+/**
+ * Components are groups kept in a space's library. The master is an ordinary group in the
+ * design it was made in; publishing it stores a copy in the library under a new version.
+ * Instances are copies of the master that remember the version they were built from and their
+ * overrides: text, fill and image changes to single layers, matched across copies by
+ * `componentKey`. Rebuilding an instance from the master keeps its place, size and overrides;
+ * any other change to an instance's layers lasts until the master changes.
+ *
+ * Instances of a master on the same canvas follow it while it is edited; instances elsewhere
+ * catch up with the library when their design is opened.
+ */
+type ComponentGroup = fabric.Group & ExtendedFabricObject;
+
+// What an instance keeps of its own when it is rebuilt: where it sits and how it shows in the layers list
+const PLACEMENT_PROPS = ['left', 'top', 'originX', 'originY', 'scaleX', 'scaleY', 'angle', 'flipX', 'flipY', 'skewX', 'skewY'] as const;
+const INSTANCE_OWN_PROPS = [
+    ...PLACEMENT_PROPS,
+    'id', 'name', 'locked', 'layerTagColor', 'visible', 'resizeAnchor', 'stackFill',
+    'selectable', 'evented', 'lockMovementX', 'lockMovementY', 'excludeFromExport',
+    'componentRole', 'componentVersion', 'componentOverrides',
+] as const;
+
+// Edits arriving within this window update the instances once
+const SYNC_DELAY_MS = 300;
+
+const THUMBNAIL_SIZE = 256;
+
+export const isComponentMaster = (obj: fabric.Object | null | undefined): obj is ComponentGroup =>
+    obj instanceof fabric.Group && (obj as ExtendedFabricObject).componentRole === 'master' && Boolean((obj as ExtendedFabricObject).componentId);
+
+export const isComponentInstance = (obj: fabric.Object | null | undefined): obj is ComponentGroup =>
+    obj instanceof fabric.Group && (obj as ExtendedFabricObject).componentRole === 'instance' && Boolean((obj as ExtendedFabricObject).componentId);
+
+/** The nearest instance `obj` is a layer of, or null. */
+export const findOwningInstance = (obj: fabric.Object) => {
+    // `parent` rather than `group`, which is the multi-selection while the object is in one
+    for (let current = obj.parent; current; current = current.parent) {
+        if (isComponentInstance(current)) return current;
+    }
+    return null;
+};
+
+/** The master `obj` is or belongs to, or null. */
+export const findOwningMaster = (obj: fabric.Object) => {
+    for (let current: fabric.Object | undefined = obj; current; current = current.parent) {
+        if (isComponentMaster(current)) return current;
+    }
+    return null;
+};
+
+const collectGroups = (objects: fabric.Object[], match: (obj: fabric.Object) => boolean, found: ComponentGroup[] = []) => {
+    objects.forEach((obj) => {
+        if (match(obj)) found.push(obj as ComponentGroup);
+        if (obj instanceof fabric.Group) collectGroups(obj.getObjects(), match, found);
+    });
+    return found;
+};
+
+/** Every instance on the canvas, nested ones included; only those of `componentId` if given. */
+export const findInstances = (canvas: fabric.Canvas, componentId?: string) =>
+    collectGroups(canvas.getObjects(), (obj) => isComponentInstance(obj) && (!componentId || (obj as ExtendedFabricObject).componentId === componentId));
+
+export const findMaster = (canvas: fabric.Canvas, componentId: string) =>
+    collectGroups(canvas.getObjects(), (obj) => isComponentMaster(obj) && (obj as ExtendedFabricObject).componentId === componentId)[0] ?? null;
+
+// Layers that belong to this component; a nested instance is one layer, its contents belong to its own component
+const forEachComponentLayer = (group: fabric.Group, visit: (obj: fabric.Object) => void) => {
+    group.getObjects().forEach((child) => {
+        visit(child);
+        if (child instanceof fabric.Group && !isComponentInstance(child)) forEachComponentLayer(child, visit);
+    });
+};
+
+const forEachDescendant = (group: fabric.Group, visit: (obj: fabric.Object) => void) => {
+    group.getObjects().forEach((child) => {
+        visit(child);
+        if (child instanceof fabric.Group) forEachDescendant(child, visit);
+    });
+};
+
+/** The master as stored in the library: its look, without its place on the page or its own layer settings. */
+export const serializeMaster = (master: fabric.Group) => {
+    const data = (master as fabric.Object).toObject(DESIGN_CUSTOM_PROPS) as Record<string, unknown>;
+    INSTANCE_OWN_PROPS.forEach((prop) => delete data[prop]);
+    return data;
+};
+
+export const renderComponentThumbnail = (group: fabric.Group) => {
+    const size = Math.max(group.getScaledWidth(), group.getScaledHeight(), 1);
+    return group.toDataURL({ format: 'png', multiplier: Math.min(1, THUMBNAIL_SIZE / size) });
+};
+
+/**
+ * Turn `objects` (top-level canvas objects) into a group that can become a master. A single
+ * plain group is used as it is; anything else is grouped in layer order.
+ */
+export const prepareMasterGroup = (canvas: fabric.Canvas, objects: fabric.Object[]) => {
+    // Objects in a multi-selection are positioned relative to it until it is dropped
+    canvas.discardActiveObject();
+    let group: fabric.Group;
+    if (objects.length === 1 && objects[0] instanceof fabric.Group && !isComponentInstance(objects[0]) && !isComponentMaster(objects[0])) {
+        group = objects[0];
+    } else {
+        const index = Math.min(...objects.map((obj) => canvas.getObjects().indexOf(obj)));
+        const ordered = [...objects].sort((a, b) => canvas.getObjects().indexOf(a) - canvas.getObjects().indexOf(b));
+        ordered.forEach((obj) => canvas.remove(obj));
+        group = new fabric.Group(ordered, { subTargetCheck: true, interactive: true });
+        canvas.insertAt(index, group);
+    }
+    forEachComponentLayer(group, (layer) => {
+        const ext = layer as ExtendedFabricObject;
+        if (!ext.componentKey) ext.componentKey = `layer-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+    });
+    return group;
+};
+
+/** Mark `group` as the master of a component that was just saved to the library. */
+export const markAsMaster = (group: fabric.Group, component: Pick<ComponentSummary, 'id' | 'name' | 'space' | 'version'>) => {
+    (group as ComponentGroup).set({
+        name: component.name,
+        componentId: component.id,
+        componentRole: 'master',
+        componentSpace: component.space,
+        componentVersion: component.version,
+    });
+};
+
+// The new image is fitted inside the master image's frame, centred, like a data merge
+const replaceImage = async (obj: fabric.FabricImage, src: string) => {
+    const frameWidth = obj.width * obj.scaleX;
+    const frameHeight = obj.height * obj.scaleY;
+    const center = obj.getRelativeCenterPoint();
+    try {
+        await obj.setSrc(src, { crossOrigin: 'anonymous' });
+    } catch (error) {
+        console.error('Failed to load component image override', error);
+        return;
+    }
+    const size = obj.getOriginalSize();
+    const scale = Math.min(frameWidth / size.width, frameHeight / size.height);
+    obj.set({ width: size.width, height: size.height, cropX: 0, cropY: 0, scaleX: scale, scaleY: scale });
+    obj.setRelativeXY(center, 'center', 'center');
+};
+
+const applyOverride = async (layer: fabric.Object, override: ComponentOverride) => {
+    if (override.text !== undefined && layer instanceof fabric.FabricText && layer.text !== override.text) {
+        layer.set({ text: override.text, styles: {} });
+        if (layer instanceof fabric.Textbox) layer.initDimensions();
+    }
+    if (override.fill !== undefined && !(layer instanceof fabric.FabricImage)) layer.set({ fill: override.fill });
+    if (override.src && layer instanceof fabric.FabricImage && layer.getSrc() !== override.src) await replaceImage(layer, override.src);
+};
+
+type InstanceOptions = {
+    version: number;
+    overrides?: Record<string, ComponentOverride>;
+    /** Layer settings and placement carried over from the instance being replaced */
+    keep?: Partial<Record<(typeof INSTANCE_OWN_PROPS)[number], unknown>>;
+};
+
+/** A new instance of the master stored as `data`, at the master's own size and position. */
+export const createInstance = async (data: Record<string, unknown>, { version, overrides = {}, keep = {} }: InstanceOptions) => {
+    const [instance] = await fabric.util.enlivenObjects<fabric.Group>([data]);
+    forEachDescendant(instance, (layer) => {
+        const ext = layer as ExtendedFabricObject;
+        ext.id = undefined;
+        ensureObjectId(layer);
+    });
+    const byKey = new Map<string, fabric.Object>();
+    forEachComponentLayer(instance, (layer) => {
+        const key = (layer as ExtendedFabricObject).componentKey;
+        if (key) byKey.set(key, layer);
+    });
+    for (const [key, override] of Object.entries(overrides)) {
+        const layer = byKey.get(key);
+        if (layer) await applyOverride(layer, override);
+    }
+    if (Object.keys(overrides).length > 0) instance.triggerLayout();
+    (instance as ComponentGroup).set({
+        ...keep,
+        componentRole: 'instance',
+        componentVersion: version,
+        componentOverrides: overrides,
+    });
+    ensureObjectId(instance);
+    instance.setCoords();
+    return instance as ComponentGroup;
+};
+
+/**
+ * Put a rebuilt copy of `instance` in its place: same layer position, same top-left corner,
+ * same scale and rotation. Returns the new instance.
+ */
+const replaceInstance = (canvas: fabric.Canvas, instance: fabric.Group, fresh: fabric.Group) => {
+    const corner = instance.getPositionByOrigin('left', 'top');
+    fresh.setPositionByOrigin(corner, 'left', 'top');
+    const parent = instance.parent;
+    const wasActive = canvas.getActiveObject() === instance;
+    if (parent) {
+        // Groups take new children in canvas coordinates
+        fabric.util.applyTransformToObject(fresh, fabric.util.multiplyTransformMatrices(parent.calcTransformMatrix(), fresh.calcOwnMatrix()));
+        const index = parent.getObjects().indexOf(instance);
+        parent.remove(instance);
+        parent.insertAt(index, fresh);
+        parent.setCoords();
+        reflowParentStack(fresh);
+    } else {
+        const index = canvas.getObjects().indexOf(instance);
+        canvas.remove(instance);
+        canvas.insertAt(index, fresh);
+    }
+    fresh.setCoords();
+    if (wasActive) canvas.setActiveObject(fresh);
+    return fresh;
+};
+
+const keptProps = (instance: fabric.Group) => {
+    const source = instance as unknown as Record<string, unknown>;
+    return Object.fromEntries(INSTANCE_OWN_PROPS.map((prop) => [prop, source[prop]])) as InstanceOptions['keep'];
+};
+
+/** Build `instance` again from the master's `data`, keeping its overrides unless `overrides` replaces them. */
+export const rebuildInstance = async (canvas: fabric.Canvas, instance: fabric.Group, data: Record<string, unknown>, version: number, overrides?: Record<string, ComponentOverride>) => {
+    // A multi-selection holds its objects in its own plane
+    if (canvas.getActiveObject() instanceof fabric.ActiveSelection) canvas.discardActiveObject();
+    const fresh = await createInstance(data, {
+        version,
+        overrides: overrides ?? (instance as ComponentGroup).componentOverrides ?? {},
+        keep: keptProps(instance),
+    });
+    return replaceInstance(canvas, instance, fresh);
+};
+
+/** Remember a change to a layer of an instance so it survives updates from the master. */
+export const recordOverride = (layer: fabric.Object, override: ComponentOverride) => {
+    const instance = findOwningInstance(layer);
+    const key = (layer as ExtendedFabricObject).componentKey;
+    if (!instance || !key) return;
+    const overrides = instance.componentOverrides ?? {};
+    instance.componentOverrides = { ...overrides, [key]: { ...overrides[key], ...override } };
+};
+
+/** Drop the overrides of one layer; the instance shows the master's version once it is rebuilt. */
+export const clearLayerOverrides = (layer: fabric.Object) => {
+    const instance = findOwningInstance(layer);
+    const key = (layer as ExtendedFabricObject).componentKey;
+    if (!instance || !key || !instance.componentOverrides) return;
+    const overrides = { ...instance.componentOverrides };
+    delete overrides[key];
+    instance.componentOverrides = overrides;
+};
+
+/** Overrides the instance holds for one of its layers, if any. */
+export const getOverride = (layer: fabric.Object) => {
+    const key = (layer as ExtendedFabricObject).componentKey;
+    return key ? findOwningInstance(layer)?.componentOverrides?.[key] : undefined;
+};
+
+/** Turn an instance back into a plain group that no longer follows its master. */
+export const detachInstance = (instance: fabric.Group) => {
+    (instance as ComponentGroup).set({
+        componentId: undefined,
+        componentRole: undefined,
+        componentSpace: undefined,
+        componentVersion: undefined,
+        componentOverrides: undefined,
+    });
+    forEachComponentLayer(instance, (layer) => (layer as ExtendedFabricObject).set({ componentKey: undefined }));
+};
+
+/** Every component the user can see, in their own space and the team's. */
+export const fetchComponents = async (space?: WorkspaceSpace): Promise<{ components: ComponentSummary[]; spaces: WorkspaceSpace[] }> => {
+    const res = await fetch(space ? `/api/components/list?space=${space}` : '/api/components/list');
+    const data = await res.json();
+    if (!data.success) throw new Error(data.message || 'Failed to load components');
+    return { components: data.components, spaces: data.spaces };
+};
+
+export const fetchMasterData = async (component: ComponentSummary): Promise<Record<string, unknown>> => {
+    const res = await fetch(component.data);
+    if (!res.ok) throw new Error(`Component ${component.id} could not be loaded`);
+    const record = await res.json();
+    return record.object;
+};
+
+/**
+ * Where an instance is rebuilt from: the master on the canvas if it is there, as it looks now,
+ * else the library. Null if the component is in neither.
+ */
+export const resolveMasterSource = async (canvas: fabric.Canvas, componentId: string, library?: ComponentSummary[]) => {
+    const master = findMaster(canvas, componentId);
+    if (master) return { data: serializeMaster(master), version: master.componentVersion ?? 0 };
+    const component = (library ?? (await fetchComponents()).components).find((item) => item.id === componentId);
+    if (!component) return null;
+    return { data: await fetchMasterData(component), version: component.version };
+};
+
+/** Rebuild the canvas's instances of `master` from it as it looks now. */
+export const syncInstances = async (canvas: fabric.Canvas, master: fabric.Group) => {
+    const { componentId, componentVersion } = master as ComponentGroup;
+    if (!componentId) return 0;
+    const instances = findInstances(canvas, componentId);
+    if (instances.length === 0) return 0;
+    const data = serializeMaster(master);
+    for (const instance of instances) await rebuildInstance(canvas, instance, data, componentVersion ?? 0);
+    canvas.requestRenderAll();
+    return instances.length;
+};
+
+/**
+ * Bring instances whose master has a newer version in the library up to date. Instances of a
+ * master on this canvas are left alone; they already follow it. Returns how many were rebuilt.
+ */
+export const updateInstancesFromLibrary = async (canvas: fabric.Canvas) => {
+    const instances = findInstances(canvas).filter((instance) => !findMaster(canvas, instance.componentId!));
+    if (instances.length === 0) return 0;
+    const { components } = await fetchComponents();
+    const data = new Map<string, Promise<Record<string, unknown>>>();
+    let updated = 0;
+    for (const instance of instances) {
+        const component = components.find((item) => item.id === instance.componentId && item.space === instance.componentSpace);
+        if (!component || component.version <= (instance.componentVersion ?? 0)) continue;
+        if (!data.has(component.id)) data.set(component.id, fetchMasterData(component));
+        await rebuildInstance(canvas, instance, await data.get(component.id)!, component.version);
+        updated += 1;
+    }
+    if (updated > 0) canvas.requestRenderAll();
+    return updated;
+};
+
+/** Bring the page holding `obj` into view and select it. */
+export const revealObject = (canvas: fabric.Canvas, obj: fabric.Object) => {
+    const zoom = canvas.getZoom();
+    const center = obj.getCenterPoint();
+    canvas.setViewportTransform([zoom, 0, 0, zoom, canvas.getWidth() / 2 - center.x * zoom, canvas.getHeight() / 2 - center.y * zoom]);
+    canvas.setActiveObject(obj);
+    canvas.requestRenderAll();
+};
+
+const watchers = new WeakMap<fabric.Canvas, (obj: fabric.Object) => void>();
+
+/**
+ * Keep a canvas's components in step while it is edited: text typed into an instance becomes
+ * an override, and instances of a master on the canvas follow the master. Returns a function
+ * that stops watching.
+ */
+export const watchComponents = (canvas: fabric.Canvas, onSynced?: (count: number) => void) => {
+    const pending = new Set<fabric.Group>();
+    const synced = new WeakMap<fabric.Group, string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let running: Promise<unknown> = Promise.resolve();
+
+    const flush = () => {
+        timer = null;
+        const masters = [...pending];
+        pending.clear();
+        running = running.then(async () => {
+            let count = 0;
+            for (const master of masters) {
+                if (!master.canvas) continue;
+                // Moving or resizing the master changes nothing in its instances
+                const content = JSON.stringify(serializeMaster(master));
+                if (synced.get(master) === content) continue;
+                synced.set(master, content);
+                count += await syncInstances(canvas, master);
+            }
+            if (count > 0) onSynced?.(count);
+        }).catch((error) => console.error('Failed to update component instances', error));
+    };
+
+    const schedule = (obj: fabric.Object) => {
+        const master = findOwningMaster(obj);
+        if (!master) return;
+        pending.add(master);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, SYNC_DELAY_MS);
+    };
+
+    const handleModified = ({ target }: { target?: fabric.Object }) => {
+        if (!target) return;
+        (target instanceof fabric.ActiveSelection ? target.getObjects() : [target]).forEach(schedule);
+    };
+    const handleTextChanged = ({ target }: { target: fabric.IText }) => {
+        recordOverride(target, { text: target.text });
+        schedule(target);
+    };
+
+    canvas.on('object:modified', handleModified);
+    canvas.on('text:changed', handleTextChanged);
+    watchers.set(canvas, schedule);
+    return () => {
+        if (timer) clearTimeout(timer);
+        canvas.off('object:modified', handleModified);
+        canvas.off('text:changed', handleTextChanged);
+        watchers.delete(canvas);
+    };
+};
+
+/** Tell the watcher about a change Fabric does not report, such as an edit in the Properties panel. */
+export const notifyComponentChange = (canvas: fabric.Canvas, obj: fabric.Object) => {
+    watchers.get(canvas)?.(obj);
+};
@@ -0,0 +1,279 @@
+// src/lib/data-merge.ts
+import * as fabric from 'fabric';
+import { ExtendedFabricObject } from '@/types';
+import { isArtboardObject } from '@/lib/artboards';
+import { reflowParentStack } from '@/lib/stack-layout';
+import { fitTextBox, getFullStyles, getFullText } from '@/lib/text-fit';
+
+/**
+ * Data merge fills a template from a table: text and image layers get a variable name in the
+ * Properties panel, each row of a CSV or JSON dataset supplies their values, and every row can
+ * be previewed on the canvas or exported as its own file.
+ */
+export type DataRow = Record<string, string>;
+
+export type Dataset = {
+    columns: string[];
+    rows: DataRow[];
+};
+
+export type MergeVariable = {
+    name: string;
+    kind: 'text' | 'image';
+    objects: fabric.Object[];
+};
+
+/** Variable → column it is filled from; unmapped variables keep the template's content. */
+export type ColumnMapping = Record<string, string>;
+
+/** Trimmed, inner whitespace collapsed to underscores; empty removes the variable. */
+export const normalizeVariableName = (value: string) => value.trim().replace(/\s+/g, '_').slice(0, 64);
+
+const detectDelimiter = (headerLine: string) => {
+    const counts = [',', ';', '\t'].map((delimiter) => ({ delimiter, count: headerLine.split(delimiter).length }));
+    return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+// RFC 4180: quoted fields may hold delimiters, newlines and doubled quotes
+const parseCsvRecords = (text: string, delimiter: string) => {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i += 1) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i += 1;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i += 1;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records.filter((row) => row.some((cell) => cell.trim() !== ''));
+};
+
+const uniqueColumns = (names: string[]) => {
+    const seen = new Map<string, number>();
+    return names.map((raw, index) => {
+        const name = raw.trim() || `column_${index + 1}`;
+        const count = seen.get(name) ?? 0;
+        seen.set(name, count + 1);
+        return count === 0 ? name : `${name}_${count + 1}`;
+    });
+};
+
+/** The first line is the header. Comma, semicolon and tab separated files are all accepted. */
+export const parseCsv = (text: string): Dataset => {
+    const clean = text.replace(/^\uFEFF/, '');
+    const records = parseCsvRecords(clean, detectDelimiter(clean.split(/\r?\n/, 1)[0] ?? ''));
+    if (records.length === 0) return { columns: [], rows: [] };
+    const columns = uniqueColumns(records[0]);
+    const rows = records.slice(1).map((record) =>
+        Object.fromEntries(columns.map((column, index) => [column, (record[index] ?? '').trim()]))
+    );
+    return { columns, rows };
+};
+
+const toCell = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/** An array of objects, or an object holding one (e.g. `{ "rows": [...] }`). */
+export const parseJsonDataset = (text: string): Dataset => {
+    const parsed: unknown = JSON.parse(text);
+    const list = Array.isArray(parsed)
+        ? parsed
+        : Object.values((parsed ?? {}) as Record<string, unknown>).find(Array.isArray);
+    if (!Array.isArray(list)) throw new Error('The JSON file has no list of rows');
+    const items = list.filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object' && !Array.isArray(item));
+    const columns = [...new Set(items.flatMap((item) => Object.keys(item)))];
+    const rows = items.map((item) => Object.fromEntries(columns.map((column) => [column, toCell(item[column])])));
+    return { columns, rows };
+};
+
+export const parseDataset = (text: string, fileName: string): Dataset => {
+    const looksLikeJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+    return looksLikeJson ? parseJsonDataset(text) : parseCsv(text);
+};
+
+const variableKind = (obj: fabric.Object): MergeVariable['kind'] | null => {
+    if (obj instanceof fabric.FabricText) return 'text';
+    if (obj instanceof fabric.FabricImage && !(obj as ExtendedFabricObject).is3DModel) return 'image';
+    return null;
+};
+
+/** Every named text and image layer, including inside groups, in layer order. */
+export const findMergeVariables = (canvas: fabric.Canvas): MergeVariable[] => {
+    const variables = new Map<string, MergeVariable>();
+    const visit = (obj: fabric.Object) => {
+        if (isArtboardObject(obj)) return;
+        if (obj instanceof fabric.Group) obj.getObjects().forEach(visit);
+        const name = (obj as ExtendedFabricObject).variableName;
+        const kind = variableKind(obj);
+        if (!name || !kind) return;
+        const existing = variables.get(name);
+        if (existing) existing.objects.push(obj);
+        else variables.set(name, { name, kind, objects: [obj] });
+    };
+    canvas.getObjects().forEach(visit);
+    return [...variables.values()];
+};
+
+const matchKey = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, '');
+
+/** Pair variables with columns of the same name, ignoring case, spaces, dashes and underscores. */
+export const matchColumns = (variables: MergeVariable[], columns: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    variables.forEach((variable) => {
+        const column = columns.find((candidate) => matchKey(candidate) === matchKey(variable.name));
+        if (column) mapping[variable.name] = column;
+    });
+    return mapping;
+};
+
+/**
+ * File name for a row from a pattern such as `{#}-{name}`: `{column}` is the row's value
+ * (any case), `{#}` the row number. Characters file systems reject are replaced.
+ */
+export const buildFileName = (pattern: string, row: DataRow, index: number, total: number) => {
+    const lookup = new Map(Object.entries(row).map(([column, value]) => [column.toLowerCase(), value]));
+    const name = pattern
+        .replace(/\{#\}/g, String(index + 1).padStart(String(total).length, '0'))
+        .replace(/\{([^{}]+)\}/g, (_, column: string) => lookup.get(column.trim().toLowerCase()) ?? '')
+        .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^\.+/, '');
+    return name || `row-${index + 1}`;
+};
+
+type TextSnapshot = { kind: 'text'; text: string; styles: fabric.TextStyle };
+type ImageSnapshot = { kind: 'image'; src: string; props: Partial<fabric.FabricImage> };
+
+// Cross-origin images would taint the canvas and block export; the proxy serves them same-origin
+const toLoadableUrl = (url: string) => {
+    try {
+        const absolute = new URL(url, window.location.href);
+        if (/^https?:$/.test(absolute.protocol) && absolute.origin !== window.location.origin) {
+            return `/api/export/proxy?url=${encodeURIComponent(absolute.toString())}`;
+        }
+    } catch {
+        // Left as is; loading reports the failure
+    }
+    return url;
+};
+
+/**
+ * Puts row values onto the canvas and takes them off again. The template's own text and
+ * images are remembered the first time a row replaces them and put back by `restore()`.
+ */
+export class MergePreview {
+    private canvas: fabric.Canvas;
+    private originals = new Map<fabric.Object, TextSnapshot | ImageSnapshot>();
+
+    constructor(canvas: fabric.Canvas) {
+        this.canvas = canvas;
+    }
+
+    get isApplied() {
+        return this.originals.size > 0;
+    }
+
+    /** Returns the image URLs that could not be loaded; those layers keep their template image. */
+    async apply(variables: MergeVariable[], mapping: ColumnMapping, row: DataRow) {
+        const failed: string[] = [];
+        for (const variable of variables) {
+            const column = mapping[variable.name];
+            if (!column) continue;
+            const value = row[column] ?? '';
+            for (const obj of variable.objects) {
+                if (obj instanceof fabric.FabricText) {
+                    this.remember(obj);
+                    obj.set({ text: value, styles: {}, textFitSource: undefined, textFitSourceStyles: undefined });
+                    if (obj instanceof fabric.Textbox) fitTextBox(obj);
+                } else if (obj instanceof fabric.FabricImage && value) {
+                    this.remember(obj);
+                    const loaded = await this.replaceImage(obj, toLoadableUrl(value));
+                    if (!loaded) failed.push(value);
+                }
+            }
+        }
+        // Longer or shorter values move the rest of a stack
+        this.originals.forEach((_, obj) => reflowParentStack(obj));
+        this.canvas.requestRenderAll();
+        return failed;
+    }
+
+    async restore() {
+        for (const [obj, snapshot] of this.originals) {
+            if (snapshot.kind === 'text' && obj instanceof fabric.FabricText) {
+                obj.set({ text: snapshot.text, styles: snapshot.styles, textFitSource: undefined, textFitSourceStyles: undefined });
+                if (obj instanceof fabric.Textbox) fitTextBox(obj);
+            } else if (snapshot.kind === 'image' && obj instanceof fabric.FabricImage) {
+                if (obj.getSrc() !== snapshot.src) {
+                    await obj.setSrc(snapshot.src, { crossOrigin: 'anonymous' }).catch((error) => console.error('Failed to restore template image', error));
+                }
+                obj.set(snapshot.props);
+            }
+            obj.setCoords();
+            reflowParentStack(obj);
+        }
+        this.originals.clear();
+        this.canvas.requestRenderAll();
+    }
+
+    private remember(obj: fabric.FabricText | fabric.FabricImage) {
+        if (this.originals.has(obj)) return;
+        if (obj instanceof fabric.FabricText) {
+            this.originals.set(obj, { kind: 'text', text: getFullText(obj), styles: structuredClone(getFullStyles(obj)) });
+        } else {
+            const { width, height, cropX, cropY, scaleX, scaleY, left, top } = obj;
+            this.originals.set(obj, { kind: 'image', src: obj.getSrc(), props: { width, height, cropX, cropY, scaleX, scaleY, left, top } });
+        }
+    }
+
+    // The new image is fitted inside the template image's frame, centred
+    private async replaceImage(obj: fabric.FabricImage, url: string) {
+        const snapshot = this.originals.get(obj) as ImageSnapshot;
+        const frameWidth = (snapshot.props.width ?? obj.width) * (snapshot.props.scaleX ?? obj.scaleX);
+        const frameHeight = (snapshot.props.height ?? obj.height) * (snapshot.props.scaleY ?? obj.scaleY);
+        obj.set(snapshot.props);
+        const center = obj.getRelativeCenterPoint();
+        try {
+            await obj.setSrc(url, { crossOrigin: 'anonymous' });
+        } catch (error) {
+            console.error('Failed to load merge image', error);
+            await obj.setSrc(snapshot.src, { crossOrigin: 'anonymous' }).catch(() => undefined);
+            obj.set(snapshot.props);
+            return false;
+        }
+        const size = obj.getOriginalSize();
+        const scale = Math.min(frameWidth / size.width, frameHeight / size.height);
+        obj.set({ width: size.width, height: size.height, cropX: 0, cropY: 0, scaleX: scale, scaleY: scale });
+        obj.setRelativeXY(center, 'center', 'center');
+        obj.setCoords();
+        return true;
+    }
+}
@@ -0,0 +1,278 @@
+// src/lib/design-assets.ts
+import type JSZip from 'jszip';
+import type { Artboard, TextStyleSheet } from '@/types';
+
+export type SerializedFill = {
+    src?: string;
+    source?: string;
+    colorStops?: Array<{ src?: string }>;
+};
+
+export type SerializedObject = {
+    type?: string;
+    src?: string;
+    modelUrl?: string;
+    mediaType?: 'video' | 'audio' | string;
+    mediaSource?: string;
+    name?: string;
+    is3DModel?: boolean;
+    clipPath?: SerializedObject;
+    objects?: SerializedObject[];
+    paths?: SerializedObject[];
+    fill?: unknown;
+    stroke?: unknown;
+    backgroundColor?: unknown;
+    overlayFill?: unknown;
+    [key: string]: unknown;
+};
+
+/** An uploaded font the design's text uses, see src/lib/fonts.ts */
+export type DesignFont = {
+    family: string;
+    src: string;
+};
+
+export type DesignJson = {
+    objects?: SerializedObject[];
+    backgroundImage?: { src?: string };
+    overlayImage?: { src?: string };
+    clipPath?: SerializedObject;
+    metadata?: unknown;
+    artboards?: Artboard[];
+    fonts?: DesignFont[];
+    /** Named paragraph and character styles, see src/lib/text-styles.ts */
+    textStyles?: TextStyleSheet[];
+    /** See src/lib/design-schema.ts */
+    schemaVersion?: number;
+    [key: string]: unknown;
+};
+
+export type AssetKind = 'image' | 'model' | 'video' | 'audio' | 'font';
+
+/** One place in a serialized design that points at a file. */
+export type AssetReference = {
+    url: string;
+    kind: AssetKind;
+    /** The object holding the reference, e.g. for a label */
+    owner?: SerializedObject;
+    /** Point this reference at another URL */
+    set: (url: string) => void;
+};
+
+// Older saves use lowercase class names
+const isImageObject = (obj: SerializedObject) => typeof obj.type === 'string' && obj.type.toLowerCase() === 'image';
+
+/**
+ * Every image, pattern fill, 3D model, video/audio source and uploaded font a design uses,
+ * including inside groups, clip paths and the canvas background/overlay. Works on plain JSON,
+ * in the browser and on the server.
+ */
+export const findAssetReferences = (design: DesignJson): AssetReference[] => {
+    const references: AssetReference[] = [];
+
+    const processFill = (fill: unknown, owner: SerializedObject) => {
+        if (!fill || typeof fill !== 'object') return;
+        const fillData = fill as SerializedFill;
+        if (typeof fillData.src === 'string') {
+            references.push({ url: fillData.src, kind: 'image', owner, set: (url) => { fillData.src = url; } });
+        }
+        if (typeof fillData.source === 'string') {
+            references.push({ url: fillData.source, kind: 'image', owner, set: (url) => { fillData.source = url; } });
+        }
+        if (Array.isArray(fillData.colorStops)) {
+            fillData.colorStops.forEach((stop) => {
+                if (stop && typeof stop.src === 'string') {
+                    references.push({ url: stop.src, kind: 'image', owner, set: (url) => { stop.src = url; } });
+                }
+            });
+        }
+    };
+
+    const processObject = (obj: SerializedObject | undefined) => {
+        if (!obj) return;
+        if (isImageObject(obj) && typeof obj.src === 'string') {
+            references.push({ url: obj.src, kind: 'image', owner: obj, set: (url) => { obj.src = url; } });
+        }
+        if (obj.is3DModel && typeof obj.modelUrl === 'string') {
+            references.push({ url: obj.modelUrl, kind: 'model', owner: obj, set: (url) => { obj.modelUrl = url; } });
+        }
+        if ((obj.mediaType === 'video' || obj.mediaType === 'audio') && typeof obj.mediaSource === 'string') {
+            references.push({ url: obj.mediaSource, kind: obj.mediaType, owner: obj, set: (url) => { obj.mediaSource = url; } });
+        }
+        processObject(obj.clipPath);
+        if (Array.isArray(obj.objects)) obj.objects.forEach(processObject);
+        if (Array.isArray(obj.paths)) obj.paths.forEach(processObject);
+        processFill(obj.fill, obj);
+        processFill(obj.stroke, obj);
+        processFill(obj.backgroundColor, obj);
+        processFill(obj.overlayFill, obj);
+    };
+
+    if (Array.isArray(design.objects)) design.objects.forEach(processObject);
+
+    const { backgroundImage, overlayImage } = design;
+    if (backgroundImage && typeof backgroundImage.src === 'string') {
+        references.push({ url: backgroundImage.src, kind: 'image', set: (url) => { backgroundImage.src = url; } });
+    }
+    if (overlayImage && typeof overlayImage.src === 'string') {
+        references.push({ url: overlayImage.src, kind: 'image', set: (url) => { overlayImage.src = url; } });
+    }
+    processObject(design.clipPath);
+
+    if (Array.isArray(design.fonts)) {
+        design.fonts.forEach((font) => {
+            if (font && typeof font.src === 'string') {
+                references.push({ url: font.src, kind: 'font', set: (url) => { font.src = url; } });
+            }
+        });
+    }
+
+    return references;
+};
+
+export type PackedAsset = {
+    /** What the design pointed at before packing */
+    url: string;
+    /** Path of the copy inside the zip */
+    path: string;
+    kind: AssetKind;
+    contentType: string | null;
+};
+
+const sanitizeSegment = (segment: string) => segment.replace(/[^a-z0-9._-]/gi, '_');
+
+const ensureExtension = (name: string, fallback: string) => (name.includes('.') ? name : `${name}.${fallback}`);
+
+const deriveFileName = (url: string, contentType: string | null) => {
+    const withoutQuery = url.split('?')[0];
+    const urlName = withoutQuery.split('/').pop() || '';
+    let clean = sanitizeSegment(decodeURIComponent(urlName));
+    if (!clean) {
+        const subtype = contentType?.split('/')[1]?.split(';')[0];
+        if (contentType?.includes('image/')) clean = `image.${subtype ?? 'png'}`;
+        else if (contentType?.includes('video/')) clean = `video.${subtype ?? 'mp4'}`;
+        else if (contentType?.includes('audio/')) clean = `audio.${subtype ?? 'mp3'}`;
+        else if (contentType?.includes('model/')) clean = `model.${subtype ?? 'glb'}`;
+        else if (contentType?.includes('font/')) clean = `font.${subtype ?? 'woff2'}`;
+        else clean = 'asset.bin';
+    }
+    return ensureExtension(clean, 'bin');
+};
+
+const decodeDataUrl = (dataUrl: string) => {
+    const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/);
+    if (!match) return null;
+    const mimeType = match[1] || 'application/octet-stream';
+    const isBase64 = Boolean(match[2]);
+    const dataPart = match[3] || '';
+
+    try {
+        let buffer: ArrayBuffer;
+        if (isBase64) {
+            const binary = atob(dataPart);
+            const view = new Uint8Array(binary.length);
+            for (let i = 0; i < binary.length; i += 1) {
+                view[i] = binary.charCodeAt(i);
+            }
+            buffer = view.buffer;
+        } else {
+            const decoded = decodeURIComponent(dataPart.replace(/\+/g, '%20'));
+            buffer = new TextEncoder().encode(decoded).buffer as ArrayBuffer;
+        }
+        const extension = mimeType.split('/')[1]?.split(';')[0] ?? 'bin';
+        return { buffer, mimeType, extension };
+    } catch (error) {
+        console.error('Failed to decode data URL asset:', error);
+        return null;
+    }
+};
+
+const resolveAbsoluteUrl = (input: string) => {
+    try {
+        return new URL(input, window.location.href).toString();
+    } catch {
+        return input;
+    }
+};
+
+const isCrossOrigin = (absoluteUrl: string) => {
+    try {
+        return new URL(absoluteUrl).origin !== window.location.origin;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Copy every referenced file into `folder` of a zip under a unique name and point the
+ * references at the copies (`folder/<name>`). Each file is fetched once; cross-origin files go
+ * through the export proxy. References that cannot be fetched keep their URL. Browser only.
+ */
+export const packAssetFiles = async (references: AssetReference[], zip: JSZip, folder: string): Promise<PackedAsset[]> => {
+    const usedNames = new Set<string>();
+    const packed = new Map<string, Promise<PackedAsset | null>>();
+
+    const getUniqueFileName = (rawName: string) => {
+        const parts = rawName.split('.');
+        const ext = parts.length > 1 ? `.${parts.pop()}` : '';
+        const base = sanitizeSegment(parts.join('.') || 'asset');
+        const extension = sanitizeSegment(ext.replace('.', '')) || 'bin';
+        let candidate = `${base}.${extension}`;
+        let counter = 1;
+        while (usedNames.has(candidate)) {
+            candidate = `${base}-${counter}.${extension}`;
+            counter += 1;
+        }
+        usedNames.add(candidate);
+        return candidate;
+    };
+
+    const store = (reference: AssetReference, fileName: string, data: ArrayBuffer, contentType: string | null): PackedAsset => {
+        const name = getUniqueFileName(fileName);
+        zip.file(`${folder}/${name}`, data);
+        return { url: reference.url, path: `${folder}/${name}`, kind: reference.kind, contentType };
+    };
+
+    const pack = async (reference: AssetReference): Promise<PackedAsset | null> => {
+        const { url } = reference;
+        if (url.startsWith('data:')) {
+            const decoded = decodeDataUrl(url);
+            return decoded ? store(reference, `inline-asset.${decoded.extension || 'bin'}`, decoded.buffer, decoded.mimeType) : null;
+        }
+
+        const absoluteUrl = resolveAbsoluteUrl(url);
+        const candidates: string[] = [];
+        if (isCrossOrigin(absoluteUrl)) {
+            candidates.push(`/api/export/proxy?url=${encodeURIComponent(absoluteUrl)}`);
+        }
+        candidates.push(absoluteUrl);
+        if (url.startsWith('blob:')) {
+            candidates.push(url);
+        }
+
+        let lastError: unknown = null;
+        for (const candidate of candidates) {
+            try {
+                const response = await fetch(candidate, { credentials: 'include', mode: 'cors' });
+                if (!response.ok) throw new Error(`Failed to fetch asset: ${candidate}`);
+                const buffer = await response.arrayBuffer();
+                const contentType = response.headers.get('content-type');
+                return store(reference, deriveFileName(absoluteUrl, contentType), buffer, contentType);
+            } catch (error) {
+                lastError = error;
+            }
+        }
+        console.error('Asset bundling failed:', lastError);
+        return null;
+    };
+
+    await Promise.all(references.map(async (reference) => {
+        const key = reference.url.startsWith('data:') ? reference.url : resolveAbsoluteUrl(reference.url);
+        if (!packed.has(key)) packed.set(key, pack(reference));
+        const asset = await packed.get(key);
+        if (asset) reference.set(asset.path);
+    }));
+
+    const assets = await Promise.all(packed.values());
+    return assets.filter((asset): asset is PackedAsset => asset !== null);
+};
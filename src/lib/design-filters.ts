@@ -0,0 +1,41 @@
+// src/lib/design-filters.ts
+// Filter and sort options of the design list, shared by the dashboard and `/api/designs/list`.
+
+export type DesignSort = 'modified' | 'created' | 'name' | 'size';
+
+export const DESIGN_SORTS: { id: DesignSort; label: string }[] = [
+    { id: 'modified', label: 'Last edited' },
+    { id: 'created', label: 'Date created' },
+    { id: 'name', label: 'Name' },
+    { id: 'size', label: 'Size' },
+];
+
+export const isDesignSort = (value: unknown): value is DesignSort => DESIGN_SORTS.some((sort) => sort.id === value);
+
+type SizeFilter = {
+    id: string;
+    label: string;
+    matches: (width: number, height: number) => boolean;
+};
+
+// Within 2% counts as square
+const isSquare = (width: number, height: number) => Math.abs(width - height) <= Math.max(width, height) * 0.02;
+
+/** Orientations plus the sizes offered as templates on the dashboard. */
+export const SIZE_FILTERS: SizeFilter[] = [
+    { id: 'square', label: 'Square', matches: isSquare },
+    { id: 'landscape', label: 'Landscape', matches: (width, height) => width > height && !isSquare(width, height) },
+    { id: 'portrait', label: 'Portrait', matches: (width, height) => height > width && !isSquare(width, height) },
+    { id: 'instagram-post', label: 'Instagram Post (1080 × 1080)', matches: (width, height) => width === 1080 && height === 1080 },
+    { id: 'youtube-thumbnail', label: 'YouTube Thumbnail (1280 × 720)', matches: (width, height) => width === 1280 && height === 720 },
+    { id: 'book-cover', label: 'Book Cover (1600 × 2560)', matches: (width, height) => width === 1600 && height === 2560 },
+    { id: 'website-hero', label: 'Website Hero (1920 × 600)', matches: (width, height) => width === 1920 && height === 600 },
+];
+
+/** Edited-within ranges, in days. */
+export const DATE_FILTERS: { id: string; label: string; days: number }[] = [
+    { id: 'today', label: 'Today', days: 1 },
+    { id: 'week', label: 'Last 7 days', days: 7 },
+    { id: 'month', label: 'Last 30 days', days: 30 },
+    { id: 'year', label: 'Last 12 months', days: 365 },
+];
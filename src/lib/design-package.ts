@@ -0,0 +1,74 @@
+// src/lib/design-package.ts
+import type { AssetKind } from '@/lib/design-assets';
+
+/**
+ * A design package is a single zip carrying a design and every file it uses, so it opens on
+ * another machine or in the desktop app without missing assets:
+ *
+ *     manifest.json
+ *     design.json             canvas JSON; asset references point at "assets/<file>"
+ *     thumbnail.png           the cover page
+ *     pages/<nn>-<name>.png   a preview of each page
+ *     assets/<file>           images, 3D models, video, audio and fonts
+ */
+export const PACKAGE_FORMAT = 'image-express-design';
+export const PACKAGE_VERSION = 1;
+export const PACKAGE_EXTENSION = '.iepkg';
+
+export type PackageAsset = {
+    /** Path inside the zip, under assets/ */
+    path: string;
+    kind: AssetKind;
+    /** Where the design pointed before it was packed */
+    originalUrl: string;
+    contentType: string | null;
+};
+
+export type PackagePage = {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    /** Path of the page preview inside the zip */
+    preview: string;
+};
+
+export type PackageManifest = {
+    format: typeof PACKAGE_FORMAT;
+    version: number;
+    name: string;
+    exportedAt: number;
+    pages: PackagePage[];
+    assets: PackageAsset[];
+};
+
+const ASSET_KINDS: AssetKind[] = ['image', 'model', 'video', 'audio', 'font'];
+
+// "assets/logo.png", never "../" or nested folders
+const ASSET_PATH_PATTERN = /^assets\/[a-z0-9._-]+$/i;
+
+/** Lowercase, dash-separated, for file names inside and of the package. */
+export const slugify = (name: string, fallback = 'design') =>
+    name.replace(/[^a-z0-9_-]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || fallback;
+
+/** The manifest if `value` is one this version can read, otherwise null. */
+export const readPackageManifest = (value: unknown): PackageManifest | null => {
+    if (!value || typeof value !== 'object') return null;
+    const manifest = value as Partial<PackageManifest>;
+    if (manifest.format !== PACKAGE_FORMAT || typeof manifest.version !== 'number' || manifest.version > PACKAGE_VERSION) return null;
+    if (typeof manifest.name !== 'string' || !Array.isArray(manifest.assets)) return null;
+    const assets = manifest.assets.filter((asset): asset is PackageAsset =>
+        Boolean(asset) &&
+        typeof asset.path === 'string' && ASSET_PATH_PATTERN.test(asset.path) &&
+        ASSET_KINDS.includes(asset.kind) &&
+        typeof asset.originalUrl === 'string'
+    );
+    return {
+        format: PACKAGE_FORMAT,
+        version: manifest.version,
+        name: manifest.name,
+        exportedAt: typeof manifest.exportedAt === 'number' ? manifest.exportedAt : 0,
+        pages: Array.isArray(manifest.pages) ? manifest.pages : [],
+        assets,
+    };
+};
@@ -0,0 +1,77 @@
+// src/lib/design-preview.ts
+import * as fabric from 'fabric';
+import { Artboard } from '@/types';
+import { DEFAULT_ARTBOARD_BACKGROUND } from '@/lib/artboards';
+import { prepareDesign } from '@/lib/design-schema';
+import { loadDesignFonts } from '@/lib/fonts';
+
+export type RenderedPage = {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    url: string;
+};
+
+type StoredDesign = {
+    artboards?: Artboard[];
+    background?: unknown;
+    [key: string]: unknown;
+};
+
+/** The pages of a saved design; designs saved before pages existed are one square page. */
+export const listDesignPages = (data: StoredDesign): Artboard[] => data.artboards?.length
+    ? data.artboards
+    : [{
+        id: 'page-1',
+        name: 'Page 1',
+        left: 0,
+        top: 0,
+        width: 1080,
+        height: 1080,
+        background: typeof data.background === 'string' && data.background ? data.background : DEFAULT_ARTBOARD_BACKGROUND,
+    }];
+
+/**
+ * Render every page of a saved design to an image without touching the editor canvas,
+ * for read-only previews and visual diffs. Pages are scaled to fit within `maxSize`.
+ */
+export const renderDesignPages = async (design: StoredDesign | string, maxSize = 1200): Promise<RenderedPage[]> => {
+    let raw: unknown = design;
+    if (typeof design === 'string') {
+        const res = await fetch(design);
+        if (!res.ok) throw new Error(`Status ${res.status}`);
+        raw = await res.json();
+    }
+    // Old versions are upgraded the same way the editor opens them
+    const data: StoredDesign = prepareDesign(raw).design;
+
+    const pages = listDesignPages(data);
+    await loadDesignFonts(data);
+
+    const element = document.createElement('canvas');
+    const canvas = new fabric.StaticCanvas(element, { renderOnAddRemove: false, enableRetinaScaling: false });
+    try {
+        await canvas.loadFromJSON({ ...data, background: '' });
+        return pages.map((page) => {
+            const multiplier = Math.min(1, maxSize / Math.max(page.width, page.height));
+            canvas.backgroundColor = page.background;
+            return {
+                id: page.id,
+                name: page.name,
+                width: page.width,
+                height: page.height,
+                url: canvas.toDataURL({
+                    format: 'png',
+                    multiplier,
+                    left: page.left,
+                    top: page.top,
+                    width: page.width,
+                    height: page.height,
+                }),
+            };
+        });
+    } finally {
+        canvas.dispose();
+    }
+};
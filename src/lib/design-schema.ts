@@ -0,0 +1,266 @@
+// src/lib/design-schema.ts
+import * as fabric from 'fabric';
+import type { DesignJson, SerializedObject } from '@/lib/design-assets';
+import { serializeArtboards } from '@/lib/artboards';
+import { findDesignFonts } from '@/lib/fonts';
+import { serializeTextStyles } from '@/lib/text-styles';
+// Registers the custom filters so saved images using them can be read back
+import '@/lib/fabric-filters';
+// Registers the stack layout so saved stacks keep re-flowing
+import { StackLayoutStrategy } from '@/lib/stack-layout';
+// Draws text transforms on the canvas; exports bake them in
+import { bakeTextTransform } from '@/lib/rich-text';
+
+/**
+ * Saved designs and templates record `schemaVersion`, the layout of the JSON that wrote them;
+ * files from before versioning count as version 0. Loading runs every migration newer than the
+ * file in order, then validates the objects so one unreadable object is reported and left out
+ * instead of the whole design failing to open.
+ *
+ * To change the saved format: bump DESIGN_SCHEMA_VERSION and add a step to DESIGN_MIGRATIONS
+ * that upgrades the previous version in place.
+ */
+export const DESIGN_SCHEMA_VERSION = 1;
+
+// Fields from ExtendedFabricObject that Fabric does not serialize by itself
+export const DESIGN_CUSTOM_PROPS = [
+    'id', 'name', 'locked', 'layerTagColor',
+    'gradient', 'pattern', 'is3DModel', 'modelUrl', 'threeDSettings',
+    'isStar', 'starPoints', 'starInnerRadius',
+    'mediaType', 'mediaSource',
+    'curveStrength', 'curveCenter', 'textTransform', 'textPathId', 'paragraphStyleId',
+    'textFit', 'textFitSource', 'textFitSourceStyles',
+    'skewZ', 'skewZBaseScale', 'skewZBaseScaleX', 'skewZBaseScaleY', 'skewZBaseSkewX', 'skewZBaseSkewY',
+    'taperDirection', 'taperBaseLeft', 'taperBaseTop',
+    'isAdjustmentLayer', 'adjustmentType', 'adjustmentSettings',
+    'variableName', 'resizeAnchor', 'stackLayout', 'stackFill',
+    'componentId', 'componentRole', 'componentSpace', 'componentVersion', 'componentOverrides', 'componentKey',
+    'selectable', 'evented', 'lockMovementX', 'lockMovementY', 'excludeFromExport'
+];
+
+/**
+ * The canvas as saved to a design or template file, with its pages, its text styles, the
+ * uploaded fonts its text uses and the schema version.
+ */
+export const serializeDesign = (canvas: fabric.StaticCanvas): DesignJson => {
+    const design: DesignJson = {
+        ...(canvas.toObject(DESIGN_CUSTOM_PROPS) as DesignJson),
+        artboards: serializeArtboards(canvas),
+        schemaVersion: DESIGN_SCHEMA_VERSION,
+    };
+    const textStyles = serializeTextStyles(canvas);
+    if (textStyles.length > 0) design.textStyles = textStyles;
+    const fonts = findDesignFonts(design);
+    if (fonts.length > 0) design.fonts = fonts;
+    return design;
+};
+
+/** Visit every object, including group children and clip paths, parents first. */
+export const forEachDesignObject = (design: DesignJson, visit: (obj: SerializedObject) => void) => {
+    const walk = (obj: unknown) => {
+        if (!obj || typeof obj !== 'object') return;
+        const serialized = obj as SerializedObject;
+        visit(serialized);
+        walk(serialized.clipPath);
+        if (Array.isArray(serialized.objects)) serialized.objects.forEach(walk);
+    };
+    if (Array.isArray(design.objects)) design.objects.forEach(walk);
+    walk(design.clipPath);
+};
+
+/**
+ * A copy of `design` that stock Fabric can open, as the HTML export's viewer does: stacks are
+ * saved with a fixed layout, so their children stay where the stack put them but no longer
+ * re-flow, and text transforms are typed out. Component links are plain properties and stay as
+ * they are.
+ */
+export const toPortableDesign = (design: DesignJson): DesignJson => {
+    const portable = structuredClone(design);
+    forEachDesignObject(portable, (obj) => {
+        const layoutManager = obj.layoutManager as { strategy?: string } | undefined;
+        if (layoutManager?.strategy === StackLayoutStrategy.type) layoutManager.strategy = fabric.FixedLayout.type;
+        bakeTextTransform(obj);
+    });
+    return portable;
+};
+
+// Fabric 5 wrote lowercase class names; Fabric 6 still reads them but only as a deprecated alias
+const LEGACY_CLASS_NAMES: Record<string, string> = {
+    'activeselection': 'ActiveSelection',
+    'circle': 'Circle',
+    'ellipse': 'Ellipse',
+    'group': 'Group',
+    'image': 'Image',
+    'i-text': 'IText',
+    'itext': 'IText',
+    'line': 'Line',
+    'path': 'Path',
+    'polygon': 'Polygon',
+    'polyline': 'Polyline',
+    'rect': 'Rect',
+    'text': 'Text',
+    'textbox': 'Textbox',
+    'triangle': 'Triangle',
+};
+
+export type DesignMigration = {
+    /** The version this step produces; it runs on files older than that */
+    version: number;
+    description: string;
+    migrate: (design: DesignJson) => void;
+};
+
+export const DESIGN_MIGRATIONS: DesignMigration[] = [
+    {
+        version: 1,
+        description: 'Rename Fabric 5 class names to their current form',
+        migrate: (design) => {
+            forEachDesignObject(design, (obj) => {
+                if (typeof obj.type === 'string' && LEGACY_CLASS_NAMES[obj.type]) {
+                    obj.type = LEGACY_CLASS_NAMES[obj.type];
+                }
+            });
+        },
+    },
+];
+
+/** 0 for files saved before versioning. */
+export const getDesignSchemaVersion = (design: DesignJson) =>
+    typeof design.schemaVersion === 'number' && Number.isInteger(design.schemaVersion) && design.schemaVersion > 0
+        ? design.schemaVersion
+        : 0;
+
+export type DesignIssue = {
+    /** Where the object was, e.g. "objects[3].objects[0]" */
+    path: string;
+    problem: 'unknown-type' | 'corrupt';
+    /** The class or filter name Fabric did not recognise */
+    type?: string;
+    message: string;
+};
+
+const NUMERIC_PROPS = ['left', 'top', 'width', 'height', 'scaleX', 'scaleY', 'angle', 'opacity'];
+
+const describeCorruption = (obj: unknown): string | null => {
+    if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return 'is unreadable';
+    const serialized = obj as SerializedObject;
+    if (typeof serialized.type !== 'string' || !serialized.type) return 'has no type';
+    for (const prop of NUMERIC_PROPS) {
+        const value = serialized[prop];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) return `has an invalid ${prop}`;
+    }
+    const type = serialized.type.toLowerCase();
+    if (type === 'image' && typeof serialized.src !== 'string') return 'is an image without a source';
+    if (type === 'path' && !Array.isArray(serialized.path)) return 'is a path without path data';
+    if (serialized.objects !== undefined && !Array.isArray(serialized.objects)) return 'has unreadable children';
+    return null;
+};
+
+/**
+ * Check every object against what this build of Fabric can read. Unknown or corrupt objects,
+ * clip paths and image filters are removed from `design` and reported; the rest is untouched.
+ */
+export const validateDesign = (design: DesignJson): DesignIssue[] => {
+    const issues: DesignIssue[] = [];
+
+    const check = (obj: unknown, path: string): boolean => {
+        const corruption = describeCorruption(obj);
+        if (corruption) {
+            issues.push({ path, problem: 'corrupt', message: `Object ${corruption}` });
+            return false;
+        }
+        const serialized = obj as SerializedObject;
+        if (!fabric.classRegistry.has(serialized.type as string)) {
+            issues.push({ path, problem: 'unknown-type', type: serialized.type, message: `Unknown object type "${serialized.type}"` });
+            return false;
+        }
+        if (serialized.clipPath !== undefined && !check(serialized.clipPath, `${path}.clipPath`)) {
+            delete serialized.clipPath;
+        }
+        if (Array.isArray(serialized.objects)) {
+            serialized.objects = serialized.objects.filter((child, index) => check(child, `${path}.objects[${index}]`));
+        }
+        if (Array.isArray(serialized.filters)) {
+            serialized.filters = serialized.filters.filter((filter: unknown, index: number) => {
+                const type = filter && typeof filter === 'object' ? (filter as { type?: unknown }).type : undefined;
+                if (typeof type === 'string' && fabric.classRegistry.has(type)) return true;
+                issues.push({ path: `${path}.filters[${index}]`, problem: 'unknown-type', type: String(type), message: `Unknown image filter "${String(type)}"` });
+                return false;
+            });
+        }
+        return true;
+    };
+
+    if (design.objects !== undefined && !Array.isArray(design.objects)) {
+        issues.push({ path: 'objects', problem: 'corrupt', message: 'The object list is unreadable' });
+        design.objects = [];
+    }
+    if (Array.isArray(design.objects)) {
+        design.objects = design.objects.filter((obj, index) => check(obj, `objects[${index}]`));
+    }
+    if (design.clipPath !== undefined && !check(design.clipPath, 'clipPath')) {
+        delete design.clipPath;
+    }
+    return issues;
+};
+
+export class DesignFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DesignFormatError';
+    }
+}
+
+export type PreparedDesign = {
+    /** Migrated and validated copy, ready for `canvas.loadFromJSON` */
+    design: DesignJson;
+    /** The version the file was saved with */
+    savedVersion: number;
+    /** Descriptions of the migrations that ran, oldest first */
+    migrations: string[];
+    issues: DesignIssue[];
+};
+
+/**
+ * Bring a design or template file up to the current schema and validate it. Files from a newer
+ * version are loaded as they are, since there is no way to migrate them down. Throws
+ * DesignFormatError if `data` is not a design at all.
+ */
+export const prepareDesign = (data: unknown): PreparedDesign => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new DesignFormatError('Not a design file');
+    }
+    const design = structuredClone(data) as DesignJson;
+    const savedVersion = getDesignSchemaVersion(design);
+
+    const pending = DESIGN_MIGRATIONS
+        .filter((migration) => migration.version > savedVersion)
+        .sort((a, b) => a.version - b.version);
+    pending.forEach((migration) => migration.migrate(design));
+    if (savedVersion < DESIGN_SCHEMA_VERSION) design.schemaVersion = DESIGN_SCHEMA_VERSION;
+
+    return {
+        design,
+        savedVersion,
+        migrations: pending.map((migration) => migration.description),
+        issues: validateDesign(design),
+    };
+};
+
+/** One sentence for a toast, or null if the design loaded cleanly. */
+export const describeDesignProblems = ({ savedVersion, issues }: PreparedDesign): string | null => {
+    const parts: string[] = [];
+    if (issues.length > 0) {
+        const unknown = [...new Set(issues.filter((issue) => issue.problem === 'unknown-type').map((issue) => issue.type))];
+        const corrupt = issues.filter((issue) => issue.problem === 'corrupt').length;
+        const details = [
+            unknown.length > 0 ? `unsupported ${unknown.join(', ')}` : null,
+            corrupt > 0 ? `${corrupt} damaged` : null,
+        ].filter(Boolean).join('; ');
+        parts.push(`${issues.length} item${issues.length === 1 ? ' was' : 's were'} left out (${details}).`);
+    }
+    if (savedVersion > DESIGN_SCHEMA_VERSION) {
+        parts.push('It was saved by a newer version of Image Express, so some content may not show correctly.');
+    }
+    return parts.length > 0 ? parts.join(' ') : null;
+};
@@ -126,3 +126,6 @@ export class CurvesFilter extends fabric.filters.BaseFilter<'Curves', { points:
         return { type: 'Curves', points: this.points, channel: this.channel, intensity: this.intensity };
     }
 }
+
+// Saved images keep their curves adjustment when reopened
+fabric.classRegistry.setClass(CurvesFilter);
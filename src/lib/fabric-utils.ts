@@ -11,6 +11,18 @@ export const ensureObjectId = (obj: fabric.Object) => {
     return extendedObj.id;
 };
 
+/** Find a layer by id on the canvas or inside any of its groups. */
+export const findObjectById = (objects: fabric.Object[], id: string): fabric.Object | undefined => {
+    for (const obj of objects) {
+        if ((obj as ExtendedFabricObject).id === id) return obj;
+        if (obj instanceof fabric.Group) {
+            const found = findObjectById(obj.getObjects(), id);
+            if (found) return found;
+        }
+    }
+    return undefined;
+};
+
 export const getNextIndexedName = (base: string, names: string[]) => {
     const matcher = new RegExp(`^${base}\\s*(\\d+)?$`, 'i');
     let max = 0;
@@ -0,0 +1,144 @@
+// src/lib/fonts.ts
+import * as fabric from 'fabric';
+import type { AssetDescriptor, WorkspaceSpace } from '@/types';
+import type { DesignFont, DesignJson, SerializedObject } from '@/lib/design-assets';
+import { fitTextBox, getTextFit } from '@/lib/text-fit';
+
+/**
+ * Fonts uploaded to the asset library (uploads/fonts) are registered with the browser as a
+ * FontFace, under a family named after the file. Saved designs list the uploaded fonts their
+ * text uses in `fonts`, so opening one can load them before Fabric measures any text, and
+ * exports can carry the files along.
+ */
+export const SYSTEM_FONTS = ['Arial', 'Times New Roman', 'Courier New', 'Georgia', 'Verdana', 'Impact', 'Comic Sans MS', 'Trebuchet MS', 'Arial Black'];
+
+export const FONT_EXTENSIONS = ['.ttf', '.otf', '.woff', '.woff2'];
+
+export type UploadedFont = DesignFont & {
+    /** File name in the library */
+    name: string;
+    space?: WorkspaceSpace;
+};
+
+// Uploads get "-<timestamp>-<random>" appended to their name, files saved from a URL a prefix
+const UPLOAD_SUFFIX = /-\d{10,}-\d+$/;
+const UPLOAD_PREFIX = /^\d{10,}-/;
+
+/** "Brand_Sans-Bold-1712345678901-123456789.woff2" becomes "Brand Sans-Bold". */
+export const getFontFamilyName = (fileName: string) =>
+    fileName.replace(/\.[^.]+$/, '').replace(UPLOAD_SUFFIX, '').replace(UPLOAD_PREFIX, '').replace(/_+/g, ' ').trim() || 'Custom Font';
+
+type RegisteredFont = {
+    src: string;
+    ready: Promise<boolean>;
+};
+
+// One face per family; the first file registered under a name keeps it
+const registry = new Map<string, RegisteredFont>();
+
+/**
+ * Load `font` and add it to the document's fonts. Resolves to false if the file could not be
+ * loaded, in which case the text falls back to a system font and a later call tries again.
+ */
+export const registerFont = ({ family, src }: DesignFont): Promise<boolean> => {
+    const existing = registry.get(family);
+    if (existing) return existing.ready;
+    if (typeof FontFace === 'undefined') return Promise.resolve(false);
+
+    const ready = new FontFace(family, `url(${JSON.stringify(src)})`).load()
+        .then((face) => {
+            document.fonts.add(face);
+            // Fabric caches glyph widths per family, including any measured with the fallback
+            fabric.cache.clearFontCache(family);
+            return true;
+        })
+        .catch((error) => {
+            console.error(`Failed to load font "${family}":`, error);
+            registry.delete(family);
+            return false;
+        });
+    registry.set(family, { src, ready });
+    return ready;
+};
+
+export const isUploadedFont = (family: string) => registry.has(family);
+
+/** Wait for `family` if it is an uploaded font; system fonts resolve at once. */
+export const loadFont = (family: string) => registry.get(family)?.ready ?? Promise.resolve(true);
+
+/** Every font uploaded to the user's own and the team's library, each family once. */
+export const fetchUploadedFonts = async (): Promise<UploadedFont[]> => {
+    const res = await fetch('/api/assets/list?type=fonts&category=uploads');
+    const data = await res.json();
+    if (!data.success) throw new Error(data.message || 'Failed to list fonts');
+    const seen = new Set<string>();
+    return (data.files as AssetDescriptor[])
+        .map((file) => ({ family: getFontFamilyName(file.name), src: file.path, name: file.name, space: file.space }))
+        .filter((font) => {
+            if (seen.has(font.family)) return false;
+            seen.add(font.family);
+            return true;
+        });
+};
+
+const collectFontFamilies = (design: DesignJson) => {
+    const families = new Set<string>();
+    const add = (value: unknown) => {
+        if (typeof value === 'string' && value) families.add(value);
+    };
+    // Fabric saves character styles as ranges; files from older versions keep them per line
+    const addStyles = (styles: unknown) => {
+        if (Array.isArray(styles)) {
+            styles.forEach((range) => add(range?.style?.fontFamily));
+        } else if (styles && typeof styles === 'object') {
+            Object.values(styles).forEach((line) => {
+                if (!line || typeof line !== 'object') return;
+                Object.values(line as Record<string, { fontFamily?: unknown } | null>).forEach((style) => add(style?.fontFamily));
+            });
+        }
+    };
+    const walk = (obj: SerializedObject | undefined) => {
+        if (!obj || typeof obj !== 'object') return;
+        add(obj.fontFamily);
+        addStyles(obj.styles);
+        walk(obj.clipPath);
+        if (Array.isArray(obj.objects)) obj.objects.forEach(walk);
+    };
+    if (Array.isArray(design.objects)) design.objects.forEach(walk);
+    return families;
+};
+
+/** The uploaded fonts among those `design` uses, to be saved as its `fonts`. */
+export const findDesignFonts = (design: DesignJson): DesignFont[] =>
+    [...collectFontFamilies(design)].flatMap((family) => {
+        const font = registry.get(family);
+        return font ? [{ family, src: font.src }] : [];
+    });
+
+/** Register and wait for every font `design` lists; fonts that fail to load are skipped. */
+export const loadDesignFonts = async (design: DesignJson) => {
+    const fonts = Array.isArray(design.fonts) ? design.fonts : [];
+    await Promise.all(fonts
+        .filter((font) => font && typeof font.family === 'string' && typeof font.src === 'string')
+        .map(registerFont));
+};
+
+/** Measure the text set in `family` again, e.g. once its file has finished loading. */
+export const refreshFontUsers = (canvas: fabric.Canvas, family: string) => {
+    const visit = (objects: fabric.FabricObject[]) => objects.forEach((obj) => {
+        if (obj instanceof fabric.Group) visit(obj.getObjects());
+        if (!(obj instanceof fabric.FabricText)) return;
+        const usesFont = obj.fontFamily === family
+            || Object.values(obj.styles).some((line) => Object.values(line).some((style) => style.fontFamily === family));
+        if (!usesFont) return;
+        if (obj instanceof fabric.Textbox && getTextFit(obj)) {
+            fitTextBox(obj);
+            return;
+        }
+        obj.initDimensions();
+        obj.setCoords();
+        obj.set('dirty', true);
+    });
+    visit(canvas.getObjects());
+    canvas.requestRenderAll();
+};
@@ -0,0 +1,187 @@
+// src/lib/layout-constraints.ts
+import * as fabric from 'fabric';
+import { Artboard, ExtendedFabricObject, ResizeAnchor } from '@/types';
+import { getActiveArtboard, getArtboardObjects, getArtboards, updateArtboard } from '@/lib/artboards';
+
+/**
+ * Layout constraints say where an object goes when its page changes size, per axis:
+ * pinned to one edge or the centre (keeping that distance), pinned to both edges
+ * (stretching with the page) or scaled with the page. Objects without a constraint get one
+ * inferred from where they sit, and a group's constraint is passed down to children that
+ * have none of their own.
+ *
+ * Resizing a page in the editor keeps object sizes; magic resize also passes a content
+ * scale so designs shrink or grow with the new format.
+ */
+type Bounds = { left: number; top: number; width: number; height: number };
+
+export type RelayoutOptions = {
+    /** Applied to sizes and pinned distances; defaults to 1 */
+    contentScale?: number;
+};
+
+// Objects covering at least this share of the page in both directions are treated as backgrounds
+const BACKGROUND_COVERAGE = 0.9;
+
+const MIN_SIZE = 1;
+
+/** The constraint used when an object has none: backgrounds scale, everything else pins to the nearest third. */
+export const inferResizeAnchor = (bounds: Bounds, page: Bounds): ResizeAnchor => {
+    if (bounds.width >= page.width * BACKGROUND_COVERAGE && bounds.height >= page.height * BACKGROUND_COVERAGE) {
+        return { horizontal: 'scale', vertical: 'scale' };
+    }
+    const x = (bounds.left + bounds.width / 2 - page.left) / page.width;
+    const y = (bounds.top + bounds.height / 2 - page.top) / page.height;
+    return {
+        horizontal: x < 1 / 3 ? 'left' : x > 2 / 3 ? 'right' : 'center',
+        vertical: y < 1 / 3 ? 'top' : y > 2 / 3 ? 'bottom' : 'center',
+    };
+};
+
+// The nearest constraint set on the object or one of its groups; `parent` rather than `group`,
+// which is the multi-selection while the object is in one
+const findOwnOrInheritedAnchor = (obj: fabric.Object) => {
+    for (let current: fabric.Object | undefined = obj; current; current = current.parent) {
+        const anchor = (current as ExtendedFabricObject).resizeAnchor;
+        if (anchor) return { anchor, inherited: current !== obj };
+    }
+    return null;
+};
+
+const findPage = (canvas: fabric.Canvas, obj: fabric.Object) => {
+    const center = obj.getCenterPoint();
+    return getArtboards(canvas).find((artboard) =>
+        center.x >= artboard.left && center.x <= artboard.left + artboard.width
+        && center.y >= artboard.top && center.y <= artboard.top + artboard.height
+    ) ?? getActiveArtboard(canvas);
+};
+
+/** The constraint an object on the canvas follows and where it comes from, for the Properties panel. */
+export const describeResizeAnchor = (canvas: fabric.Canvas, obj: fabric.Object): { anchor: ResizeAnchor; source: 'own' | 'group' | 'auto' } => {
+    const found = findOwnOrInheritedAnchor(obj);
+    if (found) return { anchor: found.anchor, source: found.inherited ? 'group' : 'own' };
+    const page = findPage(canvas, obj);
+    return {
+        anchor: page ? inferResizeAnchor(obj.getBoundingRect(), page) : { horizontal: 'center', vertical: 'center' },
+        source: 'auto',
+    };
+};
+
+// Plain shapes may stretch; text, images, groups and paths would look distorted
+export const canStretch = (obj: fabric.Object) =>
+    obj instanceof fabric.Rect || obj instanceof fabric.Ellipse || obj instanceof fabric.Triangle || obj instanceof fabric.Line;
+
+// Groups are laid out child by child once any child has a constraint of its own; stacks place their children themselves
+const hasConstrainedChildren = (group: fabric.Group): boolean =>
+    !(group as ExtendedFabricObject).stackLayout && group.getObjects().some((child) =>
+        Boolean((child as ExtendedFabricObject).resizeAnchor) || (child instanceof fabric.Group && hasConstrainedChildren(child))
+    );
+
+type AxisRule = 'start' | 'end' | 'center' | 'stretch' | 'scale';
+
+const HORIZONTAL_RULES = { left: 'start', right: 'end', center: 'center', 'left-right': 'stretch', scale: 'scale' } as const;
+const VERTICAL_RULES = { top: 'start', bottom: 'end', center: 'center', 'top-bottom': 'stretch', scale: 'scale' } as const;
+
+type Axis = { from: { start: number; size: number }; to: { start: number; size: number }; contentScale: number };
+
+const targetSize = (rule: AxisRule, box: { start: number; size: number }, { from, to, contentScale }: Axis) => {
+    if (rule === 'scale') return box.size * (to.size / from.size);
+    if (rule === 'stretch') {
+        const gaps = (box.start - from.start) + (from.start + from.size - (box.start + box.size));
+        return Math.max(MIN_SIZE, to.size - gaps * contentScale);
+    }
+    return box.size * contentScale;
+};
+
+// Where the box's leading edge goes once its new size is known
+const targetStart = (rule: AxisRule, box: { start: number; size: number }, size: number, { from, to, contentScale }: Axis) => {
+    switch (rule) {
+        case 'start':
+        case 'stretch':
+            return to.start + (box.start - from.start) * contentScale;
+        case 'end':
+            return to.start + to.size - (from.start + from.size - (box.start + box.size)) * contentScale - size;
+        case 'center':
+            return to.start + to.size / 2 + (box.start + box.size / 2 - (from.start + from.size / 2)) * contentScale - size / 2;
+        case 'scale':
+            return to.start + (box.start + box.size / 2 - from.start) * (to.size / from.size) - size / 2;
+    }
+};
+
+/**
+ * Move and resize one object (top-level or inside a group) from page `from` to page `to`
+ * by its constraint. Positions are on the canvas, so the caller re-fits any parent group.
+ */
+export const relayoutObject = (obj: fabric.Object, from: Bounds, to: Bounds, options: RelayoutOptions = {}, inherited?: ResizeAnchor) => {
+    const contentScale = options.contentScale ?? 1;
+    const own = (obj as ExtendedFabricObject).resizeAnchor;
+    const bounds = obj.getBoundingRect();
+    const anchor = own ?? inherited ?? inferResizeAnchor(bounds, from);
+
+    if (obj instanceof fabric.Group && !(obj instanceof fabric.ActiveSelection) && hasConstrainedChildren(obj)) {
+        obj.getObjects().forEach((child) => relayoutObject(child, from, to, options, own ?? inherited));
+        obj.triggerLayout();
+        obj.setCoords();
+        // Fabric only refreshes nested coordinates for interactive groups
+        obj.forEachObject((child) => child.setCoords());
+        return;
+    }
+
+    const horizontal: Axis = { from: { start: from.left, size: from.width }, to: { start: to.left, size: to.width }, contentScale };
+    const vertical: Axis = { from: { start: from.top, size: from.height }, to: { start: to.top, size: to.height }, contentScale };
+    const xRule = HORIZONTAL_RULES[anchor.horizontal];
+    const yRule = VERTICAL_RULES[anchor.vertical];
+    const xBox = { start: bounds.left, size: bounds.width };
+    const yBox = { start: bounds.top, size: bounds.height };
+
+    // Flat objects such as horizontal lines have no size to scale on one axis
+    let fx = bounds.width > 0 ? targetSize(xRule, xBox, horizontal) / bounds.width : contentScale;
+    let fy = bounds.height > 0 ? targetSize(yRule, yBox, vertical) / bounds.height : contentScale;
+    const angle = obj.angle ?? 0;
+    const rightAngled = Math.abs((angle % 90 + 90) % 90) < 0.01;
+    // A quarter turn swaps which local axis lies along the page's width
+    const swapped = Math.round(angle / 90) % 2 !== 0;
+
+    if (obj instanceof fabric.Textbox && angle === 0 && (xRule === 'stretch' || xRule === 'scale')) {
+        // Text boxes get wider or narrower and re-wrap instead of being distorted
+        const scale = obj.scaleX * contentScale;
+        obj.set({ scaleX: scale, scaleY: obj.scaleY * contentScale, width: Math.max(MIN_SIZE, (bounds.width * fx) / scale) });
+        obj.initDimensions();
+    } else {
+        if (fx !== fy && (!canStretch(obj) || !rightAngled)) {
+            // Images fill the new area (the page crops them); everything else fits inside it
+            const uniform = obj instanceof fabric.FabricImage ? Math.max(fx, fy) : Math.min(fx, fy);
+            fx = uniform;
+            fy = uniform;
+        }
+        const [localX, localY] = swapped ? [fy, fx] : [fx, fy];
+        obj.set({ scaleX: obj.scaleX * localX, scaleY: obj.scaleY * localY });
+    }
+
+    obj.setCoords();
+    const resized = obj.getBoundingRect();
+    const left = targetStart(xRule, xBox, resized.width, horizontal);
+    const top = targetStart(yRule, yBox, resized.height, vertical);
+    obj.setXY(new fabric.Point(left + resized.width / 2, top + resized.height / 2), 'center', 'center');
+    obj.setCoords();
+};
+
+/** Lay out every object of a page from its old bounds into `to`. */
+export const relayoutObjects = (objects: fabric.Object[], from: Bounds, to: Bounds, options?: RelayoutOptions) => {
+    objects.forEach((obj) => relayoutObject(obj, from, to, options));
+};
+
+/**
+ * Resize a page on the editor canvas and re-lay out its contents by their constraints.
+ * Sizes are kept; only "scale" and stretching constraints change them.
+ */
+export const resizeArtboardWithContent = (canvas: fabric.Canvas, id: string, size: { width: number; height: number }) => {
+    const page = getArtboards(canvas).find((artboard) => artboard.id === id);
+    if (!page) return;
+    // Objects in a multi-selection are positioned relative to it until it is dropped
+    canvas.discardActiveObject();
+    const contents = getArtboardObjects(canvas, page);
+    const next: Artboard = { ...page, ...size };
+    relayoutObjects(contents, page, next);
+    updateArtboard(canvas, id, size);
+};
@@ -0,0 +1,73 @@
+// src/lib/magic-resize.ts
+import * as fabric from 'fabric';
+import { Artboard } from '@/types';
+import { ARTBOARD_GAP, CanvasWithArtboards, getArtboardObjects } from '@/lib/artboards';
+import type { DesignJson } from '@/lib/design-assets';
+import { listDesignPages } from '@/lib/design-preview';
+import { serializeDesign } from '@/lib/design-schema';
+import { relayoutObjects } from '@/lib/layout-constraints';
+
+/**
+ * Magic resize makes a copy of a design at another size. Every page takes the new size and
+ * its objects follow their layout constraints, with sizes and pinned distances scaled by how
+ * much the content shrinks or grows: the smaller of the two axis factors, so nothing is
+ * pushed off the page.
+ */
+export type ResizePreset = {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    category: string;
+};
+
+export const RESIZE_PRESETS: ResizePreset[] = [
+    { id: 'instagram-post', name: 'Instagram Post', width: 1080, height: 1080, category: 'Social Media' },
+    { id: 'instagram-story', name: 'Instagram Story', width: 1080, height: 1920, category: 'Social Media' },
+    { id: 'facebook-post', name: 'Facebook Post', width: 1200, height: 630, category: 'Social Media' },
+    { id: 'x-post', name: 'X Post', width: 1600, height: 900, category: 'Social Media' },
+    { id: 'linkedin-banner', name: 'LinkedIn Banner', width: 1584, height: 396, category: 'Social Media' },
+    { id: 'youtube-thumbnail', name: 'YouTube Thumbnail', width: 1280, height: 720, category: 'Video' },
+    { id: 'website-hero', name: 'Website Hero', width: 1920, height: 600, category: 'Web' },
+    { id: 'book-cover', name: 'Book Cover', width: 1600, height: 2560, category: 'Print' },
+    { id: 'a4-portrait', name: 'A4 Portrait', width: 2480, height: 3508, category: 'Print' },
+];
+
+/**
+ * A copy of `design` with every page at `size`, pages laid out left to right, plus a cover
+ * thumbnail. Runs on an offscreen canvas; the editor canvas is not touched.
+ */
+export const resizeDesign = async (design: DesignJson, size: { width: number; height: number }, thumbnailScale = 0.5) => {
+    const pages = listDesignPages(design);
+    const element = document.createElement('canvas');
+    const canvas = new fabric.StaticCanvas(element, { renderOnAddRemove: false, enableRetinaScaling: false });
+    try {
+        await canvas.loadFromJSON({ ...design, background: '' });
+
+        // Collected before anything moves so no page picks up another page's objects
+        const contents = pages.map((page) => getArtboardObjects(canvas, page));
+        let left = pages[0].left;
+        const resized: Artboard[] = pages.map((page, index) => {
+            const next = { ...page, left, top: pages[0].top, width: size.width, height: size.height };
+            relayoutObjects(contents[index], page, next, { contentScale: Math.min(next.width / page.width, next.height / page.height) });
+            left += size.width + ARTBOARD_GAP;
+            return next;
+        });
+        (canvas as CanvasWithArtboards).artboards = resized;
+
+        const result = serializeDesign(canvas);
+        const cover = resized[0];
+        canvas.backgroundColor = cover.background;
+        const thumbnail = canvas.toDataURL({
+            format: 'png',
+            multiplier: thumbnailScale,
+            left: cover.left,
+            top: cover.top,
+            width: cover.width,
+            height: cover.height,
+        });
+        return { design: result, thumbnail };
+    } finally {
+        canvas.dispose();
+    }
+};
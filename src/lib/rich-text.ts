@@ -0,0 +1,284 @@
+// src/lib/rich-text.ts
+import * as fabric from 'fabric';
+import type { SerializedObject } from '@/lib/design-assets';
+import type { ExtendedFabricObject, TextListType, TextScript, TextTransform } from '@/types';
+
+/**
+ * Character and paragraph formatting for editable text. Character styles go on the selected
+ * characters while a text is being edited and on the whole text otherwise; Fabric keeps them in
+ * `styles`, which designs save as they are. Lists are "• " and "1. " typed at the start of each
+ * line, so every export shows them. Text transforms change how the text is drawn, not what was
+ * typed: Fabric measures and draws the transformed characters, and exports that run stock Fabric
+ * get the transform baked into the text by bakeTextTransform.
+ */
+export type CharacterStyle = {
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+    fill: string;
+    /** Before any super or subscript shrinks it */
+    fontSize: number;
+    script: TextScript;
+};
+
+type TextStyle = fabric.TextStyleDeclaration;
+
+const BULLET = '• ';
+const BULLET_PATTERN = /^• /;
+const NUMBER_PATTERN = /^\d+\. /;
+
+const isBold = (fontWeight: string | number | undefined) => fontWeight === 'bold' || Number(fontWeight) >= 600;
+
+/** The characters formatting applies to: the selection while editing, otherwise the whole text. */
+export const getStyleRange = (text: fabric.IText) => {
+    if (text.isEditing && text.selectionStart !== text.selectionEnd) {
+        return { start: Math.min(text.selectionStart, text.selectionEnd), end: Math.max(text.selectionStart, text.selectionEnd), isSelection: true };
+    }
+    return { start: 0, end: text._text.length, isSelection: false };
+};
+
+const scriptOf = (style: TextStyle): TextScript => {
+    if (!style.deltaY) return 'none';
+    return style.deltaY < 0 ? 'superscript' : 'subscript';
+};
+
+// Super and subscript store the shrunk size; formatting works with the size the text was set in
+const baseFontSize = (text: fabric.IText, style: TextStyle) => {
+    const size = style.fontSize ?? text.fontSize;
+    const script = scriptOf(style);
+    if (script === 'none') return size;
+    return size / text[script].size;
+};
+
+// Undefined values drop the override, so characters back at the text's own size carry none
+const scriptStyle = (text: fabric.IText, size: number, script: TextScript): TextStyle => (script === 'none'
+    ? { fontSize: size === text.fontSize ? undefined : size, deltaY: undefined }
+    : { fontSize: size * text[script].size, deltaY: size * text[script].baseline });
+
+const completeStyles = (text: fabric.IText, start: number, end: number) =>
+    text.getSelectionStyles(start, end, true) as TextStyle[];
+
+/** How the characters `getStyleRange` picks are set; toggles count as on only if all of them are. */
+export const readCharacterStyle = (text: fabric.IText): CharacterStyle => {
+    const { start, end } = getStyleRange(text);
+    const styles = end > start ? completeStyles(text, start, end) : [];
+    const first = styles[0] ?? {};
+    const every = (test: (style: TextStyle) => boolean) => styles.length > 0 && styles.every(test);
+    const fill = first.fill ?? text.fill;
+    return {
+        bold: styles.length > 0 ? every((style) => isBold(style.fontWeight)) : isBold(text.fontWeight),
+        italic: styles.length > 0 ? every((style) => style.fontStyle === 'italic') : text.fontStyle === 'italic',
+        underline: styles.length > 0 ? every((style) => Boolean(style.underline)) : Boolean(text.underline),
+        fill: typeof fill === 'string' ? fill : '#000000',
+        fontSize: Math.round(baseFontSize(text, first)),
+        script: styles.length > 0 && every((style) => scriptOf(style) === scriptOf(first)) ? scriptOf(first) : 'none',
+    };
+};
+
+const refreshText = (text: fabric.IText) => {
+    text.initDimensions();
+    text.setCoords();
+    text.set('dirty', true);
+};
+
+/**
+ * Set bold, italic, underline, colour or size on the selection, or on the whole text when nothing
+ * is selected. Sizing keeps super and subscripts in proportion.
+ */
+export const applyCharacterStyle = (text: fabric.IText, change: Partial<Omit<CharacterStyle, 'script'>>) => {
+    const { start, end, isSelection } = getStyleRange(text);
+    const style: TextStyle = {};
+    if (change.bold !== undefined) style.fontWeight = change.bold ? 'bold' : 'normal';
+    if (change.italic !== undefined) style.fontStyle = change.italic ? 'italic' : 'normal';
+    if (change.underline !== undefined) style.underline = change.underline;
+    if (change.fill !== undefined) style.fill = change.fill;
+
+    if (isSelection) {
+        if (Object.keys(style).length > 0) text.setSelectionStyles(style, start, end);
+        if (change.fontSize !== undefined) {
+            const size = change.fontSize;
+            completeStyles(text, start, end).forEach((charStyle, offset) => {
+                text.setSelectionStyles(scriptStyle(text, size, scriptOf(charStyle)), start + offset, start + offset + 1);
+            });
+        }
+    } else {
+        (Object.keys(style) as (keyof TextStyle)[]).forEach((key) => text.removeStyle(key));
+        text.set(style);
+        if (change.fontSize !== undefined && text.fontSize > 0) {
+            // Characters sized on their own keep their size relative to the rest
+            const ratio = change.fontSize / text.fontSize;
+            Object.values(text.styles).forEach((line) => Object.values(line).forEach((charStyle) => {
+                if (charStyle.fontSize !== undefined) charStyle.fontSize *= ratio;
+                if (charStyle.deltaY !== undefined) charStyle.deltaY *= ratio;
+            }));
+            text.set('fontSize', change.fontSize);
+        }
+    }
+    refreshText(text);
+};
+
+/** Make the characters super or subscript, or set them back on the line at their own size. */
+export const setTextScript = (text: fabric.IText, script: TextScript) => {
+    const { start, end } = getStyleRange(text);
+    completeStyles(text, start, end).forEach((charStyle, offset) => {
+        text.setSelectionStyles(scriptStyle(text, baseFontSize(text, charStyle), script), start + offset, start + offset + 1);
+    });
+    refreshText(text);
+};
+
+const listTypeOf = (line: string): TextListType | null => {
+    if (BULLET_PATTERN.test(line)) return 'bullet';
+    if (NUMBER_PATTERN.test(line)) return 'number';
+    return null;
+};
+
+const listPrefixLength = (line: string) => line.match(BULLET_PATTERN)?.[0].length ?? line.match(NUMBER_PATTERN)?.[0].length ?? 0;
+
+// Lines as typed, before a text box wraps them, with the index of their first character
+const getParagraphs = (text: fabric.IText) => {
+    let start = 0;
+    return text._unwrappedTextLines.map((graphemes, index) => {
+        const paragraph = { index, start, length: graphemes.length, text: graphemes.join('') };
+        start += graphemes.length + 1;
+        return paragraph;
+    });
+};
+
+// The lines a list change applies to: those the selection or cursor touches, or all of them
+const getListParagraphs = (text: fabric.IText) => {
+    const paragraphs = getParagraphs(text);
+    if (!text.isEditing) return paragraphs;
+    const start = Math.min(text.selectionStart, text.selectionEnd);
+    const end = Math.max(text.selectionStart, text.selectionEnd);
+    // A selection ending where a line starts leaves that line out; a cursor there takes it in
+    return paragraphs.filter((paragraph) => paragraph.start < Math.max(end, start + 1) && paragraph.start + paragraph.length >= start);
+};
+
+/** The list type every non-empty line a list change would touch already has, if they share one. */
+export const readListType = (text: fabric.IText): TextListType | null => {
+    const lines = getListParagraphs(text).filter((paragraph) => paragraph.length > 0);
+    const type = lines.length > 0 ? listTypeOf(lines[0].text) : null;
+    return type && lines.every((paragraph) => listTypeOf(paragraph.text) === type) ? type : null;
+};
+
+/**
+ * Turn the lines into a bulleted or numbered list, or back into plain lines when they already
+ * are one of that type. Empty lines are left out and numbering counts only the listed lines.
+ */
+export const toggleList = (text: fabric.IText, type: TextListType) => {
+    const paragraphs = getListParagraphs(text);
+    const lines = paragraphs.filter((paragraph) => paragraph.length > 0);
+    if (lines.length === 0) return;
+    const removing = readListType(text) === type;
+
+    // From the last line up, so the lines still to change keep their position
+    [...lines].reverse().forEach((paragraph, reverseIndex) => {
+        const prefixLength = listPrefixLength(paragraph.text);
+        if (prefixLength > 0) text.removeChars(paragraph.start, paragraph.start + prefixLength);
+        if (removing) return;
+        const prefix = type === 'bullet' ? BULLET : `${lines.length - reverseIndex}. `;
+        text.insertChars(prefix, undefined, paragraph.start);
+    });
+
+    if (text.isEditing) {
+        // Keep the changed lines selected; lists add no line breaks, so the lines keep their index
+        const updated = getParagraphs(text);
+        const first = updated[paragraphs[0].index];
+        const last = updated[paragraphs[paragraphs.length - 1].index];
+        text.selectionStart = first.start;
+        text.selectionEnd = last.start + last.length;
+        if (text.hiddenTextarea) text.hiddenTextarea.value = text.text;
+        text._updateTextarea();
+    }
+    refreshText(text);
+};
+
+// Letters whose capital is a single character, so the text keeps its length and its styles line up
+const toUpperGrapheme = (grapheme: string) => {
+    const upper = grapheme.toUpperCase();
+    return upper.length === grapheme.length ? upper : grapheme;
+};
+
+const toUpperText = (value: string) => Array.from(value, toUpperGrapheme).join('');
+
+const transformOf = (text: fabric.FabricText) => (text as ExtendedFabricObject).textTransform ?? 'none';
+
+const SMALL_CAPS = 'small-caps';
+
+const withSmallCaps = (fontStyle: string | undefined) => {
+    const style = fontStyle || 'normal';
+    return style.includes(SMALL_CAPS) ? style : `${style} ${SMALL_CAPS}`;
+};
+
+/** Set the text transform; the text is measured again because capitals are wider. */
+export const setTextTransform = (text: fabric.FabricText, transform: TextTransform) => {
+    (text as ExtendedFabricObject).set({ textTransform: transform === 'none' ? undefined : transform });
+    refreshText(text as fabric.IText);
+};
+
+/**
+ * Make the transform part of a saved text so stock Fabric draws it the same: capitals are
+ * typed out and small capitals become part of every font style.
+ */
+export const bakeTextTransform = (obj: SerializedObject) => {
+    const transform = obj.textTransform as TextTransform | undefined;
+    if (!transform || transform === 'none') return;
+    delete obj.textTransform;
+    if (typeof obj.text !== 'string') return;
+    if (transform === 'uppercase') {
+        obj.text = toUpperText(obj.text);
+        return;
+    }
+    obj.fontStyle = withSmallCaps(obj.fontStyle as string | undefined);
+    if (Array.isArray(obj.styles)) {
+        (obj.styles as { style?: TextStyle }[]).forEach((range) => {
+            if (range?.style?.fontStyle) range.style.fontStyle = withSmallCaps(range.style.fontStyle) as TextStyle['fontStyle'];
+        });
+    }
+};
+
+// Fabric measures, draws and exports text a few characters at a time through these, so
+// transforming the characters here covers wrapping, cursor placement, rendering and SVG alike
+const patchTextRendering = () => {
+    const proto = fabric.FabricText.prototype as fabric.FabricText & { richTextPatched?: boolean };
+    if (proto.richTextPatched) return;
+    proto.richTextPatched = true;
+
+    const { _measureChar, _renderChar, _getFontDeclaration } = proto;
+    // Private in Fabric's types; writes each run of characters into the SVG export
+    const svgProto = proto as unknown as { _createTextCharSpan: (this: fabric.FabricText, char: string, ...rest: unknown[]) => string };
+    const { _createTextCharSpan } = svgProto;
+
+    proto._measureChar = function (this: fabric.FabricText, char, charStyle, previousChar, prevCharStyle) {
+        const transform = transformOf(this);
+        if (transform === 'uppercase') {
+            return _measureChar.call(this, toUpperText(char), charStyle, previousChar && toUpperText(previousChar), prevCharStyle);
+        }
+        if (transform === SMALL_CAPS) {
+            // Fabric caches widths per font style; small capitals need their own entry
+            const smallCaps = { ...charStyle, fontStyle: withSmallCaps(charStyle.fontStyle) } as typeof charStyle;
+            const previous = previousChar ? { ...prevCharStyle, fontStyle: withSmallCaps(prevCharStyle.fontStyle) } as typeof prevCharStyle : prevCharStyle;
+            return _measureChar.call(this, char, smallCaps, previousChar, previous);
+        }
+        return _measureChar.call(this, char, charStyle, previousChar, prevCharStyle);
+    };
+
+    proto._renderChar = function (this: fabric.FabricText, method, ctx, lineIndex, charIndex, char, left, top) {
+        const drawn = transformOf(this) === 'uppercase' ? toUpperText(char) : char;
+        _renderChar.call(this, method, ctx, lineIndex, charIndex, drawn, left, top);
+    };
+
+    proto._getFontDeclaration = function (this: fabric.FabricText, style = {}, forMeasuring) {
+        if (transformOf(this) !== SMALL_CAPS) return _getFontDeclaration.call(this, style, forMeasuring);
+        const fontStyle = withSmallCaps(style.fontStyle ?? this.fontStyle) as TextStyle['fontStyle'];
+        return _getFontDeclaration.call(this, { ...style, fontStyle }, forMeasuring);
+    };
+
+    svgProto._createTextCharSpan = function (this: fabric.FabricText, char, ...rest) {
+        const transform = transformOf(this);
+        const span = _createTextCharSpan.call(this, transform === 'uppercase' ? toUpperText(char) : char, ...rest);
+        return transform === SMALL_CAPS ? span.replace('<tspan ', '<tspan font-variant="small-caps" ') : span;
+    };
+};
+
+patchTextRendering();
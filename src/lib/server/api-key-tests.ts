@@ -0,0 +1,40 @@
+// src/lib/server/api-key-tests.ts
+import type { ApiKeyProvider } from '@/types';
+
+export type ApiKeyTestResult = {
+    /** null when the provider offers no cheap endpoint to check a key against */
+    valid: boolean | null;
+    message: string;
+};
+
+type ProbeRequest = { url: string; headers?: Record<string, string> };
+
+// Read-only endpoints that cost no credits and fail with 401/403 on a bad key
+const PROBES: Partial<Record<ApiKeyProvider, (key: string) => ProbeRequest>> = {
+    stability: (key) => ({ url: 'https://api.stability.ai/v1/user/account', headers: { Authorization: `Bearer ${key}` } }),
+    openai: (key) => ({ url: 'https://api.openai.com/v1/models', headers: { Authorization: `Bearer ${key}` } }),
+    google: (key) => ({ url: `https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(key)}` }),
+    meshy: (key) => ({ url: 'https://api.meshy.ai/openapi/v1/balance', headers: { Authorization: `Bearer ${key}` } }),
+    tripo: (key) => ({ url: 'https://api.tripo3d.ai/v2/openapi/user/balance', headers: { Authorization: `Bearer ${key}` } }),
+};
+
+export const testApiKey = async (provider: ApiKeyProvider, key: string): Promise<ApiKeyTestResult> => {
+    const probe = PROBES[provider];
+    if (!probe) return { valid: null, message: 'This provider cannot be tested; the key is used as-is' };
+
+    const { url, headers } = probe(key);
+    let response: Response;
+    try {
+        response = await fetch(url, { headers, signal: AbortSignal.timeout(10000) });
+    } catch (error) {
+        console.error(`Key test for ${provider} failed:`, error);
+        return { valid: null, message: 'Could not reach the provider; try again later' };
+    }
+
+    if (response.ok) return { valid: true, message: 'Key accepted' };
+    // Google reports an unknown key as 400 INVALID_ARGUMENT
+    if (response.status === 401 || response.status === 403 || (provider === 'google' && response.status === 400)) {
+        return { valid: false, message: 'The provider rejected this key' };
+    }
+    return { valid: null, message: `Provider returned status ${response.status}` };
+};
@@ -0,0 +1,121 @@
+// src/lib/server/brand-kit.ts
+import path from 'path';
+import type { AuthUser, BrandColor, BrandKit, BrandLogo, BrandPalette, BrandTextStyle, WorkspaceSpace } from '@/types';
+import { readJsonFile, writeJsonFile } from './json-store';
+import { isTeamSpaceEnabled, type Workspace } from './workspaces';
+
+/**
+ * One brand kit per space, kept in `<workspace>/brand-kit.json`. The editor uses the team's kit
+ * when the team space is enabled and the user's own otherwise. Logos are ordinary assets of the
+ * same space; the kit only keeps their URLs.
+ */
+const EMPTY_BRAND_KIT: BrandKit = { palettes: [], fonts: [], logos: [], textStyles: [] };
+
+const MAX_NAME_LENGTH = 60;
+const MAX_PALETTES = 20;
+const MAX_COLORS_PER_PALETTE = 48;
+const MAX_FONTS = 50;
+const MAX_LOGOS = 50;
+const MAX_TEXT_STYLES = 30;
+const MAX_FONT_SIZE = 2000;
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const ID_PATTERN = /^[a-z0-9-]{1,64}$/i;
+
+/** The space whose kit the editor shows: the team's when it exists. */
+export const getBrandSpace = (): WorkspaceSpace => (isTeamSpaceEnabled() ? 'team' : 'personal');
+
+/** Everyone sees the kit; the team's is changed by admins only. */
+export const canEditBrandKit = (user: AuthUser, workspace: Workspace) => workspace.space === 'personal' || user.role === 'admin';
+
+const kitPath = (workspace: Workspace) => path.join(workspace.root, 'brand-kit.json');
+
+const toName = (value: unknown, fallback: string) =>
+    (typeof value === 'string' ? value.trim().slice(0, MAX_NAME_LENGTH) : '') || fallback;
+
+const toId = (value: unknown) =>
+    typeof value === 'string' && ID_PATTERN.test(value) ? value : `brand-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toHex = (value: unknown) => {
+    const match = typeof value === 'string' ? value.trim().match(HEX_PATTERN) : null;
+    if (!match) return null;
+    const digits = match[1].length === 3 ? match[1].replace(/./g, (digit) => digit + digit) : match[1];
+    return `#${digits.toLowerCase()}`;
+};
+
+const toNumber = (value: unknown, min: number, max: number) => {
+    const number = Number(value);
+    return value !== undefined && value !== null && value !== '' && Number.isFinite(number)
+        ? Math.min(max, Math.max(min, number))
+        : undefined;
+};
+
+const asArray = (value: unknown, max: number) => (Array.isArray(value) ? value.slice(0, max) : []);
+
+const normalizePalette = (value: unknown, index: number): BrandPalette | null => {
+    if (!value || typeof value !== 'object') return null;
+    const palette = value as Partial<BrandPalette>;
+    const colors = asArray(palette.colors, MAX_COLORS_PER_PALETTE)
+        .map((color: Partial<BrandColor>): BrandColor | null => {
+            const hex = toHex(color?.value);
+            return hex ? { name: toName(color.name, hex), value: hex } : null;
+        })
+        .filter((color): color is BrandColor => color !== null);
+    return { id: toId(palette.id), name: toName(palette.name, `Palette ${index + 1}`), colors };
+};
+
+const normalizeTextStyle = (value: unknown, index: number): BrandTextStyle | null => {
+    if (!value || typeof value !== 'object') return null;
+    const style = value as Partial<BrandTextStyle>;
+    const fontFamily = toName(style.fontFamily, '');
+    if (!fontFamily) return null;
+    return {
+        id: toId(style.id),
+        name: toName(style.name, `Text style ${index + 1}`),
+        fontFamily,
+        fontWeight: toName(style.fontWeight, 'normal'),
+        fontSize: toNumber(style.fontSize, 1, MAX_FONT_SIZE) ?? 16,
+        fill: toHex(style.fill) ?? undefined,
+        lineHeight: toNumber(style.lineHeight, 0.5, 5),
+        charSpacing: toNumber(style.charSpacing, -500, 2000),
+    };
+};
+
+/**
+ * Clean up a kit sent by the client. `isOwnAsset` decides which logo URLs are kept, so a kit
+ * only points at files of its own space.
+ */
+export const normalizeBrandKit = (value: unknown, isOwnAsset: (src: string) => boolean): BrandKit => {
+    const kit = (value && typeof value === 'object' ? value : {}) as Partial<BrandKit>;
+    const fonts = asArray(kit.fonts, MAX_FONTS)
+        .map((font) => toName(font, ''))
+        .filter((font, index, list) => font && list.indexOf(font) === index);
+    const logos = asArray(kit.logos, MAX_LOGOS)
+        .map((logo: Partial<BrandLogo>): BrandLogo | null =>
+            typeof logo?.src === 'string' && isOwnAsset(logo.src)
+                ? { id: toId(logo.id), name: toName(logo.name, 'Logo'), src: logo.src }
+                : null)
+        .filter((logo): logo is BrandLogo => logo !== null);
+    return {
+        palettes: asArray(kit.palettes, MAX_PALETTES)
+            .map(normalizePalette)
+            .filter((palette): palette is BrandPalette => palette !== null),
+        fonts,
+        logos,
+        textStyles: asArray(kit.textStyles, MAX_TEXT_STYLES)
+            .map(normalizeTextStyle)
+            .filter((style): style is BrandTextStyle => style !== null),
+    };
+};
+
+export const getBrandKit = async (workspace: Workspace): Promise<BrandKit> => {
+    const stored = await readJsonFile<Partial<BrandKit>>(kitPath(workspace), {});
+    return { ...EMPTY_BRAND_KIT, ...stored };
+};
+
+/** Replace the kit; the caller has normalized it. */
+export const saveBrandKit = async (workspace: Workspace, kit: BrandKit) => {
+    const saved: BrandKit = { ...kit, updatedAt: Date.now() };
+    await writeJsonFile(kitPath(workspace), saved);
+    return saved;
+};
@@ -0,0 +1,119 @@
+// src/lib/server/components.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AuthUser, ComponentSummary } from '@/types';
+import { readJsonFile, updateJsonFile } from './json-store';
+import { createDesignId, getDesignMeta } from './design-meta';
+import { resolveWorkspaceFile, workspaceUrl, type Workspace } from './workspaces';
+
+/**
+ * The component library of a space, one record per component next to its thumbnail:
+ *
+ *     <workspace>/components/<id>.json
+ *     <workspace>/components/<id>.png
+ *
+ * A record holds the master group as Fabric JSON. Publishing the master again keeps the id and
+ * bumps the version, which is how instances in other designs know they are out of date.
+ */
+type Author = Pick<AuthUser, 'id' | 'username'>;
+
+export type ComponentRecord = {
+    id: string;
+    name: string;
+    version: number;
+    createdAt: number;
+    updatedAt: number;
+    author: Author;
+    /** Id of the saved design in the same space that holds the master */
+    masterDesignId?: string;
+    /** The master group, serialized with the design's custom properties */
+    object: Record<string, unknown>;
+};
+
+export const MAX_COMPONENT_NAME_LENGTH = 120;
+
+export class ComponentError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'ComponentError';
+        this.status = status;
+    }
+}
+
+const recordPath = (workspace: Workspace, id: string) => resolveWorkspaceFile(workspace, 'components', `${id}.json`);
+
+export const normalizeComponentName = (value: unknown) =>
+    typeof value === 'string' ? value.trim().slice(0, MAX_COMPONENT_NAME_LENGTH) : '';
+
+export const toComponentSummary = async (workspace: Workspace, record: ComponentRecord, user: Author): Promise<ComponentSummary> => {
+    const design = record.masterDesignId ? await getDesignMeta(workspace, record.masterDesignId, user) : null;
+    return {
+        id: record.id,
+        name: record.name,
+        space: workspace.space,
+        version: record.version,
+        updatedAt: record.updatedAt,
+        author: record.author,
+        masterDesign: design
+            ? { id: design.id, name: design.name, data: workspaceUrl(workspace, 'designs', `${design.id}.json`) }
+            : undefined,
+        data: workspaceUrl(workspace, 'components', `${record.id}.json`),
+        image: workspaceUrl(workspace, 'components', `${record.id}.png`),
+    };
+};
+
+/** Every component in the workspace, most recently published first. */
+export const listComponents = async (workspace: Workspace) => {
+    let files: string[];
+    try {
+        files = await fs.readdir(path.join(workspace.root, 'components'));
+    } catch {
+        return [];
+    }
+    const records = await Promise.all(files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => readJsonFile<ComponentRecord | null>(path.join(workspace.root, 'components', file), null).catch(() => null)));
+    return records
+        .filter((record): record is ComponentRecord => Boolean(record?.id && record.object))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+type ComponentWrite = {
+    author: Author;
+    name: string;
+    object: Record<string, unknown>;
+    thumbnail: Buffer;
+    masterDesignId?: string;
+};
+
+/**
+ * Add a component, or publish a new version of the one with `id`. Throws a ComponentError
+ * if `id` names no component in this workspace.
+ */
+export const publishComponent = async (workspace: Workspace, id: string | undefined, write: ComponentWrite) => {
+    const componentId = id ?? createDesignId(write.name);
+    const file = recordPath(workspace, componentId);
+    if (!file) throw new ComponentError('Invalid component id');
+    if (id && !(await fs.access(file).then(() => true, () => false))) {
+        throw new ComponentError('Component not found', 404);
+    }
+
+    const now = Date.now();
+    const record = await updateJsonFile<Partial<ComponentRecord>, ComponentRecord>(file, {}, (existing) => {
+        const next: ComponentRecord = {
+            id: componentId,
+            name: write.name,
+            version: (existing.version ?? 0) + 1,
+            createdAt: existing.createdAt ?? now,
+            updatedAt: now,
+            author: { id: write.author.id, username: write.author.username },
+            masterDesignId: write.masterDesignId ?? existing.masterDesignId,
+            object: write.object,
+        };
+        return Object.assign(existing, next);
+    });
+    await fs.writeFile(path.join(path.dirname(file), `${componentId}.png`), write.thumbnail);
+    return record;
+};
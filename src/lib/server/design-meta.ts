@@ -0,0 +1,342 @@
+// src/lib/server/design-meta.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AuthUser, DesignMeta, DesignSummary } from '@/types';
+import { readJsonFile, updateJsonFile } from './json-store';
+import { resolveWorkspaceFile, workspaceUrl, type Workspace } from './workspaces';
+
+/**
+ * Names, owners, sizes, tags and folders of a workspace's designs, keyed by design id:
+ *
+ *     <workspace>/design-index.json
+ *
+ * The canvas JSON and thumbnail stay in `designs/`. Designs saved before the index existed
+ * are added to it the first time they are listed or looked up. Folders are plain paths on the
+ * records; empty folders are kept in a separate list.
+ */
+const INDEX_FILE = 'design-index.json';
+
+export const MAX_DESIGN_NAME_LENGTH = 120;
+export const MAX_DESCRIPTION_LENGTH = 500;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 32;
+
+/** Index entries also carry fields that stay on the server. */
+export type IndexedDesign = DesignMeta & {
+    /** Text found on the canvas, for search */
+    textContent?: string;
+    /** Users who pinned the design as a favourite */
+    pinnedBy?: string[];
+};
+
+type DesignIndex = {
+    designs: Record<string, IndexedDesign>;
+    /** Folders created explicitly, so they exist before anything is moved into them */
+    folders?: string[];
+};
+
+type Author = Pick<AuthUser, 'id' | 'username'>;
+
+const UNKNOWN_OWNER: Author = { id: 'unknown', username: 'Unknown' };
+
+// Pages default to the editor's 1080px square, as for designs saved before pages existed
+const DEFAULT_PAGE_SIZE = 1080;
+const MAX_TEXT_CONTENT_LENGTH = 10000;
+
+const indexPath = (workspace: Workspace) => path.join(workspace.root, INDEX_FILE);
+
+const emptyIndex = (): DesignIndex => ({ designs: {} });
+
+/** New ids keep the old "name-timestamp" shape so they stay readable on disk. */
+export const createDesignId = (name: string) => `${name.trim().replace(/[^a-z0-9]/gi, '-').toLowerCase()}-${Date.now()}`;
+
+// What the list route used to show: the file name without its timestamp
+const nameFromId = (id: string) => {
+    const parts = id.split('-');
+    if (parts.length > 1 && /^\d+$/.test(parts[parts.length - 1])) parts.pop();
+    return parts.join(' ') || id;
+};
+
+export const normalizeDesignName = (value: unknown) => {
+    if (typeof value !== 'string') return null;
+    const name = value.trim().slice(0, MAX_DESIGN_NAME_LENGTH);
+    return name || null;
+};
+
+/** Trimmed, de-duplicated (case-insensitively) tags, or null if `value` is not a list of strings. */
+export const normalizeTags = (value: unknown) => {
+    if (!Array.isArray(value) || !value.every((tag) => typeof tag === 'string')) return null;
+    const seen = new Set<string>();
+    const tags: string[] = [];
+    for (const raw of value as string[]) {
+        const tag = raw.trim().slice(0, MAX_TAG_LENGTH);
+        if (!tag || seen.has(tag.toLowerCase())) continue;
+        seen.add(tag.toLowerCase());
+        tags.push(tag);
+    }
+    return tags.slice(0, MAX_TAGS);
+};
+
+/** "a / b/c" → "a/b/c"; null if a segment could escape the folder tree. */
+export const normalizeFolder = (value: unknown) => {
+    if (value === undefined || value === null) return '';
+    if (typeof value !== 'string') return null;
+    const segments = value.split('/').map((segment) => segment.trim()).filter(Boolean);
+    if (segments.some((segment) => segment === '.' || segment === '..' || segment.length > MAX_DESIGN_NAME_LENGTH)) return null;
+    return segments.join('/');
+};
+
+/** Size of the first page and the number of pages in a saved canvas. */
+export const readDesignDimensions = (canvasJson: string): Pick<DesignMeta, 'width' | 'height' | 'pageCount'> => {
+    try {
+        const data = JSON.parse(canvasJson) as { artboards?: Array<{ width?: number; height?: number }> };
+        const pages = Array.isArray(data.artboards) ? data.artboards : [];
+        const first = pages[0];
+        return {
+            width: Math.round(first?.width ?? DEFAULT_PAGE_SIZE),
+            height: Math.round(first?.height ?? DEFAULT_PAGE_SIZE),
+            pageCount: Math.max(1, pages.length),
+        };
+    } catch {
+        return {};
+    }
+};
+
+type SerializedNode = { text?: unknown; objects?: SerializedNode[] };
+
+/** All text on the canvas (text boxes, also inside groups), joined for searching. */
+export const extractDesignText = (canvasJson: string) => {
+    const parts: string[] = [];
+    const visit = (nodes: SerializedNode[] | undefined) => {
+        for (const node of nodes ?? []) {
+            if (typeof node.text === 'string' && node.text.trim()) parts.push(node.text.trim());
+            if (Array.isArray(node.objects)) visit(node.objects);
+        }
+    };
+    try {
+        visit((JSON.parse(canvasJson) as SerializedNode).objects);
+    } catch {
+        return '';
+    }
+    return parts.join('\n').slice(0, MAX_TEXT_CONTENT_LENGTH);
+};
+
+const describeCanvas = (canvasJson: string) => ({
+    ...readDesignDimensions(canvasJson),
+    textContent: extractDesignText(canvasJson),
+});
+
+/** The record as the given user sees it: server-only fields removed, `pinned` for them. */
+export const toDesignSummary = (workspace: Workspace, meta: IndexedDesign, userId: string): DesignSummary => {
+    const { pinnedBy, ...rest } = meta;
+    delete rest.textContent;
+    return {
+        ...rest,
+        space: workspace.space,
+        data: workspaceUrl(workspace, 'designs', `${meta.id}.json`),
+        image: workspaceUrl(workspace, 'designs', `${meta.id}.png`),
+        lastModified: meta.updatedAt,
+        pinned: Boolean(pinnedBy?.includes(userId)),
+    };
+};
+
+// Metadata for a design the index does not know yet, or null if there is no such design
+const describeUnindexedDesign = async (workspace: Workspace, id: string, fallbackOwner: Author): Promise<IndexedDesign | null> => {
+    const jsonPath = resolveWorkspaceFile(workspace, 'designs', `${id}.json`);
+    if (!jsonPath) return null;
+    try {
+        const [stats, canvasJson] = await Promise.all([fs.stat(jsonPath), fs.readFile(jsonPath, 'utf8')]);
+        return {
+            id,
+            name: nameFromId(id),
+            createdAt: Math.round(stats.birthtimeMs || stats.mtimeMs),
+            updatedAt: Math.round(stats.mtimeMs),
+            owner: workspace.space === 'personal' ? fallbackOwner : UNKNOWN_OWNER,
+            ...describeCanvas(canvasJson),
+            tags: [],
+            folder: '',
+        };
+    } catch {
+        return null;
+    }
+};
+
+const addToIndex = async (workspace: Workspace, metas: IndexedDesign[]) => {
+    if (metas.length === 0) return;
+    await updateJsonFile<DesignIndex, void>(indexPath(workspace), emptyIndex(), (index) => {
+        for (const meta of metas) {
+            if (!index.designs[meta.id]) index.designs[meta.id] = meta;
+        }
+    });
+};
+
+// Records indexed before text search existed get their text once
+const addMissingText = async (workspace: Workspace, metas: IndexedDesign[]) => {
+    const texts = new Map<string, string>();
+    await Promise.all(metas.map(async (meta) => {
+        const jsonPath = resolveWorkspaceFile(workspace, 'designs', `${meta.id}.json`);
+        const canvasJson = jsonPath ? await fs.readFile(jsonPath, 'utf8').catch(() => null) : null;
+        const text = canvasJson === null ? '' : extractDesignText(canvasJson);
+        texts.set(meta.id, text);
+        meta.textContent = text;
+    }));
+    if (texts.size === 0) return;
+    await updateJsonFile<DesignIndex, void>(indexPath(workspace), emptyIndex(), (index) => {
+        texts.forEach((text, id) => {
+            if (index.designs[id] && index.designs[id].textContent === undefined) index.designs[id].textContent = text;
+        });
+    });
+};
+
+/** Every design in the workspace, indexing any that are missing. `user` owns unindexed personal designs. */
+export const listDesignMeta = async (workspace: Workspace, user: Author) => {
+    let files: string[];
+    try {
+        files = await fs.readdir(path.join(workspace.root, 'designs'));
+    } catch {
+        return [];
+    }
+    const ids = files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -'.json'.length));
+
+    const index = await readJsonFile<DesignIndex>(indexPath(workspace), emptyIndex());
+    const unindexed = (await Promise.all(
+        ids.filter((id) => !index.designs[id]).map((id) => describeUnindexedDesign(workspace, id, user))
+    )).filter((meta): meta is IndexedDesign => meta !== null);
+    await addToIndex(workspace, unindexed);
+    await addMissingText(workspace, ids.map((id) => index.designs[id]).filter((meta) => meta && meta.textContent === undefined));
+
+    const known = new Map(unindexed.map((meta) => [meta.id, meta]));
+    return ids
+        .map((id) => index.designs[id] ?? known.get(id))
+        .filter((meta): meta is IndexedDesign => Boolean(meta));
+};
+
+/** Every folder path in the workspace, parents included, sorted. */
+export const listDesignFolders = async (workspace: Workspace, designs: DesignMeta[]) => {
+    const index = await readJsonFile<DesignIndex>(indexPath(workspace), emptyIndex());
+    const folders = new Set<string>();
+    for (const folder of [...(index.folders ?? []), ...designs.map((design) => design.folder)]) {
+        const segments = folder.split('/').filter(Boolean);
+        segments.forEach((_, i) => folders.add(segments.slice(0, i + 1).join('/')));
+    }
+    return [...folders].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true }));
+};
+
+/** Metadata of one design, or null if the design does not exist. */
+export const getDesignMeta = async (workspace: Workspace, id: string, user: Author) => {
+    const jsonPath = resolveWorkspaceFile(workspace, 'designs', `${id}.json`);
+    if (!jsonPath) return null;
+    const index = await readJsonFile<DesignIndex>(indexPath(workspace), emptyIndex());
+    if (index.designs[id]) {
+        const exists = await fs.access(jsonPath).then(() => true, () => false);
+        return exists ? index.designs[id] : null;
+    }
+    const meta = await describeUnindexedDesign(workspace, id, user);
+    if (meta) await addToIndex(workspace, [meta]);
+    return meta;
+};
+
+type DesignWrite = {
+    author: Author;
+    /** Required when the design is new */
+    name?: string;
+    canvasJson?: string;
+    /** Fields a new design copies from the one it was made from */
+    inherit?: Partial<Pick<DesignMeta, 'description' | 'tags' | 'folder' | 'resizedFrom'>>;
+};
+
+/** Record that a design's content was written (saved, restored, forked or duplicated). */
+export const recordDesignWrite = (workspace: Workspace, id: string, write: DesignWrite) =>
+    updateJsonFile<DesignIndex, IndexedDesign>(indexPath(workspace), emptyIndex(), (index) => {
+        const now = Date.now();
+        const existing = index.designs[id];
+        const content = write.canvasJson ? describeCanvas(write.canvasJson) : {};
+        const meta: IndexedDesign = existing
+            ? { ...existing, ...content, updatedAt: now }
+            : {
+                id,
+                name: write.name ?? nameFromId(id),
+                createdAt: now,
+                updatedAt: now,
+                owner: { id: write.author.id, username: write.author.username },
+                ...content,
+                tags: [],
+                folder: '',
+                ...write.inherit,
+            };
+        if (write.name) meta.name = write.name;
+        index.designs[id] = meta;
+        return meta;
+    });
+
+type DesignMetaPatch = Partial<Pick<DesignMeta, 'name' | 'description' | 'tags' | 'folder'>>;
+
+/** Change the user-editable fields (not counted as a modification). Returns null if the design does not exist. */
+export const updateDesignMeta = async (workspace: Workspace, id: string, user: Author, patch: DesignMetaPatch) => {
+    if (!(await getDesignMeta(workspace, id, user))) return null;
+    return updateJsonFile<DesignIndex, IndexedDesign | null>(indexPath(workspace), emptyIndex(), (index) => {
+        const meta = index.designs[id];
+        if (!meta) return null;
+        if (patch.name !== undefined) meta.name = patch.name;
+        if (patch.description !== undefined) {
+            if (patch.description) meta.description = patch.description;
+            else delete meta.description;
+        }
+        if (patch.tags !== undefined) meta.tags = patch.tags;
+        if (patch.folder !== undefined) meta.folder = patch.folder;
+        return meta;
+    });
+};
+
+/** Pin or unpin a design for one user. Returns null if the design does not exist. */
+export const setDesignPinned = async (workspace: Workspace, id: string, user: Author, pinned: boolean) => {
+    if (!(await getDesignMeta(workspace, id, user))) return null;
+    return updateJsonFile<DesignIndex, IndexedDesign | null>(indexPath(workspace), emptyIndex(), (index) => {
+        const meta = index.designs[id];
+        if (!meta) return null;
+        const others = (meta.pinnedBy ?? []).filter((userId) => userId !== user.id);
+        meta.pinnedBy = pinned ? [...others, user.id] : others;
+        if (meta.pinnedBy.length === 0) delete meta.pinnedBy;
+        return meta;
+    });
+};
+
+/** Store a complete record as-is, e.g. when a design moves to another space. */
+export const putDesignMeta = (workspace: Workspace, meta: IndexedDesign) =>
+    updateJsonFile<DesignIndex, IndexedDesign>(indexPath(workspace), emptyIndex(), (index) => {
+        index.designs[meta.id] = meta;
+        return meta;
+    });
+
+export const removeDesignMeta = (workspace: Workspace, id: string) =>
+    updateJsonFile<DesignIndex, void>(indexPath(workspace), emptyIndex(), (index) => {
+        delete index.designs[id];
+    });
+
+const isInFolder = (folder: string, parent: string) => folder === parent || folder.startsWith(`${parent}/`);
+
+export const createDesignFolder = (workspace: Workspace, folder: string) =>
+    updateJsonFile<DesignIndex, void>(indexPath(workspace), emptyIndex(), (index) => {
+        index.folders = [...new Set([...(index.folders ?? []), folder])];
+    });
+
+/** Rename or move a folder; its subfolders and designs follow. */
+export const renameDesignFolder = (workspace: Workspace, from: string, to: string) =>
+    updateJsonFile<DesignIndex, void>(indexPath(workspace), emptyIndex(), (index) => {
+        const rebase = (folder: string) => (isInFolder(folder, from) ? to + folder.slice(from.length) : folder);
+        index.folders = [...new Set((index.folders ?? []).map(rebase).concat(to))];
+        Object.values(index.designs).forEach((meta) => {
+            meta.folder = rebase(meta.folder);
+        });
+    });
+
+/** Remove a folder and its subfolders; designs inside move to the folder's parent. */
+export const deleteDesignFolder = (workspace: Workspace, folder: string) =>
+    updateJsonFile<DesignIndex, void>(indexPath(workspace), emptyIndex(), (index) => {
+        const parent = folder.split('/').slice(0, -1).join('/');
+        index.folders = (index.folders ?? []).filter((item) => !isInFolder(item, folder));
+        if (parent) index.folders.push(parent);
+        Object.values(index.designs).forEach((meta) => {
+            if (isInFolder(meta.folder, folder)) meta.folder = parent;
+        });
+    });
@@ -0,0 +1,82 @@
+// src/lib/server/design-query.ts
+import { DATE_FILTERS, isDesignSort, SIZE_FILTERS, type DesignSort } from '@/lib/design-filters';
+import { normalizeFolder, type IndexedDesign } from './design-meta';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What `/api/designs/list` understands besides `space`:
+ *
+ *     folder=a/b      only designs directly in this folder ('' = top level)
+ *     recursive=1     ...or anywhere below it
+ *     q=words         every word must appear in the name, description, tags or text on the canvas
+ *     size=<id>       one of SIZE_FILTERS
+ *     date=<id>       one of DATE_FILTERS (edited within)
+ *     author=<id>     owner's user id
+ *     tag=<tag>
+ *     pinned=1        only the caller's favourites
+ *     sort=<id>       one of DESIGN_SORTS; favourites always come first
+ */
+export type DesignQuery = {
+    folder?: string;
+    recursive: boolean;
+    words: string[];
+    size?: string;
+    since?: number;
+    author?: string;
+    tag?: string;
+    pinnedOnly: boolean;
+    sort: DesignSort;
+};
+
+export const parseDesignQuery = (params: URLSearchParams, now = Date.now()): DesignQuery => {
+    const folder = params.has('folder') ? normalizeFolder(params.get('folder')) : undefined;
+    const date = DATE_FILTERS.find((filter) => filter.id === params.get('date'));
+    const sort = params.get('sort');
+    return {
+        folder: folder ?? undefined,
+        recursive: params.get('recursive') === '1',
+        words: (params.get('q') ?? '').toLowerCase().split(/\s+/).filter(Boolean),
+        size: SIZE_FILTERS.some((filter) => filter.id === params.get('size')) ? params.get('size') ?? undefined : undefined,
+        since: date ? now - date.days * DAY_MS : undefined,
+        author: params.get('author') || undefined,
+        tag: params.get('tag') || undefined,
+        pinnedOnly: params.get('pinned') === '1',
+        sort: isDesignSort(sort) ? sort : 'modified',
+    };
+};
+
+const inFolder = (design: IndexedDesign, folder: string, recursive: boolean) =>
+    design.folder === folder || (recursive && (folder === '' || design.folder.startsWith(`${folder}/`)));
+
+const matchesWords = (design: IndexedDesign, words: string[]) => {
+    if (words.length === 0) return true;
+    const haystack = [design.name, design.description ?? '', ...design.tags, design.textContent ?? ''].join('\n').toLowerCase();
+    return words.every((word) => haystack.includes(word));
+};
+
+const compare = (sort: DesignSort) => (a: IndexedDesign, b: IndexedDesign) => {
+    switch (sort) {
+        case 'created': return b.createdAt - a.createdAt;
+        case 'name': return a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+        case 'size': return (b.width ?? 0) * (b.height ?? 0) - (a.width ?? 0) * (a.height ?? 0);
+        default: return b.updatedAt - a.updatedAt;
+    }
+};
+
+export const runDesignQuery = (designs: IndexedDesign[], query: DesignQuery, userId: string) => {
+    const sizeFilter = SIZE_FILTERS.find((filter) => filter.id === query.size);
+    const isPinned = (design: IndexedDesign) => Boolean(design.pinnedBy?.includes(userId));
+    const sortBy = compare(query.sort);
+    return designs
+        .filter((design) =>
+            (query.folder === undefined || inFolder(design, query.folder, query.recursive)) &&
+            matchesWords(design, query.words) &&
+            (!sizeFilter || (design.width !== undefined && design.height !== undefined && sizeFilter.matches(design.width, design.height))) &&
+            (query.since === undefined || design.updatedAt >= query.since) &&
+            (!query.author || design.owner.id === query.author) &&
+            (!query.tag || design.tags.some((tag) => tag.toLowerCase() === query.tag?.toLowerCase())) &&
+            (!query.pinnedOnly || isPinned(design))
+        )
+        .sort((a, b) => Number(isPinned(b)) - Number(isPinned(a)) || sortBy(a, b));
+};
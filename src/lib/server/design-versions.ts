@@ -0,0 +1,199 @@
+// src/lib/server/design-versions.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DesignVersion, VersionRetention } from '@/types';
+import { readJsonFile, updateJsonFile } from './json-store';
+import { getVersionRetention } from './settings';
+import { copyReferencedFiles, resolveWorkspaceFile, workspaceUrl, type Workspace } from './workspaces';
+
+/**
+ * Every save of a design also becomes a numbered version:
+ *
+ *     designs/versions/<designId>/index.json
+ *     designs/versions/<designId>/v<n>.json + v<n>.png
+ *
+ * The current `designs/<designId>.json` is always a copy of the newest version.
+ */
+const VERSIONS_FOLDER = 'versions';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type VersionRecord = Omit<DesignVersion, 'data' | 'image'> & { hasImage: boolean };
+
+type VersionIndex = {
+    nextVersion: number;
+    versions: VersionRecord[];
+};
+
+const EMPTY_INDEX: VersionIndex = { nextVersion: 1, versions: [] };
+
+// Designs saved before versioning existed get their last state recorded under this author
+const UNKNOWN_AUTHOR: DesignVersion['author'] = { id: 'unknown', username: 'Unknown' };
+
+const versionsDir = (workspace: Workspace, designId: string) => resolveWorkspaceFile(workspace, 'designs', VERSIONS_FOLDER, designId);
+
+const versionFile = (version: number, ext: 'json' | 'png') => `v${version}.${ext}`;
+
+const toDesignVersion = (workspace: Workspace, designId: string, { hasImage, ...record }: VersionRecord): DesignVersion => ({
+    ...record,
+    data: workspaceUrl(workspace, 'designs', VERSIONS_FOLDER, designId, versionFile(record.version, 'json')),
+    image: hasImage ? workspaceUrl(workspace, 'designs', VERSIONS_FOLDER, designId, versionFile(record.version, 'png')) : undefined,
+});
+
+const removeVersionFiles = async (dir: string, version: number) => {
+    await Promise.all(
+        (['json', 'png'] as const).map((ext) => fs.rm(path.join(dir, versionFile(version, ext)), { force: true }))
+    );
+};
+
+/**
+ * Versions to drop under a retention policy, oldest first. The newest version and labelled
+ * versions are always kept; age is checked before count.
+ */
+const selectPrunable = (versions: VersionRecord[], retention: VersionRetention, now = Date.now()) => {
+    const newest = versions.reduce((max, record) => Math.max(max, record.version), 0);
+    const candidates = versions
+        .filter((record) => record.version !== newest && !record.label)
+        .sort((a, b) => a.version - b.version);
+
+    const prune = new Set<number>();
+    if (retention.maxAgeDays > 0) {
+        const cutoff = now - retention.maxAgeDays * DAY_MS;
+        candidates.filter((record) => record.createdAt < cutoff).forEach((record) => prune.add(record.version));
+    }
+    if (retention.maxVersions > 0) {
+        let excess = versions.length - prune.size - retention.maxVersions;
+        for (const record of candidates) {
+            if (excess <= 0) break;
+            if (prune.has(record.version)) continue;
+            prune.add(record.version);
+            excess -= 1;
+        }
+    }
+    return prune;
+};
+
+type NewVersion = {
+    /** Serialized canvas JSON exactly as saved */
+    canvasJson: string;
+    thumbnail?: Buffer | null;
+    label?: string;
+    restoredFrom?: number;
+};
+
+export const recordDesignVersion = async (workspace: Workspace, designId: string, author: DesignVersion['author'], entry: NewVersion) => {
+    const dir = versionsDir(workspace, designId);
+    if (!dir) throw new Error(`Invalid design id: ${designId}`);
+    await fs.mkdir(dir, { recursive: true });
+    const retention = await getVersionRetention();
+
+    const record = await updateJsonFile<VersionIndex, VersionRecord>(path.join(dir, 'index.json'), { ...EMPTY_INDEX, versions: [] }, async (index) => {
+        const version = index.nextVersion;
+        await fs.writeFile(path.join(dir, versionFile(version, 'json')), entry.canvasJson);
+        if (entry.thumbnail) await fs.writeFile(path.join(dir, versionFile(version, 'png')), entry.thumbnail);
+
+        const created: VersionRecord = {
+            version,
+            createdAt: Date.now(),
+            author: { id: author.id, username: author.username },
+            hasImage: Boolean(entry.thumbnail),
+        };
+        const label = entry.label?.trim();
+        if (label) created.label = label;
+        if (entry.restoredFrom) created.restoredFrom = entry.restoredFrom;
+
+        index.nextVersion = version + 1;
+        index.versions.push(created);
+
+        const prunable = selectPrunable(index.versions, retention);
+        if (prunable.size > 0) {
+            index.versions = index.versions.filter((item) => !prunable.has(item.version));
+            await Promise.all([...prunable].map((number) => removeVersionFiles(dir, number)));
+        }
+        return created;
+    });
+
+    return toDesignVersion(workspace, designId, record);
+};
+
+/**
+ * Before a design saved by an older version of the app is overwritten for the first time,
+ * keep what is on disk as its first version.
+ */
+export const ensureBaselineVersion = async (workspace: Workspace, designId: string) => {
+    const dir = versionsDir(workspace, designId);
+    const jsonPath = resolveWorkspaceFile(workspace, 'designs', `${designId}.json`);
+    if (!dir || !jsonPath) return;
+
+    const index = await readJsonFile<VersionIndex>(path.join(dir, 'index.json'), EMPTY_INDEX);
+    if (index.versions.length > 0 || index.nextVersion > 1) return;
+
+    let canvasJson: string;
+    try {
+        canvasJson = await fs.readFile(jsonPath, 'utf8');
+    } catch {
+        return; // Nothing saved yet
+    }
+    const thumbnail = await fs.readFile(jsonPath.replace(/\.json$/, '.png')).catch(() => null);
+    await recordDesignVersion(workspace, designId, UNKNOWN_AUTHOR, { canvasJson, thumbnail });
+};
+
+/** Newest first. */
+export const listDesignVersions = async (workspace: Workspace, designId: string) => {
+    const dir = versionsDir(workspace, designId);
+    if (!dir) return null;
+    const index = await readJsonFile<VersionIndex>(path.join(dir, 'index.json'), EMPTY_INDEX);
+    return [...index.versions]
+        .sort((a, b) => b.version - a.version)
+        .map((record) => toDesignVersion(workspace, designId, record));
+};
+
+/** Paths of a stored version, or null if it does not exist (or was pruned). */
+export const getDesignVersionFiles = async (workspace: Workspace, designId: string, version: number) => {
+    const dir = versionsDir(workspace, designId);
+    if (!dir || !Number.isInteger(version)) return null;
+    const index = await readJsonFile<VersionIndex>(path.join(dir, 'index.json'), EMPTY_INDEX);
+    const record = index.versions.find((item) => item.version === version);
+    if (!record) return null;
+    return {
+        record: toDesignVersion(workspace, designId, record),
+        jsonPath: path.join(dir, versionFile(version, 'json')),
+        imagePath: record.hasImage ? path.join(dir, versionFile(version, 'png')) : null,
+    };
+};
+
+/** Set or clear a label. Labelled versions are exempt from retention. */
+export const labelDesignVersion = async (workspace: Workspace, designId: string, version: number, label: string) => {
+    const dir = versionsDir(workspace, designId);
+    if (!dir) return null;
+    const existing = await readJsonFile<VersionIndex>(path.join(dir, 'index.json'), EMPTY_INDEX);
+    if (!existing.versions.some((item) => item.version === version)) return null;
+    const record = await updateJsonFile<VersionIndex, VersionRecord | null>(path.join(dir, 'index.json'), { ...EMPTY_INDEX, versions: [] }, (index) => {
+        const match = index.versions.find((item) => item.version === version);
+        if (!match) return null;
+        const trimmed = label.trim();
+        if (trimmed) match.label = trimmed;
+        else delete match.label;
+        return match;
+    });
+    return record ? toDesignVersion(workspace, designId, record) : null;
+};
+
+/** Take a design's history along when it moves to another space. */
+export const moveDesignVersions = async (from: Workspace, to: Workspace, designId: string) => {
+    const source = versionsDir(from, designId);
+    const target = versionsDir(to, designId);
+    if (!source || !target) return;
+    try {
+        await fs.access(source);
+    } catch {
+        return; // No history yet
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.rename(source, target);
+    // Restoring an old version in the new space must find its assets as well
+    for (const file of await fs.readdir(target)) {
+        if (file === 'index.json' || !file.endsWith('.json')) continue;
+        const filePath = path.join(target, file);
+        await fs.writeFile(filePath, await copyReferencedFiles(from, to, await fs.readFile(filePath, 'utf8')));
+    }
+};
@@ -0,0 +1,47 @@
+// src/lib/server/json-store.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Server-side records (accounts, sessions) live outside `public/` so they are never served.
+export const DATA_DIR = process.env.IMAGE_EXPRESS_DATA_DIR || path.join(process.cwd(), 'data');
+
+const locks = new Map<string, Promise<unknown>>();
+
+export const dataPath = (...segments: string[]) => path.join(DATA_DIR, ...segments);
+
+export const readJsonFile = async <T>(file: string, fallback: T): Promise<T> => {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch (error: unknown) {
+        const nodeError = error as NodeJS.ErrnoException | null;
+        if (nodeError?.code === 'ENOENT') return fallback;
+        throw error;
+    }
+};
+
+/** Write via a temp file and rename so a crash never leaves half a JSON document behind. */
+export const writeJsonFile = async (file: string, data: unknown) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(temp, file);
+};
+
+/**
+ * Read-modify-write under a per-file lock so concurrent requests in this process
+ * do not overwrite each other's changes.
+ */
+export const updateJsonFile = <T, R>(file: string, fallback: T, mutate: (data: T) => R | Promise<R>): Promise<R> => {
+    const previous = locks.get(file) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(async () => {
+        const data = await readJsonFile<T>(file, fallback);
+        const result = await mutate(data);
+        await writeJsonFile(file, data);
+        return result;
+    });
+    locks.set(file, run);
+    run.finally(() => {
+        if (locks.get(file) === run) locks.delete(file);
+    }).catch(() => undefined);
+    return run;
+};
@@ -0,0 +1,162 @@
+// src/lib/server/key-vault.ts
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NextResponse } from 'next/server';
+import type { ApiKeyProvider, ApiKeyStatus, AuthUser } from '@/types';
+import { API_KEY_PROVIDERS, getApiKeyProviderLabel } from '@/lib/api-keys';
+import { dataPath, readJsonFile, updateJsonFile } from './json-store';
+
+/**
+ * Provider API keys are encrypted at rest with AES-256-GCM. The master key comes from
+ * `IMAGE_EXPRESS_MASTER_KEY` or, failing that, a random key generated once into the data directory.
+ * Plaintext keys only ever exist in memory while a proxy route calls the provider.
+ */
+const KEYS_FILE = dataPath('api-keys.json');
+const MASTER_KEY_FILE = dataPath('master.key');
+
+type VaultEntry = {
+    iv: string;
+    tag: string;
+    ciphertext: string;
+    preview: string;
+    updatedAt: number;
+    validatedAt?: number;
+    valid?: boolean;
+};
+
+type VaultFile = Record<string, Partial<Record<ApiKeyProvider, VaultEntry>>>;
+
+let masterKey: Promise<Buffer> | null = null;
+
+const loadMasterKey = async () => {
+    const configured = process.env.IMAGE_EXPRESS_MASTER_KEY;
+    if (configured) return createHash('sha256').update(configured).digest();
+
+    try {
+        return Buffer.from((await fs.readFile(MASTER_KEY_FILE, 'utf8')).trim(), 'base64');
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException | null)?.code !== 'ENOENT') throw error;
+    }
+
+    const generated = randomBytes(32);
+    await fs.mkdir(path.dirname(MASTER_KEY_FILE), { recursive: true });
+    try {
+        await fs.writeFile(MASTER_KEY_FILE, generated.toString('base64'), { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+        console.warn(`IMAGE_EXPRESS_MASTER_KEY is not set; generated a master key at ${MASTER_KEY_FILE}`);
+        return generated;
+    } catch (error: unknown) {
+        // Another process won the race; use its key
+        if ((error as NodeJS.ErrnoException | null)?.code !== 'EEXIST') throw error;
+        return Buffer.from((await fs.readFile(MASTER_KEY_FILE, 'utf8')).trim(), 'base64');
+    }
+};
+
+const getMasterKey = () => {
+    if (!masterKey) {
+        masterKey = loadMasterKey().catch((error) => {
+            masterKey = null;
+            throw error;
+        });
+    }
+    return masterKey;
+};
+
+// Binding the owner and provider into the ciphertext stops entries being swapped between users
+const additionalData = (userId: string, provider: ApiKeyProvider) => Buffer.from(`${userId}:${provider}`);
+
+export const maskKey = (key: string) => (key.length <= 8 ? '••••' : `${key.slice(0, 3)}••••${key.slice(-4)}`);
+
+const encrypt = async (userId: string, provider: ApiKeyProvider, key: string) => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', await getMasterKey(), iv);
+    cipher.setAAD(additionalData(userId, provider));
+    const ciphertext = Buffer.concat([cipher.update(key, 'utf8'), cipher.final()]);
+    return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), ciphertext: ciphertext.toString('base64') };
+};
+
+const decrypt = async (userId: string, provider: ApiKeyProvider, entry: VaultEntry) => {
+    const decipher = createDecipheriv('aes-256-gcm', await getMasterKey(), Buffer.from(entry.iv, 'base64'));
+    decipher.setAAD(additionalData(userId, provider));
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(entry.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
+
+const toStatuses = (entries: Partial<Record<ApiKeyProvider, VaultEntry>> = {}): ApiKeyStatus[] =>
+    API_KEY_PROVIDERS.map(({ id }) => {
+        const entry = entries[id];
+        if (!entry) return { provider: id, configured: false };
+        return {
+            provider: id,
+            configured: true,
+            preview: entry.preview,
+            updatedAt: entry.updatedAt,
+            validatedAt: entry.validatedAt,
+            valid: entry.valid,
+        };
+    });
+
+export const listApiKeys = async (userId: string) => {
+    const vault = await readJsonFile<VaultFile>(KEYS_FILE, {});
+    return toStatuses(vault[userId]);
+};
+
+/** Store, replace or (with an empty string) remove keys for a user. */
+export const setApiKeys = async (userId: string, keys: Partial<Record<ApiKeyProvider, string>>) => {
+    const encrypted = await Promise.all(
+        Object.entries(keys).map(async ([provider, value]) => {
+            const key = value?.trim() ?? '';
+            const id = provider as ApiKeyProvider;
+            return { id, entry: key ? { ...(await encrypt(userId, id, key)), preview: maskKey(key), updatedAt: Date.now() } : null };
+        })
+    );
+    return updateJsonFile<VaultFile, ApiKeyStatus[]>(KEYS_FILE, {}, (vault) => {
+        const entries = (vault[userId] ??= {});
+        encrypted.forEach(({ id, entry }) => {
+            if (entry) entries[id] = entry;
+            else delete entries[id];
+        });
+        if (Object.keys(entries).length === 0) delete vault[userId];
+        return toStatuses(vault[userId]);
+    });
+};
+
+export const removeApiKey = (userId: string, provider: ApiKeyProvider) => setApiKeys(userId, { [provider]: '' });
+
+/** Decrypted key, or null if none is stored (or it can no longer be decrypted with the current master key). */
+export const getApiKey = async (userId: string, provider: ApiKeyProvider) => {
+    const vault = await readJsonFile<VaultFile>(KEYS_FILE, {});
+    const entry = vault[userId]?.[provider];
+    if (!entry) return null;
+    try {
+        return await decrypt(userId, provider, entry);
+    } catch (error) {
+        console.error(`Could not decrypt ${provider} key for ${userId}:`, error);
+        return null;
+    }
+};
+
+export const recordValidation = (userId: string, provider: ApiKeyProvider, valid: boolean) =>
+    updateJsonFile<VaultFile, void>(KEYS_FILE, {}, (vault) => {
+        const entry = vault[userId]?.[provider];
+        if (!entry) return;
+        entry.validatedAt = Date.now();
+        entry.valid = valid;
+    });
+
+/**
+ * Guard for AI proxy routes. Returns the user's key for a provider, or a 400 response to return as-is:
+ *
+ *     const apiKey = await requireApiKey(user, 'stability');
+ *     if (apiKey instanceof NextResponse) return apiKey;
+ */
+export const requireApiKey = async (user: AuthUser, provider: ApiKeyProvider): Promise<string | NextResponse> => {
+    const key = await getApiKey(user.id, provider);
+    if (!key) {
+        return NextResponse.json(
+            { success: false, message: `No ${getApiKeyProviderLabel(provider)} API key saved. Add one in Settings.` },
+            { status: 400 }
+        );
+    }
+    return key;
+};
@@ -0,0 +1,49 @@
+// src/lib/server/login-log.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const LOG_DIR = path.join(process.cwd(), 'logs');
+export const LOGIN_LOG_FILE = path.join(LOG_DIR, 'login.log');
+
+export type LoginEvent = 'login' | 'signup' | 'logout' | 'password-change';
+
+async function ensureLogDir() {
+    try {
+        await fs.mkdir(LOG_DIR, { recursive: true });
+    } catch {
+        // Directory creation errors will be surfaced when writing; swallow here for idempotency.
+    }
+}
+
+export function getClientIp(request: Request) {
+    const forwarded = request.headers.get('x-forwarded-for');
+    if (forwarded) {
+        return forwarded.split(',')[0].trim();
+    }
+    const realIp = request.headers.get('x-real-ip');
+    if (realIp) {
+        return realIp;
+    }
+    return 'unknown';
+}
+
+const clean = (value: string) => value.replace(/["\r\n]/g, '');
+
+/**
+ * Append one authentication event to logs/login.log. Logging failures never block sign-in.
+ */
+export async function recordLoginAttempt(request: Request, details: { username: string; event?: LoginEvent; success: boolean; reason?: string }) {
+    try {
+        const timestamp = new Date().toISOString();
+        const ip = getClientIp(request);
+        const userAgent = request.headers.get('user-agent') || 'unknown';
+        const username = details.username.trim() || 'unknown';
+        const reason = details.reason ? ` reason="${clean(details.reason)}"` : '';
+        const line = `[${timestamp}] event="${details.event ?? 'login'}" result="${details.success ? 'success' : 'failure'}" user="${clean(username)}" ip="${clean(ip)}" ua="${clean(userAgent)}"${reason}\n`;
+
+        await ensureLogDir();
+        await fs.appendFile(LOGIN_LOG_FILE, line, { encoding: 'utf8' });
+    } catch (error) {
+        console.error('Failed to write login log', error);
+    }
+}
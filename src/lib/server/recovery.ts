@@ -0,0 +1,103 @@
+// src/lib/server/recovery.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { RecoverySlot, WorkspaceSpace } from '@/types';
+import { readJsonFile, updateJsonFile } from './json-store';
+import { resolveWorkspaceFile, workspaceUrl, type Workspace } from './workspaces';
+
+/**
+ * Autosaves from the editor go to recovery slots in the user's personal space, whichever
+ * space the design itself belongs to:
+ *
+ *     recovery/index.json
+ *     recovery/<slot>.json + <slot>.png
+ *
+ * A slot is removed once its design is saved or the changes are discarded.
+ */
+const RECOVERY_FOLDER = 'recovery';
+// Slots nobody came back for are dropped eventually
+const MAX_SLOT_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const SLOT_PATTERN = /^[a-z0-9-]{1,64}$/i;
+
+type RecoveryRecord = Omit<RecoverySlot, 'data' | 'image'> & { hasImage: boolean };
+
+type RecoveryIndex = {
+    slots: RecoveryRecord[];
+};
+
+export const isValidRecoverySlot = (slot: unknown): slot is string => typeof slot === 'string' && SLOT_PATTERN.test(slot);
+
+const indexPath = (workspace: Workspace) => resolveWorkspaceFile(workspace, RECOVERY_FOLDER, 'index.json');
+
+const toRecoverySlot = (workspace: Workspace, { hasImage, ...record }: RecoveryRecord): RecoverySlot => ({
+    ...record,
+    data: workspaceUrl(workspace, RECOVERY_FOLDER, `${record.slot}.json`),
+    image: hasImage ? workspaceUrl(workspace, RECOVERY_FOLDER, `${record.slot}.png`) : undefined,
+});
+
+const removeSlotFiles = async (workspace: Workspace, slot: string) => {
+    await Promise.all(['json', 'png'].map(async (ext) => {
+        const file = resolveWorkspaceFile(workspace, RECOVERY_FOLDER, `${slot}.${ext}`);
+        if (file) await fs.rm(file, { force: true });
+    }));
+};
+
+type RecoveryEntry = {
+    slot: string;
+    designId: string | null;
+    space: WorkspaceSpace;
+    name: string;
+    canvasJson: string;
+    thumbnail?: Buffer | null;
+};
+
+export const writeRecoverySlot = async (workspace: Workspace, entry: RecoveryEntry) => {
+    const file = indexPath(workspace);
+    if (!file || !isValidRecoverySlot(entry.slot)) throw new Error(`Invalid recovery slot: ${entry.slot}`);
+    const dir = path.dirname(file);
+    await fs.mkdir(dir, { recursive: true });
+
+    const record = await updateJsonFile<RecoveryIndex, RecoveryRecord>(file, { slots: [] }, async (index) => {
+        await fs.writeFile(path.join(dir, `${entry.slot}.json`), entry.canvasJson);
+        if (entry.thumbnail) await fs.writeFile(path.join(dir, `${entry.slot}.png`), entry.thumbnail);
+        else await fs.rm(path.join(dir, `${entry.slot}.png`), { force: true });
+
+        const now = Date.now();
+        const next: RecoveryRecord = {
+            slot: entry.slot,
+            designId: entry.designId,
+            space: entry.space,
+            name: entry.name,
+            savedAt: now,
+            hasImage: Boolean(entry.thumbnail),
+        };
+        const expired = index.slots.filter((item) => item.slot !== entry.slot && now - item.savedAt > MAX_SLOT_AGE_MS);
+        await Promise.all(expired.map((item) => removeSlotFiles(workspace, item.slot)));
+        index.slots = [
+            ...index.slots.filter((item) => item.slot !== entry.slot && !expired.includes(item)),
+            next,
+        ];
+        return next;
+    });
+
+    return toRecoverySlot(workspace, record);
+};
+
+/** Newest first. */
+export const listRecoverySlots = async (workspace: Workspace) => {
+    const file = indexPath(workspace);
+    if (!file) return [];
+    const index = await readJsonFile<RecoveryIndex>(file, { slots: [] });
+    return [...index.slots]
+        .sort((a, b) => b.savedAt - a.savedAt)
+        .map((record) => toRecoverySlot(workspace, record));
+};
+
+export const clearRecoverySlot = async (workspace: Workspace, slot: string) => {
+    const file = indexPath(workspace);
+    if (!file || !isValidRecoverySlot(slot)) return;
+    await updateJsonFile<RecoveryIndex, void>(file, { slots: [] }, async (index) => {
+        index.slots = index.slots.filter((item) => item.slot !== slot);
+        await removeSlotFiles(workspace, slot);
+    });
+};
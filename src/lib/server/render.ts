@@ -0,0 +1,333 @@
+// src/lib/server/render.ts
+import { readFile } from 'fs/promises';
+import { lookup as dnsLookup, type LookupAddress, type LookupOneOptions } from 'dns';
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import path from 'path';
+import { jsPDF } from 'jspdf';
+import type { Artboard, AuthUser, ExtendedFabricObject } from '@/types';
+import { findAssetReferences, type DesignJson } from '@/lib/design-assets';
+import { forEachDesignObject, prepareDesign } from '@/lib/design-schema';
+import { listDesignPages } from '@/lib/design-preview';
+import { CurvesFilter } from '@/lib/fabric-filters';
+import { StackLayoutStrategy } from '@/lib/stack-layout';
+import { bakeTextTransform } from '@/lib/rich-text';
+import { fitTextBox } from '@/lib/text-fit';
+import { resolveFileUrl } from './workspaces';
+
+/**
+ * Headless rendering for pipelines that need images without opening the editor. Fabric runs
+ * on node-canvas through `fabric/node`. Every image the design uses is read up front and
+ * inlined, workspace files from disk with the caller's access and remote files over HTTP from
+ * public addresses only, because the server-side canvas has no session to fetch `/api/files` with.
+ */
+export type RenderFormat = 'png' | 'jpg' | 'pdf';
+
+export const RENDER_FORMATS: RenderFormat[] = ['png', 'jpg', 'pdf'];
+
+export const isRenderFormat = (value: unknown): value is RenderFormat => RENDER_FORMATS.includes(value as RenderFormat);
+
+export const MIN_RENDER_SCALE = 0.1;
+export const MAX_RENDER_SCALE = 4;
+
+// Per page; anything bigger needs more memory than one request should take
+const MAX_RENDER_PIXELS = 64 * 1024 * 1024;
+
+const CONTENT_TYPES: Record<RenderFormat, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    pdf: 'application/pdf',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.bmp': 'image/bmp',
+};
+
+// Stands in for images that cannot be loaded so the rest of the design still renders
+const TRANSPARENT_PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const TEXT_TYPES = new Set(['text', 'i-text', 'itext', 'textbox']);
+
+// Remote images come from the internet, never from the server's own network or cloud metadata
+const PRIVATE_ADDRESSES = new BlockList();
+([['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]] as const)
+    .forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+// BlockList checks IPv4-mapped addresses against the rules above; NAT64 ones are blocked whole
+([['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const)
+    .forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+const MAX_REDIRECTS = 5;
+const MAX_REMOTE_IMAGE_BYTES = 50 * 1024 * 1024;
+const REMOTE_TIMEOUT_MS = 15_000;
+
+export class RenderError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'RenderError';
+        this.status = status;
+    }
+}
+
+export type RenderOptions = {
+    format: RenderFormat;
+    scale: number;
+    /** Page id, name or 1-based number. PNG and JPG default to the first page, PDF to every page. */
+    artboard?: string | number;
+    /** JPG quality between 0 and 1 */
+    quality?: number;
+    /** New text or image URL, keyed by object id or layer name */
+    overrides?: Record<string, string>;
+};
+
+export type RenderResult = {
+    data: Buffer;
+    contentType: string;
+    extension: RenderFormat;
+    pages: number;
+    /** Objects left out, images that could not be loaded, overrides that matched nothing */
+    warnings: string[];
+};
+
+// Loaded on first use so a missing node-canvas build only breaks rendering, not the server
+const loadNodeFabric = async () => {
+    try {
+        // jsdom loads without it, but every canvas would come back without a 2D context
+        await import('canvas');
+        const fabric = await import('fabric/node');
+        if (!fabric.classRegistry.has(CurvesFilter.type)) fabric.classRegistry.setClass(CurvesFilter);
+        if (!fabric.classRegistry.has(StackLayoutStrategy.type)) fabric.classRegistry.setClass(StackLayoutStrategy);
+        return fabric;
+    } catch (error) {
+        console.error('Failed to load the server-side canvas:', error);
+        throw new RenderError('Server-side rendering is not available on this installation', 503);
+    }
+};
+
+const pickPages = (pages: Artboard[], options: RenderOptions) => {
+    const { artboard } = options;
+    if (artboard === undefined || artboard === '') return options.format === 'pdf' ? pages : pages.slice(0, 1);
+    const key = String(artboard);
+    const page = pages.find((candidate) => candidate.id === key || candidate.name === key)
+        ?? (/^\d+$/.test(key) ? pages[Number(key) - 1] : undefined);
+    if (!page) throw new RenderError(`The design has no page "${key}"`, 404);
+    return [page];
+};
+
+// Replaced images are fitted into the original frame once their real size is known
+type ReplaceableImage = { renderReplaced?: boolean };
+
+const applyOverrides = (design: DesignJson, overrides: Record<string, string>, warnings: string[]) => {
+    const matched = new Set<string>();
+    forEachDesignObject(design, (obj) => {
+        const key = [obj.id, obj.name].find((value): value is string => typeof value === 'string' && Object.hasOwn(overrides, value));
+        if (!key) return;
+        matched.add(key);
+        const type = String(obj.type).toLowerCase();
+        if (TEXT_TYPES.has(type)) {
+            obj.text = overrides[key];
+            // Character styles are indexed by position and would land on the wrong letters
+            obj.styles = [];
+            // Fitted again to the new text once loaded
+            delete obj.textFitSource;
+            delete obj.textFitSourceStyles;
+        } else if (type === 'image') {
+            obj.src = overrides[key];
+            (obj as ReplaceableImage).renderReplaced = true;
+        } else {
+            warnings.push(`Override "${key}" matches a ${obj.type} object, which has no text or image to replace`);
+        }
+    });
+    Object.keys(overrides)
+        .filter((key) => !matched.has(key))
+        .forEach((key) => warnings.push(`Override "${key}" matches no object`));
+};
+
+const isPublicAddress = (address: string) => {
+    const family = isIP(address);
+    return family !== 0 && !PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+// Checks the addresses as the connection is made, so the name cannot be pointed elsewhere after a check
+const publicLookup = (
+    hostname: string,
+    options: LookupOneOptions & { all?: boolean },
+    callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '');
+        if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+            return callback(new Error(`${hostname} does not resolve to a public address`), '');
+        }
+        if (options.all) callback(null, addresses);
+        else callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+const requestRemote = (url: URL) => new Promise<IncomingMessage>((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, { lookup: publicLookup as never, timeout: REMOTE_TIMEOUT_MS }, resolve);
+    request.on('timeout', () => request.destroy(new Error(`Timed out loading ${url.href}`)));
+    request.on('error', reject);
+});
+
+const readRemoteBody = (response: IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_REMOTE_IMAGE_BYTES) response.destroy(new Error('Remote image is too large'));
+        else chunks.push(chunk);
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks)));
+    response.on('error', reject);
+});
+
+/** Every hop of a redirect is checked again; literal addresses never pass through the lookup. */
+const fetchRemoteImage = async (url: string) => {
+    let target = new URL(url);
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        if (target.protocol !== 'http:' && target.protocol !== 'https:') return null;
+        const host = target.hostname.replace(/^\[|\]$/g, '');
+        if (isIP(host) && !isPublicAddress(host)) return null;
+
+        const response = await requestRemote(target);
+        const status = response.statusCode ?? 0;
+        const { location } = response.headers;
+        if (status >= 300 && status < 400 && location) {
+            response.resume();
+            target = new URL(location, target);
+            continue;
+        }
+        const type = response.headers['content-type']?.split(';')[0].trim() ?? '';
+        if (status < 200 || status >= 300 || !type.startsWith('image/')) {
+            response.resume();
+            return null;
+        }
+        return `data:${type};base64,${(await readRemoteBody(response)).toString('base64')}`;
+    }
+    return null;
+};
+
+const loadImageData = async (user: AuthUser, url: string) => {
+    if (url.startsWith('data:')) return url;
+
+    const file = resolveFileUrl(user, url);
+    if (file) {
+        const type = IMAGE_TYPES[path.extname(file.filePath).toLowerCase()];
+        const data = type ? await readFile(file.filePath).catch(() => null) : null;
+        return data ? `data:${type};base64,${data.toString('base64')}` : null;
+    }
+
+    if (/^https?:\/\//i.test(url)) {
+        try {
+            return await fetchRemoteImage(url);
+        } catch {
+            return null;
+        }
+    }
+    return null;
+};
+
+const inlineImages = async (user: AuthUser, design: DesignJson, warnings: string[]) => {
+    const loaded = new Map<string, Promise<string | null>>();
+    const missing = new Set<string>();
+    await Promise.all(findAssetReferences(design)
+        .filter((reference) => reference.kind === 'image')
+        .map(async (reference) => {
+            if (!loaded.has(reference.url)) loaded.set(reference.url, loadImageData(user, reference.url));
+            const data = await loaded.get(reference.url);
+            if (!data) missing.add(reference.url);
+            reference.set(data ?? TRANSPARENT_PIXEL);
+        }));
+    missing.forEach((url) => warnings.push(`Image could not be loaded: ${url.startsWith('data:') ? 'inline image' : url}`));
+};
+
+/**
+ * Render a design file (as saved, any schema version) to PNG, JPG or PDF. PNG and JPG hold
+ * one page; a PDF holds one page per artboard. Throws RenderError for bad options and
+ * DesignFormatError if `source` is not a design.
+ */
+export const renderDesign = async (user: AuthUser, source: unknown, options: RenderOptions): Promise<RenderResult> => {
+    const warnings: string[] = [];
+    const prepared = prepareDesign(source);
+    prepared.issues.forEach((issue) => warnings.push(`${issue.path}: ${issue.message}`));
+    const design = prepared.design;
+
+    const pages = pickPages(listDesignPages(design), options);
+    for (const page of pages) {
+        if (page.width * page.height * options.scale * options.scale > MAX_RENDER_PIXELS) {
+            throw new RenderError(`Page "${page.name}" is too large to render at ${options.scale}x`);
+        }
+    }
+
+    if (options.overrides) applyOverrides(design, options.overrides, warnings);
+    // The server runs its own copy of Fabric, which knows nothing of text transforms
+    forEachDesignObject(design, bakeTextTransform);
+    await inlineImages(user, design, warnings);
+
+    const fabric = await loadNodeFabric();
+    const canvas = new fabric.StaticCanvas(undefined, { renderOnAddRemove: false, enableRetinaScaling: false });
+    try {
+        await canvas.loadFromJSON({ ...design, background: '' });
+
+        const fitReplacedImages = (objects: InstanceType<typeof fabric.FabricObject>[]) => objects.forEach((obj) => {
+            if (obj instanceof fabric.Group) fitReplacedImages(obj.getObjects());
+            if (!(obj instanceof fabric.FabricImage) || !(obj as ReplaceableImage).renderReplaced) return;
+            const center = obj.getRelativeCenterPoint();
+            const frameWidth = obj.width * obj.scaleX;
+            const frameHeight = obj.height * obj.scaleY;
+            const size = obj.getOriginalSize();
+            const scale = Math.min(frameWidth / size.width, frameHeight / size.height);
+            obj.set({ width: size.width, height: size.height, cropX: 0, cropY: 0, scaleX: scale, scaleY: scale });
+            obj.setRelativeXY(center, 'center', 'center');
+        });
+        fitReplacedImages(canvas.getObjects());
+
+        const fitText = (objects: InstanceType<typeof fabric.FabricObject>[]) => objects.forEach((obj) => {
+            if (obj instanceof fabric.Group) fitText(obj.getObjects());
+            if (obj instanceof fabric.Textbox && (obj as ExtendedFabricObject).textFit) fitTextBox(obj);
+        });
+        fitText(canvas.getObjects());
+
+        const images = pages.map((page) => {
+            // JPG has no transparency; an empty background would come out black
+            canvas.backgroundColor = page.background || (options.format === 'jpg' ? '#ffffff' : '');
+            return canvas.toDataURL({
+                format: options.format === 'jpg' ? 'jpeg' : 'png',
+                quality: options.quality ?? 0.92,
+                multiplier: options.scale,
+                left: page.left,
+                top: page.top,
+                width: page.width,
+                height: page.height,
+            });
+        });
+
+        let data: Buffer;
+        if (options.format === 'pdf') {
+            const orientationOf = (page: Artboard) => (page.width > page.height ? 'landscape' : 'portrait');
+            const pdf = new jsPDF({ orientation: orientationOf(pages[0]), unit: 'px', format: [pages[0].width, pages[0].height] });
+            pages.forEach((page, index) => {
+                if (index > 0) pdf.addPage([page.width, page.height], orientationOf(page));
+                pdf.addImage(images[index], 'PNG', 0, 0, page.width, page.height);
+            });
+            data = Buffer.from(pdf.output('arraybuffer'));
+        } else {
+            data = Buffer.from(images[0].split(',')[1], 'base64');
+        }
+
+        return { data, contentType: CONTENT_TYPES[options.format], extension: options.format, pages: pages.length, warnings };
+    } finally {
+        canvas.dispose();
+    }
+};
@@ -0,0 +1,139 @@
+// src/lib/server/session.ts
+import { createHash, randomBytes } from 'crypto';
+import { NextResponse } from 'next/server';
+import type { AuthUser } from '@/types';
+import { dataPath, readJsonFile, updateJsonFile } from './json-store';
+import { getUserById } from './users';
+
+export const SESSION_COOKIE = 'ie_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SESSIONS_FILE = dataPath('sessions.json');
+
+// The desktop build runs its own server on localhost for a single local user
+const DESKTOP_USER: AuthUser = { id: 'desktop', username: 'Local Desktop', role: 'admin' };
+export const isDesktopServer = () => process.env.NEXT_DESKTOP === '1';
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+// Only the desktop app itself gets the local user: the request must be addressed to a
+// loopback host and, when the browser names an origin, come from that same host (no cross-site posts)
+const isLocalDesktopRequest = (request: Request) => {
+    const host = request.headers.get('host');
+    if (!host) return false;
+    try {
+        if (!LOOPBACK_HOSTS.has(new URL(`http://${host}`).hostname)) return false;
+        const origin = request.headers.get('origin');
+        return !origin || new URL(origin).host === host;
+    } catch {
+        return false;
+    }
+};
+
+type SessionRecord = {
+    userId: string;
+    createdAt: number;
+    expiresAt: number;
+};
+
+// Only a hash of each token is stored, so a leaked sessions file cannot be replayed
+type SessionMap = Record<string, SessionRecord>;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const readCookie = (request: Request, name: string) => {
+    const header = request.headers.get('cookie');
+    if (!header) return null;
+    for (const part of header.split(';')) {
+        const [key, ...rest] = part.trim().split('=');
+        if (key === name) return decodeURIComponent(rest.join('='));
+    }
+    return null;
+};
+
+const isSecureRequest = (request: Request) =>
+    request.headers.get('x-forwarded-proto') === 'https' || new URL(request.url).protocol === 'https:';
+
+export const createSession = async (userId: string) => {
+    const token = randomBytes(32).toString('base64url');
+    const now = Date.now();
+    await updateJsonFile<SessionMap, void>(SESSIONS_FILE, {}, (sessions) => {
+        Object.entries(sessions).forEach(([key, session]) => {
+            if (session.expiresAt <= now) delete sessions[key];
+        });
+        sessions[hashToken(token)] = { userId, createdAt: now, expiresAt: now + SESSION_TTL_MS };
+    });
+    return token;
+};
+
+export const destroySession = async (request: Request) => {
+    const token = readCookie(request, SESSION_COOKIE);
+    if (!token) return;
+    await updateJsonFile<SessionMap, void>(SESSIONS_FILE, {}, (sessions) => {
+        delete sessions[hashToken(token)];
+    });
+};
+
+/** Drop every session of a user except, optionally, the one making the request (e.g. after a password change). */
+export const destroyOtherSessions = async (userId: string, request?: Request) => {
+    const keep = request ? readCookie(request, SESSION_COOKIE) : null;
+    const keepHash = keep ? hashToken(keep) : null;
+    await updateJsonFile<SessionMap, void>(SESSIONS_FILE, {}, (sessions) => {
+        Object.entries(sessions).forEach(([key, session]) => {
+            if (session.userId === userId && key !== keepHash) delete sessions[key];
+        });
+    });
+};
+
+export const getSessionUser = async (request: Request): Promise<AuthUser | null> => {
+    if (isDesktopServer()) return isLocalDesktopRequest(request) ? DESKTOP_USER : null;
+    const token = readCookie(request, SESSION_COOKIE);
+    if (!token) return null;
+    const sessions = await readJsonFile<SessionMap>(SESSIONS_FILE, {});
+    const session = sessions[hashToken(token)];
+    if (!session || session.expiresAt <= Date.now()) return null;
+    return getUserById(session.userId);
+};
+
+/**
+ * Guard for API routes. Returns the signed-in user, or a 401 response to return as-is:
+ *
+ *     const user = await requireUser(request);
+ *     if (user instanceof NextResponse) return user;
+ */
+export const requireUser = async (request: Request): Promise<AuthUser | NextResponse> => {
+    const user = await getSessionUser(request);
+    if (!user) {
+        return NextResponse.json({ success: false, message: 'Not signed in' }, { status: 401 });
+    }
+    return user;
+};
+
+export const requireAdmin = async (request: Request): Promise<AuthUser | NextResponse> => {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    if (user.role !== 'admin') {
+        return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 });
+    }
+    return user;
+};
+
+export const setSessionCookie = (response: NextResponse, request: Request, token: string) => {
+    response.cookies.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: isSecureRequest(request),
+        path: '/',
+        maxAge: SESSION_TTL_MS / 1000,
+    });
+    return response;
+};
+
+export const clearSessionCookie = (response: NextResponse, request: Request) => {
+    response.cookies.set(SESSION_COOKIE, '', {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: isSecureRequest(request),
+        path: '/',
+        maxAge: 0,
+    });
+    return response;
+};
@@ -0,0 +1,53 @@
+// src/lib/server/settings.ts
+import type { VersionRetention } from '@/types';
+import { dataPath, readJsonFile, updateJsonFile } from './json-store';
+
+// Server-wide preferences that admins change from the app
+const SETTINGS_FILE = dataPath('settings.json');
+
+type ServerSettings = {
+    versionRetention?: Partial<VersionRetention>;
+    trashRetentionDays?: number;
+};
+
+export const DEFAULT_VERSION_RETENTION: VersionRetention = { maxVersions: 50, maxAgeDays: 0 };
+
+/** Days deleted items stay in the trash; 0 keeps them until purged by hand. */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const MAX_RETENTION_VALUE = 100000;
+
+const toCount = (value: unknown, fallback: number) => {
+    const number = Math.floor(Number(value));
+    return Number.isFinite(number) && number >= 0 ? Math.min(number, MAX_RETENTION_VALUE) : fallback;
+};
+
+export const normalizeVersionRetention = (value: Partial<VersionRetention> = {}): VersionRetention => ({
+    maxVersions: toCount(value.maxVersions, DEFAULT_VERSION_RETENTION.maxVersions),
+    maxAgeDays: toCount(value.maxAgeDays, DEFAULT_VERSION_RETENTION.maxAgeDays),
+});
+
+export const getVersionRetention = async () => {
+    const settings = await readJsonFile<ServerSettings>(SETTINGS_FILE, {});
+    return normalizeVersionRetention(settings.versionRetention);
+};
+
+export const setVersionRetention = (retention: Partial<VersionRetention>) =>
+    updateJsonFile<ServerSettings, VersionRetention>(SETTINGS_FILE, {}, (settings) => {
+        const changes = Object.fromEntries(Object.entries(retention).filter(([, value]) => value !== undefined));
+        const next = normalizeVersionRetention({ ...settings.versionRetention, ...changes });
+        settings.versionRetention = next;
+        return next;
+    });
+
+export const getTrashRetentionDays = async () => {
+    const settings = await readJsonFile<ServerSettings>(SETTINGS_FILE, {});
+    return toCount(settings.trashRetentionDays, DEFAULT_TRASH_RETENTION_DAYS);
+};
+
+export const setTrashRetentionDays = (days: unknown) =>
+    updateJsonFile<ServerSettings, number>(SETTINGS_FILE, {}, (settings) => {
+        const next = toCount(days, toCount(settings.trashRetentionDays, DEFAULT_TRASH_RETENTION_DAYS));
+        settings.trashRetentionDays = next;
+        return next;
+    });
@@ -0,0 +1,195 @@
+// src/lib/server/trash.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { AuthUser, TrashItem, TrashItemKind } from '@/types';
+import { readJsonFile, updateJsonFile } from './json-store';
+import { putDesignMeta, type IndexedDesign } from './design-meta';
+import { getTrashRetentionDays } from './settings';
+import { resolveWorkspaceFile, workspaceUrl, type Workspace } from './workspaces';
+
+/**
+ * Deleting a design, template or asset moves its files into the space's trash:
+ *
+ *     trash/index.json
+ *     trash/<itemId>/<original path>     e.g. trash/<itemId>/uploads/images/logo.png
+ *
+ * Restoring moves them back. Items older than the retention period are purged the next
+ * time the trash is read or written.
+ */
+const TRASH_FOLDER = 'trash';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ITEM_ID_PATTERN = /^[a-z0-9-]{1,64}$/i;
+
+type TrashRecord = Omit<TrashItem, 'space' | 'purgeAt' | 'image'> & {
+    /** Paths relative to the space that were moved, files or folders */
+    files: string[];
+    /** One of `files` to show as the preview */
+    preview?: string;
+    /** A design's metadata record, put back on restore */
+    designMeta?: IndexedDesign;
+};
+
+type TrashIndex = {
+    items: TrashRecord[];
+};
+
+const emptyIndex = (): TrashIndex => ({ items: [] });
+
+const indexPath = (workspace: Workspace) => path.join(workspace.root, TRASH_FOLDER, 'index.json');
+
+const splitPath = (relativePath: string) => relativePath.split('/');
+
+const originalFile = (workspace: Workspace, relativePath: string) => resolveWorkspaceFile(workspace, ...splitPath(relativePath));
+
+const trashedFile = (workspace: Workspace, itemId: string, relativePath: string) =>
+    resolveWorkspaceFile(workspace, TRASH_FOLDER, itemId, ...splitPath(relativePath));
+
+const exists = (file: string) => fs.access(file).then(() => true, () => false);
+
+const toTrashItem = (workspace: Workspace, record: TrashRecord, retentionDays: number): TrashItem => ({
+    id: record.id,
+    kind: record.kind,
+    name: record.name,
+    space: workspace.space,
+    originalPath: record.originalPath,
+    deletedAt: record.deletedAt,
+    deletedBy: record.deletedBy,
+    purgeAt: retentionDays > 0 ? record.deletedAt + retentionDays * DAY_MS : null,
+    image: record.preview ? workspaceUrl(workspace, TRASH_FOLDER, record.id, ...splitPath(record.preview)) : undefined,
+});
+
+const removeItemFiles = async (workspace: Workspace, itemId: string) => {
+    const dir = resolveWorkspaceFile(workspace, TRASH_FOLDER, itemId);
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+};
+
+// Drops expired records from `index` and deletes their files
+const purgeExpired = async (workspace: Workspace, index: TrashIndex, retentionDays: number) => {
+    if (retentionDays <= 0) return;
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    const expired = index.items.filter((item) => item.deletedAt < cutoff);
+    if (expired.length === 0) return;
+    await Promise.all(expired.map((item) => removeItemFiles(workspace, item.id)));
+    index.items = index.items.filter((item) => !expired.includes(item));
+};
+
+type TrashEntry = {
+    kind: TrashItemKind;
+    name: string;
+    /** Shown as where the item came from and used to restore it */
+    originalPath: string;
+    files: string[];
+    preview?: string;
+    designMeta?: IndexedDesign;
+};
+
+/**
+ * Move an item's files into the trash. Files that do not exist are skipped; returns null if
+ * none of them did (and there is no metadata to keep), i.e. the item was not found.
+ */
+export const moveToTrash = async (workspace: Workspace, author: Pick<AuthUser, 'id' | 'username'>, entry: TrashEntry) => {
+    const itemId = `${Date.now()}-${randomBytes(4).toString('hex')}`;
+    const retentionDays = await getTrashRetentionDays();
+
+    const record = await updateJsonFile<TrashIndex, TrashRecord | null>(indexPath(workspace), emptyIndex(), async (index) => {
+        await purgeExpired(workspace, index, retentionDays);
+
+        const moved: string[] = [];
+        for (const relativePath of entry.files) {
+            const from = originalFile(workspace, relativePath);
+            const to = trashedFile(workspace, itemId, relativePath);
+            if (!from || !to) throw new Error(`Invalid path: ${relativePath}`);
+            if (!(await exists(from))) continue;
+            await fs.mkdir(path.dirname(to), { recursive: true });
+            await fs.rename(from, to);
+            moved.push(relativePath);
+        }
+        if (moved.length === 0 && !entry.designMeta) return null;
+
+        const created: TrashRecord = {
+            id: itemId,
+            kind: entry.kind,
+            name: entry.name,
+            originalPath: entry.originalPath,
+            deletedAt: Date.now(),
+            deletedBy: { id: author.id, username: author.username },
+            files: moved,
+        };
+        if (entry.preview && moved.includes(entry.preview)) created.preview = entry.preview;
+        if (entry.designMeta) created.designMeta = entry.designMeta;
+        index.items.push(created);
+        return created;
+    });
+
+    return record ? toTrashItem(workspace, record, retentionDays) : null;
+};
+
+/** Newest first. */
+export const listTrash = async (workspace: Workspace) => {
+    const retentionDays = await getTrashRetentionDays();
+    const current = await readJsonFile<TrashIndex>(indexPath(workspace), emptyIndex());
+    let items = current.items;
+    if (retentionDays > 0 && items.some((item) => item.deletedAt < Date.now() - retentionDays * DAY_MS)) {
+        items = await updateJsonFile<TrashIndex, TrashRecord[]>(indexPath(workspace), emptyIndex(), async (index) => {
+            await purgeExpired(workspace, index, retentionDays);
+            return index.items;
+        });
+    }
+    return [...items]
+        .sort((a, b) => b.deletedAt - a.deletedAt)
+        .map((record) => toTrashItem(workspace, record, retentionDays));
+};
+
+export type RestoreResult =
+    | { status: 'restored'; item: TrashItem }
+    | { status: 'not-found' }
+    | { status: 'conflict'; path: string };
+
+/** Move an item back to where it was. Nothing is overwritten: a taken path is a conflict. */
+export const restoreFromTrash = async (workspace: Workspace, itemId: string): Promise<RestoreResult> => {
+    if (!ITEM_ID_PATTERN.test(itemId)) return { status: 'not-found' };
+    const retentionDays = await getTrashRetentionDays();
+
+    return updateJsonFile<TrashIndex, RestoreResult>(indexPath(workspace), emptyIndex(), async (index) => {
+        const record = index.items.find((item) => item.id === itemId);
+        if (!record) return { status: 'not-found' };
+
+        for (const relativePath of record.files) {
+            const to = originalFile(workspace, relativePath);
+            if (!to || (await exists(to))) return { status: 'conflict', path: relativePath };
+        }
+        for (const relativePath of record.files) {
+            const from = trashedFile(workspace, itemId, relativePath);
+            const to = originalFile(workspace, relativePath);
+            if (!from || !to) continue;
+            await fs.mkdir(path.dirname(to), { recursive: true });
+            await fs.rename(from, to);
+        }
+        if (record.designMeta) await putDesignMeta(workspace, record.designMeta);
+
+        await removeItemFiles(workspace, itemId);
+        index.items = index.items.filter((item) => item !== record);
+        return { status: 'restored', item: toTrashItem(workspace, record, retentionDays) };
+    });
+};
+
+/** Delete an item for good. Returns false if it is not in the trash. */
+export const purgeTrashItem = async (workspace: Workspace, itemId: string) => {
+    if (!ITEM_ID_PATTERN.test(itemId)) return false;
+    return updateJsonFile<TrashIndex, boolean>(indexPath(workspace), emptyIndex(), async (index) => {
+        if (!index.items.some((item) => item.id === itemId)) return false;
+        await removeItemFiles(workspace, itemId);
+        index.items = index.items.filter((item) => item.id !== itemId);
+        return true;
+    });
+};
+
+/** Purge everything in the space's trash; returns how many items were removed. */
+export const emptyTrash = (workspace: Workspace) =>
+    updateJsonFile<TrashIndex, number>(indexPath(workspace), emptyIndex(), async (index) => {
+        const count = index.items.length;
+        await Promise.all(index.items.map((item) => removeItemFiles(workspace, item.id)));
+        index.items = [];
+        return count;
+    });
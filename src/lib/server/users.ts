@@ -0,0 +1,169 @@
+// src/lib/server/users.ts
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { AuthUser, UserRole } from '@/types';
+import { dataPath, readJsonFile, updateJsonFile } from './json-store';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const USERS_FILE = dataPath('users.json');
+const INVITES_FILE = dataPath('invites.json');
+
+const KEY_LENGTH = 64;
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/i;
+
+type UserRecord = AuthUser & {
+    passwordHash: string;
+    passwordSalt: string;
+    createdAt: number;
+    updatedAt: number;
+};
+
+type InviteRecord = {
+    code: string;
+    role: UserRole;
+    createdBy: string;
+    createdAt: number;
+    expiresAt: number;
+    usedBy?: string;
+};
+
+export class AuthError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'AuthError';
+        this.status = status;
+    }
+}
+
+const toAuthUser = ({ id, username, role }: UserRecord): AuthUser => ({ id, username, role });
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+export const hashPassword = async (password: string, salt = randomBytes(16).toString('hex')) => {
+    const derived = await scryptAsync(password, salt, KEY_LENGTH);
+    return { hash: derived.toString('hex'), salt };
+};
+
+const verifyPassword = async (password: string, record: Pick<UserRecord, 'passwordHash' | 'passwordSalt'>) => {
+    const { hash } = await hashPassword(password, record.passwordSalt);
+    const expected = Buffer.from(record.passwordHash, 'hex');
+    const actual = Buffer.from(hash, 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const validateCredentials = (username: string, password: string) => {
+    if (!USERNAME_PATTERN.test(username)) {
+        throw new AuthError('Usernames are 3-32 characters: letters, numbers, dots, dashes or underscores.');
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+};
+
+const loadUsers = () => readJsonFile<UserRecord[]>(USERS_FILE, []);
+
+export const getUserById = async (id: string) => {
+    const record = (await loadUsers()).find((user) => user.id === id);
+    return record ? toAuthUser(record) : null;
+};
+
+export const hasAnyUsers = async () => (await loadUsers()).length > 0;
+
+/** Check a username/password pair. Unknown users still pay for a hash so timing does not leak which names exist. */
+export const authenticateUser = async (username: string, password: string) => {
+    const record = (await loadUsers()).find((user) => user.username === normalizeUsername(username));
+    if (!record) {
+        await hashPassword(password);
+        return null;
+    }
+    return (await verifyPassword(password, record)) ? toAuthUser(record) : null;
+};
+
+/**
+ * Create an account. The very first account may sign up freely and becomes the admin;
+ * after that a valid invite code is required unless open signup is enabled.
+ */
+export const registerUser = async (username: string, password: string, inviteCode?: string) => {
+    const normalized = normalizeUsername(username);
+    validateCredentials(normalized, password);
+    const { hash, salt } = await hashPassword(password);
+    const openSignup = process.env.IMAGE_EXPRESS_OPEN_SIGNUP === '1';
+
+    return updateJsonFile<UserRecord[], AuthUser>(USERS_FILE, [], async (users) => {
+        if (users.some((user) => user.username === normalized)) {
+            throw new AuthError('That username is already taken.', 409);
+        }
+
+        let role: UserRole = 'member';
+        if (users.length === 0) {
+            role = 'admin';
+        } else if (inviteCode) {
+            role = await redeemInvite(inviteCode, normalized);
+        } else if (!openSignup) {
+            throw new AuthError('An invite code is required to create an account.', 403);
+        }
+
+        const now = Date.now();
+        const record: UserRecord = {
+            id: randomUUID(),
+            username: normalized,
+            role,
+            passwordHash: hash,
+            passwordSalt: salt,
+            createdAt: now,
+            updatedAt: now,
+        };
+        users.push(record);
+        return toAuthUser(record);
+    });
+};
+
+export const changePassword = async (userId: string, currentPassword: string, newPassword: string) => {
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+    const { hash, salt } = await hashPassword(newPassword);
+
+    await updateJsonFile<UserRecord[], void>(USERS_FILE, [], async (users) => {
+        const record = users.find((user) => user.id === userId);
+        if (!record) throw new AuthError('Account not found.', 404);
+        if (!(await verifyPassword(currentPassword, record))) {
+            throw new AuthError('Current password is incorrect.', 403);
+        }
+        record.passwordHash = hash;
+        record.passwordSalt = salt;
+        record.updatedAt = Date.now();
+    });
+};
+
+export const createInvite = (createdBy: AuthUser, role: UserRole = 'member') =>
+    updateJsonFile<InviteRecord[], InviteRecord>(INVITES_FILE, [], (invites) => {
+        const now = Date.now();
+        const invite: InviteRecord = {
+            code: randomBytes(12).toString('base64url'),
+            role,
+            createdBy: createdBy.id,
+            createdAt: now,
+            expiresAt: now + INVITE_TTL_MS,
+        };
+        // Drop invites that can no longer be used
+        const live = invites.filter((item) => !item.usedBy && item.expiresAt > now);
+        invites.splice(0, invites.length, ...live, invite);
+        return invite;
+    });
+
+const redeemInvite = (code: string, username: string) =>
+    updateJsonFile<InviteRecord[], UserRole>(INVITES_FILE, [], (invites) => {
+        const invite = invites.find((item) => item.code === code.trim());
+        if (!invite || invite.usedBy || invite.expiresAt <= Date.now()) {
+            throw new AuthError('This invite code is invalid or has expired.', 403);
+        }
+        invite.usedBy = username;
+        return invite.role;
+    });
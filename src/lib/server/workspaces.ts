@@ -0,0 +1,240 @@
+// src/lib/server/workspaces.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NextResponse } from 'next/server';
+import type { AuthUser, WorkspaceSpace } from '@/types';
+import { dataPath } from './json-store';
+
+/**
+ * Designs, templates and assets are stored per owner under the data directory:
+ *
+ *     workspaces/users/<userId>/{designs,templates,uploads/<type>,generated/<type>}
+ *     workspaces/team/...
+ *
+ * Nothing here is reachable as a static file; `/api/files/...` serves it after checking access.
+ */
+const WORKSPACES_DIR = dataPath('workspaces');
+export const FILES_ROUTE = '/api/files';
+
+export type Workspace = {
+    space: WorkspaceSpace;
+    /** Absolute directory on disk */
+    root: string;
+    /** URL prefix under which the files route serves this space */
+    urlBase: string;
+};
+
+export const isTeamSpaceEnabled = () => process.env.IMAGE_EXPRESS_TEAM_SPACE !== '0';
+
+export const getAvailableSpaces = (): WorkspaceSpace[] => (isTeamSpaceEnabled() ? ['personal', 'team'] : ['personal']);
+
+const spaceSegments = (user: AuthUser, space: WorkspaceSpace) => (space === 'team' ? ['team'] : ['users', user.id]);
+
+const getWorkspace = (user: AuthUser, space: WorkspaceSpace): Workspace => {
+    const segments = spaceSegments(user, space);
+    return {
+        space,
+        root: path.join(WORKSPACES_DIR, ...segments),
+        urlBase: `${FILES_ROUTE}/${segments.map(encodeURIComponent).join('/')}`,
+    };
+};
+
+// Files saved by earlier versions into public/assets are copied into the team space once;
+// the originals are left alone (they may be tracked samples or on a read-only install)
+const LEGACY_PUBLIC_DIR = path.join(process.cwd(), 'public', 'assets');
+const LEGACY_FOLDERS = ['designs', 'templates', 'uploads', 'generated'];
+const LEGACY_URL_PATTERN = /\/assets\/(designs|templates|uploads|generated)\//g;
+const LEGACY_MARKER = path.join(WORKSPACES_DIR, '.legacy-migrated');
+let legacyMigration: Promise<void> | null = null;
+
+const copyLegacyTree = async (source: string, target: string, teamUrlBase: string) => {
+    let entries;
+    try {
+        entries = await fs.readdir(source, { withFileTypes: true });
+    } catch {
+        return;
+    }
+    await fs.mkdir(target, { recursive: true });
+    for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const from = path.join(source, entry.name);
+        const to = path.join(target, entry.name);
+        if (entry.isDirectory()) {
+            await copyLegacyTree(from, to, teamUrlBase);
+            continue;
+        }
+        try {
+            await fs.access(to);
+            console.warn(`Legacy asset ${from} not migrated: ${to} already exists`);
+            continue;
+        } catch {
+            // Target is free
+        }
+        if (entry.name.endsWith('.json')) {
+            // Point embedded asset URLs at their new home
+            const text = await fs.readFile(from, 'utf8');
+            await fs.writeFile(to, text.replace(LEGACY_URL_PATTERN, `${teamUrlBase}/$1/`));
+        } else {
+            await fs.copyFile(from, to);
+        }
+    }
+};
+
+const migrateLegacyAssets = () => {
+    if (!legacyMigration) {
+        const teamRoot = path.join(WORKSPACES_DIR, 'team');
+        legacyMigration = (async () => {
+            // Nobody could open the copies while the team space is off, so wait until it is on
+            if (!isTeamSpaceEnabled()) return;
+            try {
+                await fs.access(LEGACY_MARKER);
+                return;
+            } catch {
+                // Not migrated yet
+            }
+            for (const folder of LEGACY_FOLDERS) {
+                await copyLegacyTree(path.join(LEGACY_PUBLIC_DIR, folder), path.join(teamRoot, folder), `${FILES_ROUTE}/team`);
+            }
+            await fs.mkdir(WORKSPACES_DIR, { recursive: true });
+            await fs.writeFile(LEGACY_MARKER, new Date().toISOString());
+        })().catch((error) => {
+            console.error('Legacy asset migration failed:', error);
+        });
+    }
+    return legacyMigration;
+};
+
+const invalidSpace = () => NextResponse.json({ success: false, message: 'Invalid workspace' }, { status: 400 });
+const teamDisabled = () => NextResponse.json({ success: false, message: 'The team space is disabled' }, { status: 403 });
+
+/**
+ * Resolve the space a write goes to (`personal` when omitted). Returns a response to send as-is on error:
+ *
+ *     const workspace = await requireWorkspace(user, body.space);
+ *     if (workspace instanceof NextResponse) return workspace;
+ */
+export const requireWorkspace = async (user: AuthUser, rawSpace?: unknown): Promise<Workspace | NextResponse> => {
+    await migrateLegacyAssets();
+    const space = rawSpace ?? 'personal';
+    if (space !== 'personal' && space !== 'team') return invalidSpace();
+    if (space === 'team' && !isTeamSpaceEnabled()) return teamDisabled();
+    return getWorkspace(user, space);
+};
+
+/** Spaces a listing covers: the requested one, or every space the user can see. */
+export const requireWorkspaces = async (user: AuthUser, rawSpace?: string | null): Promise<Workspace[] | NextResponse> => {
+    if (rawSpace) {
+        const workspace = await requireWorkspace(user, rawSpace);
+        return workspace instanceof NextResponse ? workspace : [workspace];
+    }
+    await migrateLegacyAssets();
+    return getAvailableSpaces().map((space) => getWorkspace(user, space));
+};
+
+const isSafeSegment = (segment: string) =>
+    segment.length > 0 && !segment.startsWith('.') && !segment.includes('/') && !segment.includes('\\') && !segment.includes('\0');
+
+/** Absolute path of a file inside a workspace, or null if any segment would escape it. */
+export const resolveWorkspaceFile = (workspace: Workspace, ...segments: string[]) => {
+    if (segments.length === 0 || !segments.every(isSafeSegment)) return null;
+    const fullPath = path.join(workspace.root, ...segments);
+    return fullPath.startsWith(workspace.root + path.sep) ? fullPath : null;
+};
+
+export const workspaceUrl = (workspace: Workspace, ...segments: string[]) =>
+    `${workspace.urlBase}/${segments.map(encodeURIComponent).join('/')}`;
+
+// Folders the files route serves; anything else kept at the workspace root stays private
+const SERVED_FOLDERS = new Set(['designs', 'templates', 'uploads', 'generated', 'components']);
+// Recovery slots only ever live in the owner's personal space
+const PERSONAL_SERVED_FOLDERS = new Set([...SERVED_FOLDERS, 'recovery']);
+
+/**
+ * Map the segments after `/api/files/` to a file the user may access:
+ * their own personal space or, when enabled, the team space.
+ */
+export const resolveFileSegments = (user: AuthUser, segments: string[]) => {
+    let space: WorkspaceSpace;
+    let rest: string[];
+    if (segments[0] === 'team') {
+        if (!isTeamSpaceEnabled()) return null;
+        space = 'team';
+        rest = segments.slice(1);
+    } else if (segments[0] === 'users' && segments[1] === user.id) {
+        space = 'personal';
+        rest = segments.slice(2);
+    } else {
+        return null;
+    }
+    const served = space === 'personal' ? PERSONAL_SERVED_FOLDERS : SERVED_FOLDERS;
+    // Trashed files (trash/<itemId>/...) are shown to everyone who can list the space's trash; its index is not
+    const isTrashedFile = rest[0] === 'trash' && rest.length >= 3;
+    if (rest.length < 2 || !(served.has(rest[0]) || isTrashedFile)) return null;
+    const workspace = getWorkspace(user, space);
+    const filePath = resolveWorkspaceFile(workspace, ...rest);
+    return filePath ? { workspace, segments: rest, filePath } : null;
+};
+
+/** Same as `resolveFileSegments` for a full `/api/files/...` URL as stored by the client. */
+export const resolveFileUrl = (user: AuthUser, url: string) => {
+    let pathname: string;
+    try {
+        pathname = new URL(url, 'http://localhost').pathname;
+    } catch {
+        return null;
+    }
+    if (!pathname.startsWith(`${FILES_ROUTE}/`)) return null;
+    try {
+        const segments = pathname.slice(FILES_ROUTE.length + 1).split('/').map(decodeURIComponent);
+        return resolveFileSegments(user, segments);
+    } catch {
+        return null;
+    }
+};
+
+const sameContents = async (a: string, b: string) => {
+    const [left, right] = await Promise.all([fs.readFile(a), fs.readFile(b)]);
+    return left.equals(right);
+};
+
+/**
+ * Copy the files of `from` that a design refers to into `to` and return the design text with
+ * its URLs pointing at the copies, much like the legacy migration does. Needed whenever a
+ * design changes space: personal URLs never resolve for anyone but their owner.
+ */
+export const copyReferencedFiles = async (from: Workspace, to: Workspace, text: string) => {
+    if (from.root === to.root) return text;
+    const prefix = `${from.urlBase}/`;
+    const pattern = new RegExp(`${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}([^"'\\s?#)]+)`, 'g');
+    const replacements = new Map<string, string>();
+
+    for (const match of text.matchAll(pattern)) {
+        const relative = match[1];
+        if (replacements.has(relative)) continue;
+        let segments: string[];
+        try {
+            segments = relative.split('/').map(decodeURIComponent);
+        } catch {
+            continue;
+        }
+        if (segments.length < 2 || !SERVED_FOLDERS.has(segments[0])) continue;
+        const source = resolveWorkspaceFile(from, ...segments);
+        let target = resolveWorkspaceFile(to, ...segments);
+        // Files already missing are left as they are
+        if (!source || !target || !(await fs.access(source).then(() => true, () => false))) continue;
+        const taken = await fs.access(target).then(() => true, () => false);
+        if (!taken || !(await sameContents(source, target))) {
+            if (taken) {
+                // A different file already has this name there
+                const ext = path.extname(target);
+                segments[segments.length - 1] = `${path.basename(target, ext)}-${Date.now()}${ext}`;
+                target = path.join(path.dirname(target), segments[segments.length - 1]);
+            }
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await fs.copyFile(source, target);
+        }
+        replacements.set(relative, workspaceUrl(to, ...segments));
+    }
+
+    return text.replace(pattern, (url, relative: string) => replacements.get(relative) ?? url);
+};
@@ -0,0 +1,237 @@
+// src/lib/snapping.ts
+import type { SnapSettings } from '@/types';
+
+const STORAGE_KEY = 'image-express-snap-settings';
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = { enabled: true, threshold: 6 };
+
+export const loadSnapSettings = (): SnapSettings => {
+    if (typeof window === 'undefined') return DEFAULT_SNAP_SETTINGS;
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? { ...DEFAULT_SNAP_SETTINGS, ...(JSON.parse(raw) as Partial<SnapSettings>) } : DEFAULT_SNAP_SETTINGS;
+    } catch (error) {
+        console.error('Failed to parse snap settings', error);
+        return DEFAULT_SNAP_SETTINGS;
+    }
+};
+
+export const saveSnapSettings = (settings: SnapSettings) => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export type Box = { left: number; top: number; width: number; height: number };
+
+/** A line something can snap to. `start`/`end` are its extent along the other axis. */
+export type SnapLine = { position: number; start: number; end: number; box?: Box };
+
+export type SnapTargets = { vertical: SnapLine[]; horizontal: SnapLine[] };
+
+export type SnapGuide = {
+    orientation: 'vertical' | 'horizontal';
+    position: number;
+    start: number;
+    end: number;
+    // Gap to the aligned object, measured along the guide
+    distance?: { from: number; to: number };
+};
+
+/** A measured gap used for equal-spacing hints. `cross` is where it is drawn on the other axis. */
+export type SpacingHint = { orientation: 'horizontal' | 'vertical'; from: number; to: number; cross: number };
+
+export type SnapResult = { dx: number; dy: number; guides: SnapGuide[]; spacings: SpacingHint[] };
+
+export type Edge = 'start' | 'center' | 'end';
+
+type Axis = 'x' | 'y';
+
+const EPSILON = 0.5;
+
+const axisStart = (box: Box, axis: Axis) => (axis === 'x' ? box.left : box.top);
+const axisSize = (box: Box, axis: Axis) => (axis === 'x' ? box.width : box.height);
+const crossStart = (box: Box, axis: Axis) => (axis === 'x' ? box.top : box.left);
+const crossSize = (box: Box, axis: Axis) => (axis === 'x' ? box.height : box.width);
+
+const edgeValue = (box: Box, axis: Axis, edge: Edge) => {
+    const start = axisStart(box, axis);
+    if (edge === 'start') return start;
+    if (edge === 'center') return start + axisSize(box, axis) / 2;
+    return start + axisSize(box, axis);
+};
+
+const linesForBox = (box: Box, axis: Axis, source?: Box): SnapLine[] => {
+    const start = crossStart(box, axis);
+    const end = start + crossSize(box, axis);
+    return (['start', 'center', 'end'] as Edge[]).map((edge) => ({ position: edgeValue(box, axis, edge), start, end, box: source }));
+};
+
+/** Build the snap lines for the artboard (edges + centre), other objects and the active grid. */
+export const collectSnapTargets = (artboard: Box | null, others: Box[], grid: { vertical: number[]; horizontal: number[] }): SnapTargets => {
+    const vertical: SnapLine[] = [];
+    const horizontal: SnapLine[] = [];
+
+    if (artboard) {
+        vertical.push(...linesForBox(artboard, 'x'));
+        horizontal.push(...linesForBox(artboard, 'y'));
+        grid.vertical.forEach((x) => vertical.push({ position: x, start: artboard.top, end: artboard.top + artboard.height }));
+        grid.horizontal.forEach((y) => horizontal.push({ position: y, start: artboard.left, end: artboard.left + artboard.width }));
+    }
+
+    others.forEach((box) => {
+        vertical.push(...linesForBox(box, 'x', box));
+        horizontal.push(...linesForBox(box, 'y', box));
+    });
+
+    return { vertical, horizontal };
+};
+
+const snapAxis = (box: Box, axis: Axis, lines: SnapLine[], edges: Edge[], threshold: number) => {
+    let best: number | null = null;
+    edges.forEach((edge) => {
+        const value = edgeValue(box, axis, edge);
+        lines.forEach((line) => {
+            const delta = line.position - value;
+            if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) {
+                best = delta;
+            }
+        });
+    });
+    return best as number | null;
+};
+
+const guidesForAxis = (box: Box, axis: Axis, lines: SnapLine[], edges: Edge[]): SnapGuide[] => {
+    const guides: SnapGuide[] = [];
+    const boxCrossStart = crossStart(box, axis);
+    const boxCrossEnd = boxCrossStart + crossSize(box, axis);
+
+    edges.forEach((edge) => {
+        const value = edgeValue(box, axis, edge);
+        lines.forEach((line) => {
+            if (Math.abs(line.position - value) > EPSILON) return;
+            const guide: SnapGuide = {
+                orientation: axis === 'x' ? 'vertical' : 'horizontal',
+                position: line.position,
+                start: Math.min(line.start, boxCrossStart),
+                end: Math.max(line.end, boxCrossEnd),
+            };
+            if (line.box) {
+                if (line.start >= boxCrossEnd) guide.distance = { from: boxCrossEnd, to: line.start };
+                else if (line.end <= boxCrossStart) guide.distance = { from: line.end, to: boxCrossStart };
+            }
+            guides.push(guide);
+        });
+    });
+    return guides;
+};
+
+const overlapsOnCross = (a: Box, b: Box, axis: Axis) => {
+    const aStart = crossStart(a, axis);
+    const bStart = crossStart(b, axis);
+    return aStart < bStart + crossSize(b, axis) && bStart < aStart + crossSize(a, axis);
+};
+
+/**
+ * Equal-spacing candidates along one axis: centring between the nearest neighbours, or repeating
+ * a gap that already exists between two objects in the same row/column.
+ */
+const snapSpacing = (box: Box, axis: Axis, others: Box[], threshold: number) => {
+    const row = others.filter((other) => overlapsOnCross(box, other, axis))
+        .sort((a, b) => axisStart(a, axis) - axisStart(b, axis));
+    if (row.length === 0) return null;
+
+    const size = axisSize(box, axis);
+    const start = axisStart(box, axis);
+    const center = start + size / 2;
+    const end = (other: Box) => axisStart(other, axis) + axisSize(other, axis);
+
+    const before = row.filter((other) => end(other) <= center).sort((a, b) => end(b) - end(a))[0];
+    const after = row.filter((other) => axisStart(other, axis) >= center)[0];
+
+    const gaps: { gap: number; from: number; to: number; cross: number }[] = [];
+    for (let i = 0; i < row.length - 1; i += 1) {
+        const gap = axisStart(row[i + 1], axis) - end(row[i]);
+        if (gap > 0) {
+            gaps.push({ gap, from: end(row[i]), to: axisStart(row[i + 1], axis), cross: crossStart(row[i], axis) + crossSize(row[i], axis) / 2 });
+        }
+    }
+
+    type Candidate = { delta: number; hints: { from: number; to: number; cross: number }[] };
+    const candidates: Candidate[] = [];
+    const crossOf = (other: Box) => crossStart(other, axis) + crossSize(other, axis) / 2;
+
+    if (before && after) {
+        const desired = (end(before) + axisStart(after, axis) - size) / 2;
+        if (desired >= end(before)) {
+            candidates.push({
+                delta: desired - start,
+                hints: [
+                    { from: end(before), to: desired, cross: crossOf(before) },
+                    { from: desired + size, to: axisStart(after, axis), cross: crossOf(after) },
+                ],
+            });
+        }
+    }
+
+    gaps.forEach((existing) => {
+        if (before) {
+            const desired = end(before) + existing.gap;
+            candidates.push({ delta: desired - start, hints: [existing, { from: end(before), to: desired, cross: crossOf(before) }] });
+        }
+        if (after) {
+            const desired = axisStart(after, axis) - existing.gap - size;
+            candidates.push({ delta: desired - start, hints: [existing, { from: desired + size, to: axisStart(after, axis), cross: crossOf(after) }] });
+        }
+    });
+
+    const best = candidates
+        .filter((candidate) => Math.abs(candidate.delta) <= threshold)
+        .sort((a, b) => Math.abs(a.delta) - Math.abs(b.delta))[0];
+    if (!best) return null;
+
+    return {
+        delta: best.delta,
+        hints: best.hints.map<SpacingHint>((hint) => ({ orientation: axis === 'x' ? 'horizontal' : 'vertical', ...hint })),
+    };
+};
+
+/** Snap a box being dragged. Edge alignment wins over equal spacing when both are in range. */
+export const computeMoveSnap = (box: Box, targets: SnapTargets, others: Box[], threshold: number): SnapResult => {
+    const result: SnapResult = { dx: 0, dy: 0, guides: [], spacings: [] };
+    const edges: Edge[] = ['start', 'center', 'end'];
+
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+        const lines = axis === 'x' ? targets.vertical : targets.horizontal;
+        const edgeDelta = snapAxis(box, axis, lines, edges, threshold);
+        const spacing = snapSpacing(box, axis, others, threshold);
+
+        let delta = 0;
+        if (edgeDelta !== null && (!spacing || Math.abs(edgeDelta) <= Math.abs(spacing.delta))) {
+            delta = edgeDelta;
+        } else if (spacing) {
+            delta = spacing.delta;
+            result.spacings.push(...spacing.hints);
+        }
+
+        if (axis === 'x') result.dx = delta;
+        else result.dy = delta;
+    });
+
+    const snapped = { ...box, left: box.left + result.dx, top: box.top + result.dy };
+    result.guides.push(...guidesForAxis(snapped, 'x', targets.vertical, edges));
+    result.guides.push(...guidesForAxis(snapped, 'y', targets.horizontal, edges));
+    return result;
+};
+
+/** Snap only the edges a resize handle is dragging (`null` leaves that axis alone). */
+export const computeResizeSnap = (box: Box, targets: SnapTargets, xEdge: Edge | null, yEdge: Edge | null, threshold: number): SnapResult => {
+    const dx = xEdge ? snapAxis(box, 'x', targets.vertical, [xEdge], threshold) : null;
+    const dy = yEdge ? snapAxis(box, 'y', targets.horizontal, [yEdge], threshold) : null;
+    return { dx: dx ?? 0, dy: dy ?? 0, guides: [], spacings: [] };
+};
+
+/** Guides for a box that has already been snapped, limited to the given edges. */
+export const collectGuides = (box: Box, targets: SnapTargets, xEdges: Edge[], yEdges: Edge[]): SnapGuide[] => [
+    ...guidesForAxis(box, 'x', targets.vertical, xEdges),
+    ...guidesForAxis(box, 'y', targets.horizontal, yEdges),
+];
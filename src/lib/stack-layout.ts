@@ -0,0 +1,202 @@
+// src/lib/stack-layout.ts
+import * as fabric from 'fabric';
+import { ExtendedFabricObject, StackDirection, StackLayout } from '@/types';
+import { canStretch } from '@/lib/layout-constraints';
+
+/**
+ * Stacks are groups whose children sit in a row or column, in layer order, with a fixed gap
+ * and padding. The layout runs as a Fabric layout strategy, so a stack re-flows whenever Fabric
+ * lays the group out: children added or removed, a child transformed or its text edited.
+ * Changes Fabric does not watch (hiding a child, reordering children, new stack settings) call
+ * `reflowStack` or `reflowParentStack`.
+ *
+ * A stack keeps its top-left corner where it is while it grows or shrinks.
+ */
+export const DEFAULT_STACK_LAYOUT: StackLayout = {
+    direction: 'vertical',
+    gap: 16,
+    padding: 0,
+    align: 'start',
+    sizing: 'hug',
+};
+
+const MIN_SIZE = 1;
+
+export const isStack = (obj: fabric.Object | null | undefined): obj is fabric.Group =>
+    obj instanceof fabric.Group && Boolean((obj as ExtendedFabricObject).stackLayout);
+
+/** Text boxes re-wrap to a new width and plain shapes stretch; anything else keeps its size in a stack. */
+export const canFillStack = (obj: fabric.Object) =>
+    Math.abs((obj.angle ?? 0) % 180) < 0.01 && (obj instanceof fabric.Textbox || canStretch(obj));
+
+const fillsStack = (obj: fabric.Object) => (obj as ExtendedFabricObject).stackFill === true && canFillStack(obj);
+
+// The child's box in its group's plane, measured the way Fabric's own layouts measure it
+const measure = (obj: fabric.Object) => {
+    const stroke = obj.strokeWidth ?? 0;
+    const size = fabric.util.sizeAfterTransform(
+        obj.width + (obj.strokeUniform ? 0 : stroke),
+        obj.height + (obj.strokeUniform ? 0 : stroke),
+        obj.calcOwnMatrix(),
+    );
+    return obj.strokeUniform ? size.scalarAdd(stroke) : size;
+};
+
+const along = (size: fabric.Point, direction: StackDirection) => (direction === 'horizontal' ? size.x : size.y);
+const across = (size: fabric.Point, direction: StackDirection) => (direction === 'horizontal' ? size.y : size.x);
+
+const resizeChild = (obj: fabric.Object, width: number | null, height: number | null) => {
+    const current = measure(obj);
+    if (obj instanceof fabric.Textbox) {
+        // Only the width is free; the height follows the wrapped text
+        if (width !== null) {
+            obj.set({ width: Math.max(MIN_SIZE, obj.width + (width - current.x) / obj.scaleX) });
+            obj.initDimensions();
+        }
+        return;
+    }
+    obj.set({
+        scaleX: width !== null && current.x > 0 ? obj.scaleX * (Math.max(MIN_SIZE, width) / current.x) : obj.scaleX,
+        scaleY: height !== null && current.y > 0 ? obj.scaleY * (Math.max(MIN_SIZE, height) / current.y) : obj.scaleY,
+    });
+};
+
+/**
+ * Place the visible children of `group` in its own plane and return the stack's box in that
+ * plane. Hidden children keep their place and take no space.
+ */
+const arrangeStack = (group: fabric.Group, layout: StackLayout) => {
+    const { direction, align } = layout;
+    const gap = layout.gap;
+    const padding = Math.max(0, layout.padding);
+    const fixed = layout.sizing === 'fixed';
+    const frame = new fabric.Point(group.width, group.height);
+    const children = group.getObjects().filter((child) => child.visible !== false);
+    const fills = children.filter(fillsStack);
+    const gaps = gap * Math.max(0, children.length - 1);
+
+    // Fill children match the stack's inner width across it, or the widest child that hugs
+    const hugging = children.filter((child) => !fills.includes(child));
+    const crossSize = fixed
+        ? Math.max(0, across(frame, direction) - padding * 2)
+        : Math.max(0, ...(hugging.length > 0 ? hugging : children).map((child) => across(measure(child), direction)));
+    // A fixed stack shares its free space along the stack between the fill children
+    const used = hugging.reduce((sum, child) => sum + along(measure(child), direction), 0) + gaps;
+    const share = fixed && fills.length > 0
+        ? Math.max(MIN_SIZE, (along(frame, direction) - padding * 2 - used) / fills.length)
+        : null;
+    fills.forEach((child) => {
+        if (direction === 'horizontal') resizeChild(child, share, crossSize);
+        else resizeChild(child, crossSize, share);
+    });
+
+    const sizes = children.map(measure);
+    const total = sizes.reduce((sum, size) => sum + along(size, direction), 0) + gaps;
+    const size = fixed
+        ? frame
+        : direction === 'horizontal'
+            ? new fabric.Point(total + padding * 2, crossSize + padding * 2)
+            : new fabric.Point(crossSize + padding * 2, total + padding * 2);
+
+    const origin = frame.scalarDivide(-2);
+    let cursor = padding;
+    children.forEach((child, index) => {
+        const childAlong = along(sizes[index], direction);
+        const free = crossSize - across(sizes[index], direction);
+        const offset = padding + (align === 'start' ? 0 : align === 'center' ? free / 2 : free);
+        const center = direction === 'horizontal'
+            ? new fabric.Point(cursor + childAlong / 2, offset + sizes[index].y / 2)
+            : new fabric.Point(offset + sizes[index].x / 2, cursor + childAlong / 2);
+        child.setRelativeXY(origin.add(center), 'center', 'center');
+        cursor += childAlong + gap;
+    });
+
+    return { origin, size };
+};
+
+/** Fabric layout strategy for stacks; saved with the group as `layoutManager.strategy: 'stack'`. */
+export class StackLayoutStrategy extends fabric.LayoutStrategy {
+    static readonly type = 'stack';
+
+    // Every change to a child can move its siblings
+    shouldPerformLayout() {
+        return true;
+    }
+
+    calcBoundingBox(objects: fabric.FabricObject[], context: fabric.StrictLayoutContext): fabric.LayoutStrategyResult | undefined {
+        const { target, type } = context;
+        const layout = (target as ExtendedFabricObject).stackLayout;
+        // Groups being built are measured as usual and arranged by the first re-flow
+        if (!layout || type === 'initialization') return super.calcBoundingBox(objects, context);
+        const { origin, size } = arrangeStack(target, layout);
+        return {
+            // The manager moves the children so they are relative to the new centre
+            center: origin.add(size.scalarDivide(2)).transform(target.calcOwnMatrix()),
+            size,
+        };
+    }
+}
+
+fabric.classRegistry.setClass(StackLayoutStrategy);
+
+/** Lay out a stack's children again and refresh their hit areas. */
+export const reflowStack = (group: fabric.Group) => {
+    group.triggerLayout();
+    group.setCoords();
+    group.forEachObject((child) => child.setCoords());
+};
+
+/** Re-flow the stack `obj` sits in, if any; its parents follow. */
+export const reflowParentStack = (obj: fabric.Object) => {
+    // `parent` rather than `group`, which is the multi-selection while the object is in one
+    if (isStack(obj.parent)) reflowStack(obj.parent);
+};
+
+/** Turn a group into a stack, or update a stack's settings, and re-flow it. */
+export const setStackLayout = (group: fabric.Group, layout: StackLayout) => {
+    (group as ExtendedFabricObject).set({ stackLayout: layout });
+    if (!(group.layoutManager.strategy instanceof StackLayoutStrategy)) {
+        group.layoutManager.strategy = new StackLayoutStrategy();
+    }
+    reflowStack(group);
+};
+
+/** Back to a plain group; children stay where the stack put them. */
+export const removeStackLayout = (group: fabric.Group) => {
+    (group as ExtendedFabricObject).set({ stackLayout: undefined });
+    group.getObjects().forEach((child) => (child as ExtendedFabricObject).set({ stackFill: undefined }));
+    group.layoutManager.strategy = new fabric.FitContentLayout();
+    reflowStack(group);
+};
+
+/**
+ * Group `objects` (top-level canvas objects) into a new stack, ordered by where they sit along
+ * the direction they are spread out in, so the stack matches what was on the canvas.
+ */
+export const createStack = (canvas: fabric.Canvas, objects: fabric.Object[], layout: Partial<StackLayout> = {}) => {
+    // Objects in a multi-selection are positioned relative to it until it is dropped
+    canvas.discardActiveObject();
+    const bounds = objects.map((obj) => obj.getBoundingRect());
+    const spanX = Math.max(...bounds.map((b) => b.left + b.width)) - Math.min(...bounds.map((b) => b.left));
+    const spanY = Math.max(...bounds.map((b) => b.top + b.height)) - Math.min(...bounds.map((b) => b.top));
+    const direction: StackDirection = layout.direction ?? (spanX > spanY ? 'horizontal' : 'vertical');
+    const sorted = bounds
+        .map((b, index) => ({ b, index }))
+        .sort((a, b) => (direction === 'horizontal' ? a.b.left - b.b.left : a.b.top - b.b.top));
+    const ordered = sorted.map(({ index }) => objects[index]);
+    // Keep the spacing the objects already had, on average
+    const spacing = sorted.slice(1).map(({ b }, i) => {
+        const previous = sorted[i].b;
+        return direction === 'horizontal' ? b.left - (previous.left + previous.width) : b.top - (previous.top + previous.height);
+    });
+    const gap = spacing.length > 0
+        ? Math.max(0, Math.round(spacing.reduce((sum, value) => sum + value, 0) / spacing.length))
+        : DEFAULT_STACK_LAYOUT.gap;
+
+    const index = Math.min(...objects.map((obj) => canvas.getObjects().indexOf(obj)));
+    objects.forEach((obj) => canvas.remove(obj));
+    const group = new fabric.Group(ordered, { subTargetCheck: true, interactive: true });
+    canvas.insertAt(index, group);
+    setStackLayout(group, { ...DEFAULT_STACK_LAYOUT, gap, ...layout, direction });
+    return group;
+};
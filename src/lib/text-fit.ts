@@ -0,0 +1,278 @@
+// src/lib/text-fit.ts
+import * as fabric from 'fabric';
+import { ExtendedFabricObject, TextFit } from '@/types';
+
+/**
+ * Fit modes for text boxes, for templates whose text is replaced by content of any length.
+ * Without a mode a text box keeps Fabric's behaviour and grows in height. Grow width widens the
+ * box to its longest line instead of wrapping. Shrink and truncate keep a box of fixed size:
+ * shrink picks the largest font size between the bounds at which the text fits, truncate cuts
+ * the text short with an ellipsis and keeps the whole text and its character styles in
+ * `textFitSource` and `textFitSourceStyles`, so editing and new content start from all of it. Fitting keeps the top of the box and the side the text is
+ * aligned to in place.
+ *
+ * The fitted text is what is saved, so exports and stock Fabric show it as the editor does.
+ * `textOverflow` marks text that still does not fit.
+ */
+export type FittedTextbox = fabric.Textbox & Pick<ExtendedFabricObject, 'textFit' | 'textFitSource' | 'textFitSourceStyles' | 'textOverflow'>;
+
+export const DEFAULT_MIN_FONT_SIZE = 8;
+
+const ELLIPSIS = '…';
+
+// Wide enough that no line wraps while the longest line is measured
+const UNWRAPPED_WIDTH = 1e6;
+
+// Measured sizes are fractional; text this much too big still fits
+const TOLERANCE = 0.5;
+
+const fireCanvasEvent = (canvas: fabric.Canvas, eventName: string, options?: Record<string, unknown>) => {
+    (canvas.fire as (eventName: string, options?: Record<string, unknown>) => fabric.Canvas)(eventName, options);
+};
+
+export const getTextFit = (obj: fabric.Object | null | undefined) =>
+    obj instanceof fabric.Textbox ? (obj as FittedTextbox).textFit : undefined;
+
+/** The text as typed or merged in, before truncation. */
+export const getFullText = (text: fabric.FabricText) => (text as ExtendedFabricObject).textFitSource ?? text.text;
+
+/** The character styles of the text as typed or merged in, before truncation. */
+export const getFullStyles = (text: fabric.FabricText) => {
+    const fitted = text as ExtendedFabricObject;
+    return fitted.textFitSource !== undefined ? fitted.textFitSourceStyles ?? {} : text.styles;
+};
+
+// Characters sized on their own keep their size relative to the rest
+const setFontSize = (text: fabric.Textbox, size: number) => {
+    const ratio = size / text.fontSize;
+    if (ratio === 1 || !Number.isFinite(ratio)) return;
+    Object.values(text.styles).forEach((line) => Object.values(line).forEach((charStyle) => {
+        if (charStyle.fontSize !== undefined) charStyle.fontSize *= ratio;
+        if (charStyle.deltaY !== undefined) charStyle.deltaY *= ratio;
+    }));
+    text.fontSize = size;
+};
+
+const layOut = (text: fabric.Textbox, width: number) => {
+    text.width = width;
+    text.initDimensions();
+};
+
+// Fabric widens a text box to its longest word, so a word too long for the box shows in `dynamicMinWidth`
+const fitsBox = (text: fabric.Textbox, width: number, height: number) =>
+    text.height <= height + TOLERANCE && text.dynamicMinWidth <= width + TOLERANCE;
+
+const growToWidth = (text: fabric.Textbox) => {
+    layOut(text, UNWRAPPED_WIDTH);
+    layOut(text, Math.ceil(text.calcTextWidth()) + 1);
+    return false;
+};
+
+const shrinkToFit = (text: fabric.Textbox, fit: TextFit, width: number, height: number) => {
+    const max = fit.maxFontSize ?? text.fontSize;
+    const min = Math.min(fit.minFontSize ?? DEFAULT_MIN_FONT_SIZE, max);
+    const fitsAt = (size: number) => {
+        setFontSize(text, size);
+        layOut(text, width);
+        return fitsBox(text, width, height);
+    };
+    if (fitsAt(max)) return false;
+    if (!fitsAt(min)) return true;
+    let low = min;
+    let high = max;
+    while (high - low > 0.1) {
+        const middle = (low + high) / 2;
+        if (fitsAt(middle)) low = middle;
+        else high = middle;
+    }
+    fitsAt(Math.floor(low * 10) / 10);
+    return false;
+};
+
+// The styles of the characters in `kept`, a start of the text; styles past it are dropped
+const stylesWithin = (styles: fabric.TextStyle, kept: string) => {
+    const result: fabric.TextStyle = {};
+    kept.split('\n').forEach((line, lineIndex) => {
+        const length = Array.from(line).length;
+        const lineStyles = Object.entries(styles[lineIndex] ?? {}).filter(([charIndex]) => Number(charIndex) < length);
+        if (lineStyles.length > 0) {
+            result[lineIndex] = Object.fromEntries(lineStyles.map(([charIndex, style]) => [charIndex, { ...style }]));
+        }
+    });
+    return result;
+};
+
+const truncateToFit = (text: FittedTextbox, width: number, height: number) => {
+    const source = text.textFitSource ?? text.text;
+    const sourceStyles = text.textFitSource !== undefined ? text.textFitSourceStyles ?? {} : text.styles;
+    const fitsWith = (value: string, styles: fabric.TextStyle) => {
+        text.text = value;
+        text.styles = styles;
+        layOut(text, width);
+        return fitsBox(text, width, height);
+    };
+    if (fitsWith(source, sourceStyles)) {
+        text.textFitSource = undefined;
+        text.textFitSourceStyles = undefined;
+        return false;
+    }
+    // The longest start of the text that fits with an ellipsis after it
+    const graphemes = Array.from(source);
+    const kept = (count: number) => graphemes.slice(0, count).join('').trimEnd();
+    const fitsShortened = (count: number) => fitsWith(`${kept(count)}${ELLIPSIS}`, stylesWithin(sourceStyles, kept(count)));
+    let low = 0;
+    let high = graphemes.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (fitsShortened(middle)) low = middle;
+        else high = middle - 1;
+    }
+    fitsShortened(low);
+    text.textFitSource = source;
+    text.textFitSourceStyles = sourceStyles;
+    return true;
+};
+
+/**
+ * Fit the text box to its text as its mode says. Text being edited is never truncated, so the
+ * whole text stays editable; it is only checked for overflow. Returns whether `textOverflow`
+ * changed.
+ */
+export const fitTextBox = (text: fabric.Textbox) => {
+    const fitted = text as FittedTextbox;
+    const fit = fitted.textFit;
+    const wasOverflowing = Boolean(fitted.textOverflow);
+    if (!fit) {
+        fitted.textOverflow = undefined;
+        return wasOverflowing;
+    }
+
+    const originX = text.textAlign === 'center' ? 'center' : text.textAlign === 'right' ? 'right' : 'left';
+    const anchor = text.getPointByOrigin(originX, 'top');
+    const width = fit.width ?? text.width;
+    const height = fit.height ?? text.height;
+
+    let overflow = false;
+    if (fit.mode === 'grow-width') {
+        overflow = growToWidth(text);
+    } else if (fit.mode === 'shrink') {
+        overflow = shrinkToFit(text, fit, width, height);
+    } else if (fit.mode === 'truncate') {
+        if (text.isEditing) {
+            layOut(text, width);
+            overflow = !fitsBox(text, width, height);
+        } else {
+            overflow = truncateToFit(fitted, width, height);
+        }
+    }
+
+    text.setPositionByOrigin(anchor, originX, 'top');
+    text.setCoords();
+    text.set('dirty', true);
+    fitted.textOverflow = overflow || undefined;
+    return overflow !== wasOverflowing;
+};
+
+/**
+ * Set or clear the fit mode of a text box. Shrink and truncate take the box as it is now and,
+ * for shrink, the current font size as the largest; `fit` can override either.
+ */
+export const setTextFit = (text: fabric.Textbox, fit: TextFit | null) => {
+    const fitted = text as FittedTextbox;
+    if (fitted.textFitSource !== undefined) {
+        text.set({ text: fitted.textFitSource, styles: fitted.textFitSourceStyles ?? {} });
+        fitted.textFitSource = undefined;
+        fitted.textFitSourceStyles = undefined;
+    }
+    if (!fit || fit.mode === 'grow-height') {
+        fitted.textFit = undefined;
+        fitted.textOverflow = undefined;
+        text.initDimensions();
+        text.setCoords();
+        return;
+    }
+    if (fit.mode === 'grow-width') {
+        fitted.textFit = { mode: fit.mode };
+    } else {
+        const previous = fitted.textFit;
+        const width = fit.width ?? previous?.width ?? text.width;
+        const height = fit.height ?? previous?.height ?? text.height;
+        fitted.textFit = fit.mode === 'shrink'
+            ? {
+                mode: fit.mode,
+                width,
+                height,
+                minFontSize: fit.minFontSize ?? previous?.minFontSize ?? Math.min(DEFAULT_MIN_FONT_SIZE, text.fontSize),
+                maxFontSize: fit.maxFontSize ?? previous?.maxFontSize ?? text.fontSize,
+            }
+            : { mode: fit.mode, width, height };
+    }
+    fitTextBox(text);
+};
+
+/**
+ * Fit the text box again after it was edited in the panel. A font size set by hand becomes the
+ * largest size shrinking starts from.
+ */
+export const refitTextBox = (text: fabric.Textbox, fontSizeBefore: number) => {
+    const fit = (text as FittedTextbox).textFit;
+    if (!fit) return false;
+    if (fit.mode === 'shrink' && text.fontSize !== fontSizeBefore) {
+        fit.maxFontSize = text.fontSize;
+        fit.minFontSize = Math.min(fit.minFontSize ?? DEFAULT_MIN_FONT_SIZE, text.fontSize);
+    }
+    return fitTextBox(text);
+};
+
+const collectFittedText = (objects: fabric.Object[], found: fabric.Textbox[] = []) => {
+    objects.forEach((obj) => {
+        if (getTextFit(obj)) found.push(obj as fabric.Textbox);
+        if (obj instanceof fabric.Group) collectFittedText(obj.getObjects(), found);
+    });
+    return found;
+};
+
+/**
+ * Keep text boxes fitted while they are typed in, resized, loaded or restored by undo, and fire
+ * `textfit:change` when one starts or stops overflowing. Truncated text shows in full while it
+ * is edited. Returns a function that stops watching.
+ */
+export const watchTextFit = (canvas: fabric.Canvas) => {
+    const refit = (text: fabric.Textbox) => {
+        if (fitTextBox(text)) fireCanvasEvent(canvas, 'textfit:change', { target: text });
+    };
+    const handleChanged = ({ target }: { target: fabric.Object }) => {
+        if (getTextFit(target)) refit(target as fabric.Textbox);
+    };
+    const handleResizing = ({ target }: { target: fabric.Object }) => {
+        const fit = getTextFit(target);
+        if (!fit) return;
+        // Dragging the side of a fixed box resizes the box
+        if (fit.width !== undefined) fit.width = target.width;
+        refit(target as fabric.Textbox);
+    };
+    const handleEditingEntered = ({ target }: { target: fabric.Object }) => {
+        const text = target as FittedTextbox;
+        if (!getTextFit(text) || text.textFitSource === undefined) return;
+        text.set({ text: text.textFitSource });
+        text.textFitSource = undefined;
+        if (text.hiddenTextarea) text.hiddenTextarea.value = text.text;
+        text._updateTextarea();
+        refit(text);
+    };
+    const handleAdded = ({ target }: { target: fabric.Object }) => collectFittedText([target]).forEach(refit);
+
+    canvas.on('text:changed', handleChanged);
+    canvas.on('text:editing:exited', handleChanged);
+    canvas.on('text:editing:entered', handleEditingEntered);
+    canvas.on('object:resizing', handleResizing);
+    canvas.on('object:added', handleAdded);
+    collectFittedText(canvas.getObjects()).forEach(refit);
+    return () => {
+        canvas.off('text:changed', handleChanged);
+        canvas.off('text:editing:exited', handleChanged);
+        canvas.off('text:editing:entered', handleEditingEntered);
+        canvas.off('object:resizing', handleResizing);
+        canvas.off('object:added', handleAdded);
+    };
+};
@@ -0,0 +1,232 @@
+// src/lib/text-path.ts
+import * as fabric from 'fabric';
+import { ExtendedFabricObject } from '@/types';
+import { isArtboardObject } from '@/lib/artboards';
+import { DESIGN_CUSTOM_PROPS } from '@/lib/design-schema';
+import { ensureObjectId, findObjectById } from '@/lib/fabric-utils';
+
+/**
+ * Text set along the outline of another object: a path or pen stroke, circle, ellipse,
+ * rectangle, triangle, polygon or line. The text keeps its own copy of the outline as Fabric's
+ * `path`, so it saves, exports to SVG and renders on the server like any text on a path, and
+ * `textPathId` names the object it follows. watchTextPaths keeps the copy in step while that
+ * object is moved, resized or rotated; the text itself moves only with its path.
+ */
+export type PathFollower = fabric.IText & Pick<ExtendedFabricObject, 'textPathId'>;
+
+// Fabric draws the characters along the copy, never the copy itself
+const OUTLINE_OPTIONS = { visible: false, fill: '', stroke: '' };
+
+// The text has no transform of its own while it follows a path
+const FOLLOWER_LOCKS = {
+    lockMovementX: true,
+    lockMovementY: true,
+    lockScalingX: true,
+    lockScalingY: true,
+    lockRotation: true,
+    lockSkewingX: true,
+    lockSkewingY: true,
+    hasControls: false,
+};
+
+export const canFollowPath = (obj: fabric.Object | null | undefined): obj is fabric.FabricObject =>
+    !!obj
+    && !isArtboardObject(obj)
+    && !(obj as ExtendedFabricObject).isAdjustmentLayer
+    && (obj instanceof fabric.Path
+        || obj instanceof fabric.Circle
+        || obj instanceof fabric.Ellipse
+        || obj instanceof fabric.Rect
+        || obj instanceof fabric.Triangle
+        || obj instanceof fabric.Polyline
+        || obj instanceof fabric.Line);
+
+export const isOnPath = (obj: fabric.Object | null | undefined): obj is PathFollower =>
+    obj instanceof fabric.IText && Boolean((obj as PathFollower).textPathId);
+
+const toPathData = (d: string) => fabric.util.makePathSimpler(fabric.util.parsePath(d));
+
+// Closed shapes start at the bottom and run clockwise, so centred text sits on top
+const getOutline = (obj: fabric.FabricObject): fabric.TSimplePathData => {
+    if (obj instanceof fabric.Path) {
+        return fabric.util.transformPath(obj.path as fabric.TSimplePathData, [1, 0, 0, 1, 0, 0], obj.pathOffset);
+    }
+    if (obj instanceof fabric.Circle) {
+        const r = obj.radius;
+        const span = obj.counterClockwise ? obj.startAngle - obj.endAngle : obj.endAngle - obj.startAngle;
+        const sweep = ((span % 360) + 360) % 360;
+        if (sweep === 0) return toPathData(`M 0 ${r} A ${r} ${r} 0 0 1 0 ${-r} A ${r} ${r} 0 0 1 0 ${r}`);
+        const point = (degrees: number) => {
+            const radians = fabric.util.degreesToRadians(degrees);
+            return `${r * Math.cos(radians)} ${r * Math.sin(radians)}`;
+        };
+        return toPathData(`M ${point(obj.startAngle)} A ${r} ${r} 0 ${sweep > 180 ? 1 : 0} ${obj.counterClockwise ? 0 : 1} ${point(obj.endAngle)}`);
+    }
+    if (obj instanceof fabric.Ellipse) {
+        const { rx, ry } = obj;
+        return toPathData(`M 0 ${ry} A ${rx} ${ry} 0 0 1 0 ${-ry} A ${rx} ${ry} 0 0 1 0 ${ry}`);
+    }
+    const w = obj.width / 2;
+    const h = obj.height / 2;
+    if (obj instanceof fabric.Rect) return toPathData(`M 0 ${h} L ${-w} ${h} L ${-w} ${-h} L ${w} ${-h} L ${w} ${h} Z`);
+    if (obj instanceof fabric.Triangle) return toPathData(`M 0 ${h} L ${-w} ${h} L 0 ${-h} L ${w} ${h} Z`);
+    if (obj instanceof fabric.Line) {
+        const { x1, y1, x2, y2 } = obj.calcLinePoints();
+        return toPathData(`M ${x1} ${y1} L ${x2} ${y2}`);
+    }
+    const polyline = obj as fabric.Polyline;
+    const points = polyline.points.map((point) => `${point.x - polyline.pathOffset.x} ${point.y - polyline.pathOffset.y}`);
+    return toPathData(`M ${points.join(' L ')}${obj instanceof fabric.Polygon ? ' Z' : ''}`);
+};
+
+/**
+ * Lay `text` along the current outline of `target`. The outline is copied at its size on the
+ * canvas, so scaling the target spaces the letters out instead of stretching them.
+ */
+export const followPath = (text: PathFollower, target: fabric.FabricObject) => {
+    const matrix = target.calcTransformMatrix();
+    const { angle } = fabric.util.qrDecompose(matrix);
+    const rotation = fabric.util.createRotateMatrix({ angle });
+    // Everything but position and rotation goes into the outline
+    const shape = fabric.util.multiplyTransformMatrices(
+        fabric.util.createRotateMatrix({ angle: -angle }),
+        [matrix[0], matrix[1], matrix[2], matrix[3], 0, 0],
+    );
+    const path = new fabric.Path(fabric.util.transformPath(getOutline(target), shape, new fabric.Point(0, 0)), OUTLINE_OPTIONS);
+
+    // The text's centre is the centre of the outline's bounds
+    const center = fabric.util.transformPoint(path.pathOffset, [...rotation.slice(0, 4), matrix[4], matrix[5]] as fabric.TMat2D);
+    let placement: fabric.TMat2D = [rotation[0], rotation[1], rotation[2], rotation[3], center.x, center.y];
+    if (text.group) placement = fabric.util.multiplyTransformMatrices(fabric.util.invertTransform(text.group.calcTransformMatrix()), placement);
+
+    text.set({ path, ...FOLLOWER_LOCKS });
+    fabric.util.applyTransformToObject(text, placement);
+    text.setCoords();
+    text.set('dirty', true);
+};
+
+const collectFollowers = (objects: fabric.Object[], found: PathFollower[] = []) => {
+    objects.forEach((obj) => {
+        if (isOnPath(obj)) found.push(obj);
+        if (obj instanceof fabric.Group) collectFollowers(obj.getObjects(), found);
+    });
+    return found;
+};
+
+export const findPathTarget = (canvas: fabric.Canvas, text: PathFollower) => {
+    const target = text.textPathId ? findObjectById(canvas.getObjects(), text.textPathId) : undefined;
+    return canFollowPath(target) ? target : undefined;
+};
+
+/** Length of the outline the text runs along, the range of its offset. */
+export const getPathLength = (text: fabric.FabricText) => {
+    const segments = text.path?.segmentsInfo;
+    return segments?.length ? segments[segments.length - 1].length : 0;
+};
+
+/**
+ * Set `text` along `target`. Text boxes wrap to their width, which a path does not have, so a
+ * text box is replaced by plain text with the same content and styles; the text now on the
+ * canvas is returned.
+ */
+export const attachTextToPath = async (canvas: fabric.Canvas, text: fabric.IText, target: fabric.FabricObject) => {
+    let follower = text as PathFollower;
+    if (text instanceof fabric.Textbox) {
+        const data = (text as fabric.Object).toObject(DESIGN_CUSTOM_PROPS) as Record<string, unknown>;
+        delete data.minWidth;
+        delete data.splitByGrapheme;
+        follower = await fabric.IText.fromObject({ ...data, type: fabric.IText.type });
+        const index = canvas.getObjects().indexOf(text);
+        canvas.remove(text);
+        canvas.insertAt(index, follower);
+    }
+    // The arch of curved text is a path of its own
+    (follower as ExtendedFabricObject).set({ curveStrength: undefined, curveCenter: undefined });
+    follower.set({ textPathId: ensureObjectId(target), textAlign: 'center', pathStartOffset: 0 });
+    followPath(follower, target);
+    return follower;
+};
+
+/** Straighten the text again where it is, with its own position and controls back. */
+export const detachTextFromPath = (text: PathFollower) => {
+    const center = text.getCenterPoint();
+    const locked = Boolean((text as ExtendedFabricObject).locked);
+    text.set({
+        path: undefined,
+        textPathId: undefined,
+        pathStartOffset: 0,
+        pathSide: 'left',
+        pathAlign: 'baseline',
+        lockMovementX: locked,
+        lockMovementY: locked,
+        lockScalingX: false,
+        lockScalingY: false,
+        lockRotation: false,
+        lockSkewingX: false,
+        lockSkewingY: false,
+        hasControls: true,
+    });
+    text.initDimensions();
+    text.setPositionByOrigin(center, 'center', 'center');
+    text.setCoords();
+};
+
+const flatten = (obj: fabric.Object): fabric.Object[] =>
+    obj instanceof fabric.Group ? [obj, ...obj.getObjects().flatMap(flatten)] : [obj];
+
+/**
+ * Lay text along its path again after `target` changed: text following `target` or anything
+ * inside it, and text inside `target` itself, which has moved off its path.
+ */
+export const updatePathFollowers = (canvas: fabric.Canvas, target: fabric.Object) => {
+    const followers = collectFollowers(canvas.getObjects());
+    if (followers.length === 0) return;
+    const changed = flatten(target);
+    const changedIds = new Set(changed.filter(canFollowPath).map((obj) => (obj as ExtendedFabricObject).id).filter(Boolean));
+    followers
+        .filter((text) => changedIds.has(text.textPathId) || changed.includes(text))
+        .forEach((text) => {
+            const path = findPathTarget(canvas, text);
+            if (path) followPath(text, path);
+        });
+};
+
+const updateAllFollowers = (canvas: fabric.Canvas) => {
+    collectFollowers(canvas.getObjects()).forEach((text) => {
+        const target = findPathTarget(canvas, text);
+        if (target) followPath(text, target);
+    });
+};
+
+/**
+ * Keep text on paths following their paths while the canvas is edited, including pages being
+ * resized, designs being opened and undo. Returns a function that stops watching.
+ */
+export const watchTextPaths = (canvas: fabric.Canvas) => {
+    const handleTransform = ({ target }: { target?: fabric.Object }) => {
+        if (!target) return;
+        updatePathFollowers(canvas, target);
+        canvas.requestRenderAll();
+    };
+    const handleAdded = ({ target }: { target: fabric.Object }) => {
+        if (isOnPath(target)) {
+            const path = findPathTarget(canvas, target);
+            if (path) followPath(target, path);
+        } else {
+            updatePathFollowers(canvas, target);
+        }
+    };
+    const handlePageResize = () => updateAllFollowers(canvas);
+    const customEvents = canvas as unknown as { on: (name: string, handler: () => void) => void; off: (name: string, handler: () => void) => void };
+
+    const transformEvents = ['object:moving', 'object:scaling', 'object:rotating', 'object:skewing', 'object:resizing', 'object:modified'] as const;
+    transformEvents.forEach((name) => canvas.on(name, handleTransform));
+    canvas.on('object:added', handleAdded);
+    customEvents.on('artboard:resize', handlePageResize);
+    updateAllFollowers(canvas);
+    return () => {
+        transformEvents.forEach((name) => canvas.off(name, handleTransform));
+        canvas.off('object:added', handleAdded);
+        customEvents.off('artboard:resize', handlePageResize);
+    };
+};
@@ -0,0 +1,301 @@
+// src/lib/text-styles.ts
+import * as fabric from 'fabric';
+import { BrandTextStyle, ExtendedFabricObject, TextStyleKind, TextStyleSheet, TextTransform } from '@/types';
+import { getStyleRange, setTextTransform } from '@/lib/rich-text';
+
+/**
+ * Named paragraph and character styles of a design. The list is kept on the canvas, saved in the
+ * design's `textStyles` next to its pages and restored with them. A text object names its
+ * paragraph style in `paragraphStyleId`; characters formatted by a character style carry its id
+ * in their Fabric character style, so the link moves with them as the text is edited. Both hold
+ * the style's values as well, so text draws and exports the same without the list.
+ *
+ * Text that differs from its style is overridden: editing a style updates the values its users
+ * still share with it and leaves their overrides alone, and resetting a text drops them.
+ */
+export type CanvasWithTextStyles = fabric.Canvas & {
+    textStyles?: TextStyleSheet[];
+};
+
+// Key in Fabric's character styles linking a character to its character style
+const CHARACTER_STYLE_KEY = 'characterStyleId';
+
+const CHARACTER_PROPS = ['fontFamily', 'fontWeight', 'fontStyle', 'fontSize', 'fill', 'underline'] as const;
+const PARAGRAPH_PROPS = [...CHARACTER_PROPS, 'lineHeight', 'charSpacing', 'textAlign', 'textTransform'] as const;
+
+export type TextStyleProp = typeof PARAGRAPH_PROPS[number];
+
+export const TEXT_STYLE_PROP_LABELS: Record<TextStyleProp, string> = {
+    fontFamily: 'font',
+    fontWeight: 'weight',
+    fontStyle: 'italic',
+    fontSize: 'size',
+    fill: 'colour',
+    underline: 'underline',
+    lineHeight: 'line height',
+    charSpacing: 'letter spacing',
+    textAlign: 'alignment',
+    textTransform: 'transform',
+};
+
+type CharStyle = Record<string, unknown>;
+
+const fireCanvasEvent = (canvas: fabric.Canvas, eventName: string, options?: Record<string, unknown>) => {
+    (canvas.fire as (eventName: string, options?: Record<string, unknown>) => fabric.Canvas)(eventName, options);
+};
+
+export const getTextStyles = (canvas: fabric.StaticCanvas) => (canvas as CanvasWithTextStyles).textStyles ?? [];
+
+const setTextStyles = (canvas: fabric.Canvas, styles: TextStyleSheet[]) => {
+    (canvas as CanvasWithTextStyles).textStyles = styles;
+    fireCanvasEvent(canvas, 'textstyles:change', { textStyles: styles });
+};
+
+/** Replace the design's styles (after loading a design or restoring a history step). */
+export const restoreTextStyles = (canvas: fabric.Canvas, styles?: TextStyleSheet[] | null) =>
+    setTextStyles(canvas, (styles ?? []).map((style) => ({ ...style })));
+
+/** Plain copies of the styles for saving alongside the objects, see `serializeDesign`. */
+export const serializeTextStyles = (canvas: fabric.StaticCanvas): TextStyleSheet[] => getTextStyles(canvas).map((style) => ({ ...style }));
+
+export const createTextStyleId = () => `style-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const sameValue = (prop: TextStyleProp, a: unknown, b: unknown) => {
+    if (prop === 'underline') return Boolean(a) === Boolean(b);
+    if (prop === 'textTransform') return (a ?? 'none') === (b ?? 'none');
+    if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) < 0.01;
+    return String(a ?? '').toLowerCase() === String(b ?? '').toLowerCase();
+};
+
+const readTextProp = (text: fabric.IText, prop: TextStyleProp): unknown =>
+    prop === 'textTransform' ? (text as ExtendedFabricObject).textTransform ?? 'none' : text[prop];
+
+const pickProps = (style: TextStyleSheet, props: readonly TextStyleProp[]) =>
+    Object.fromEntries(props.filter((prop) => style[prop] !== undefined).map((prop) => [prop, style[prop]]));
+
+// Undefined values drop a character's own value, leaving the text's
+const NO_CHARACTER_PROPS = Object.fromEntries(CHARACTER_PROPS.map((prop) => [prop, undefined]));
+
+const characterStyleIdAt = (text: fabric.IText, index: number) =>
+    (text.getStyleAtPosition(index) as CharStyle)[CHARACTER_STYLE_KEY] as string | undefined;
+
+const refreshText = (text: fabric.IText) => {
+    text.initDimensions();
+    text.setCoords();
+    text.set('dirty', true);
+};
+
+const collectTexts = (objects: fabric.Object[], found: fabric.IText[] = []) => {
+    objects.forEach((obj) => {
+        if (obj instanceof fabric.IText) found.push(obj);
+        else if (obj instanceof fabric.Group) collectTexts(obj.getObjects(), found);
+    });
+    return found;
+};
+
+/** The paragraph style of `text`, if the design still has it. */
+export const findParagraphStyle = (styles: TextStyleSheet[], text: fabric.IText) => {
+    const id = (text as ExtendedFabricObject).paragraphStyleId;
+    return id ? styles.find((style) => style.id === id && style.kind === 'paragraph') : undefined;
+};
+
+/** The character style of the characters `getStyleRange` picks, if they all share one. */
+export const findCharacterStyle = (styles: TextStyleSheet[], text: fabric.IText) => {
+    const { start, end } = getStyleRange(text);
+    if (end <= start) return undefined;
+    const id = characterStyleIdAt(text, start);
+    for (let index = start + 1; index < end; index++) {
+        if (characterStyleIdAt(text, index) !== id) return undefined;
+    }
+    return id ? styles.find((style) => style.id === id && style.kind === 'character') : undefined;
+};
+
+/**
+ * The formatting of `text` as a style of `kind`: the text's own for a paragraph style, that of
+ * the first picked character for a character style.
+ */
+export const captureTextStyle = (text: fabric.IText, kind: TextStyleKind): Omit<TextStyleSheet, 'id' | 'name'> => {
+    const source = kind === 'paragraph'
+        ? text as unknown as CharStyle
+        : text.getStyleAtPosition(getStyleRange(text).start, true) as CharStyle;
+    const fill = source.fill;
+    const style: Omit<TextStyleSheet, 'id' | 'name'> = {
+        kind,
+        fontFamily: String(source.fontFamily ?? text.fontFamily),
+        fontWeight: String(source.fontWeight ?? text.fontWeight),
+        fontStyle: String(source.fontStyle ?? text.fontStyle),
+        fontSize: Number(source.fontSize ?? text.fontSize),
+        fill: typeof fill === 'string' ? fill : '#000000',
+        underline: Boolean(source.underline),
+    };
+    if (kind === 'paragraph') {
+        style.lineHeight = text.lineHeight;
+        style.charSpacing = text.charSpacing;
+        style.textAlign = text.textAlign;
+        style.textTransform = (text as ExtendedFabricObject).textTransform ?? 'none';
+    }
+    return style;
+};
+
+const applyParagraphStyle = (text: fabric.IText, style: TextStyleSheet) => {
+    // Characters formatted on their own take the style too, unless a character style formats them
+    for (let index = 0; index < text._text.length; index++) {
+        if (!characterStyleIdAt(text, index)) text.setSelectionStyles(NO_CHARACTER_PROPS, index, index + 1);
+    }
+    const { textTransform, ...props } = pickProps(style, PARAGRAPH_PROPS);
+    text.set({ ...props, paragraphStyleId: style.id });
+    setTextTransform(text, (textTransform as TextTransform | undefined) ?? 'none');
+};
+
+/**
+ * Give `text` a style of the design, or unlink it from its style of that kind with `null`.
+ * Paragraph styles format the whole text; character styles format the selected characters, or
+ * every character when the text is not being edited, and removing one sets the characters back
+ * to the paragraph's formatting.
+ */
+export const applyTextStyleSheet = (text: fabric.IText, kind: TextStyleKind, style: TextStyleSheet | null) => {
+    if (kind === 'paragraph') {
+        if (style) applyParagraphStyle(text, style);
+        else text.set('paragraphStyleId', undefined);
+    } else {
+        const { start, end } = getStyleRange(text);
+        text.setSelectionStyles(style
+            ? { ...pickProps(style, CHARACTER_PROPS), [CHARACTER_STYLE_KEY]: style.id }
+            : { ...NO_CHARACTER_PROPS, [CHARACTER_STYLE_KEY]: undefined }, start, end);
+    }
+    refreshText(text);
+};
+
+export type TextStyleOverrides = {
+    /** Properties of the paragraph style the text or its unstyled characters set differently */
+    properties: TextStyleProp[];
+    /** Characters that differ from their character style */
+    characters: number;
+};
+
+/** Where `text` departs from the styles it uses. */
+export const findTextStyleOverrides = (styles: TextStyleSheet[], text: fabric.IText): TextStyleOverrides => {
+    const paragraph = findParagraphStyle(styles, text);
+    const properties = new Set<TextStyleProp>();
+    let characters = 0;
+
+    if (paragraph) {
+        PARAGRAPH_PROPS.forEach((prop) => {
+            if (paragraph[prop] !== undefined && !sameValue(prop, readTextProp(text, prop), paragraph[prop])) properties.add(prop);
+        });
+    }
+    for (let index = 0; index < text._text.length; index++) {
+        const own = text.getStyleAtPosition(index) as CharStyle;
+        const id = own[CHARACTER_STYLE_KEY];
+        if (!id) {
+            if (paragraph) {
+                CHARACTER_PROPS.forEach((prop) => {
+                    if (own[prop] !== undefined && !sameValue(prop, own[prop], paragraph[prop])) properties.add(prop);
+                });
+            }
+            continue;
+        }
+        const style = styles.find((item) => item.id === id);
+        if (!style) continue;
+        const complete = text.getStyleAtPosition(index, true) as CharStyle;
+        if (CHARACTER_PROPS.some((prop) => !sameValue(prop, complete[prop], style[prop]))) characters++;
+    }
+    return { properties: PARAGRAPH_PROPS.filter((prop) => properties.has(prop)), characters };
+};
+
+export const hasTextStyleOverrides = ({ properties, characters }: TextStyleOverrides) => properties.length > 0 || characters > 0;
+
+/** Drop every override, so the text and its characters look exactly like their styles again. */
+export const resetTextStyleOverrides = (styles: TextStyleSheet[], text: fabric.IText) => {
+    const paragraph = findParagraphStyle(styles, text);
+    if (paragraph) applyParagraphStyle(text, paragraph);
+    for (let index = 0; index < text._text.length; index++) {
+        const style = styles.find((item) => item.id === characterStyleIdAt(text, index));
+        if (style) text.setSelectionStyles(pickProps(style, CHARACTER_PROPS), index, index + 1);
+    }
+    refreshText(text);
+};
+
+/** Add a style to the design. */
+export const addTextStyle = (canvas: fabric.Canvas, style: TextStyleSheet) => setTextStyles(canvas, [...getTextStyles(canvas), style]);
+
+/**
+ * Replace the style with the same id and bring the text using it along: values a text or
+ * character still shares with the old style take the new one, overrides stay. Returns the text
+ * objects that changed.
+ */
+export const updateTextStyle = (canvas: fabric.Canvas, style: TextStyleSheet) => {
+    const styles = getTextStyles(canvas);
+    const previous = styles.find((item) => item.id === style.id);
+    if (!previous) return [];
+    setTextStyles(canvas, styles.map((item) => (item.id === style.id ? style : item)));
+
+    const changed = PARAGRAPH_PROPS.filter((prop) => !sameValue(prop, previous[prop], style[prop]));
+    if (changed.length === 0) return [];
+
+    const updated: fabric.IText[] = [];
+    collectTexts(canvas.getObjects()).forEach((text) => {
+        let touched = false;
+        if (style.kind === 'paragraph' && (text as ExtendedFabricObject).paragraphStyleId === style.id) {
+            changed.forEach((prop) => {
+                if (!sameValue(prop, readTextProp(text, prop), previous[prop])) return;
+                if (prop === 'textTransform') setTextTransform(text, style.textTransform ?? 'none');
+                else text.set(prop, style[prop]);
+                touched = true;
+            });
+        }
+        if (style.kind === 'character') {
+            const characterChanges = changed.filter((prop): prop is typeof CHARACTER_PROPS[number] => (CHARACTER_PROPS as readonly string[]).includes(prop));
+            for (let index = 0; index < text._text.length; index++) {
+                if (characterStyleIdAt(text, index) !== style.id) continue;
+                const complete = text.getStyleAtPosition(index, true) as CharStyle;
+                const shared = characterChanges.filter((prop) => sameValue(prop, complete[prop], previous[prop]));
+                if (shared.length === 0) continue;
+                text.setSelectionStyles(Object.fromEntries(shared.map((prop) => [prop, style[prop]])), index, index + 1);
+                touched = true;
+            }
+        }
+        if (touched) {
+            refreshText(text);
+            updated.push(text);
+        }
+    });
+    return updated;
+};
+
+/** Remove a style from the design; the text using it keeps its formatting. */
+export const deleteTextStyle = (canvas: fabric.Canvas, id: string) => {
+    setTextStyles(canvas, getTextStyles(canvas).filter((style) => style.id !== id));
+    collectTexts(canvas.getObjects()).forEach((text) => {
+        if ((text as ExtendedFabricObject).paragraphStyleId === id) text.set('paragraphStyleId', undefined);
+        for (let index = 0; index < text._text.length; index++) {
+            if (characterStyleIdAt(text, index) === id) text.setSelectionStyles({ [CHARACTER_STYLE_KEY]: undefined }, index, index + 1);
+        }
+    });
+};
+
+/**
+ * Copy the brand kit's text styles into the design as paragraph styles, skipping names the
+ * design already has. Returns how many were added.
+ */
+export const addBrandTextStyles = (canvas: fabric.Canvas, brandStyles: BrandTextStyle[]) => {
+    const styles = getTextStyles(canvas);
+    const names = new Set(styles.filter((style) => style.kind === 'paragraph').map((style) => style.name));
+    const added: TextStyleSheet[] = brandStyles
+        .filter((brandStyle) => !names.has(brandStyle.name))
+        .map((brandStyle) => ({
+            id: createTextStyleId(),
+            name: brandStyle.name,
+            kind: 'paragraph',
+            fontFamily: brandStyle.fontFamily,
+            fontWeight: brandStyle.fontWeight,
+            fontStyle: 'normal',
+            fontSize: brandStyle.fontSize,
+            fill: brandStyle.fill ?? '#000000',
+            underline: false,
+            lineHeight: brandStyle.lineHeight,
+            charSpacing: brandStyle.charSpacing,
+        }));
+    if (added.length > 0) setTextStyles(canvas, [...styles, ...added]);
+    return added.length;
+};
@@ -0,0 +1,63 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { BrandKit } from '@/types';
+import { BrandKitState, EMPTY_BRAND_KIT, fetchBrandKit, saveBrandKit } from '@/lib/brand-kit';
+
+interface BrandKitContextType extends BrandKitState {
+    isLoaded: boolean;
+    /** Fetch the kit unless it is loaded already, or again when `force` is set */
+    load: (force?: boolean) => Promise<void>;
+    save: (kit: BrandKit) => Promise<BrandKit>;
+}
+
+const BrandKitContext = createContext<BrandKitContextType | null>(null);
+
+/**
+ * The brand kit, shared by every colour picker and text panel. It is fetched when the first of
+ * them mounts, since the app shell renders before anyone is signed in.
+ */
+export function useBrandKit() {
+    const context = useContext(BrandKitContext);
+    if (!context) {
+        throw new Error('useBrandKit must be used within a BrandKitProvider');
+    }
+    const { load } = context;
+    useEffect(() => {
+        load();
+    }, [load]);
+    return context;
+}
+
+export function BrandKitProvider({ children }: { children: React.ReactNode }) {
+    const [state, setState] = useState<BrandKitState>({ kit: EMPTY_BRAND_KIT, space: 'personal', editable: false });
+    const [isLoaded, setIsLoaded] = useState(false);
+    const request = useRef<Promise<void> | null>(null);
+
+    const load = useCallback((force = false) => {
+        if (request.current && !force) return request.current;
+        const next = fetchBrandKit()
+            .then((result) => {
+                setState(result);
+                setIsLoaded(true);
+            })
+            .catch((error) => {
+                // Signed out or offline: try again the next time the kit is needed
+                console.error('Failed to load brand kit:', error);
+                if (request.current === next) request.current = null;
+            });
+        request.current = next;
+        return next;
+    }, []);
+
+    const save = useCallback(async (kit: BrandKit) => {
+        const result = await saveBrandKit(kit);
+        setState(result);
+        setIsLoaded(true);
+        return result.kit;
+    }, []);
+
+    const value = useMemo(() => ({ ...state, isLoaded, load, save }), [state, isLoaded, load, save]);
+
+    return <BrandKitContext.Provider value={value}>{children}</BrandKitContext.Provider>;
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { UploadedFont, fetchUploadedFonts, registerFont } from '@/lib/fonts';
+
+interface FontContextType {
+    fonts: UploadedFont[];
+    isLoaded: boolean;
+    /** List the library's fonts unless that happened already, or again when `force` is set */
+    load: (force?: boolean) => Promise<void>;
+}
+
+const FontContext = createContext<FontContextType | null>(null);
+
+/**
+ * The fonts uploaded to the asset library, registered with the browser as they are listed so
+ * font menus can preview them. Listed when the first user mounts, like the brand kit.
+ */
+export function useUploadedFonts() {
+    const context = useContext(FontContext);
+    if (!context) {
+        throw new Error('useUploadedFonts must be used within a FontProvider');
+    }
+    const { load } = context;
+    useEffect(() => {
+        load();
+    }, [load]);
+    return context;
+}
+
+export function FontProvider({ children }: { children: React.ReactNode }) {
+    const [fonts, setFonts] = useState<UploadedFont[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const request = useRef<Promise<void> | null>(null);
+
+    const load = useCallback((force = false) => {
+        if (request.current && !force) return request.current;
+        const next = fetchUploadedFonts()
+            .then((result) => {
+                result.forEach((font) => void registerFont(font));
+                setFonts(result);
+                setIsLoaded(true);
+            })
+            .catch((error) => {
+                // Signed out or offline: try again the next time the fonts are needed
+                console.error('Failed to load fonts:', error);
+                if (request.current === next) request.current = null;
+            });
+        request.current = next;
+        return next;
+    }, []);
+
+    const value = useMemo(() => ({ fonts, isLoaded, load }), [fonts, isLoaded, load]);
+
+    return <FontContext.Provider value={value}>{children}</FontContext.Provider>;
+}
@@ -93,6 +93,111 @@ export interface ExtendedFabricObject extends fabric.Object {
     adjustmentType?: AdjustmentLayerType;
     adjustmentSettings?: AdjustmentLayerSettings;
     baseFilters?: FabricBaseFilter[];
+    isArtboard?: boolean;
+    artboardId?: string;
+    /** Data merge variable this text or image is filled from, see src/lib/data-merge.ts */
+    variableName?: string;
+    /** Layout constraint used when the page is resized; inferred from its position when unset */
+    resizeAnchor?: ResizeAnchor;
+    /** Set on groups that lay their children out as a stack, see src/lib/stack-layout.ts */
+    stackLayout?: StackLayout;
+    /** Inside a stack: stretch across it, and share the free space of a fixed-size stack */
+    stackFill?: boolean;
+    /** Library component this group is the master or an instance of, see src/lib/components.ts */
+    componentId?: string;
+    componentRole?: ComponentRole;
+    /** Space whose library holds the component */
+    componentSpace?: WorkspaceSpace;
+    /** The library version a master was last published as, or an instance was last built from */
+    componentVersion?: number;
+    /** Instances: text, fill and image changes, by the `componentKey` of the layer they apply to */
+    componentOverrides?: Record<string, ComponentOverride>;
+    /** Layers inside a master or instance: matches the same layer across all copies */
+    componentKey?: string;
+    /** Text: drawn in capitals or small capitals while the typed text stays as it is, see src/lib/rich-text.ts */
+    textTransform?: TextTransform;
+    /** Text: id of the shape or path it is set along, see src/lib/text-path.ts */
+    textPathId?: string;
+    /** Text: id of the design's paragraph style it uses, see src/lib/text-styles.ts */
+    paragraphStyleId?: string;
+    /** Text boxes: how text longer or shorter than the box is handled, see src/lib/text-fit.ts */
+    textFit?: TextFit;
+    /** Truncated text boxes: the whole text, of which the box shows what fits */
+    textFitSource?: string;
+    /** Truncated text boxes: the character styles of the whole text */
+    textFitSourceStyles?: fabric.TextStyle;
+    /** Text boxes: set while the text does not fit its box; not saved */
+    textOverflow?: boolean;
+}
+
+export type HorizontalAnchor = 'left' | 'center' | 'right' | 'left-right' | 'scale';
+export type VerticalAnchor = 'top' | 'center' | 'bottom' | 'top-bottom' | 'scale';
+
+/**
+ * Per-axis layout constraint, see src/lib/layout-constraints.ts: keep the distance to one edge
+ * or the centre, keep both edge distances and stretch, or scale with the page.
+ */
+export interface ResizeAnchor {
+    horizontal: HorizontalAnchor;
+    vertical: VerticalAnchor;
+}
+
+export type TextTransform = 'none' | 'uppercase' | 'small-caps';
+export type TextScript = 'none' | 'superscript' | 'subscript';
+export type TextListType = 'bullet' | 'number';
+
+export type TextFitMode = 'grow-height' | 'grow-width' | 'shrink' | 'truncate';
+
+export interface TextFit {
+    mode: TextFitMode;
+    /** Shrink and truncate: the box the text has to fit in */
+    width?: number;
+    height?: number;
+    /** Shrink: the range the font size is picked from */
+    minFontSize?: number;
+    maxFontSize?: number;
+}
+
+export type TextStyleKind = 'paragraph' | 'character';
+
+/**
+ * A named style of a design such as "H1" or "Emphasis". Paragraph styles format whole text
+ * objects; character styles format runs of characters within them.
+ */
+export interface TextStyleSheet {
+    id: string;
+    name: string;
+    kind: TextStyleKind;
+    fontFamily: string;
+    fontWeight: string;
+    fontStyle: string;
+    fontSize: number;
+    fill: string;
+    underline: boolean;
+    /** Paragraph styles only */
+    lineHeight?: number;
+    /** Paragraph styles only; thousandths of an em, as Fabric's `charSpacing` */
+    charSpacing?: number;
+    /** Paragraph styles only */
+    textAlign?: string;
+    /** Paragraph styles only */
+    textTransform?: TextTransform;
+}
+
+export type StackDirection = 'horizontal' | 'vertical';
+export type StackAlign = 'start' | 'center' | 'end';
+
+/**
+ * Auto layout for a group: children in layer order, bottom layer first, with `gap` between
+ * them and `padding` around them. A hugging stack fits its children; a fixed one keeps its size.
+ */
+export interface StackLayout {
+    direction: StackDirection;
+    gap: number;
+    padding: number;
+    /** Where children sit across the stack */
+    align: StackAlign;
+    sizing: 'hug' | 'fixed';
 }
 
 export interface CanvasElement {
@@ -115,7 +220,6 @@ export interface BackgroundJob {
     status: 'PENDING' | 'IN_PROGRESS' | 'SUCCEEDED' | 'FAILED';
     progress?: number;
     prompt?: string;
-    apiKey: string;
     createdAt: number;
     resultUrl?: string;
     thumbnailUrl?: string; // If available
@@ -137,7 +241,7 @@ export interface GoogleDriveConfig {
     clientId?: string;
 }
 
-export type AssetType = 'images' | 'models' | 'videos' | 'audio';
+export type AssetType = 'images' | 'models' | 'videos' | 'audio' | 'fonts';
 export type AssetCategory = 'uploads' | 'generated';
 
 export interface AssetDescriptor {
@@ -145,10 +249,41 @@ export interface AssetDescriptor {
     path: string;
     type: AssetType;
     category: AssetCategory;
+    space?: WorkspaceSpace;
 }
 
 export type CurvePoint = { x: number; y: number };
 
+export interface SnapSettings {
+    enabled: boolean;
+    threshold: number; // Screen pixels
+}
+
+/** A page of a design. Positions are in scene coordinates on the infinite canvas. */
+export interface Artboard {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    left: number;
+    top: number;
+    background: string;
+}
+
+export interface HistorySnapshot {
+    objects: Record<string, unknown>[];
+    backgroundColor: string;
+    artboards?: Artboard[];
+    textStyles?: TextStyleSheet[];
+}
+
+export interface HistoryEntry {
+    id: number;
+    label: string;
+    timestamp: number;
+    snapshot: HistorySnapshot;
+}
+
 export type LayerNode = {
     id: string;
     obj: fabric.Object;
@@ -157,6 +292,182 @@ export type LayerNode = {
     children: LayerNode[];
 };
 
+export type UserRole = 'admin' | 'member';
+
+/** The signed-in account as exposed to the client (never includes credentials). */
+export interface AuthUser {
+    id: string;
+    username: string;
+    role: UserRole;
+}
+
+/** Where a design, template or asset lives: the owner's private space or the shared team space. */
+export type WorkspaceSpace = 'personal' | 'team';
+
+export type ApiKeyProvider = 'meshy' | 'tripo' | 'hitems' | 'stability' | 'openai' | 'google' | 'banana';
+
+/** What the client may know about a vaulted key; the key itself never leaves the server. */
+export interface ApiKeyStatus {
+    provider: ApiKeyProvider;
+    configured: boolean;
+    preview?: string;
+    updatedAt?: number;
+    validatedAt?: number;
+    valid?: boolean;
+}
+
+/** What the server knows about a saved design besides its canvas JSON. */
+export interface DesignMeta {
+    id: string;
+    name: string;
+    description?: string;
+    createdAt: number;
+    updatedAt: number;
+    owner: Pick<AuthUser, 'id' | 'username'>;
+    /** Size of the first page */
+    width?: number;
+    height?: number;
+    pageCount?: number;
+    tags: string[];
+    /** Slash-separated folder path; empty for the top level */
+    folder: string;
+    /** Set on copies made by "Resize to…": the design they were resized from */
+    resizedFrom?: { id: string; name: string };
+}
+
+/** A design as listed for the dashboard. */
+export interface DesignSummary extends DesignMeta {
+    space: WorkspaceSpace;
+    /** `/api/files/...` URLs of the design JSON and thumbnail */
+    data: string;
+    image: string;
+    /** Same as `updatedAt`; kept for older clients */
+    lastModified: number;
+    /** Pinned as a favourite by the current user */
+    pinned: boolean;
+}
+
+/** One saved state of a design. Version numbers only ever grow, even after old versions are pruned. */
+export interface DesignVersion {
+    version: number;
+    createdAt: number;
+    author: Pick<AuthUser, 'id' | 'username'>;
+    label?: string;
+    /** Set when this version was created by restoring an older one */
+    restoredFrom?: number;
+    /** `/api/files/...` URLs of the version's JSON and thumbnail */
+    data: string;
+    image?: string;
+}
+
+/** How many versions are kept per design. Labelled versions and the newest version are never pruned. */
+export interface VersionRetention {
+    /** 0 keeps every version */
+    maxVersions: number;
+    /** 0 keeps versions regardless of age */
+    maxAgeDays: number;
+}
+
+export type ComponentRole = 'master' | 'instance';
+
+/** What an instance changes about one of its layers; everything else follows the master. */
+export interface ComponentOverride {
+    text?: string;
+    fill?: string;
+    /** Image layers: the replacement image's URL */
+    src?: string;
+}
+
+/** A reusable component in a space's library. Instances are rebuilt from `data` when the version moves on. */
+export interface ComponentSummary {
+    id: string;
+    name: string;
+    space: WorkspaceSpace;
+    /** Grows by one every time the master is published */
+    version: number;
+    updatedAt: number;
+    author: Pick<AuthUser, 'id' | 'username'>;
+    /** The saved design holding the master, in the same space, if it still exists */
+    masterDesign?: { id: string; name: string; data: string };
+    /** `/api/files/...` URLs of the master's JSON and thumbnail */
+    data: string;
+    image: string;
+}
+
+export interface BrandColor {
+    name: string;
+    /** Lower-case `#rrggbb` */
+    value: string;
+}
+
+export interface BrandPalette {
+    id: string;
+    name: string;
+    colors: BrandColor[];
+}
+
+export interface BrandLogo {
+    id: string;
+    name: string;
+    /** `/api/files/...` URL of an asset in the brand kit's space */
+    src: string;
+}
+
+/** A named text preset such as "Heading" or "Body". */
+export interface BrandTextStyle {
+    id: string;
+    name: string;
+    fontFamily: string;
+    fontWeight: string;
+    fontSize: number;
+    fill?: string;
+    lineHeight?: number;
+    /** Thousandths of an em, as Fabric's `charSpacing` */
+    charSpacing?: number;
+}
+
+/** Colours, fonts, logos and text styles designs are expected to stick to. */
+export interface BrandKit {
+    palettes: BrandPalette[];
+    /** Approved font families; an empty list approves every font */
+    fonts: string[];
+    logos: BrandLogo[];
+    textStyles: BrandTextStyle[];
+    updatedAt?: number;
+}
+
+/** Editor state autosaved since the last explicit save, offered back on the dashboard after a crash. */
+export interface RecoverySlot {
+    /** Identifies one editing session */
+    slot: string;
+    /** The saved design this state belongs to, or null for a design that was never saved */
+    designId: string | null;
+    space: WorkspaceSpace;
+    name: string;
+    savedAt: number;
+    /** `/api/files/...` URLs of the autosaved JSON and thumbnail */
+    data: string;
+    image?: string;
+}
+
+export type TrashItemKind = 'design' | 'template' | 'asset' | 'component';
+
+/** A deleted design, template, asset or component waiting in its space's trash to be restored or purged. */
+export interface TrashItem {
+    id: string;
+    kind: TrashItemKind;
+    name: string;
+    space: WorkspaceSpace;
+    /** Where it lived, relative to its space, e.g. "uploads/images/logo.png" */
+    originalPath: string;
+    deletedAt: number;
+    deletedBy: { id: string; username: string };
+    /** When it will be purged automatically, or null if the trash is kept until emptied */
+    purgeAt: number | null;
+    /** `/api/files/...` URL of a preview inside the trash */
+    image?: string;
+}
+
 declare global {
     interface DesktopBridge {
         isDesktop?: boolean;